@@ -0,0 +1,286 @@
+/**
+ * Tests for option chain ingestion, replay and snapshot comparison
+ */
+
+import { describe, it, expect } from 'bun:test'
+import {
+  parseExpiry,
+  parseInstrumentName,
+  importChainCsv,
+  importChainColumnar,
+  importVenueChain,
+} from './ingest.ts'
+import { chainToQuotes, chainToSurface, createChainPlaylist } from './replay.ts'
+import { bucketMoves, compareSnapshots, formatBucketMove } from './compare.ts'
+import { createMockSnapshot, playPlaylist, type VolatilitySnapshot } from './volatility.ts'
+import { createChain, createChainQuote, type OptionChain } from '../data/chain.ts'
+import { createSurface, getZ } from '../data/surface.ts'
+import { linspace } from '../data/vec.ts'
+import { black76Price } from '../pricing/blackscholes.ts'
+import { resampleSurface } from '../surface/interpolate.ts'
+
+const DEC27 = Date.UTC(2024, 11, 27, 8)
+const NOW = Date.UTC(2024, 10, 27, 8)
+const DAY = 24 * 60 * 60 * 1000
+
+describe('Chain parsing helpers', () => {
+  it('should parse expiry formats', () => {
+    expect(parseExpiry('27DEC24')).toBe(DEC27)
+    expect(parseExpiry('241227')).toBe(DEC27)
+    expect(parseExpiry(DEC27)).toBe(DEC27)
+    expect(parseExpiry(DEC27 / 1000)).toBe(DEC27)
+    expect(parseExpiry('2024-12-27T08:00:00Z')).toBe(DEC27)
+    expect(parseExpiry('soon')).toBeNaN()
+  })
+
+  it('should parse Deribit and OKX instrument names', () => {
+    expect(parseInstrumentName('BTC-27DEC24-60000-C')).toEqual({
+      underlying: 'BTC',
+      expiry: DEC27,
+      strike: 60000,
+      type: 'call',
+    })
+    expect(parseInstrumentName('BTC-USD-241227-55000-P')).toEqual({
+      underlying: 'BTC-USD',
+      expiry: DEC27,
+      strike: 55000,
+      type: 'put',
+    })
+    expect(parseInstrumentName('XRP_USDC-27DEC24-0d625-C')!.strike).toBe(0.625)
+    expect(parseInstrumentName('BTC-PERPETUAL')).toBeNull()
+  })
+})
+
+describe('Chain importers', () => {
+  it('should import CSV with custom columns and percent IVs', () => {
+    const csv = [
+      'K;Expiry;CP;Bid;Ask;IV;Fwd',
+      '60000;27DEC24;P;850;900;55;70000',
+      '80000;27DEC24;C;1100;1150;52;70000',
+    ].join('\n')
+
+    const chain = importChainCsv(csv, {
+      delimiter: ';',
+      columns: { strike: 'K', expiry: 'Expiry', type: 'CP', bid: 'Bid', ask: 'Ask', markIv: 'IV', underlyingPrice: 'Fwd' },
+      ivPercent: true,
+      underlying: 'BTC',
+      timestamp: NOW,
+    })
+
+    expect(chain.underlying).toBe('BTC')
+    expect(chain.spot).toBe(70000)
+    expect(chain.quotes.length).toBe(2)
+    expect(chain.quotes[0]).toMatchObject({ type: 'put', strike: 60000, expiry: DEC27, bid: 850, markIv: 0.55 })
+    expect(chain.quotes[1]!.last).toBeNaN()
+  })
+
+  it('should fill type, strike and expiry from instrument names', () => {
+    const chain = importChainCsv('instrument,bid\nBTC-27DEC24-60000-P,0.01\n', { timestamp: NOW })
+    expect(chain.underlying).toBe('BTC')
+    expect(chain.quotes[0]).toMatchObject({ type: 'put', strike: 60000, expiry: DEC27 })
+    expect(() => importChainCsv('bid\n0.01\n')).toThrow('record 1')
+  })
+
+  it('should import columnar JSON dumps', () => {
+    const chain = importChainColumnar({
+      underlying: 'ETH',
+      timestamp: NOW,
+      spot: 3500,
+      strike: [3000, 4000],
+      expiry: [DEC27, DEC27],
+      type: ['put', 'call'],
+      ask: [55, 60],
+    })
+    expect(chain.underlying).toBe('ETH')
+    expect(chain.spot).toBe(3500)
+    expect(chain.quotes.map((q) => q.ask)).toEqual([55, 60])
+    expect(() => importChainColumnar({ strike: [1, 2], expiry: [DEC27] })).toThrow('expected 2')
+  })
+
+  it('should import Deribit book summaries in quote currency', () => {
+    const chain = importVenueChain({
+      result: [
+        {
+          instrument_name: 'BTC-27DEC24-60000-P',
+          bid_price: 0.012,
+          ask_price: 0.013,
+          mark_iv: 55.5,
+          underlying_price: 70000,
+          open_interest: 120,
+          volume: 5,
+          creation_timestamp: NOW,
+        },
+        { instrument_name: 'BTC-PERPETUAL', mark_price: 70000 },
+      ],
+    })
+
+    expect(chain.quotes.length).toBe(1)
+    expect(chain.timestamp).toBe(NOW)
+    const q = chain.quotes[0]!
+    expect(q.bid).toBeCloseTo(840, 9)
+    expect(q.ask).toBeCloseTo(910, 9)
+    expect(q.markIv).toBeCloseTo(0.555, 12)
+    expect(q.openInterest).toBe(120)
+  })
+
+  it('should import OKX tickers and option summaries', () => {
+    const chain = importVenueChain({
+      data: [
+        { instId: 'BTC-USD-241227-80000-C', bidPx: '0.015', askPx: '0.016', markVol: '0.52', fwdPx: '70400', ts: String(NOW) },
+      ],
+    })
+    const q = chain.quotes[0]!
+    expect(q.type).toBe('call')
+    expect(q.bid).toBeCloseTo(0.015 * 70400, 9)
+    expect(q.markIv).toBeCloseTo(0.52, 12)
+    expect(chain.timestamp).toBe(NOW)
+  })
+})
+
+describe('Chain replay', () => {
+  // Flat 60% vol chain priced with Black-76
+  function flatChain(timestamp: number, vol = 0.6): OptionChain {
+    const quotes = []
+    for (const days of [30, 60, 90]) {
+      const expiry = timestamp + days * DAY
+      for (const strike of [50000, 60000, 65000, 70000, 75000, 80000, 90000]) {
+        for (const type of ['call', 'put'] as const) {
+          const price = black76Price({ type, forward: 70000, strike, T: days / 365, vol })
+          quotes.push(createChainQuote({ type, strike, expiry, bid: price * 0.99, ask: price * 1.01, underlyingPrice: 70000 }))
+        }
+      }
+    }
+    return createChain('BTC', timestamp, 70000, quotes)
+  }
+
+  it('should convert chains to builder quotes', () => {
+    const chain = flatChain(NOW)
+    const expired = createChainQuote({ type: 'call', strike: 70000, expiry: NOW - DAY, bid: 1 })
+    const quotes = chainToQuotes({ ...chain, quotes: [...chain.quotes, expired] })
+    expect(quotes.length).toBe(chain.quotes.length)
+    expect(quotes[0]!.expiry).toBeCloseTo(30 / 365, 12)
+  })
+
+  it('should rebuild the surface from out-of-the-money quotes', () => {
+    const result = chainToSurface(flatChain(NOW), { nx: 3, ny: 5 })
+    expect(result.fits.length).toBe(21)
+    for (const v of result.surface.z) {
+      expect(v).toBeCloseTo(0.6, 3)
+    }
+  })
+
+  it('should build a playlist in the TUI surface layout', () => {
+    const playlist = createChainPlaylist([flatChain(NOW + DAY, 0.7), flatChain(NOW)])
+    expect(playlist.snapshots.length).toBe(2)
+
+    const [first, second] = playlist.snapshots
+    expect(first!.timestamp).toBe(NOW / 1000)
+    expect(second!.blockNumber).toBe(1)
+    expect(first!.surface.meta.xLabel).toBe('Expiry (days)')
+    expect(first!.surface.x[0]).toBeCloseTo(30, 9)
+    expect(first!.surface.y[0]).toBeCloseTo(70, 9)
+    expect(second!.surface.z[0]!).toBeCloseTo(0.7, 3)
+  })
+
+  it('should play a playlist from its current snapshot to the last', async () => {
+    const playlist = createChainPlaylist([flatChain(NOW), flatChain(NOW + DAY), flatChain(NOW + 2 * DAY)], {
+      playbackSpeed: 10,
+    })
+    playlist.currentIndex = 1
+
+    const played: number[] = []
+    const stop = playPlaylist(playlist, (snapshot, index) => played.push(index, snapshot.blockNumber))
+    // The current snapshot right away, the next one a tick later
+    expect(played).toEqual([1, 1])
+    for (let i = 0; i < 40 && played.length < 4; i++) await Bun.sleep(25)
+    await Bun.sleep(50)
+    stop()
+
+    expect(played).toEqual([1, 1, 2, 2])
+    expect(playlist.currentIndex).toBe(1)
+  })
+})
+
+describe('Snapshot comparison', () => {
+  // Snapshot over strikes 80..120 and 7..91 days, IV from (strike, days)
+  function snapshot(nx: number, ny: number, iv: (strike: number, days: number) => number): VolatilitySnapshot {
+    const x = linspace(80, 120, nx)
+    const y = linspace(7, 91, ny)
+    const z = new Float64Array(nx * ny)
+    for (let i = 0; i < nx; i++) {
+      for (let j = 0; j < ny; j++) z[i * ny + j] = iv(x[i]!, y[j]!)
+    }
+    const surface = createSurface(x, y, z, { x: 'Strike %', y: 'Expiry (days)', z: 'IV' })
+    return { ...createMockSnapshot(18_000_000, 1_700_000_000), surface }
+  }
+
+  it('should diff snapshots on the same grid', () => {
+    const before = snapshot(5, 4, () => 0.5)
+    const after = snapshot(5, 4, (strike) => (strike < 90 ? 0.6 : 0.5))
+    const result = compareSnapshots(before, after)
+
+    expect(result.diff.meta.zLabel).toBe('ΔIV')
+    expect(result.diff.nx).toBe(5)
+    expect(result.min).toBe(0)
+    expect(result.max).toBeCloseTo(0.1, 12)
+    // Only the 80 strike moved (nodes 0..3)
+    expect(Array.from(result.diff.z, (v) => Number(v.toFixed(6)))).toEqual([
+      0.1, 0.1, 0.1, 0.1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0,
+    ])
+  })
+
+  it('should resample mismatched grids over the range they share', () => {
+    const before = snapshot(3, 3, (strike, days) => 0.4 + strike / 1000 + days / 1000)
+    const after = snapshot(5, 4, (strike, days) => 0.45 + strike / 1000 + days / 1000)
+    const result = compareSnapshots(before, after)
+    expect([result.diff.nx, result.diff.ny]).toEqual([5, 4])
+    // Planes resample exactly, so the change is the same everywhere
+    for (const v of result.diff.z) expect(v).toBeCloseTo(0.05, 9)
+
+    // Strikes 70..130 against 80..120: only 80..120 is compared
+    const wider = snapshot(7, 4, (strike, days) => 0.45 + strike / 1000 + days / 1000)
+    const shifted = { ...wider, surface: { ...wider.surface, x: linspace(70, 130, 7) } }
+    const overlapping = compareSnapshots(before, shifted)
+    expect([overlapping.diff.x[0], overlapping.diff.x[overlapping.diff.nx - 1], overlapping.diff.nx]).toEqual([80, 120, 7])
+    expect([overlapping.diff.y[0], overlapping.diff.y[overlapping.diff.ny - 1]]).toEqual([7, 91])
+
+    const apart = { ...after, surface: { ...after.surface, x: linspace(130, 160, 5) } }
+    expect(() => compareSnapshots(before, apart)).toThrow('Surfaces do not overlap')
+  })
+
+  it('should rank bucket moves by size', () => {
+    const before = snapshot(6, 6, () => 0.5)
+    // Low strikes of the front expiries up, high strikes of the back down a little
+    const after = snapshot(6, 6, (strike, days) => (strike < 90 && days < 30 ? 0.58 : strike > 110 && days > 70 ? 0.48 : 0.5))
+    const { diff, moves } = compareSnapshots(before, after)
+    expect(moves.length).toBe(9)
+    expect(moves[0]!.xRange).toEqual([80, 88])
+    expect(moves[0]!.yRange).toEqual([7, 23.8])
+    expect(moves[0]!.mean).toBeCloseTo(0.08, 9)
+    expect(moves[0]!.largest).toMatchObject({ x: 80, y: 7 })
+    expect(moves[1]!.mean).toBeCloseTo(-0.02, 9)
+    expect(moves[2]!.mean).toBe(0)
+
+    expect(formatBucketMove(moves[0]!, diff.meta)).toBe('Strike % 80–88 × Expiry (days) 7–23.8  +8.00 pts, max +8.00')
+    expect(bucketMoves(diff, 1, 1)).toHaveLength(1)
+  })
+
+  it('should place moves on the playlist grid', () => {
+    const before = createMockSnapshot(18_000_000, 1_700_000_000)
+    // Bump the 70% strike of the 90 day expiry (6 expiries × 25 strikes)
+    const z = new Float64Array(before.surface.z)
+    z[5 * before.surface.ny + 0] = z[5 * before.surface.ny + 0]! + 0.5
+    const after = { ...before, surface: { ...before.surface, z } }
+    expect(getZ(after.surface, 5, 0) - getZ(before.surface, 5, 0)).toBeCloseTo(0.5, 12)
+
+    const { moves } = compareSnapshots(before, after)
+    expect(moves[0]!.largest).toMatchObject({ x: 90, y: 70 })
+    expect(moves[0]!.largest.change).toBeCloseTo(0.5, 12)
+
+    // Still there once resampled onto a finer grid
+    const finer = { ...after, surface: resampleSurface(after.surface, 11, 49) }
+    const resampled = compareSnapshots(before, finer)
+    expect(resampled.moves[0]!.largest).toMatchObject({ x: 90, y: 70 })
+    expect(resampled.moves[0]!.largest.change).toBeCloseTo(0.5, 9)
+  })
+})
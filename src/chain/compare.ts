@@ -0,0 +1,154 @@
+/**
+ * Snapshot Comparison
+ * The difference between two volatility snapshots' surfaces, and the largest
+ * IV moves by bucket (the surface split into a coarse grid of expiry and
+ * strike ranges)
+ */
+
+import { createSurface, type Surface } from '../data/surface.ts'
+import { sub, type Vec64 } from '../data/vec.ts'
+import { resampleSurface } from '../surface/interpolate.ts'
+import type { VolatilitySnapshot } from './volatility.ts'
+
+/**
+ * Change within one bucket of the grid
+ */
+export interface BucketMove {
+  xRange: [number, number] // Axis values covered by the bucket
+  yRange: [number, number]
+  mean: number // Average change of its nodes
+  largest: { x: number; y: number; change: number } // Its largest single move
+}
+
+export interface SurfaceComparison {
+  before: VolatilitySnapshot
+  after: VolatilitySnapshot
+  diff: Surface<Vec64> // after - before on the common grid (the range both cover)
+  moves: BucketMove[] // Largest average move first
+  min: number
+  max: number
+}
+
+// Buckets along each axis by default (e.g. wings and middle, front to back)
+const DEFAULT_BUCKETS = 3
+
+// Axis values further apart than this (relative to the axis span) are different grids
+const GRID_TOLERANCE = 1e-9
+
+function sameAxis(a: Vec64, b: Vec64): boolean {
+  if (a.length !== b.length) return false
+  const span = Math.abs(a[a.length - 1]! - a[0]!) || 1
+  return a.every((v, i) => Math.abs(v - b[i]!) <= span * GRID_TOLERANCE)
+}
+
+// Common part of two ascending axes, or null when they do not overlap
+function overlap(a: Vec64, b: Vec64): [number, number] | null {
+  const lo = Math.max(a[0]!, b[0]!)
+  const hi = Math.min(a[a.length - 1]!, b[b.length - 1]!)
+  const span = Math.max(a[a.length - 1]! - a[0]!, b[b.length - 1]! - b[0]!) || 1
+  if (hi - lo < -span * GRID_TOLERANCE) return null
+  return [lo, Math.max(lo, hi)]
+}
+
+/**
+ * Put two surfaces on one grid: as they are when their axes match, else both
+ * resampled over the range they share at the finer resolution (nodes outside
+ * either surface are dropped rather than extrapolated)
+ */
+export function alignSurfaces(a: Surface<Vec64>, b: Surface<Vec64>): [Surface<Vec64>, Surface<Vec64>] {
+  if (sameAxis(a.x, b.x) && sameAxis(a.y, b.y)) return [a, b]
+  const xRange = overlap(a.x, b.x)
+  const yRange = overlap(a.y, b.y)
+  if (!xRange || !yRange) {
+    throw new Error(
+      `Surfaces do not overlap: ${a.meta.xLabel} ${a.x[0]}..${a.x[a.nx - 1]} × ${a.meta.yLabel} ${a.y[0]}..${a.y[a.ny - 1]}` +
+        ` vs ${b.x[0]}..${b.x[b.nx - 1]} × ${b.y[0]}..${b.y[b.ny - 1]}`
+    )
+  }
+  // One node along an axis the surfaces only touch on
+  const nx = xRange[0] === xRange[1] ? 1 : Math.max(a.nx, b.nx)
+  const ny = yRange[0] === yRange[1] ? 1 : Math.max(a.ny, b.ny)
+  const range = { x: xRange, y: yRange }
+  return [resampleSurface(a, nx, ny, 'bilinear', range), resampleSurface(b, nx, ny, 'bilinear', range)]
+}
+
+/**
+ * Average and largest change in each of bx × by buckets of node indices,
+ * largest average (by size) first
+ */
+export function bucketMoves(diff: Surface<Vec64>, bx = DEFAULT_BUCKETS, by = DEFAULT_BUCKETS): BucketMove[] {
+  const moves: BucketMove[] = []
+  const xBuckets = Math.max(1, Math.min(bx, diff.nx))
+  const yBuckets = Math.max(1, Math.min(by, diff.ny))
+
+  for (let i = 0; i < xBuckets; i++) {
+    const x0 = Math.floor((i * diff.nx) / xBuckets)
+    const x1 = Math.floor(((i + 1) * diff.nx) / xBuckets)
+    for (let j = 0; j < yBuckets; j++) {
+      const y0 = Math.floor((j * diff.ny) / yBuckets)
+      const y1 = Math.floor(((j + 1) * diff.ny) / yBuckets)
+
+      let sum = 0
+      let largest = { x: diff.x[x0]!, y: diff.y[y0]!, change: 0 }
+      for (let xi = x0; xi < x1; xi++) {
+        for (let yi = y0; yi < y1; yi++) {
+          const change = diff.z[xi * diff.ny + yi]!
+          sum += change
+          if (Math.abs(change) > Math.abs(largest.change)) largest = { x: diff.x[xi]!, y: diff.y[yi]!, change }
+        }
+      }
+      moves.push({
+        xRange: [diff.x[x0]!, diff.x[x1 - 1]!],
+        yRange: [diff.y[y0]!, diff.y[y1 - 1]!],
+        mean: sum / ((x1 - x0) * (y1 - y0)),
+        largest,
+      })
+    }
+  }
+
+  return moves.sort((a, b) => Math.abs(b.mean) - Math.abs(a.mean))
+}
+
+// Signed change in vol points (IV 0.2 -> 20)
+function formatPoints(change: number): string {
+  return `${change >= 0 ? '+' : ''}${(change * 100).toFixed(2)}`
+}
+
+function formatRange([from, to]: [number, number]): string {
+  const short = (value: number) => String(Number(value.toPrecision(4)))
+  return from === to ? short(from) : `${short(from)}–${short(to)}`
+}
+
+/**
+ * One line for a bucket under the surface's axis labels, changes in vol
+ * points (e.g. "Expiry (days) 7–30 × Strike % 80–93  +1.25 pts, max +2.10")
+ */
+export function formatBucketMove(move: BucketMove, labels: { xLabel: string; yLabel: string }): string {
+  return (
+    `${labels.xLabel} ${formatRange(move.xRange)} × ${labels.yLabel} ${formatRange(move.yRange)}` +
+    `  ${formatPoints(move.mean)} pts, max ${formatPoints(move.largest.change)}`
+  )
+}
+
+/**
+ * Compare two snapshots: the IV change from `before` to `after` on a common
+ * grid, with its range and the moves by bucket
+ */
+export function compareSnapshots(
+  before: VolatilitySnapshot,
+  after: VolatilitySnapshot,
+  buckets: { x?: number; y?: number } = {}
+): SurfaceComparison {
+  const [a, b] = alignSurfaces(before.surface, after.surface)
+  const z = sub(b.z, a.z)
+  const diff = createSurface(b.x, b.y, z, { x: b.meta.xLabel, y: b.meta.yLabel, z: `Δ${b.meta.zLabel}` })
+
+  let min = 0
+  let max = 0
+  for (const change of z) {
+    min = Math.min(min, change)
+    max = Math.max(max, change)
+  }
+
+  return { before, after, diff, moves: bucketMoves(diff, buckets.x, buckets.y), min, max }
+}
@@ -7,3 +7,6 @@ export * from './config.ts'
 export * from './fork.ts'
 export * from './uniswap.ts'
 export * from './volatility.ts'
+export * from './ingest.ts'
+export * from './replay.ts'
+export * from './compare.ts'
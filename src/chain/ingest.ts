@@ -0,0 +1,368 @@
+/**
+ * Option Chain Ingestion
+ * Offline importers for recorded option chains
+ *
+ * Supported inputs:
+ *   - CSV with a header row and configurable column names
+ *   - Columnar JSON dumps ({ strike: [...], expiry: [...], ... })
+ *   - Deribit/OKX instrument snapshots (book summaries, tickers, opt-summary)
+ *
+ * Venue prices for inverse options are quoted in the underlying coin and
+ * converted to quote currency with each instrument's underlying price.
+ */
+
+import { readFileSync, existsSync } from 'fs'
+import {
+  createChain,
+  createChainQuote,
+  type ChainOptionType,
+  type ChainQuote,
+  type OptionChain,
+} from '../data/chain.ts'
+import { splitCsvLine } from '../data/csv.ts'
+
+/**
+ * Record fields that importers understand
+ */
+export type ChainField =
+  | 'instrument'
+  | 'type'
+  | 'strike'
+  | 'expiry'
+  | 'bid'
+  | 'ask'
+  | 'last'
+  | 'markIv'
+  | 'underlyingPrice'
+  | 'openInterest'
+  | 'volume'
+  | 'timestamp'
+
+export type ChainVenue = 'deribit' | 'okx'
+
+export interface ChainImportOptions {
+  /** Source column name per field (default: the field name) */
+  columns?: Partial<Record<ChainField, string>>
+  /** CSV delimiter */
+  delimiter?: string
+  /** Underlying symbol (default: parsed from instrument names) */
+  underlying?: string
+  /** Snapshot time in Unix ms (default: latest record timestamp, else now) */
+  timestamp?: number
+  /** Spot price (default: median underlying price) */
+  spot?: number
+  /** markIv is in percent (55 = 55%) */
+  ivPercent?: boolean
+  /** Prices are in units of the underlying and need converting */
+  pricesInUnderlying?: boolean
+}
+
+// Deribit and OKX expire at 08:00 UTC
+const VENUE_EXPIRY_HOUR_UTC = 8
+
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC']
+
+/**
+ * Venue field aliases (first present wins)
+ */
+const VENUE_FIELDS: Partial<Record<ChainField, string[]>> = {
+  instrument: ['instrument_name', 'instId'],
+  bid: ['bid_price', 'best_bid_price', 'bidPx'],
+  ask: ['ask_price', 'best_ask_price', 'askPx'],
+  last: ['last', 'last_price', 'lastPx'],
+  markIv: ['mark_iv', 'markVol'],
+  underlyingPrice: ['underlying_price', 'fwdPx', 'index_price', 'idxPx'],
+  openInterest: ['open_interest', 'oi'],
+  volume: ['volume', 'vol24h'],
+  timestamp: ['creation_timestamp', 'timestamp', 'ts'],
+}
+
+function toNumber(value: unknown): number {
+  if (typeof value === 'number') return value
+  if (typeof value === 'string' && value.trim() !== '') return Number(value)
+  return NaN
+}
+
+/**
+ * Parse an expiry into Unix ms
+ * Accepts Unix seconds/ms, ISO dates, Deribit codes (27DEC24) and OKX dates (241227)
+ */
+export function parseExpiry(value: unknown): number {
+  const n = toNumber(value)
+  const text = String(value ?? '').trim().toUpperCase()
+
+  const deribit = /^(\d{1,2})([A-Z]{3})(\d{2})$/.exec(text)
+  if (deribit) {
+    const month = MONTHS.indexOf(deribit[2]!)
+    if (month === -1) return NaN
+    return Date.UTC(2000 + Number(deribit[3]), month, Number(deribit[1]), VENUE_EXPIRY_HOUR_UTC)
+  }
+
+  const okx = /^(\d{2})(\d{2})(\d{2})$/.exec(text)
+  if (okx) {
+    return Date.UTC(2000 + Number(okx[1]), Number(okx[2]) - 1, Number(okx[3]), VENUE_EXPIRY_HOUR_UTC)
+  }
+
+  if (Number.isFinite(n)) {
+    if (n > 1e11) return n // Unix ms
+    if (n > 1e8) return n * 1000 // Unix seconds
+    return NaN
+  }
+
+  const parsed = Date.parse(String(value ?? ''))
+  return Number.isNaN(parsed) ? NaN : parsed
+}
+
+/**
+ * Parse an option type (call/put, C/P)
+ */
+export function parseOptionType(value: unknown): ChainOptionType | null {
+  const text = String(value ?? '').trim().toLowerCase()
+  if (text === 'call' || text === 'c') return 'call'
+  if (text === 'put' || text === 'p') return 'put'
+  return null
+}
+
+/**
+ * Parse Deribit (BTC-27DEC24-60000-C) or OKX (BTC-USD-241227-60000-C) instrument names
+ */
+export function parseInstrumentName(name: string): {
+  underlying: string
+  expiry: number
+  strike: number
+  type: ChainOptionType
+} | null {
+  const parts = name.trim().split('-')
+  if (parts.length < 4) return null
+
+  const type = parseOptionType(parts[parts.length - 1])
+  const strike = toNumber(parts[parts.length - 2]!.replace('d', '.'))
+  const expiry = parseExpiry(parts[parts.length - 3])
+  if (!type || !(strike > 0) || Number.isNaN(expiry)) return null
+
+  return {
+    underlying: parts.slice(0, parts.length - 3).join('-'),
+    expiry,
+    strike,
+    type,
+  }
+}
+
+function median(values: number[]): number {
+  const sorted = values.filter(Number.isFinite).sort((a, b) => a - b)
+  if (sorted.length === 0) return NaN
+  const mid = sorted.length >> 1
+  return sorted.length % 2 ? sorted[mid]! : (sorted[mid - 1]! + sorted[mid]!) / 2
+}
+
+/**
+ * Convert generic records into a chain
+ * @param records - One object per instrument
+ * @param fieldFor - Maps a field to its value in a record
+ */
+function recordsToChain(
+  records: Record<string, unknown>[],
+  fieldFor: (record: Record<string, unknown>, field: ChainField) => unknown,
+  options: ChainImportOptions
+): OptionChain {
+  const ivScale = options.ivPercent ? 0.01 : 1
+  const quotes: ChainQuote[] = []
+  const underlyings = new Set<string>()
+  let latest = NaN
+
+  records.forEach((record, i) => {
+    const instrument = fieldFor(record, 'instrument')
+    const parsed = instrument ? parseInstrumentName(String(instrument)) : null
+
+    const type = parseOptionType(fieldFor(record, 'type')) ?? parsed?.type
+    const strike = toNumber(fieldFor(record, 'strike'))
+    const expiry = parseExpiry(fieldFor(record, 'expiry'))
+    const resolvedStrike = strike > 0 ? strike : parsed?.strike
+    const resolvedExpiry = Number.isNaN(expiry) ? parsed?.expiry : expiry
+
+    if (!type || resolvedStrike === undefined || resolvedExpiry === undefined) {
+      throw new Error(`Invalid chain record ${i + 1}: missing type, strike or expiry`)
+    }
+    if (parsed?.underlying) underlyings.add(parsed.underlying)
+
+    const underlyingPrice = toNumber(fieldFor(record, 'underlyingPrice'))
+    const priceScale = options.pricesInUnderlying ? underlyingPrice : 1
+
+    quotes.push(
+      createChainQuote({
+        instrument: instrument ? String(instrument) : undefined,
+        type,
+        strike: resolvedStrike,
+        expiry: resolvedExpiry,
+        bid: toNumber(fieldFor(record, 'bid')) * priceScale,
+        ask: toNumber(fieldFor(record, 'ask')) * priceScale,
+        last: toNumber(fieldFor(record, 'last')) * priceScale,
+        markIv: toNumber(fieldFor(record, 'markIv')) * ivScale,
+        underlyingPrice,
+        openInterest: toNumber(fieldFor(record, 'openInterest')),
+        volume: toNumber(fieldFor(record, 'volume')),
+      })
+    )
+
+    const timestamp = parseExpiry(fieldFor(record, 'timestamp'))
+    if (Number.isFinite(timestamp) && !(timestamp <= latest)) latest = timestamp
+  })
+
+  return createChain(
+    options.underlying ?? [...underlyings][0] ?? '',
+    options.timestamp ?? (Number.isFinite(latest) ? latest : Date.now()),
+    options.spot ?? median(quotes.map((q) => q.underlyingPrice)),
+    quotes
+  )
+}
+
+/**
+ * Column-mapped field accessor
+ */
+function columnAccessor(options: ChainImportOptions) {
+  return (record: Record<string, unknown>, field: ChainField) =>
+    record[options.columns?.[field] ?? field]
+}
+
+/**
+ * Import a chain from CSV text
+ */
+export function importChainCsv(content: string, options: ChainImportOptions = {}): OptionChain {
+  const delimiter = options.delimiter ?? ','
+  const lines = content.split(/\r?\n/).filter((l) => l.trim() !== '' && !l.trim().startsWith('#'))
+  if (lines.length === 0) {
+    return createChain(options.underlying ?? '', options.timestamp ?? Date.now(), options.spot ?? NaN, [])
+  }
+
+  const header = splitCsvLine(lines[0]!, delimiter)
+  const records = lines.slice(1).map((line) => {
+    const fields = splitCsvLine(line, delimiter)
+    const record: Record<string, unknown> = {}
+    header.forEach((name, j) => {
+      record[name] = fields[j] ?? ''
+    })
+    return record
+  })
+
+  return recordsToChain(records, columnAccessor(options), options)
+}
+
+/**
+ * Import a columnar JSON dump (one array per column)
+ */
+export function importChainColumnar(
+  doc: Record<string, unknown>,
+  options: ChainImportOptions = {}
+): OptionChain {
+  const columns = Object.entries(doc).filter(([, v]) => Array.isArray(v)) as [string, unknown[]][]
+  const length = columns[0]?.[1].length ?? 0
+  for (const [name, values] of columns) {
+    if (values.length !== length) {
+      throw new Error(`Columnar chain column "${name}" has ${values.length} rows, expected ${length}`)
+    }
+  }
+
+  const records = Array.from({ length }, (_, i) =>
+    Object.fromEntries(columns.map(([name, values]) => [name, values[i]]))
+  )
+
+  // Scalar entries are chain-level defaults
+  const scalar = (key: string) => (typeof doc[key] === 'number' ? (doc[key] as number) : undefined)
+  return recordsToChain(records, columnAccessor(options), {
+    ...options,
+    underlying: options.underlying ?? (typeof doc.underlying === 'string' ? doc.underlying : undefined),
+    timestamp: options.timestamp ?? scalar('timestamp'),
+    spot: options.spot ?? scalar('spot'),
+  })
+}
+
+/**
+ * Detect venue from record keys
+ */
+function detectVenue(record: Record<string, unknown>): ChainVenue {
+  return 'instId' in record ? 'okx' : 'deribit'
+}
+
+/**
+ * Import a Deribit/OKX instrument snapshot
+ * Accepts a bare array, Deribit's { result: [...] } or OKX's { data: [...] }
+ */
+export function importVenueChain(
+  doc: unknown,
+  options: ChainImportOptions & { venue?: ChainVenue } = {}
+): OptionChain {
+  const envelope = doc as { result?: unknown; data?: unknown } | null
+  const list = Array.isArray(doc)
+    ? doc
+    : Array.isArray(envelope?.result)
+      ? envelope.result
+      : Array.isArray(envelope?.data)
+        ? envelope.data
+        : null
+
+  if (!list) {
+    throw new Error('Venue snapshot must be an array or contain a result/data array')
+  }
+
+  const records = (list as Record<string, unknown>[]).filter(
+    (r) => r && parseInstrumentName(String(r.instrument_name ?? r.instId ?? '')) !== null
+  )
+  const venue = options.venue ?? (records[0] ? detectVenue(records[0]) : 'deribit')
+
+  const fieldFor = (record: Record<string, unknown>, field: ChainField): unknown => {
+    const mapped = options.columns?.[field]
+    if (mapped) return record[mapped]
+    for (const key of VENUE_FIELDS[field] ?? []) {
+      if (record[key] !== undefined && record[key] !== '') return record[key]
+    }
+    // Deribit tickers nest volume under stats
+    if (field === 'volume') return (record.stats as { volume?: unknown } | undefined)?.volume
+    return undefined
+  }
+
+  return recordsToChain(records, fieldFor, {
+    ivPercent: venue === 'deribit',
+    pricesInUnderlying: true,
+    ...options,
+  })
+}
+
+/**
+ * Load a chain from file
+ * .csv files use importChainCsv; .json files are columnar when every
+ * top-level array has the same length, otherwise a venue snapshot
+ */
+export async function loadChainFile(
+  path: string,
+  options: ChainImportOptions & { venue?: ChainVenue } = {}
+): Promise<OptionChain> {
+  if (!existsSync(path)) {
+    throw new Error(`Chain file not found: ${path}`)
+  }
+
+  const content = readFileSync(path, 'utf-8')
+  const ext = path.toLowerCase().split('.').pop()
+
+  if (ext === 'csv' || ext === 'tsv') {
+    return importChainCsv(content, { delimiter: ext === 'tsv' ? '\t' : ',', ...options })
+  }
+
+  let doc: unknown
+  try {
+    doc = JSON.parse(content)
+  } catch (e) {
+    throw new Error(`Failed to parse JSON: ${(e as Error).message}`)
+  }
+
+  const isColumnar =
+    doc !== null &&
+    typeof doc === 'object' &&
+    !Array.isArray(doc) &&
+    !('result' in doc) &&
+    !('data' in doc) &&
+    Object.values(doc).some(Array.isArray)
+
+  return isColumnar
+    ? importChainColumnar(doc as Record<string, unknown>, options)
+    : importVenueChain(doc, options)
+}
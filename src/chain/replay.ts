@@ -0,0 +1,122 @@
+/**
+ * Option Chain Replay
+ * Turns recorded chains into surfaces and TUI playlists
+ */
+
+import type { OptionChain } from '../data/chain.ts'
+import { createSurface } from '../data/surface.ts'
+import {
+  buildSurfaceFromQuotes,
+  type BuildSurfaceOptions,
+  type OptionQuote,
+  type SurfaceBuildResult,
+} from '../surface/build.ts'
+import type { VolatilityPlaylist, VolatilitySnapshot } from './volatility.ts'
+
+const MS_PER_YEAR = 365 * 24 * 60 * 60 * 1000
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+
+/**
+ * Convert live chain quotes to surface-builder quotes
+ * Expired quotes and quotes without any price are dropped
+ */
+export function chainToQuotes(chain: OptionChain, rate = 0): OptionQuote[] {
+  const quotes: OptionQuote[] = []
+
+  for (const q of chain.quotes) {
+    const expiry = (q.expiry - chain.timestamp) / MS_PER_YEAR
+    if (!(expiry > 0)) continue
+
+    const bid = q.bid > 0 ? q.bid : undefined
+    const ask = q.ask > 0 ? q.ask : undefined
+    const mid = bid === undefined && ask === undefined && q.last > 0 ? q.last : undefined
+    if (bid === undefined && ask === undefined && mid === undefined) continue
+
+    quotes.push({
+      type: q.type,
+      strike: q.strike,
+      expiry,
+      forward: q.underlyingPrice > 0 ? q.underlyingPrice : chain.spot,
+      bid,
+      ask,
+      mid,
+      rate,
+    })
+  }
+
+  return quotes
+}
+
+/**
+ * Build an IV surface (x = years, y = strike) from a chain
+ * Only out-of-the-money quotes are used, as their prices carry the vol information
+ */
+export function chainToSurface(
+  chain: OptionChain,
+  options: BuildSurfaceOptions & { rate?: number } = {}
+): SurfaceBuildResult {
+  const otm = chainToQuotes(chain, options.rate).filter((q) =>
+    q.type === 'call' ? q.strike >= q.forward : q.strike < q.forward
+  )
+  return buildSurfaceFromQuotes(otm, options)
+}
+
+/**
+ * Convert a chain into a TUI snapshot
+ * The surface uses the playlist layout: x = expiry days, y = strike % of spot
+ * @param index - Position in the replay (shown where block numbers are)
+ */
+export function chainToSnapshot(
+  chain: OptionChain,
+  index = 0,
+  options: { rate?: number; strikes?: number; expiries?: number } = {}
+): VolatilitySnapshot {
+  const { rate = 0, strikes = 25, expiries = 6 } = options
+
+  const built = chainToSurface(chain, {
+    rate,
+    nx: expiries,
+    ny: strikes,
+    strikeRange: [chain.spot * 0.7, chain.spot * 1.3],
+  })
+
+  // Same grid as the builder's, with expiries in days and strikes in % of spot
+  const { x: years, y: strikeGrid, z } = built.surface
+  const surface = createSurface(
+    years.map((t) => t * (MS_PER_YEAR / MS_PER_DAY)),
+    strikeGrid.map((k) => (k / chain.spot) * 100),
+    new Float64Array(z),
+    { x: 'Expiry (days)', y: 'Strike %', z: 'IV' }
+  )
+
+  const ivs = Array.from(z)
+  const avgVol = ivs.reduce((a, b) => a + b, 0) / ivs.length
+  const maxVol = Math.max(...ivs)
+
+  return {
+    blockNumber: index,
+    timestamp: Math.floor(chain.timestamp / 1000),
+    date: new Date(chain.timestamp).toISOString().split('T')[0]!,
+    eventName: chain.underlying || undefined,
+    ethPrice: chain.spot,
+    poolStates: new Map(),
+    surface,
+    riskScore: Math.min(1, (avgVol * 0.6 + maxVol * 0.4) / 1.2),
+  }
+}
+
+/**
+ * Create a playlist from recorded chains, ordered by snapshot time
+ */
+export function createChainPlaylist(
+  chains: OptionChain[],
+  options: { rate?: number; playbackSpeed?: number } = {}
+): VolatilityPlaylist {
+  const ordered = [...chains].sort((a, b) => a.timestamp - b.timestamp)
+  return {
+    snapshots: ordered.map((chain, i) => chainToSnapshot(chain, i, options)),
+    currentIndex: 0,
+    isPlaying: false,
+    playbackSpeed: options.playbackSpeed ?? 500,
+  }
+}
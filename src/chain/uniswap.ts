@@ -252,19 +252,20 @@ export function buildVolatilitySurface(
 
 /**
  * Convert volatility surface to marigraph Surface format
+ * (x = expiry days, y = strike % of spot, z[xi * ny + yi] like createSurface)
  */
 export function toMarigraphSurface(
   volSurface: VolatilityPoint[][],
   currentPrice: number
 ): {
-  x: Float64Array  // Strike prices (as % of current)
-  y: Float64Array  // Expiry days
+  x: Float64Array  // Expiry days
+  y: Float64Array  // Strike prices (as % of current)
   z: Float64Array  // Implied volatility
   nx: number
   ny: number
 } {
-  const ny = volSurface.length
-  const nx = volSurface[0]?.length || 0
+  const nx = volSurface.length
+  const ny = volSurface[0]?.length || 0
 
   const x = new Float64Array(nx)
   const y = new Float64Array(ny)
@@ -272,17 +273,17 @@ export function toMarigraphSurface(
 
   // Fill strike prices (as percentage of spot)
   if (volSurface[0]) {
-    for (let i = 0; i < nx; i++) {
-      x[i] = (volSurface[0][i]!.strike / currentPrice) * 100 // As percentage
+    for (let j = 0; j < ny; j++) {
+      y[j] = (volSurface[0][j]!.strike / currentPrice) * 100 // As percentage
     }
   }
 
-  // Fill expiry days and volatility grid
-  for (let j = 0; j < ny; j++) {
-    y[j] = volSurface[j]![0]?.expiry || 0
+  // Fill expiry days and volatility grid (one row of strikes per expiry)
+  for (let i = 0; i < nx; i++) {
+    x[i] = volSurface[i]![0]?.expiry || 0
 
-    for (let i = 0; i < nx; i++) {
-      z[j * nx + i] = volSurface[j]![i]?.impliedVol || 0
+    for (let j = 0; j < ny; j++) {
+      z[i * ny + j] = volSurface[i]![j]?.impliedVol || 0
     }
   }
 
@@ -159,13 +159,15 @@ export function createMockSnapshot(
     }
   }
 
+  // One row of strikes per expiry: ivs[j * nx + i] is node (expiry j, strike i)
+  // in the Surface layout (x = expiries, y = strikes)
   const surface = createSurface(
-    strikes,
     expiries,
+    strikes,
     ivs,
     {
-      x: 'Strike %',
-      y: 'Expiry (days)',
+      x: 'Expiry (days)',
+      y: 'Strike %',
       z: 'IV',
     }
   )
@@ -260,6 +262,27 @@ export function prevSnapshot(playlist: VolatilityPlaylist): VolatilitySnapshot |
   return getSnapshot(playlist, playlist.currentIndex)
 }
 
+/**
+ * Play a playlist from its current snapshot, one snapshot every
+ * playbackSpeed ms until the last (the playlist itself is not advanced)
+ * Returns a function that stops playback
+ */
+export function playPlaylist(
+  playlist: VolatilityPlaylist,
+  onSnapshot: (snapshot: VolatilitySnapshot, index: number) => void
+): () => void {
+  let index = playlist.currentIndex
+  const timer = setInterval(() => step(), playlist.playbackSpeed)
+  const stop = () => clearInterval(timer)
+  const step = () => {
+    const snapshot = getSnapshot(playlist, index)
+    if (!snapshot) return stop()
+    onSnapshot(snapshot, index++)
+  }
+  step()
+  return stop
+}
+
 /**
  * Jump to specific block in playlist
  */
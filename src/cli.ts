@@ -5,13 +5,15 @@
  */
 
 import { parseArgs } from 'util'
-import { Sixcol } from './main.ts'
+import { Sixcol, templateColumns } from './main.ts'
 import {
   loadTemplate,
   generateExampleTemplate,
   getRiskOracleTemplate,
 } from './config/loader.ts'
 import { DEFAULT_TEMPLATE, type SixcolTemplate } from './config/types.ts'
+import type { VolatilityPlaylist } from './chain/volatility.ts'
+import type { BridgeOptions } from './ipc/bridge.ts'
 
 const VERSION = '0.1.0'
 
@@ -25,9 +27,19 @@ Usage:
 Options:
   -t, --template <file>   Load template from YAML/JSON file
   -r, --risk-oracle       Use built-in risk oracle template
+  -p, --positions <file>  Position book for the risk oracle's portfolio column
+                          (strikes in % of spot, expiries in days)
   -g, --generate          Generate example template to stdout
+  -P, --python-client     Generate a Python column socket client to stdout
+  -c, --chain <file>      Replay recorded option chain (CSV/JSON, repeatable)
+                          into the template's surface column
   -H, --headless          Run without TUI (IPC only)
-  -s, --socket-dir <dir>  Socket directory (default: /tmp/marigraph-<id>)
+  -s, --socket-dir <dir>  Socket directory (default: $TMPDIR/sixcol-<timestamp>)
+  --tcp-port <port>       Serve column sockets over TCP from this base port
+  --ws-port <port>        Serve column sockets over WebSocket from this base port
+  --bridge-host <host>    Bridge bind address (default: 127.0.0.1)
+  --bridge-token <token>  Shared token bridge clients must authenticate with
+  --bridge-origin <url>   Browser origin allowed to open WebSockets (repeatable)
   -v, --version           Show version
   -h, --help              Show this help
 
@@ -35,19 +47,32 @@ Examples:
   marigraph                       # Run TUI with demo data
   marigraph -t my-config.yaml     # Load custom template
   marigraph --risk-oracle         # Run 7-column risk oracle
+  marigraph -r -p book.csv        # Risk oracle revaluing a position book
   marigraph -g > template.yaml    # Generate example template
+  marigraph -P > sixcol_client.py # Generate Python client
+  marigraph -c t0.json -c t1.json # Replay recorded chains
+  marigraph -H --ws-port 7400     # Columns on ws://127.0.0.1:7400, 7401, ...
 
 Environment:
   MARIGRAPH_DEBUG=1     Enable debug logging
   MARIGRAPH_NO_COLOR=1  Disable colors
+  MARIGRAPH_BRIDGE_TOKEN=<token>  Bridge token (keeps it out of the process list)
 `
 
 interface CLIOptions {
   template?: string
   riskOracle: boolean
+  positions?: string
   generate: boolean
+  pythonClient: boolean
+  chains: string[]
   headless: boolean
   socketDir?: string
+  tcpPort?: number
+  wsPort?: number
+  bridgeHost?: string
+  bridgeToken?: string
+  bridgeOrigins: string[]
   version: boolean
   help: boolean
 }
@@ -57,9 +82,17 @@ function parseCliArgs(): CLIOptions {
     options: {
       template: { type: 'string', short: 't' },
       'risk-oracle': { type: 'boolean', short: 'r', default: false },
+      positions: { type: 'string', short: 'p' },
       generate: { type: 'boolean', short: 'g', default: false },
+      'python-client': { type: 'boolean', short: 'P', default: false },
+      chain: { type: 'string', short: 'c', multiple: true },
       headless: { type: 'boolean', short: 'H', default: false },
       'socket-dir': { type: 'string', short: 's' },
+      'tcp-port': { type: 'string' },
+      'ws-port': { type: 'string' },
+      'bridge-host': { type: 'string' },
+      'bridge-token': { type: 'string' },
+      'bridge-origin': { type: 'string', multiple: true },
       version: { type: 'boolean', short: 'v', default: false },
       help: { type: 'boolean', short: 'h', default: false },
     },
@@ -69,14 +102,51 @@ function parseCliArgs(): CLIOptions {
   return {
     template: values.template,
     riskOracle: values['risk-oracle'] ?? false,
+    positions: values.positions,
     generate: values.generate ?? false,
+    pythonClient: values['python-client'] ?? false,
+    chains: values.chain ?? [],
     headless: values.headless ?? false,
     socketDir: values['socket-dir'],
+    tcpPort: values['tcp-port'] !== undefined ? Number(values['tcp-port']) : undefined,
+    wsPort: values['ws-port'] !== undefined ? Number(values['ws-port']) : undefined,
+    bridgeHost: values['bridge-host'],
+    bridgeToken: values['bridge-token'],
+    bridgeOrigins: values['bridge-origin'] ?? [],
     version: values.version ?? false,
     help: values.help ?? false,
   }
 }
 
+/**
+ * Column the surface feed publishes to: the template's first surface column
+ */
+function surfaceColumn(template: SixcolTemplate): string | undefined {
+  return template.columns.find((column) => column.type === 'surface')?.id
+}
+
+/**
+ * Network bridge settings: CLI flags override the template's options.bridge
+ * Returns undefined when no TCP or WebSocket port is configured
+ */
+function bridgeOptions(template: SixcolTemplate, options: CLIOptions): BridgeOptions | undefined {
+  const bridge: BridgeOptions = { ...template.options?.bridge }
+  if (options.tcpPort !== undefined) bridge.tcpPort = options.tcpPort
+  if (options.wsPort !== undefined) bridge.wsPort = options.wsPort
+  if (options.bridgeHost !== undefined) bridge.host = options.bridgeHost
+  const token = options.bridgeToken ?? process.env.MARIGRAPH_BRIDGE_TOKEN
+  if (token !== undefined) bridge.token = token
+  if (options.bridgeOrigins.length > 0) bridge.origins = options.bridgeOrigins
+
+  if (bridge.tcpPort === undefined && bridge.wsPort === undefined) return undefined
+  for (const port of [bridge.tcpPort, bridge.wsPort]) {
+    if (port !== undefined && (!Number.isInteger(port) || port < 0 || port > 65535)) {
+      throw new Error(`Invalid bridge port: ${port}`)
+    }
+  }
+  return bridge
+}
+
 async function main(): Promise<void> {
   const options = parseCliArgs()
 
@@ -96,9 +166,25 @@ async function main(): Promise<void> {
     process.exit(0)
   }
 
+  if (options.pythonClient) {
+    const { generatePythonClient } = await import('./client/python.ts')
+    process.stdout.write(generatePythonClient())
+    process.exit(0)
+  }
+
   // Load template
   let template: SixcolTemplate
 
+  if (options.template && options.riskOracle) {
+    console.error('--template and --risk-oracle are exclusive')
+    process.exit(1)
+  }
+
+  if (options.positions !== undefined && !options.riskOracle) {
+    console.error('--positions needs --risk-oracle (templates set options.portfolio instead)')
+    process.exit(1)
+  }
+
   if (options.template) {
     try {
       template = await loadTemplate(options.template)
@@ -108,27 +194,67 @@ async function main(): Promise<void> {
       process.exit(1)
     }
   } else if (options.riskOracle) {
-    template = getRiskOracleTemplate()
+    template = getRiskOracleTemplate(options.positions)
     console.error('Using risk oracle template')
   } else {
     template = DEFAULT_TEMPLATE
     console.error('Using default template')
   }
 
+  let bridge: BridgeOptions | undefined
+  try {
+    bridge = bridgeOptions(template, options)
+  } catch (e) {
+    console.error((e as Error).message)
+    process.exit(1)
+  }
+
+  // Surfaces for the template's surface column: recorded chains, else the
+  // demo playlist under the built-in templates
+  const feedColumn = surfaceColumn(template)
+  let playlist: VolatilityPlaylist | undefined
+  if (options.chains.length > 0) {
+    if (!feedColumn) {
+      console.error(`--chain needs a surface column, and template ${template.name} has none`)
+      process.exit(1)
+    }
+    try {
+      const { loadChainFile } = await import('./chain/ingest.ts')
+      const { createChainPlaylist } = await import('./chain/replay.ts')
+      const chains = await Promise.all(options.chains.map((path) => loadChainFile(path)))
+      playlist = createChainPlaylist(chains)
+    } catch (e) {
+      console.error(`Error loading chain: ${(e as Error).message}`)
+      process.exit(1)
+    }
+  } else if (!options.template && feedColumn) {
+    const { createPlaylist } = await import('./chain/volatility.ts')
+    playlist = createPlaylist()
+  }
+
+  // Worker stderr would corrupt the TUI once it is drawn
+  let tuiActive = false
+
   // Create and start Sixcol
   const sixcol = new Sixcol({
     name: template.name,
-    columns: template.columns.map((col) => ({
-      id: col.id,
-      type: col.type,
-      config: col.options,
-    })),
+    columns: templateColumns(template),
+    wiring: template.wiring,
+    sources: template.sources,
+    template: options.template,
+    bridge,
+    onWorkerLog: (_, line) => {
+      if (!tuiActive) console.error(line)
+    },
     socketDir: options.socketDir,
   })
 
+  let stopFeed = () => {}
+
   // Handle signals
   const shutdown = async () => {
     console.error('\nShutting down...')
+    stopFeed()
     await sixcol.shutdown()
     process.exit(0)
   }
@@ -136,36 +262,103 @@ async function main(): Promise<void> {
   process.on('SIGINT', shutdown)
   process.on('SIGTERM', shutdown)
 
+  // Report column health and data source failures/recoveries
+  if (options.headless) {
+    const lastHealth = new Map<string, string>()
+    sixcol.onHealth((health) => {
+      const previous = lastHealth.get(health.id)
+      lastHealth.set(health.id, health.state)
+      if (previous === health.state) return
+
+      switch (health.state) {
+        case 'unresponsive':
+          console.error(`Column ${health.id} missed ${health.missed} heartbeat(s)`)
+          break
+        case 'restarting': {
+          const delay = health.nextRestart ? Math.max(0, health.nextRestart - Date.now()) : 0
+          console.error(`Column ${health.id} down (${health.lastError}); restarting in ${delay}ms`)
+          break
+        }
+        case 'crashed':
+          console.error(`Column ${health.id} crashed: ${health.lastError}`)
+          break
+        case 'healthy':
+          if (previous === 'starting' && health.restarts > 0) {
+            console.error(`Column ${health.id} recovered after ${health.restarts} restart(s)`)
+          } else if (previous === 'unresponsive') {
+            console.error(`Column ${health.id} responding again`)
+          }
+          break
+      }
+    })
+
+    const lastState = new Map<number, string>()
+    sixcol.onSourceStatus((status) => {
+      const previous = lastState.get(status.index)
+      lastState.set(status.index, status.state)
+
+      if (status.state === 'backoff') {
+        const retry = status.nextRetry ? Math.max(0, status.nextRetry - Date.now()) : 0
+        console.error(
+          `Source ${status.index} (${status.type}) failed ${status.failures}x: ${status.lastError}; retrying in ${retry}ms`
+        )
+      } else if (status.state === 'ok' && previous !== 'ok') {
+        console.error(`Source ${status.index} (${status.type}) ok: ${status.target}`)
+      }
+    })
+  }
+
   try {
     await sixcol.start()
     console.error(`Sixcol started with ${template.columns.length} columns`)
 
+    // Stream the playlist into the surface column; wired verbs follow its SURFACE_UPDATE
+    if (playlist && feedColumn) {
+      const { playPlaylist } = await import('./chain/volatility.ts')
+      stopFeed = playPlaylist(playlist, (snapshot) => {
+        // A reloaded template may have dropped the column
+        if (sixcol.getColumn(feedColumn)) sixcol.publishSurface(feedColumn, snapshot.surface)
+      })
+      console.error(`Playing ${playlist.snapshots.length} surfaces into column ${feedColumn}`)
+    }
+
     if (options.headless) {
+      console.error(`Control socket: ${sixcol.controlSocket}`)
+      for (const column of sixcol.listColumns()) {
+        if (!column.bridge) continue
+        const { host, tcpPort, wsPort } = column.bridge
+        console.error(`Column ${column.id} bridge: tcp ${host}:${tcpPort ?? '-'}, ws ${host}:${wsPort ?? '-'}`)
+      }
       console.error('Running in headless mode. Press Ctrl+C to exit.')
       // Keep running until signal
       await new Promise(() => {})
     } else {
       // Launch TUI
       console.error('Launching TUI...')
-      await sixcol.shutdown()
 
       // Dynamic import to avoid loading React in headless mode
       const { render } = await import('ink')
       const React = await import('react')
-      const { App } = await import('./tui/App.tsx')
 
-      const { waitUntilExit } = render(React.createElement(App))
+      // Columns render themselves; the dashboard lays them out on the template grid
+      tuiActive = true
+      const { Dashboard } = await import('./tui/Dashboard.tsx')
+      const { waitUntilExit } = render(React.createElement(Dashboard, { sixcol, template }))
       await waitUntilExit()
+
+      stopFeed()
+      await sixcol.shutdown()
     }
   } catch (e) {
     console.error(`Error: ${(e as Error).message}`)
+    stopFeed()
     await sixcol.shutdown()
     process.exit(1)
   }
 }
 
 // Export for testing
-export { parseCliArgs, main }
+export { parseCliArgs, bridgeOptions, surfaceColumn, main }
 
 // Run if called directly
 if (import.meta.main) {
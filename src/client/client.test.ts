@@ -0,0 +1,175 @@
+/**
+ * Integration tests for the column socket clients
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test'
+import { mkdir, rm } from 'node:fs/promises'
+import { Sixcol } from '../main.ts'
+import { MessageType } from '../ipc/protocol.ts'
+import { JsonRpcErrorCode } from '../ipc/jsonrpc.ts'
+import { deserializeSurface } from '../ipc/serialize.ts'
+import { createTestSurface } from '../data/surface.ts'
+import { ColumnClient, connectColumn, discoverColumns, discoverSocketDirs, type EventNotification } from './client.ts'
+import { generatePythonClient } from './python.ts'
+
+describe('Column client', () => {
+  const socketDir = `/tmp/sixcol-client-test-${Date.now()}`
+  let app: Sixcol
+  const clients: ColumnClient[] = []
+
+  const connect = async (id: string) => {
+    const client = await connectColumn(id, { socketDir, timeout: 2000 })
+    clients.push(client)
+    return client
+  }
+
+  beforeAll(async () => {
+    app = new Sixcol({
+      name: 'test',
+      settings: { socketDir },
+      columns: [
+        { id: 'c1', type: 'list' },
+        { id: 'c2', type: 'surface' },
+      ],
+      onWorkerLog: () => {},
+    })
+    await app.start()
+  })
+
+  afterAll(async () => {
+    for (const client of clients) client.close()
+    await app.shutdown()
+  })
+
+  it('should discover column sockets', async () => {
+    expect(await discoverColumns(socketDir)).toEqual([
+      { id: 'c1', path: `${socketDir}/c1.sock` },
+      { id: 'c2', path: `${socketDir}/c2.sock` },
+    ])
+    expect(await discoverSocketDirs('/tmp')).toContain(socketDir)
+    expect(await discoverColumns(`${socketDir}-missing`)).toEqual([])
+    await expect(connectColumn('nope', { socketDir })).rejects.toThrow(`Column nope not found in ${socketDir}`)
+  })
+
+  it('should find instances in the default socket dir under TMPDIR', async () => {
+    const root = `${socketDir}-tmp`
+    await mkdir(root, { recursive: true })
+    const saved = process.env.TMPDIR
+    process.env.TMPDIR = root
+    const other = new Sixcol({ name: 'tmp', columns: [{ id: 'c9', type: 'list' }], onWorkerLog: () => {} })
+    try {
+      await other.start()
+      const [column, ...rest] = await discoverColumns()
+      expect(rest).toEqual([])
+      expect(column!.id).toBe('c9')
+      expect(column!.path).toStartWith(`${root}/sixcol-`)
+
+      // The generated Python client looks in the same place
+      const python = Bun.which('python3')
+      if (python) {
+        await Bun.write(`${root}/py/sixcol_client.py`, generatePythonClient())
+        const script = 'import sys; sys.path.insert(0, sys.argv[1]); from sixcol_client import discover_columns; print(list(discover_columns()))'
+        const proc = Bun.spawn([python, '-c', script, `${root}/py`], { stdout: 'pipe', env: { ...process.env, TMPDIR: root } })
+        expect((await new Response(proc.stdout).text()).trim()).toBe("['c9']")
+      }
+    } finally {
+      await other.shutdown()
+      if (saved === undefined) delete process.env.TMPDIR
+      else process.env.TMPDIR = saved
+      await rm(root, { recursive: true, force: true })
+    }
+  })
+
+  it('should set, append and read data', async () => {
+    const client = await connect('c1')
+
+    await client.setData(['a'])
+    expect(await client.append(['b', 'c'])).toBe(3)
+    expect(await client.getData<string[]>()).toEqual(['a', 'b', 'c'])
+    await client.clear()
+    expect(await client.getData()).toBeNull()
+
+    const info = await client.describe()
+    expect(info).toMatchObject({ columnId: 'c1', type: 'list', surfaceFormats: ['binary', 'json'] })
+    expect(info.methods).toContain('setSurface')
+
+    await expect(client.call('nope')).rejects.toMatchObject({ code: JsonRpcErrorCode.METHOD_NOT_FOUND })
+  })
+
+  it('should deliver subscriptions until unsubscribed', async () => {
+    const client = await connect('c1')
+    const other = await connect('c1')
+
+    const data: unknown[] = []
+    const picked: unknown[] = []
+    const all: string[] = []
+    const stopData = await client.subscribe('data', (params) => data.push((params as { data: unknown }).data))
+    await client.subscribe('PICKED', (params) => picked.push((params as EventNotification).data))
+    await client.subscribe('*', (params) => all.push((params as EventNotification).event))
+
+    await other.setData([1])
+    await other.emit('PICKED', { strike: 70000 })
+    await other.emit('OTHER')
+    app.sendToColumn('c1', MessageType.SET_DATA, new TextEncoder().encode('[2]'))
+
+    for (let i = 0; i < 40 && data.length < 2; i++) await Bun.sleep(25)
+    expect(data).toEqual([[1], [2]])
+    expect(picked).toEqual([{ strike: 70000 }])
+    expect(all).toEqual(['PICKED', 'OTHER'])
+
+    await stopData()
+    await other.setData([3])
+    await client.getData() // Round trip: a notification would have arrived first
+    expect(data).toEqual([[1], [2]])
+  })
+
+  it('should upload surfaces in binary and JSON', async () => {
+    const client = await connect('c2')
+    const uploads: Array<{ nx: number; ny: number }> = []
+    app.onMessage('c2', MessageType.SURFACE_FULL, (_header, payload) => uploads.push(deserializeSurface(payload)))
+
+    const surface = createTestSurface(12, 8)
+    expect(await client.uploadSurface(surface)).toBe('binary')
+    expect(await client.uploadSurface(createTestSurface(3, 2), 'json')).toBe('json')
+
+    for (let i = 0; i < 40 && uploads.length < 2; i++) await Bun.sleep(25)
+    expect(uploads.map((s) => [s.nx, s.ny])).toEqual([
+      [12, 8],
+      [3, 2],
+    ])
+
+    await expect(client.call('setSurface', { format: 'json', x: [0, 1], y: [0], z: [1] })).rejects.toMatchObject({
+      code: JsonRpcErrorCode.INVALID_PARAMS,
+    })
+  })
+
+  it('should generate a working Python client', async () => {
+    const source = generatePythonClient()
+    expect(source).toContain('class ColumnClient')
+    expect(source).toContain('def upload_surface')
+
+    const python = Bun.which('python3')
+    if (!python) return // Source checks only without a Python interpreter
+
+    const script = `
+import sys
+sys.path.insert(0, sys.argv[1])
+from sixcol_client import connect_column
+with connect_column("c1", socket_dir=sys.argv[2]) as client:
+    client.set_data(["py"])
+    client.append("thon")
+    print(client.get_data())
+with connect_column("c2", socket_dir=sys.argv[2]) as client:
+    print(client.upload_surface([0, 1], [0, 1, 2], [0.1, 0.2, 0.3, 0.4, 0.5, 0.6]))
+`
+    const dir = `${socketDir}-py`
+    await Bun.write(`${dir}/sixcol_client.py`, source)
+    const proc = Bun.spawn([python, '-c', script, dir, socketDir], { stdout: 'pipe', stderr: 'pipe' })
+    const [out, err] = await Promise.all([new Response(proc.stdout).text(), new Response(proc.stderr).text()])
+    await proc.exited
+    await Bun.$`rm -rf ${dir}`.quiet()
+
+    expect(err).toBe('')
+    expect(out.trim().split('\n')).toEqual(["['py', 'thon']", 'binary'])
+  })
+})
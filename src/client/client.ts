@@ -0,0 +1,375 @@
+/**
+ * Column Socket Client
+ * Typed JSON-RPC client for the unix sockets column workers listen on
+ */
+
+import { type Socket } from 'bun'
+import { readdir, stat } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import type { Surface } from '../data/surface.ts'
+import type { Vec32, Vec64 } from '../data/vec.ts'
+import { encodeSurfacePayload } from '../ipc/serialize.ts'
+import { SOCKET_DIR_PREFIX } from '../ipc/protocol.ts'
+import {
+  LineBuffer,
+  jsonRpcError,
+  type JsonRpcErrorObject,
+  type JsonRpcNotification,
+  type JsonRpcResponse,
+} from '../ipc/jsonrpc.ts'
+
+/**
+ * A column socket found on disk
+ */
+export interface ColumnSocket {
+  id: string // Column id (socket file name without .sock)
+  path: string
+}
+
+/**
+ * Column description returned by the worker's describe method
+ */
+export interface ColumnInfo {
+  columnId: string
+  type: string
+  title: string | null
+  protocol: number
+  methods: string[]
+  topics: string[]
+  surfaceFormats: string[]
+}
+
+export type SurfaceFormat = 'binary' | 'json'
+
+export interface ClientOptions {
+  timeout?: number // Per-call timeout in ms (default 5000)
+}
+
+export interface ConnectOptions extends ClientOptions {
+  socketDir?: string // Default: the most recent sixcol-* directory in the temp dir
+}
+
+// Notification payloads pushed to subscribers
+export interface DataNotification {
+  columnId: string
+  data: unknown
+}
+
+export interface EventNotification {
+  columnId: string
+  event: string
+  data: unknown
+}
+
+export interface TitleNotification {
+  columnId: string
+  title: string
+}
+
+export type SubscriptionHandler = (params: DataNotification | EventNotification | TitleNotification) => void
+
+const DEFAULT_TIMEOUT = 5000
+
+/**
+ * Find Sixcol socket directories, newest first
+ */
+export async function discoverSocketDirs(root = tmpdir()): Promise<string[]> {
+  let entries: string[]
+  try {
+    entries = await readdir(root)
+  } catch {
+    return []
+  }
+
+  const dirs: Array<{ path: string; mtime: number }> = []
+  for (const name of entries) {
+    if (!name.startsWith(SOCKET_DIR_PREFIX)) continue
+    const path = join(root, name)
+    try {
+      const info = await stat(path)
+      if (info.isDirectory()) dirs.push({ path, mtime: info.mtimeMs })
+    } catch {
+      // Removed while scanning
+    }
+  }
+
+  return dirs.sort((a, b) => b.mtime - a.mtime).map((d) => d.path)
+}
+
+/**
+ * List the column sockets in a socket directory
+ * Without a directory, the newest discovered one is used
+ */
+export async function discoverColumns(socketDir?: string): Promise<ColumnSocket[]> {
+  const dir = socketDir ?? (await discoverSocketDirs())[0]
+  if (!dir) return []
+
+  let entries: string[]
+  try {
+    entries = await readdir(dir)
+  } catch {
+    return []
+  }
+
+  return entries
+    .filter((name) => name.endsWith('.sock'))
+    .sort()
+    .map((name) => ({ id: name.slice(0, -'.sock'.length), path: join(dir, name) }))
+}
+
+/**
+ * Connect to a column by id
+ */
+export async function connectColumn(columnId: string, options: ConnectOptions = {}): Promise<ColumnClient> {
+  const columns = await discoverColumns(options.socketDir)
+  const column = columns.find((c) => c.id === columnId)
+  if (!column) {
+    const where = options.socketDir ?? 'any sixcol socket directory'
+    throw new Error(`Column ${columnId} not found in ${where}`)
+  }
+  return ColumnClient.connect(column.path, options)
+}
+
+// Topic a subscription event belongs to: data and title have their own,
+// everything else is a column event ('*' for all of them)
+function topicFor(event: string): string {
+  return event === 'data' || event === 'title' ? event : 'events'
+}
+
+interface PendingCall {
+  resolve: (result: unknown) => void
+  reject: (error: Error) => void
+  timer: Timer
+}
+
+/**
+ * JSON-RPC client for one column socket
+ */
+export class ColumnClient {
+  private socket: Socket<undefined>
+  private timeout: number
+  private lines = new LineBuffer()
+  private pending: Map<number, PendingCall> = new Map()
+  private handlers: Map<string, Set<SubscriptionHandler>> = new Map()
+  private nextId = 1
+  private info: ColumnInfo | null = null
+  private closed = false
+
+  private constructor(socket: Socket<undefined>, options: ClientOptions) {
+    this.socket = socket
+    this.timeout = options.timeout ?? DEFAULT_TIMEOUT
+  }
+
+  static async connect(path: string, options: ClientOptions = {}): Promise<ColumnClient> {
+    let client: ColumnClient | null = null
+    const socket = await Bun.connect({
+      unix: path,
+      socket: {
+        data(_socket, chunk) {
+          client?.receive(chunk)
+        },
+        close() {
+          client?.disconnected('Column socket closed')
+        },
+        error(_socket, err) {
+          client?.disconnected(`Column socket error: ${err.message}`)
+        },
+      },
+    })
+    client = new ColumnClient(socket, options)
+    return client
+  }
+
+  /**
+   * Call a method and wait for its result
+   * Rejects with an Error carrying the JSON-RPC error code
+   */
+  call<T = unknown>(method: string, params?: Record<string, unknown> | unknown[]): Promise<T> {
+    if (this.closed) {
+      return Promise.reject(new Error(`Cannot call ${method}: client is closed`))
+    }
+
+    const id = this.nextId++
+    return new Promise<T>((resolve, reject) => {
+      this.pending.set(id, {
+        resolve: resolve as (result: unknown) => void,
+        reject,
+        timer: setTimeout(() => {
+          this.pending.delete(id)
+          reject(new Error(`Call ${method} timed out after ${this.timeout}ms`))
+        }, this.timeout),
+      })
+      this.write({ jsonrpc: '2.0', id, method, params })
+    })
+  }
+
+  // Send a notification (no response)
+  notify(method: string, params?: Record<string, unknown> | unknown[]): void {
+    this.write({ jsonrpc: '2.0', method, params })
+  }
+
+  getData<T = unknown>(): Promise<T> {
+    return this.call<T>('getData')
+  }
+
+  async setData(data: unknown): Promise<void> {
+    await this.call('setData', { data })
+  }
+
+  // Append one item (or an array of items); resolves with the new item count
+  append(data: unknown): Promise<number> {
+    return this.call<number>('appendData', { data })
+  }
+
+  async clear(): Promise<void> {
+    await this.call('clear')
+  }
+
+  async setTitle(title: string): Promise<void> {
+    await this.call('setTitle', { title })
+  }
+
+  // Raise a named event on the column (routed by the template's wiring)
+  async emit(event: string, data?: unknown): Promise<void> {
+    await this.call('emit', { event, data: data ?? null })
+  }
+
+  async describe(): Promise<ColumnInfo> {
+    this.info = await this.call<ColumnInfo>('describe')
+    return this.info
+  }
+
+  /**
+   * Upload a surface to the column
+   * Uses the binary SURFACE_FULL format when the worker accepts it, else JSON
+   * Resolves with the format used
+   */
+  async uploadSurface(surface: Surface<Vec64 | Vec32>, format?: SurfaceFormat): Promise<SurfaceFormat> {
+    if (!format) {
+      const info = this.info ?? (await this.describe().catch(() => null))
+      format = info?.surfaceFormats?.includes('binary') ? 'binary' : 'json'
+    }
+
+    if (format === 'binary') {
+      const payload = Buffer.from(encodeSurfacePayload(surface)).toString('base64')
+      await this.call('setSurface', { format, payload })
+    } else {
+      await this.call('setSurface', {
+        format,
+        x: Array.from(surface.x),
+        y: Array.from(surface.y),
+        z: Array.from(surface.z),
+        labels: { x: surface.meta.xLabel, y: surface.meta.yLabel, z: surface.meta.zLabel },
+      })
+    }
+    return format
+  }
+
+  /**
+   * Call handler for an event: 'data' (widget data changes), 'title',
+   * a column event name, or '*' for every column event
+   * Resolves with an unsubscribe function
+   */
+  async subscribe(event: string, handler: SubscriptionHandler): Promise<() => Promise<void>> {
+    const topic = topicFor(event)
+    const first = !this.topicActive(topic)
+
+    let handlers = this.handlers.get(event)
+    if (!handlers) {
+      handlers = new Set()
+      this.handlers.set(event, handlers)
+    }
+    handlers.add(handler)
+
+    if (first) {
+      try {
+        await this.call('subscribe', { topics: [topic] })
+      } catch (err) {
+        handlers.delete(handler)
+        throw err
+      }
+    }
+
+    return async () => {
+      const set = this.handlers.get(event)
+      if (!set?.delete(handler)) return
+      if (set.size === 0) this.handlers.delete(event)
+      if (!this.topicActive(topic) && !this.closed) {
+        await this.call('unsubscribe', { topics: [topic] })
+      }
+    }
+  }
+
+  close(): void {
+    if (this.closed) return
+    this.socket.end()
+    this.disconnected('Client closed')
+  }
+
+  private topicActive(topic: string): boolean {
+    for (const [event, handlers] of this.handlers) {
+      if (handlers.size > 0 && topicFor(event) === topic) return true
+    }
+    return false
+  }
+
+  private write(message: Record<string, unknown>): void {
+    this.socket.write(JSON.stringify(message) + '\n')
+  }
+
+  private receive(chunk: Uint8Array): void {
+    for (const line of this.lines.push(chunk)) {
+      let message: JsonRpcResponse | JsonRpcNotification | Array<JsonRpcResponse>
+      try {
+        message = JSON.parse(line)
+      } catch {
+        continue // Not JSON; nothing to correlate it with
+      }
+
+      for (const item of Array.isArray(message) ? message : [message]) {
+        if ('method' in item) {
+          this.dispatch(item)
+        } else {
+          this.settle(item)
+        }
+      }
+    }
+  }
+
+  private settle(response: JsonRpcResponse): void {
+    if (typeof response.id !== 'number') return
+    const call = this.pending.get(response.id)
+    if (!call) return // Timed out already
+    this.pending.delete(response.id)
+    clearTimeout(call.timer)
+
+    if (response.error) {
+      const { code, message, data }: JsonRpcErrorObject = response.error
+      call.reject(jsonRpcError(code, message, data))
+    } else {
+      call.resolve(response.result)
+    }
+  }
+
+  private dispatch(notification: JsonRpcNotification): void {
+    const params = notification.params as EventNotification
+    const keys = notification.method === 'event' ? [params.event, '*'] : [notification.method]
+
+    for (const key of keys) {
+      for (const handler of this.handlers.get(key) ?? []) {
+        handler(params)
+      }
+    }
+  }
+
+  private disconnected(reason: string): void {
+    if (this.closed) return
+    this.closed = true
+    for (const [id, call] of this.pending) {
+      clearTimeout(call.timer)
+      call.reject(new Error(reason))
+      this.pending.delete(id)
+    }
+  }
+}
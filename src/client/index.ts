@@ -0,0 +1,24 @@
+/**
+ * Client module exports
+ */
+
+export {
+  ColumnClient,
+  connectColumn,
+  discoverColumns,
+  discoverSocketDirs,
+} from './client.ts'
+export type {
+  ColumnSocket,
+  ColumnInfo,
+  SurfaceFormat,
+  ClientOptions,
+  ConnectOptions,
+  DataNotification,
+  EventNotification,
+  TitleNotification,
+  SubscriptionHandler,
+} from './client.ts'
+
+export { generatePythonClient } from './python.ts'
+export type { PythonClientOptions } from './python.ts'
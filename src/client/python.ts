@@ -0,0 +1,241 @@
+/**
+ * Python Client Generator
+ * Emits a single-file, stdlib-only Python client for column sockets
+ */
+
+import { PROTOCOL_VERSION, SOCKET_DIR_PREFIX } from '../ipc/protocol.ts'
+
+export interface PythonClientOptions {
+  socketDirPrefix?: string // Socket directory name prefix (default 'sixcol-')
+  timeout?: number // Default call timeout in seconds (default 5)
+}
+
+/**
+ * Generate the Python client module source
+ * The module mirrors ColumnClient: discover_columns, connect_column, set_data,
+ * append, clear, set_title, emit, subscribe/listen and upload_surface
+ * (binary SURFACE_FULL payload packed with struct, JSON otherwise)
+ */
+export function generatePythonClient(options: PythonClientOptions = {}): string {
+  const prefix = options.socketDirPrefix ?? SOCKET_DIR_PREFIX
+  const timeout = options.timeout ?? 5
+
+  return `"""
+Column socket client for Sixcol (protocol ${PROTOCOL_VERSION}).
+Generated by \`marigraph --python-client\`; do not edit.
+
+    client = connect_column("col1")
+    client.set_data([1, 2, 3])
+    client.subscribe("data", lambda params: print(params["data"]))
+    client.listen()
+"""
+
+import base64
+import json
+import os
+import socket
+import struct
+import tempfile
+
+PROTOCOL_VERSION = ${PROTOCOL_VERSION}
+SOCKET_DIR_PREFIX = ${JSON.stringify(prefix)}
+DEFAULT_TIMEOUT = ${timeout}
+
+
+class ColumnError(Exception):
+    """JSON-RPC error returned by a column."""
+
+    def __init__(self, code, message, data=None):
+        super().__init__(message)
+        self.code = code
+        self.data = data
+
+
+def discover_socket_dirs(root=None):
+    """Sixcol socket directories, newest first."""
+    root = root or tempfile.gettempdir()
+    try:
+        names = os.listdir(root)
+    except OSError:
+        return []
+    dirs = [os.path.join(root, n) for n in names if n.startswith(SOCKET_DIR_PREFIX)]
+    dirs = [d for d in dirs if os.path.isdir(d)]
+    return sorted(dirs, key=os.path.getmtime, reverse=True)
+
+
+def discover_columns(socket_dir=None):
+    """Map of column id to socket path (newest socket directory by default)."""
+    if socket_dir is None:
+        dirs = discover_socket_dirs()
+        if not dirs:
+            return {}
+        socket_dir = dirs[0]
+    try:
+        names = sorted(os.listdir(socket_dir))
+    except OSError:
+        return {}
+    return {n[: -len(".sock")]: os.path.join(socket_dir, n) for n in names if n.endswith(".sock")}
+
+
+def connect_column(column_id, socket_dir=None, timeout=DEFAULT_TIMEOUT):
+    columns = discover_columns(socket_dir)
+    if column_id not in columns:
+        raise ColumnError(None, "Column %s not found in %s" % (column_id, socket_dir or "any sixcol socket directory"))
+    return ColumnClient(columns[column_id], timeout)
+
+
+def _message(method, params=None, request_id=None):
+    message = {"jsonrpc": "2.0", "method": method}
+    if params is not None:
+        message["params"] = params
+    if request_id is not None:
+        message["id"] = request_id
+    return message
+
+
+def _topic(event):
+    return event if event in ("data", "title") else "events"
+
+
+def _pack_surface(x, y, z, labels):
+    """SURFACE_FULL payload: [nx u32][ny u32][meta_len u32][meta][pad to 4][x f32][y f32][z f32]."""
+    nx, ny = len(x), len(y)
+    if len(z) != nx * ny:
+        raise ValueError("z length %d does not match nx*ny %d" % (len(z), nx * ny))
+    meta = json.dumps({
+        "xLabel": labels.get("x", "X"),
+        "yLabel": labels.get("y", "Y"),
+        "zLabel": labels.get("z", "Z"),
+        "xDomain": [min(x), max(x)],
+        "yDomain": [min(y), max(y)],
+        "zDomain": [min(z), max(z)],
+        "timestamp": 0,
+    }).encode()
+    header = struct.pack("<III", nx, ny, len(meta)) + meta
+    header += b"\\0" * ((4 - len(header) % 4) % 4)
+    values = list(x) + list(y) + list(z)
+    return header + struct.pack("<%df" % len(values), *values)
+
+
+class ColumnClient:
+    """JSON-RPC 2.0 client for one column socket."""
+
+    def __init__(self, path, timeout=DEFAULT_TIMEOUT):
+        self._sock = socket.socket(socket.AF_UNIX, socket.SOCK_STREAM)
+        self._sock.settimeout(timeout)
+        self._sock.connect(path)
+        self._buffer = b""
+        self._next_id = 1
+        self._handlers = {}
+        self._info = None
+
+    def close(self):
+        self._sock.close()
+
+    def __enter__(self):
+        return self
+
+    def __exit__(self, *exc):
+        self.close()
+
+    def call(self, method, params=None):
+        request_id = self._next_id
+        self._next_id += 1
+        self._send(_message(method, params, request_id))
+        while True:
+            message = self._read()
+            for item in message if isinstance(message, list) else [message]:
+                if "method" in item:
+                    self._dispatch(item)
+                elif item.get("id") == request_id:
+                    if "error" in item:
+                        error = item["error"]
+                        raise ColumnError(error["code"], error["message"], error.get("data"))
+                    return item.get("result")
+
+    def notify(self, method, params=None):
+        self._send(_message(method, params))
+
+    def get_data(self):
+        return self.call("getData")
+
+    def set_data(self, data):
+        self.call("setData", {"data": data})
+
+    def append(self, data):
+        return self.call("appendData", {"data": data})
+
+    def clear(self):
+        self.call("clear")
+
+    def set_title(self, title):
+        self.call("setTitle", {"title": title})
+
+    def emit(self, event, data=None):
+        self.call("emit", {"event": event, "data": data})
+
+    def describe(self):
+        self._info = self.call("describe")
+        return self._info
+
+    def upload_surface(self, x, y, z, labels=None, format=None):
+        """Upload a surface (z row-major: z[xi * ny + yi]); returns the format used."""
+        labels = labels or {}
+        if format is None:
+            info = self._info or self.describe()
+            format = "binary" if "binary" in info.get("surfaceFormats", []) else "json"
+        if format == "binary":
+            payload = base64.b64encode(_pack_surface(x, y, z, labels)).decode()
+            self.call("setSurface", {"format": "binary", "payload": payload})
+        else:
+            self.call("setSurface", {"format": "json", "x": list(x), "y": list(y), "z": list(z), "labels": labels})
+        return format
+
+    def subscribe(self, event, callback):
+        """Call callback(params) for 'data', 'title', a column event name, or '*' (all events)."""
+        topic = _topic(event)
+        active = any(_topic(e) == topic and h for e, h in self._handlers.items())
+        self._handlers.setdefault(event, []).append(callback)
+        if not active:
+            self.call("subscribe", {"topics": [topic]})
+
+    def unsubscribe(self, event, callback=None):
+        handlers = self._handlers.get(event, [])
+        self._handlers[event] = [h for h in handlers if callback is not None and h is not callback]
+        topic = _topic(event)
+        if not any(_topic(e) == topic and h for e, h in self._handlers.items()):
+            self.call("unsubscribe", {"topics": [topic]})
+
+    def listen(self, count=None):
+        """Dispatch notifications until the socket closes (or count have arrived)."""
+        seen = 0
+        self._sock.settimeout(None)
+        while count is None or seen < count:
+            message = self._read()
+            for item in message if isinstance(message, list) else [message]:
+                if "method" in item:
+                    self._dispatch(item)
+                    seen += 1
+
+    def _dispatch(self, notification):
+        params = notification.get("params") or {}
+        keys = [params.get("event"), "*"] if notification["method"] == "event" else [notification["method"]]
+        for key in keys:
+            for handler in list(self._handlers.get(key, [])):
+                handler(params)
+
+    def _send(self, message):
+        self._sock.sendall((json.dumps(message) + "\\n").encode())
+
+    def _read(self):
+        while b"\\n" not in self._buffer:
+            chunk = self._sock.recv(65536)
+            if not chunk:
+                raise ConnectionError("Column socket closed")
+            self._buffer += chunk
+        line, self._buffer = self._buffer.split(b"\\n", 1)
+        if not line.strip():
+            return self._read()
+        return json.loads(line)
+`
+}
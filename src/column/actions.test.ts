@@ -0,0 +1,63 @@
+/**
+ * Tests for the built-in action data: surface updates, slices, slope table and arbitrage list
+ */
+
+import { describe, it, expect } from 'bun:test'
+import {
+  arbitrageListData,
+  riskMetricsUpdate,
+  slopeTableData,
+  smileData,
+  surfaceFromUpdate,
+  surfaceUpdate,
+  termStructureData,
+} from './actions.ts'
+import { createSurface } from '../data/surface.ts'
+import { detectArbitrage } from '../oracle/risk.ts'
+
+// 3 expiries x 3 strikes; the 90 strike is inverted (near IV above far IV)
+const surface = createSurface(
+  new Float64Array([30, 60, 90]),
+  new Float64Array([90, 100, 110]),
+  new Float64Array([0.5, 0.2, 0.22, 0.4, 0.21, 0.23, 0.3, 0.22, 0.24]),
+  { x: 'DTE', y: 'Strike', z: 'IV' }
+)
+
+describe('Built-in actions', () => {
+  it('should round-trip surfaces through SURFACE_UPDATE data', () => {
+    const update = surfaceUpdate(surface)
+    expect(update.labels).toEqual({ x: 'DTE', y: 'Strike', z: 'IV' })
+    const received = surfaceFromUpdate(JSON.parse(JSON.stringify(update)))!
+    expect([received.nx, received.ny]).toEqual([3, 3])
+    expect(Array.from(received.z)).toEqual(Array.from(surface.z))
+
+    expect(surfaceFromUpdate({ x: [1], y: [1, 2], z: [1] })).toBeNull()
+    expect(surfaceFromUpdate({ riskScore: 0.5 })).toBeNull()
+    expect(surfaceFromUpdate(null)).toBeNull()
+  })
+
+  it('should slice term structure and smile in vol points', () => {
+    const term = termStructureData(surface)
+    expect(term.series.map((s) => s.label)).toEqual(['Strike 90', 'Strike 100', 'Strike 110'])
+    expect(term.series[0]!.x).toEqual([30, 60, 90])
+    expect(term.series[0]!.y).toEqual([50, 40, 30])
+
+    const smile = smileData(surface)
+    expect(smile.series.map((s) => s.label)).toEqual(['DTE 30', 'DTE 60'])
+    expect(smile.series[1]!.y.map((v) => Number(v.toFixed(6)))).toEqual([40, 21, 23])
+  })
+
+  it('should tabulate slope metrics and list arbitrage', () => {
+    const metrics = riskMetricsUpdate(surface)
+    expect(metrics.riskScore).toBeGreaterThanOrEqual(0)
+    expect(metrics.riskScore).toBeLessThanOrEqual(1)
+    const table = slopeTableData(metrics)
+    expect(table.rows.map((r) => r.metric)).toContain('Risk score')
+    expect(table.rows.at(-1)!.value).toBe(metrics.riskScore.toFixed(4))
+
+    const list = arbitrageListData(detectArbitrage(surface))
+    expect(list.items.length).toBeGreaterThan(0)
+    expect(list.items[0]!.type).toBe('calendar')
+    expect(list.items[0]!.label).toStartWith('Calendar spread at K=90 +')
+  })
+})
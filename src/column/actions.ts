@@ -0,0 +1,150 @@
+/**
+ * Built-in Actions
+ * Widget data for the risk oracle template's wired verbs, computed from the
+ * surface a surface column announces with SURFACE_UPDATE
+ *
+ * | Verb | Widget data |
+ * |------|-------------|
+ * | UPDATE_SLICE_X | Term structure chart through the wing and middle strikes |
+ * | UPDATE_SLICE_Y | Smile chart at the front and middle expiries |
+ * | RECOMPUTE | Slope metrics table |
+ * | CHECK_ARBITRAGE | Arbitrage opportunities list |
+ * | REVALUE | Portfolio table revalued against the surface (needs options.portfolio) |
+ * | UPDATE_SCORE | Gauge reading from RISK_METRICS |
+ */
+
+import { computeSlope, createSurface, type Surface } from '../data/surface.ts'
+import { vec64From, type Vec32, type Vec64 } from '../data/vec.ts'
+import { computeRiskMetrics } from '../render/gradient.ts'
+import { analyzeSmile, analyzeTermStructure, type ArbitrageOpportunity } from '../oracle/risk.ts'
+import { formatTick } from './widgets/heatmap.ts'
+
+/**
+ * SURFACE_UPDATE event data: the surface in the setSurface JSON format
+ */
+export interface SurfaceUpdate {
+  x: number[]
+  y: number[]
+  z: number[]
+  labels: { x: string; y: string; z: string }
+}
+
+/**
+ * RISK_METRICS event data: the surface-wide slope statistics
+ * (computeRiskMetrics without the per-node zones)
+ */
+export interface RiskMetricsUpdate {
+  riskScore: number
+  maxSlope: number
+  avgSlope: number
+  slopeVariance: number
+  upwardBias: number
+  termStructureSteepness: number
+  smileSteepness: number
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function numbers(value: unknown): number[] | null {
+  return Array.isArray(value) && value.every((v) => typeof v === 'number') ? value : null
+}
+
+export function surfaceUpdate(surface: Surface<Vec32 | Vec64>): SurfaceUpdate {
+  const { xLabel, yLabel, zLabel } = surface.meta
+  return {
+    x: Array.from(surface.x),
+    y: Array.from(surface.y),
+    z: Array.from(surface.z),
+    labels: { x: xLabel, y: yLabel, z: zLabel },
+  }
+}
+
+/**
+ * Surface from SURFACE_UPDATE data; null when the data is not a surface
+ */
+export function surfaceFromUpdate(data: unknown): Surface<Vec64> | null {
+  if (!isRecord(data)) return null
+  const x = numbers(data.x)
+  const y = numbers(data.y)
+  const z = numbers(data.z)
+  if (!x || !y || !z || x.length === 0 || y.length === 0 || z.length !== x.length * y.length) return null
+  const labels = isRecord(data.labels) ? (data.labels as { x?: string; y?: string; z?: string }) : {}
+  return createSurface(vec64From(x), vec64From(y), vec64From(z), labels)
+}
+
+export function riskMetricsUpdate(surface: Surface<Vec64>): RiskMetricsUpdate {
+  const metrics = computeRiskMetrics(computeSlope(surface), surface.nx, surface.ny)
+  return {
+    riskScore: metrics.riskScore,
+    maxSlope: metrics.maxSlope,
+    avgSlope: metrics.avgSlope,
+    slopeVariance: metrics.slopeVariance,
+    upwardBias: metrics.upwardBias,
+    termStructureSteepness: metrics.termStructureSteepness,
+    smileSteepness: metrics.smileSteepness,
+  }
+}
+
+/**
+ * Term structure chart: IV (vol points) along x through the first, middle
+ * and last strikes
+ */
+export function termStructureData(surface: Surface<Vec64>): { series: { label: string; x: number[]; y: number[] }[] } {
+  const strikes = [...new Set([0, Math.floor(surface.ny / 2), surface.ny - 1])]
+  const analysis = analyzeTermStructure(surface, strikes)
+  return {
+    series: [...analysis.curves].map(([strike, curve]) => ({
+      label: `${surface.meta.yLabel} ${formatTick(strike)}`,
+      x: curve.dte,
+      y: curve.iv.map((iv) => iv * 100),
+    })),
+  }
+}
+
+/**
+ * Smile chart: IV (vol points) along y at the front and middle expiries
+ */
+export function smileData(surface: Surface<Vec64>): { series: { label: string; x: number[]; y: number[] }[] } {
+  const expiries = [...new Set([0, Math.floor(surface.nx / 2)])]
+  const analysis = analyzeSmile(surface, expiries, Math.floor(surface.ny / 2))
+  return {
+    series: [...analysis.smiles].map(([expiry, smile]) => ({
+      label: `${surface.meta.xLabel} ${formatTick(expiry)}`,
+      x: smile.strike,
+      y: smile.iv.map((iv) => iv * 100),
+    })),
+  }
+}
+
+/**
+ * Slope table: one row per metric
+ */
+export function slopeTableData(metrics: RiskMetricsUpdate): { rows: { metric: string; value: string }[] } {
+  const rows: [string, number][] = [
+    ['Max slope', metrics.maxSlope],
+    ['Avg slope', metrics.avgSlope],
+    ['Variance', metrics.slopeVariance],
+    ['Term', metrics.termStructureSteepness],
+    ['Smile', metrics.smileSteepness],
+    ['Upward bias', metrics.upwardBias],
+    ['Risk score', metrics.riskScore],
+  ]
+  return { rows: rows.map(([metric, value]) => ({ metric, value: value.toFixed(4) })) }
+}
+
+/**
+ * Arbitrage list: one item per opportunity, most profitable first
+ */
+export function arbitrageListData(opportunities: ArbitrageOpportunity[]): {
+  items: { label: string; type: string; profit: number }[]
+} {
+  return {
+    items: opportunities.map((o) => ({
+      label: `${o.description} +${o.profit.toFixed(2)}`,
+      type: o.type,
+      profit: o.profit,
+    })),
+  }
+}
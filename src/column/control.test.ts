@@ -0,0 +1,104 @@
+/**
+ * Tests for the instance control socket
+ */
+
+import { describe, it, expect, afterEach } from 'bun:test'
+import { ControlServer, type ColumnSummary, type ControlHooks, type TemplateReload } from './control.ts'
+import { ColumnClient } from '../client/client.ts'
+import { JsonRpcErrorCode } from '../ipc/jsonrpc.ts'
+
+function summary(id: string): ColumnSummary {
+  return {
+    id,
+    type: 'list',
+    title: null,
+    socket: `/tmp/${id}.sock`,
+    pid: 1,
+    ready: true,
+    protocol: 2,
+    features: [],
+    state: 'healthy',
+    bridge: null,
+  }
+}
+
+interface Recorder extends ControlHooks {
+  sent: Array<[string, string, unknown]>
+  reloads: Array<string | undefined>
+}
+
+function recorder(): Recorder {
+  const r: Recorder = {
+    sent: [],
+    reloads: [],
+    listColumns: () => [summary('a'), summary('b')],
+    health: () => [],
+    reloadTemplate: async (path) => {
+      r.reloads.push(path)
+      return { added: ['c'], removed: [], restarted: [] }
+    },
+    sendTo: (id, action, data) => r.sent.push([id, action, data]),
+  }
+  return r
+}
+
+describe('ControlServer', () => {
+  const path = `/tmp/sixcol-control-test-${Date.now()}.ctl`
+  let server: ControlServer | null = null
+  let client: ColumnClient | null = null
+
+  afterEach(() => {
+    client?.close()
+    server?.stop()
+    client = null
+    server = null
+  })
+
+  it('should list, send to and broadcast to columns', async () => {
+    const hooks = recorder()
+    server = new ControlServer(path, hooks)
+    await server.start()
+    client = await ColumnClient.connect(path)
+
+    expect((await client.call<ColumnSummary[]>('listColumns')).map((c) => c.id)).toEqual(['a', 'b'])
+    await client.call('sendTo', { column: 'a', action: 'SET_DATA', data: [1] })
+    expect(await client.call<string[]>('broadcast', ['CLEAR'])).toEqual(['a', 'b'])
+    expect(hooks.sent).toEqual([
+      ['a', 'SET_DATA', [1]],
+      ['a', 'CLEAR', null],
+      ['b', 'CLEAR', null],
+    ])
+
+    expect(await client.call<TemplateReload>('reloadTemplate')).toEqual({ added: ['c'], removed: [], restarted: [] })
+    await client.call('reloadTemplate', { path: 'next.yaml' })
+    expect(hooks.reloads).toEqual([undefined, 'next.yaml'])
+
+    await expect(client.call('sendTo', ['z', 'SET'])).rejects.toMatchObject({
+      code: JsonRpcErrorCode.INVALID_PARAMS,
+      message: 'Unknown column: z',
+    })
+    await expect(client.call('broadcast', {})).rejects.toMatchObject({ code: JsonRpcErrorCode.INVALID_PARAMS })
+  })
+
+  it('should stream events to subscribers only', async () => {
+    server = new ControlServer(path, recorder())
+    await server.start()
+    client = await ColumnClient.connect(path)
+
+    const events: unknown[] = []
+    const stop = await client.subscribe('*', (params) => events.push(params))
+    server.publish({ columnId: 'a', event: 'SELECTED', data: { index: 2 }, targets: ['b'] })
+    server.publish({ columnId: 'b', event: 'PICKED', data: undefined, targets: [] })
+
+    await client.call('health') // Round trip: notifications arrive first
+    expect(events).toEqual([
+      { columnId: 'a', event: 'SELECTED', data: { index: 2 }, targets: ['b'] },
+      { columnId: 'b', event: 'PICKED', data: null, targets: [] },
+    ])
+
+    await stop()
+    server.publish({ columnId: 'a', event: 'SELECTED', data: null, targets: [] })
+    await client.call('health')
+    expect(events.length).toBe(2)
+  })
+})
@@ -0,0 +1,206 @@
+/**
+ * Control Socket
+ * JSON-RPC endpoint for the whole Sixcol instance: list and drive columns,
+ * reload the template, and stream every routed column event
+ */
+
+import { PROTOCOL_VERSION } from '../ipc/protocol.ts'
+import {
+  JsonRpcErrorCode,
+  JsonRpcServer,
+  encodeNotification,
+  getParam,
+  jsonRpcError,
+  requireParam,
+  type JsonRpcParams,
+} from '../ipc/jsonrpc.ts'
+import { SocketBridge, type BridgeAddress, type BridgeConnection } from '../ipc/bridge.ts'
+import type { ColumnHealth, ColumnHealthState } from './supervisor.ts'
+
+// Socket file name inside the socket directory (not .sock, so it is never taken for a column)
+export const CONTROL_SOCKET_NAME = 'control.ctl'
+
+/**
+ * Column as reported by listColumns
+ */
+export interface ColumnSummary {
+  id: string
+  type: string
+  title: string | null
+  socket: string // Column's own JSON-RPC socket
+  pid: number
+  ready: boolean
+  protocol: number | null // null until the worker's READY
+  features: string[]
+  state: ColumnHealthState | null
+  bridge: BridgeAddress | null // TCP/WebSocket listeners, when configured
+}
+
+/**
+ * Column event as streamed to subscribers
+ */
+export interface RoutedEvent {
+  columnId: string // Column that raised the event
+  event: string // MessageType name, or the custom event name
+  data: unknown
+  targets: string[] // Columns the wiring delivered it to
+}
+
+/**
+ * Changes applied by reloadTemplate
+ */
+export interface TemplateReload {
+  added: string[]
+  removed: string[]
+  restarted: string[] // Columns whose config changed
+}
+
+/**
+ * Instance operations exposed over the socket
+ */
+export interface ControlHooks {
+  listColumns: () => ColumnSummary[]
+  health: () => ColumnHealth[]
+  reloadTemplate: (path?: string) => Promise<TemplateReload>
+  sendTo: (columnId: string, action: string, data: unknown) => void
+}
+
+type Topic = 'events'
+const TOPICS: Topic[] = ['events']
+
+interface ControlClient {
+  connection: BridgeConnection
+  topics: Set<Topic>
+}
+
+function stringParam(params: JsonRpcParams, name: string, index: number): string {
+  const value = requireParam(params, name, index)
+  if (typeof value !== 'string' || value === '') {
+    throw jsonRpcError(JsonRpcErrorCode.INVALID_PARAMS, `${name} must be a non-empty string`)
+  }
+  return value
+}
+
+function topicsParam(params: JsonRpcParams): Topic[] {
+  const topics = Array.isArray(params) ? params : params?.topics
+  if (topics === undefined) return TOPICS
+  if (!Array.isArray(topics) || !topics.every((t) => TOPICS.includes(t))) {
+    throw jsonRpcError(JsonRpcErrorCode.INVALID_PARAMS, `topics must be a list of: ${TOPICS.join(', ')}`)
+  }
+  return topics
+}
+
+/**
+ * Unix socket server speaking the same line-delimited JSON-RPC 2.0 as the
+ * column sockets, so ColumnClient can connect to it too
+ */
+export class ControlServer {
+  private path: string
+  private hooks: ControlHooks
+  private clients: Set<ControlClient> = new Set()
+  private bridge: SocketBridge<ControlClient>
+  private rpc: JsonRpcServer<ControlClient>
+
+  constructor(path: string, hooks: ControlHooks) {
+    this.path = path
+    this.hooks = hooks
+    this.rpc = this.createMethods()
+    this.bridge = new SocketBridge<ControlClient>(path, {}, {
+      open: (connection) => {
+        const client: ControlClient = { connection, topics: new Set() }
+        this.clients.add(client)
+        return client
+      },
+      line: (client, line) => this.receive(client, line),
+      close: (client) => {
+        this.clients.delete(client)
+      },
+    })
+  }
+
+  async start(): Promise<void> {
+    await this.bridge.start()
+  }
+
+  stop(): void {
+    for (const client of this.clients) client.connection.close()
+    this.clients.clear()
+    this.bridge.stop()
+  }
+
+  // Stream a column event to subscribed clients
+  publish(event: RoutedEvent): void {
+    if (this.clients.size === 0) return
+    const line = encodeNotification('event', { ...event, data: event.data ?? null })
+    for (const client of this.clients) {
+      if (client.topics.has('events')) client.connection.send(line)
+    }
+  }
+
+  get socketPath(): string {
+    return this.path
+  }
+
+  private createMethods(): JsonRpcServer<ControlClient> {
+    const hooks = this.hooks
+
+    const columnParam = (params: JsonRpcParams): string => {
+      const id = stringParam(params, 'column', 0)
+      if (!hooks.listColumns().some((c) => c.id === id)) {
+        throw jsonRpcError(JsonRpcErrorCode.INVALID_PARAMS, `Unknown column: ${id}`)
+      }
+      return id
+    }
+
+    const rpc: JsonRpcServer<ControlClient> = new JsonRpcServer<ControlClient>()
+      .method('listColumns', () => hooks.listColumns())
+      .method('health', () => hooks.health())
+      .method('reloadTemplate', (params) => {
+        const path = getParam(params, 'path', 0)
+        if (path !== undefined && typeof path !== 'string') {
+          throw jsonRpcError(JsonRpcErrorCode.INVALID_PARAMS, 'path must be a string')
+        }
+        return hooks.reloadTemplate(path)
+      })
+      .method('sendTo', (params) => {
+        const column = columnParam(params)
+        const action = stringParam(params, 'action', 1)
+        hooks.sendTo(column, action, getParam(params, 'data', 2) ?? null)
+      })
+      .method('broadcast', (params) => {
+        const action = stringParam(params, 'action', 0)
+        const data = getParam(params, 'data', 1) ?? null
+        const ids = hooks.listColumns().map((c) => c.id)
+        for (const id of ids) hooks.sendTo(id, action, data)
+        return ids
+      })
+      .method('describe', () => ({
+        protocol: PROTOCOL_VERSION,
+        methods: rpc.methodNames,
+        topics: TOPICS,
+        columns: hooks.listColumns().map((c) => c.id),
+      }))
+      .method('subscribe', (params, client) => {
+        for (const topic of topicsParam(params)) client.topics.add(topic)
+        return { topics: [...client.topics] }
+      })
+      .method('unsubscribe', (params, client) => {
+        for (const topic of topicsParam(params)) client.topics.delete(topic)
+        return { topics: [...client.topics] }
+      })
+    return rpc
+  }
+
+  private receive(client: ControlClient, line: string): void {
+    this.rpc
+      .handleLine(line, client)
+      .then((response) => {
+        if (response !== null && this.clients.has(client)) {
+          client.connection.send(response + '\n')
+        }
+      })
+      .catch((err) => {
+        console.error('Error handling control message:', err)
+      })
+  }
+}
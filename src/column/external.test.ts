@@ -3,7 +3,7 @@
  */
 
 import { describe, it, expect } from 'bun:test'
-import { spawnExternal, spawnShell, createPollingSource } from './external.ts'
+import { spawnExternal, spawnShell, createPollingSource, backoffDelay } from './external.ts'
 
 describe('External program bridge', () => {
   it('should spawn and communicate with external program', async () => {
@@ -78,4 +78,30 @@ describe('External program bridge', () => {
     expect(results.length).toBeGreaterThanOrEqual(1)
     expect(results[0]).toEqual({ value: 42 })
   })
+
+  it('should report nonzero exit codes as failures', async () => {
+    const errors: Array<[string, number]> = []
+    const results: unknown[] = []
+
+    const source = createPollingSource('exit 2', 20, {
+      onData: (data) => results.push(data),
+      onError: (err, failures) => errors.push([err.message, failures]),
+    })
+
+    source.start()
+    await Bun.sleep(70)
+    source.stop()
+
+    expect(results.length).toBe(0)
+    expect(errors[0]).toEqual(['Command exited with code 2', 1])
+    expect(errors[1]![1]).toBe(2)
+  })
+
+  it('should grow backoff delays up to the cap', () => {
+    expect(backoffDelay(0, 1000)).toBe(1000)
+    expect(backoffDelay(1, 1000)).toBe(1000)
+    expect(backoffDelay(3, 1000)).toBe(4000)
+    expect(backoffDelay(10, 1000, { max: 5000 })).toBe(5000)
+    expect(backoffDelay(2, 1000, { initial: 100, factor: 3 })).toBe(300)
+  })
 })
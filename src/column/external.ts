@@ -198,49 +198,63 @@ export function spawnShell(
 }
 
 /**
- * Create a data source that periodically runs a command
+ * Retry backoff after consecutive failures
  */
-export function createPollingSource(
-  command: string,
+export interface BackoffOptions {
+  initial?: number // First retry delay in ms (default: the polling interval)
+  max?: number // Upper bound on the delay (default 60000)
+  factor?: number // Growth per consecutive failure (default 2)
+}
+
+/**
+ * Delay before the next attempt after `failures` consecutive failures
+ */
+export function backoffDelay(failures: number, baseMs: number, options: BackoffOptions = {}): number {
+  const { initial = baseMs, max = 60000, factor = 2 } = options
+  if (failures <= 0) return baseMs
+  return Math.min(max, initial * Math.pow(factor, failures - 1))
+}
+
+export interface PollerOptions {
+  parse?: (output: string) => unknown
+  onData?: (data: unknown) => void
+  onError?: (error: Error, failures: number) => void
+  backoff?: BackoffOptions // Retry failed polls with growing delays instead of the interval
+}
+
+/**
+ * Create a data source that periodically calls `read`
+ * Failures (thrown errors, parse errors) are reported with the consecutive failure count
+ */
+export function createPoller(
+  read: () => Promise<string>,
   intervalMs: number,
-  options: {
-    cwd?: string
-    parse?: (output: string) => unknown
-    onData?: (data: unknown) => void
-    onError?: (error: Error) => void
-  } = {}
+  options: PollerOptions = {}
 ): { start: () => void; stop: () => void } {
   let timer: Timer | null = null
   let running = false
+  let failures = 0
 
   const poll = async () => {
     if (!running) return
 
     try {
-      const proc = spawn({
-        cmd: ['sh', '-c', command],
-        cwd: options.cwd,
-        stdout: 'pipe',
-        stderr: 'pipe',
-      })
-
-      const output = await new Response(proc.stdout).text()
-      const exitCode = await proc.exited
-
-      if (exitCode === 0) {
-        const data = options.parse ? options.parse(output) : output.trim()
-        if (options.onData) {
-          options.onData(data)
-        }
+      const output = await read()
+      const data = options.parse ? options.parse(output) : output.trim()
+      failures = 0
+      if (running && options.onData) {
+        options.onData(data)
       }
     } catch (err) {
-      if (options.onError) {
-        options.onError(err as Error)
+      failures++
+      if (running && options.onError) {
+        options.onError(err as Error, failures)
       }
     }
 
     if (running) {
-      timer = setTimeout(poll, intervalMs)
+      const delay = options.backoff ? backoffDelay(failures, intervalMs, options.backoff) : intervalMs
+      timer = setTimeout(poll, delay)
     }
   }
 
@@ -260,28 +274,72 @@ export function createPollingSource(
   }
 }
 
+/**
+ * Create a data source that periodically runs a command
+ * A nonzero exit code counts as a failure
+ */
+export function createPollingSource(
+  command: string,
+  intervalMs: number,
+  options: PollerOptions & { cwd?: string } = {}
+): { start: () => void; stop: () => void } {
+  const { cwd, ...pollerOptions } = options
+
+  return createPoller(async () => {
+    const proc = spawn({
+      cmd: ['sh', '-c', command],
+      cwd,
+      stdout: 'pipe',
+      stderr: 'pipe',
+    })
+
+    const [output, errors] = await Promise.all([
+      new Response(proc.stdout).text(),
+      new Response(proc.stderr).text(),
+    ])
+    const exitCode = await proc.exited
+
+    if (exitCode !== 0) {
+      const detail = errors.trim()
+      throw new Error(`Command exited with code ${exitCode}${detail ? `: ${detail}` : ''}`)
+    }
+    return output
+  }, intervalMs, pollerOptions)
+}
+
 /**
  * Create a WebSocket data source
+ * Reconnect delays grow with `backoff` until a connection opens again
  */
 export function createWebSocketSource(
   url: string,
   options: {
+    onOpen?: () => void
     onMessage?: (data: unknown) => void
     onError?: (error: Event) => void
-    onClose?: () => void
+    onClose?: (failures: number) => void
     reconnect?: boolean
     reconnectDelay?: number
+    backoff?: BackoffOptions
   } = {}
 ): { send: (data: unknown) => void; close: () => void } {
   let ws: WebSocket | null = null
+  let timer: Timer | null = null
   let shouldReconnect = options.reconnect ?? true
+  let failures = 0
   const reconnectDelay = options.reconnectDelay ?? 5000
 
   const connect = () => {
+    timer = null
     ws = new WebSocket(url)
 
     ws.onopen = () => {
-      console.error(`WebSocket connected to ${url}`)
+      failures = 0
+      if (options.onOpen) {
+        options.onOpen()
+      } else {
+        console.error(`WebSocket connected to ${url}`)
+      }
     }
 
     ws.onmessage = (event) => {
@@ -304,11 +362,15 @@ export function createWebSocketSource(
     }
 
     ws.onclose = () => {
+      failures++
       if (options.onClose) {
-        options.onClose()
+        options.onClose(failures)
       }
       if (shouldReconnect) {
-        setTimeout(connect, reconnectDelay)
+        const delay = options.backoff
+          ? backoffDelay(failures, reconnectDelay, options.backoff)
+          : reconnectDelay
+        timer = setTimeout(connect, delay)
       }
     }
   }
@@ -324,6 +386,10 @@ export function createWebSocketSource(
 
     close(): void {
       shouldReconnect = false
+      if (timer) {
+        clearTimeout(timer)
+        timer = null
+      }
       if (ws) {
         ws.close()
       }
@@ -0,0 +1,176 @@
+/**
+ * Tests for template data sources
+ */
+
+import { describe, it, expect, afterEach } from 'bun:test'
+import { mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { SourceManager, parseSourceOutput, sourceMessageType, type SourceStatus } from './sources.ts'
+import { MessageType } from '../ipc/protocol.ts'
+
+interface Delivery {
+  columnId: string
+  type: MessageType
+  data: unknown
+}
+
+function collect(): { deliveries: Delivery[]; sink: (id: string, type: MessageType, payload: Uint8Array) => void } {
+  const deliveries: Delivery[] = []
+  return {
+    deliveries,
+    sink: (columnId, type, payload) => {
+      deliveries.push({ columnId, type, data: JSON.parse(new TextDecoder().decode(payload)) })
+    },
+  }
+}
+
+describe('Source output parsing', () => {
+  it('should parse each format', () => {
+    expect(parseSourceOutput('{"a": 1}', 'json')).toEqual({ a: 1 })
+    expect(parseSourceOutput('a\n\nb\n', 'lines')).toEqual(['a', 'b'])
+    expect(parseSourceOutput('  text \n', 'raw')).toBe('text')
+    expect(parseSourceOutput('name,value\n"x, y",1.5\nz,n/a\n', 'csv')).toEqual([
+      { name: 'x, y', value: 1.5 },
+      { name: 'z', value: 'n/a' },
+    ])
+    expect(() => parseSourceOutput('{', 'json')).toThrow()
+  })
+
+  it('should append for websocket streams and set otherwise', () => {
+    expect(sourceMessageType({ type: 'command', target: 'date' })).toBe(MessageType.SET_DATA)
+    expect(sourceMessageType({ type: 'websocket', target: 'ws://x' })).toBe(MessageType.APPEND_DATA)
+    expect(sourceMessageType({ type: 'http', target: 'http://x', mode: 'append' })).toBe(MessageType.APPEND_DATA)
+  })
+})
+
+describe('SourceManager', () => {
+  let manager: SourceManager | null = null
+  let dir: string | null = null
+
+  afterEach(async () => {
+    manager?.stop()
+    manager = null
+    if (dir) {
+      await rm(dir, { recursive: true, force: true })
+      dir = null
+    }
+  })
+
+  it('should deliver command output to every listed column', async () => {
+    const { deliveries, sink } = collect()
+    manager = new SourceManager(
+      [{ type: 'command', target: 'echo \'{"value": 42}\'', interval: 50, parse: 'json', columns: ['a', 'b'] }],
+      sink
+    )
+    manager.start()
+    await Bun.sleep(120)
+
+    expect(deliveries[0]).toEqual({ columnId: 'a', type: MessageType.SET_DATA, data: { value: 42 } })
+    expect(deliveries[1]!.columnId).toBe('b')
+
+    const [status] = manager.status()
+    expect(status!.state).toBe('ok')
+    expect(status!.updates).toBeGreaterThanOrEqual(1)
+    expect(status!.lastUpdate).not.toBeNull()
+  })
+
+  it('should back off after consecutive failures', async () => {
+    const { deliveries, sink } = collect()
+    const statuses: SourceStatus[] = []
+    manager = new SourceManager(
+      [{ type: 'command', target: 'echo boom >&2; exit 3', interval: 10, columns: ['a'] }],
+      sink,
+      { backoff: { initial: 40, factor: 2 }, onStatus: (s) => statuses.push(s) }
+    )
+    manager.start()
+    await Bun.sleep(200)
+    manager.stop()
+
+    expect(deliveries.length).toBe(0)
+    const failures = statuses.filter((s) => s.state === 'backoff')
+    // Delays of 40, 80, 160ms leave room for only a few attempts
+    expect(failures.length).toBeGreaterThanOrEqual(2)
+    expect(failures.length).toBeLessThanOrEqual(4)
+    expect(failures[0]!.lastError).toBe('Command exited with code 3: boom')
+    expect(failures[1]!.failures).toBe(2)
+    expect(manager.status()[0]!.state).toBe('stopped')
+  })
+
+  it('should deliver file content only when it changes', async () => {
+    dir = await mkdtemp(join(tmpdir(), 'sixcol-sources-'))
+    const path = join(dir, 'data.csv')
+    await writeFile(path, 'k,v\na,1\n')
+
+    const { deliveries, sink } = collect()
+    manager = new SourceManager([{ type: 'file', target: path, interval: 20, parse: 'csv', columns: ['t'] }], sink)
+    manager.start()
+    await Bun.sleep(100)
+    expect(deliveries.length).toBe(1)
+
+    await writeFile(path, 'k,v\nb,2\n')
+    await Bun.sleep(100)
+    expect(deliveries.length).toBe(2)
+    expect(deliveries[1]!.data).toEqual([{ k: 'b', v: 2 }])
+  })
+
+  it('should poll HTTP endpoints and report error statuses', async () => {
+    let hits = 0
+    const server = Bun.serve({
+      port: 0,
+      fetch() {
+        hits++
+        return hits === 1 ? new Response('down', { status: 503 }) : new Response('line1\nline2\n')
+      },
+    })
+
+    try {
+      const { deliveries, sink } = collect()
+      const statuses: SourceStatus[] = []
+      manager = new SourceManager(
+        [{ type: 'http', target: `http://localhost:${server.port}/`, interval: 30, parse: 'lines', columns: ['log'] }],
+        sink,
+        { onStatus: (s) => statuses.push(s) }
+      )
+      manager.start()
+      await Bun.sleep(120)
+      manager.stop()
+
+      expect(statuses[0]!.lastError).toBe('HTTP 503 Service Unavailable')
+      expect(deliveries[0]!.data).toEqual(['line1', 'line2'])
+    } finally {
+      server.stop(true)
+    }
+  })
+
+  it('should append websocket messages', async () => {
+    const server = Bun.serve({
+      port: 0,
+      fetch(req, srv) {
+        return srv.upgrade(req) ? undefined : new Response('upgrade required', { status: 400 })
+      },
+      websocket: {
+        open(ws) {
+          ws.send('{"tick": 1}')
+          ws.send('{"tick": 2}')
+        },
+        message() {},
+      },
+    })
+
+    try {
+      const { deliveries, sink } = collect()
+      manager = new SourceManager([{ type: 'websocket', target: `ws://localhost:${server.port}`, columns: ['log'] }], sink)
+      manager.start()
+      await Bun.sleep(150)
+
+      expect(deliveries.map((d) => d.type)).toEqual([MessageType.APPEND_DATA, MessageType.APPEND_DATA])
+      expect(deliveries[1]!.data).toEqual({ tick: 2 })
+      expect(manager.status()[0]!.state).toBe('ok')
+    } finally {
+      manager?.stop()
+      manager = null
+      server.stop(true)
+    }
+  })
+})
@@ -0,0 +1,299 @@
+/**
+ * Data Source Manager
+ * Runs template `sources` (command/file/http pollers, websocket streams)
+ * and delivers their parsed output to columns as SET_DATA/APPEND_DATA frames
+ */
+
+import { readFile } from 'node:fs/promises'
+import { MessageType } from '../ipc/protocol.ts'
+import type { DataSourceConfig } from '../config/types.ts'
+import { splitCsvLine } from '../data/csv.ts'
+import {
+  backoffDelay,
+  createPoller,
+  createPollingSource,
+  createWebSocketSource,
+  type BackoffOptions,
+} from './external.ts'
+
+export type SourceFormat = NonNullable<DataSourceConfig['parse']>
+
+export type SourceState = 'idle' | 'connecting' | 'ok' | 'backoff' | 'stopped'
+
+/**
+ * Runtime status of one source
+ */
+export interface SourceStatus {
+  index: number // Position in the template's sources list
+  type: DataSourceConfig['type']
+  target: string
+  state: SourceState
+  updates: number // Deliveries so far
+  failures: number // Consecutive failures (0 once a poll succeeds)
+  lastUpdate: number | null // Unix ms
+  lastError: string | null
+  nextRetry: number | null // Unix ms of the next attempt while backing off
+}
+
+// Receives frames destined for a column
+export type SourceSink = (columnId: string, type: MessageType, payload: Uint8Array) => void
+
+export interface SourceManagerOptions {
+  backoff?: BackoffOptions
+  onStatus?: (status: SourceStatus) => void
+}
+
+const DEFAULT_INTERVAL = 5000
+
+/**
+ * Parse CSV text into records keyed by the header row
+ * Numeric-looking fields become numbers
+ */
+function parseCsvRecords(content: string): Record<string, string | number>[] {
+  const lines = content.split(/\r?\n/).filter((l) => l.trim() !== '')
+  if (lines.length === 0) return []
+
+  const header = splitCsvLine(lines[0]!)
+  return lines.slice(1).map((line) => {
+    const fields = splitCsvLine(line)
+    const record: Record<string, string | number> = {}
+    header.forEach((name, i) => {
+      const value = fields[i] ?? ''
+      const num = Number(value)
+      record[name] = value !== '' && Number.isFinite(num) ? num : value
+    })
+    return record
+  })
+}
+
+/**
+ * Parse source output according to the template's `parse` setting
+ * - json: JSON document
+ * - csv: array of records keyed by the header row
+ * - lines: array of non-empty lines
+ * - raw: trimmed text
+ */
+export function parseSourceOutput(output: string, format: SourceFormat = 'raw'): unknown {
+  switch (format) {
+    case 'json':
+      return JSON.parse(output)
+    case 'csv':
+      return parseCsvRecords(output)
+    case 'lines':
+      return output.split(/\r?\n/).filter((l) => l.trim() !== '')
+    case 'raw':
+      return output.trim()
+    default:
+      throw new Error(`Unknown source format: ${format}`)
+  }
+}
+
+/**
+ * Frame type used to deliver a source's output
+ * Polled sources replace column data; websocket streams append to it
+ */
+export function sourceMessageType(source: DataSourceConfig): MessageType {
+  const mode = source.mode ?? (source.type === 'websocket' ? 'append' : 'set')
+  return mode === 'append' ? MessageType.APPEND_DATA : MessageType.SET_DATA
+}
+
+/**
+ * Starts template sources and tracks their status
+ */
+export class SourceManager {
+  private sources: DataSourceConfig[]
+  private sink: SourceSink
+  private options: SourceManagerOptions
+  private statuses: SourceStatus[]
+  private stops: Array<() => void> = []
+  private running = false
+
+  constructor(sources: DataSourceConfig[], sink: SourceSink, options: SourceManagerOptions = {}) {
+    this.sources = sources
+    this.sink = sink
+    this.options = options
+    this.statuses = sources.map((source, index) => ({
+      index,
+      type: source.type,
+      target: source.target,
+      state: 'idle',
+      updates: 0,
+      failures: 0,
+      lastUpdate: null,
+      lastError: null,
+      nextRetry: null,
+    }))
+  }
+
+  start(): void {
+    if (this.running) return
+    this.running = true
+
+    this.sources.forEach((source, index) => {
+      this.stops.push(this.startSource(source, index))
+    })
+  }
+
+  stop(): void {
+    if (!this.running) return
+    this.running = false
+
+    for (const stop of this.stops) {
+      stop()
+    }
+    this.stops = []
+
+    for (const status of this.statuses) {
+      this.update(status, { state: 'stopped', nextRetry: null })
+    }
+  }
+
+  status(): SourceStatus[] {
+    return this.statuses.map((s) => ({ ...s }))
+  }
+
+  private startSource(source: DataSourceConfig, index: number): () => void {
+    const status = this.statuses[index]!
+    const interval = source.interval ?? DEFAULT_INTERVAL
+    const parse = (output: string) => parseSourceOutput(output, source.parse)
+    const onData = (data: unknown) => this.deliver(source, status, data)
+    const onError = (error: Error, failures: number) => {
+      this.update(status, {
+        state: 'backoff',
+        failures,
+        lastError: error.message,
+        nextRetry: Date.now() + backoffDelay(failures, interval, this.options.backoff),
+      })
+    }
+
+    switch (source.type) {
+      case 'command': {
+        const poller = createPollingSource(source.target, interval, {
+          parse,
+          onData,
+          onError,
+          backoff: this.options.backoff,
+        })
+        poller.start()
+        return poller.stop
+      }
+
+      case 'file': {
+        // Only deliver when the file content changes
+        let previous: string | null = null
+        const poller = createPoller(
+          () => readFile(source.target, 'utf-8'),
+          interval,
+          {
+            parse: (output) => {
+              const changed = output !== previous
+              previous = output
+              return changed ? parse(output) : undefined
+            },
+            onData: (data) => {
+              if (data === undefined) {
+                this.update(status, { state: 'ok', failures: 0, nextRetry: null })
+              } else {
+                onData(data)
+              }
+            },
+            onError: (error, failures) => {
+              previous = null
+              onError(error, failures)
+            },
+            backoff: this.options.backoff,
+          }
+        )
+        poller.start()
+        return poller.stop
+      }
+
+      case 'http': {
+        const poller = createPoller(
+          async () => {
+            const res = await fetch(source.target)
+            if (!res.ok) {
+              throw new Error(`HTTP ${res.status} ${res.statusText}`)
+            }
+            return res.text()
+          },
+          interval,
+          { parse, onData, onError, backoff: this.options.backoff }
+        )
+        poller.start()
+        return poller.stop
+      }
+
+      case 'websocket': {
+        this.update(status, { state: 'connecting' })
+        const reconnectDelay = source.interval ?? DEFAULT_INTERVAL
+        const socket = createWebSocketSource(source.target, {
+          reconnectDelay,
+          backoff: this.options.backoff,
+          onOpen: () => {
+            this.update(status, { state: 'ok', failures: 0, lastError: null, nextRetry: null })
+          },
+          onMessage: (message) => {
+            // Messages arrive JSON-decoded when possible; re-parse text for other formats
+            try {
+              const data =
+                typeof message === 'string'
+                  ? parse(message)
+                  : source.parse === undefined || source.parse === 'json'
+                    ? message
+                    : parse(JSON.stringify(message))
+              onData(data)
+            } catch (err) {
+              this.update(status, { lastError: (err as Error).message })
+            }
+          },
+          onError: () => {
+            this.update(status, { lastError: `WebSocket error on ${source.target}` })
+          },
+          onClose: (failures) => {
+            if (!this.running) return
+            this.update(status, {
+              state: 'backoff',
+              failures,
+              lastError: status.lastError ?? 'WebSocket closed',
+              nextRetry: Date.now() + backoffDelay(failures, reconnectDelay, this.options.backoff),
+            })
+          },
+        })
+        return socket.close
+      }
+
+      default:
+        this.update(status, {
+          state: 'stopped',
+          lastError: `Unknown source type: ${(source as DataSourceConfig).type}`,
+        })
+        return () => {}
+    }
+  }
+
+  private deliver(source: DataSourceConfig, status: SourceStatus, data: unknown): void {
+    if (!this.running) return
+
+    const type = sourceMessageType(source)
+    const payload = new TextEncoder().encode(JSON.stringify(data))
+    for (const columnId of source.columns ?? []) {
+      this.sink(columnId, type, payload)
+    }
+
+    this.update(status, {
+      state: 'ok',
+      updates: status.updates + 1,
+      failures: 0,
+      lastUpdate: Date.now(),
+      nextRetry: null,
+    })
+  }
+
+  private update(status: SourceStatus, changes: Partial<SourceStatus>): void {
+    Object.assign(status, changes)
+    if (this.options.onStatus) {
+      this.options.onStatus({ ...status })
+    }
+  }
+}
@@ -0,0 +1,152 @@
+/**
+ * Tests for column worker supervision
+ */
+
+import { describe, it, expect, afterEach } from 'bun:test'
+import { ColumnSupervisor, type ColumnHealth, type SupervisorHooks } from './supervisor.ts'
+
+interface Recorder extends SupervisorHooks {
+  pings: Array<[string, number]>
+  kills: string[]
+  restarts: string[]
+  states: ColumnHealth[]
+}
+
+function recorder(): Recorder {
+  const r: Recorder = {
+    pings: [],
+    kills: [],
+    restarts: [],
+    states: [],
+    ping: (id, seq) => r.pings.push([id, seq]),
+    kill: (id) => r.kills.push(id),
+    restart: (id) => r.restarts.push(id),
+    onHealth: (h) => r.states.push(h),
+  }
+  return r
+}
+
+describe('ColumnSupervisor', () => {
+  let supervisor: ColumnSupervisor | null = null
+
+  afterEach(() => {
+    supervisor?.stop()
+    supervisor = null
+  })
+
+  it('should ping healthy columns and record latency', async () => {
+    const hooks = recorder()
+    supervisor = new ColumnSupervisor(hooks, { heartbeatInterval: 20 })
+    supervisor.add('a')
+    supervisor.add('b')
+    supervisor.ready('a')
+    supervisor.start()
+
+    await Bun.sleep(30)
+    // Only columns that reported READY are pinged
+    expect(hooks.pings).toEqual([['a', 1]])
+
+    supervisor.pong('a', 99) // Unknown seq is ignored
+    expect(supervisor.get('a')!.lastPong).toBeNull()
+    supervisor.pong('a', 1)
+
+    const health = supervisor.get('a')!
+    expect(health.state).toBe('healthy')
+    expect(health.latencyMs).toBeGreaterThanOrEqual(0)
+    expect(supervisor.get('b')!.state).toBe('starting')
+  })
+
+  it('should kill workers that miss heartbeats', async () => {
+    const hooks = recorder()
+    supervisor = new ColumnSupervisor(hooks, { heartbeatInterval: 15, maxMissed: 2 })
+    supervisor.add('a')
+    supervisor.ready('a')
+    supervisor.start()
+
+    await Bun.sleep(70)
+    expect(hooks.kills).toEqual(['a'])
+    expect(hooks.pings.length).toBe(1)
+    expect(hooks.states.some((h) => h.state === 'unresponsive' && h.missed === 1)).toBe(true)
+
+    // The kill shows up as a signal exit; on-failure restarts it
+    supervisor.exited('a', 137)
+    expect(supervisor.get('a')!.state).toBe('restarting')
+    expect(supervisor.get('a')!.lastError).toBe('Missed 2 heartbeats')
+  })
+
+  it('should kill workers that never report READY', async () => {
+    const hooks = recorder()
+    supervisor = new ColumnSupervisor(hooks, { heartbeatInterval: 10, maxMissed: 100, startTimeout: 30 })
+    supervisor.add('hung')
+    supervisor.add('ok')
+    supervisor.ready('ok')
+    supervisor.start()
+
+    await Bun.sleep(60)
+    expect(hooks.kills).toEqual(['hung'])
+
+    // Killed before READY counts as a failed start, whatever the exit code
+    supervisor.exited('hung', 0)
+    expect(supervisor.get('hung')!).toMatchObject({ state: 'restarting', lastError: 'No READY within 30ms' })
+    expect(hooks.kills).not.toContain('ok')
+  })
+
+  it('should apply restart policies with growing backoff', async () => {
+    const hooks = recorder()
+    supervisor = new ColumnSupervisor(hooks, { backoff: { initial: 10, factor: 3 } })
+    supervisor.add('fail', 'on-failure')
+    supervisor.add('clean', 'on-failure')
+    supervisor.add('never', 'never')
+    supervisor.add('always', 'always')
+
+    supervisor.exited('clean', 0)
+    supervisor.exited('never', 1)
+    supervisor.exited('always', 0)
+    supervisor.exited('fail', 2)
+
+    expect(supervisor.get('clean')!.state).toBe('stopped')
+    expect(supervisor.get('never')!.state).toBe('crashed')
+    expect(supervisor.get('always')!.state).toBe('restarting')
+
+    const first = supervisor.get('fail')!
+    expect(first.lastError).toBe('Exited with code 2')
+    await Bun.sleep(20)
+    expect(hooks.restarts.sort()).toEqual(['always', 'fail'])
+    expect(supervisor.get('fail')!).toMatchObject({ state: 'starting', restarts: 1 })
+
+    // Crashing again before answering a heartbeat grows the delay (10ms -> 30ms)
+    supervisor.exited('fail', 2)
+    const second = supervisor.get('fail')!
+    expect(second.nextRestart! - Date.now()).toBeGreaterThan(15)
+  })
+
+  it('should retry restarts whose worker fails to spawn', async () => {
+    const hooks = recorder()
+    supervisor = new ColumnSupervisor(hooks, { backoff: { initial: 10, factor: 3 } })
+    supervisor.add('a')
+    supervisor.exited('a', 1)
+    await Bun.sleep(20)
+    expect(hooks.restarts).toEqual(['a'])
+
+    supervisor.spawnFailed('a', 'EMFILE')
+    const health = supervisor.get('a')!
+    expect(health).toMatchObject({ state: 'restarting', exitCode: null, lastError: 'Failed to spawn: EMFILE' })
+    // The second failed start backs off further (10ms -> 30ms)
+    expect(health.nextRestart! - Date.now()).toBeGreaterThan(15)
+  })
+
+  it('should give up after maxRestarts and stop cleanly', () => {
+    const hooks = recorder()
+    supervisor = new ColumnSupervisor(hooks, { maxRestarts: 0 })
+    supervisor.add('a', 'always')
+    supervisor.exited('a', 1)
+    expect(supervisor.get('a')!.state).toBe('crashed')
+    expect(supervisor.get('a')!.lastError).toContain('gave up after 0 restarts')
+
+    supervisor.add('b')
+    supervisor.stop()
+    supervisor.exited('b', 1)
+    expect(supervisor.get('b')!.state).toBe('stopped')
+    expect(hooks.restarts).toEqual([])
+  })
+})
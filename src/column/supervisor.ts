@@ -0,0 +1,274 @@
+/**
+ * Column Supervisor
+ * Heartbeats column workers and restarts them according to their policy
+ */
+
+import { backoffDelay, type BackoffOptions } from './external.ts'
+
+/**
+ * When to restart a worker after it exits
+ * - never: leave it down
+ * - on-failure: restart after a nonzero exit, missed heartbeats or no READY
+ *   within the start timeout
+ * - always: restart after any exit
+ */
+export type RestartPolicy = 'never' | 'on-failure' | 'always'
+
+export type ColumnHealthState =
+  | 'starting' // Spawned, waiting for READY
+  | 'healthy'
+  | 'unresponsive' // Missed at least one PONG
+  | 'restarting' // Waiting out the restart backoff
+  | 'crashed' // Exited and will not be restarted
+  | 'stopped' // Exited cleanly or shut down
+
+/**
+ * Health of one column worker
+ */
+export interface ColumnHealth {
+  id: string
+  state: ColumnHealthState
+  policy: RestartPolicy
+  restarts: number // Restarts so far
+  missed: number // Consecutive missed heartbeats
+  latencyMs: number | null // Last PING -> PONG round trip
+  lastPong: number | null // Unix ms
+  exitCode: number | null // Exit code of the last exit
+  lastError: string | null
+  nextRestart: number | null // Unix ms of the scheduled restart
+}
+
+export interface SupervisorOptions {
+  heartbeatInterval?: number // PING interval in ms (default 5000)
+  maxMissed?: number // Missed PONGs before the worker is killed (default 3)
+  maxRestarts?: number // Give up after this many restarts (default unlimited)
+  startTimeout?: number // READY wait in ms before a start counts as failed (default 10000)
+  backoff?: BackoffOptions // Restart delays (default 500ms doubling to 30s)
+}
+
+/**
+ * Process operations the supervisor drives
+ */
+export interface SupervisorHooks {
+  ping: (columnId: string, seq: number) => void
+  kill: (columnId: string) => void
+  restart: (columnId: string) => void
+  onHealth?: (health: ColumnHealth) => void
+}
+
+interface SupervisedColumn {
+  health: ColumnHealth
+  seq: number
+  pending: { seq: number; sentAt: number } | null
+  failures: number // Consecutive failed starts, drives the backoff
+  startedAt: number // Unix ms the current start began (for the start timeout)
+  killed: string | null // Why the supervisor killed the worker (missed heartbeats, start timeout) or it failed to spawn
+  timer: Timer | null
+}
+
+const DEFAULT_BACKOFF: BackoffOptions = { initial: 500, max: 30000, factor: 2 }
+
+export class ColumnSupervisor {
+  private hooks: SupervisorHooks
+  private heartbeatInterval: number
+  private maxMissed: number
+  private maxRestarts: number
+  private startTimeout: number
+  private backoff: BackoffOptions
+  private columns: Map<string, SupervisedColumn> = new Map()
+  private heartbeat: Timer | null = null
+  private stopping = false
+
+  constructor(hooks: SupervisorHooks, options: SupervisorOptions = {}) {
+    this.hooks = hooks
+    this.heartbeatInterval = options.heartbeatInterval ?? 5000
+    this.maxMissed = options.maxMissed ?? 3
+    this.maxRestarts = options.maxRestarts ?? Infinity
+    this.startTimeout = options.startTimeout ?? 10000
+    this.backoff = { ...DEFAULT_BACKOFF, ...options.backoff }
+  }
+
+  add(columnId: string, policy: RestartPolicy = 'on-failure'): void {
+    this.columns.set(columnId, {
+      health: {
+        id: columnId,
+        state: 'starting',
+        policy,
+        restarts: 0,
+        missed: 0,
+        latencyMs: null,
+        lastPong: null,
+        exitCode: null,
+        lastError: null,
+        nextRestart: null,
+      },
+      seq: 0,
+      pending: null,
+      failures: 0,
+      startedAt: Date.now(),
+      killed: null,
+      timer: null,
+    })
+  }
+
+  // Stop supervising a column (removed from the template); cancels a pending restart
+  remove(columnId: string): void {
+    const column = this.columns.get(columnId)
+    if (!column) return
+    if (column.timer) clearTimeout(column.timer)
+    this.columns.delete(columnId)
+  }
+
+  // Start the heartbeat loop
+  start(): void {
+    this.stopping = false
+    if (this.heartbeat) return
+    this.heartbeat = setInterval(() => this.tick(), this.heartbeatInterval)
+  }
+
+  // Stop heartbeats and pending restarts; later exits are treated as shutdown
+  stop(): void {
+    this.stopping = true
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat)
+      this.heartbeat = null
+    }
+    for (const column of this.columns.values()) {
+      if (column.timer) {
+        clearTimeout(column.timer)
+        column.timer = null
+      }
+      if (column.health.state === 'restarting') {
+        this.update(column, { state: 'stopped', nextRestart: null })
+      }
+    }
+  }
+
+  ready(columnId: string): void {
+    const column = this.columns.get(columnId)
+    if (!column) return
+    column.pending = null
+    column.killed = null
+    this.update(column, { state: 'healthy', missed: 0, nextRestart: null })
+  }
+
+  pong(columnId: string, seq: number): void {
+    const column = this.columns.get(columnId)
+    if (!column || !column.pending || column.pending.seq !== seq) return
+
+    const now = Date.now()
+    const latencyMs = now - column.pending.sentAt
+    column.pending = null
+    // A worker answering heartbeats has started successfully
+    column.failures = 0
+    this.update(column, { state: 'healthy', missed: 0, latencyMs, lastPong: now })
+  }
+
+  /**
+   * A restart whose worker could not be spawned: a failed start, retried with
+   * the next backoff like a crash
+   */
+  spawnFailed(columnId: string, error: string): void {
+    const column = this.columns.get(columnId)
+    if (!column) return
+    column.killed = `Failed to spawn: ${error}`
+    this.exited(columnId, null)
+  }
+
+  // exitCode is null when no worker was spawned
+  exited(columnId: string, exitCode: number | null): void {
+    const column = this.columns.get(columnId)
+    if (!column) return
+    column.pending = null
+
+    if (this.stopping) {
+      this.update(column, { state: 'stopped', exitCode })
+      return
+    }
+
+    const failed = exitCode !== 0 || column.killed !== null
+    const lastError = column.killed ?? (exitCode !== 0 ? `Exited with code ${exitCode}` : column.health.lastError)
+    column.killed = null
+
+    const { policy, restarts } = column.health
+    const restart = policy === 'always' || (policy === 'on-failure' && failed)
+
+    if (!restart) {
+      this.update(column, { state: failed ? 'crashed' : 'stopped', exitCode, lastError })
+      return
+    }
+
+    if (restarts >= this.maxRestarts) {
+      this.update(column, {
+        state: 'crashed',
+        exitCode,
+        lastError: `${lastError ?? 'Exited'}; gave up after ${restarts} restarts`,
+      })
+      return
+    }
+
+    column.failures++
+    const delay = backoffDelay(column.failures, this.backoff.initial ?? 500, this.backoff)
+    this.update(column, { state: 'restarting', exitCode, lastError, nextRestart: Date.now() + delay })
+
+    column.timer = setTimeout(() => {
+      column.timer = null
+      if (this.stopping) return
+      column.startedAt = Date.now()
+      this.update(column, { state: 'starting', restarts: column.health.restarts + 1, nextRestart: null })
+      this.hooks.restart(columnId)
+    }, delay)
+  }
+
+  health(): ColumnHealth[] {
+    return Array.from(this.columns.values()).map((c) => ({ ...c.health }))
+  }
+
+  get(columnId: string): ColumnHealth | undefined {
+    const column = this.columns.get(columnId)
+    return column ? { ...column.health } : undefined
+  }
+
+  // Kill workers that never report READY or stop answering PINGs, and PING the rest
+  private tick(): void {
+    const now = Date.now()
+
+    for (const [id, column] of this.columns) {
+      const { state } = column.health
+      if (column.killed) continue
+
+      if (state === 'starting') {
+        if (now - column.startedAt >= this.startTimeout) {
+          column.killed = `No READY within ${this.startTimeout}ms`
+          this.hooks.kill(id)
+        }
+        continue
+      }
+      if (state !== 'healthy' && state !== 'unresponsive') continue
+
+      // Still waiting: keep the outstanding PING so a late PONG still counts
+      if (column.pending) {
+        const missed = column.health.missed + 1
+        this.update(column, { state: 'unresponsive', missed })
+
+        if (missed >= this.maxMissed) {
+          column.pending = null
+          column.killed = `Missed ${this.maxMissed} heartbeats`
+          this.hooks.kill(id)
+        }
+        continue
+      }
+
+      column.seq = (column.seq + 1) & 0xffff
+      column.pending = { seq: column.seq, sentAt: now }
+      this.hooks.ping(id, column.seq)
+    }
+  }
+
+  private update(column: SupervisedColumn, changes: Partial<ColumnHealth>): void {
+    Object.assign(column.health, changes)
+    if (this.hooks.onHealth) {
+      this.hooks.onHealth({ ...column.health })
+    }
+  }
+}
@@ -5,9 +5,7 @@
 
 import React from 'react'
 import { Box, Text } from 'ink'
-
-// Sparkline characters (8 levels)
-const SPARK_CHARS = '▁▂▃▄▅▆▇█'
+import { sparkline, horizontalBar, renderLineChartText } from './text.ts'
 
 // Bar chart characters
 const BAR_CHARS = {
@@ -30,7 +28,7 @@ export interface ChartData {
 
 export interface ChartWidgetProps {
   /** Chart type */
-  type: 'sparkline' | 'bar' | 'horizontal-bar'
+  type: 'sparkline' | 'bar' | 'horizontal-bar' | 'line'
   /** Data points */
   data: number[] | ChartData[]
   /** Chart title */
@@ -47,35 +45,13 @@ export interface ChartWidgetProps {
   color?: string
   /** Baseline value for diverging charts */
   baseline?: number
+  /** Line chart: series instead of data ({ label, color, style, x?, y } or { label, points }) */
+  series?: unknown[]
+  /** Line chart: SVI fit over market quotes ({ params, t, market: [{ k, iv }] }) */
+  svi?: unknown
 }
 
-/**
- * Generate sparkline string from values
- */
-export function sparkline(values: number[]): string {
-  if (values.length === 0) return ''
-
-  const min = Math.min(...values)
-  const max = Math.max(...values)
-  const range = max - min || 1
-
-  return values
-    .map((v) => {
-      const norm = (v - min) / range
-      const idx = Math.min(Math.floor(norm * SPARK_CHARS.length), SPARK_CHARS.length - 1)
-      return SPARK_CHARS[idx]
-    })
-    .join('')
-}
-
-/**
- * Generate horizontal bar
- */
-export function horizontalBar(value: number, max: number, width: number): string {
-  const filled = Math.round((value / max) * width)
-  const empty = width - filled
-  return BAR_CHARS.full.repeat(filled) + BAR_CHARS.empty.repeat(empty)
-}
+export { sparkline, horizontalBar }
 
 /**
  * Sparkline chart component
@@ -215,6 +191,34 @@ function VerticalBarChart({
   )
 }
 
+/**
+ * XY line chart component (braille lines, axes, legend)
+ */
+function LineChart({
+  series,
+  svi,
+  title,
+  width = 40,
+  height = 10,
+}: {
+  series: unknown[]
+  svi?: unknown
+  title?: string
+  width?: number
+  height?: number
+}): React.ReactElement {
+  const lines = renderLineChartText({ series, svi }, { width, height })
+
+  return (
+    <Box flexDirection="column">
+      {title && <Text bold>{title}</Text>}
+      {lines.map((line, i) => (
+        <Text key={i}>{line || ' '}</Text>
+      ))}
+    </Box>
+  )
+}
+
 /**
  * Main chart widget
  */
@@ -227,6 +231,8 @@ export function ChartWidget({
   showRange,
   showLabels,
   color,
+  series,
+  svi,
 }: ChartWidgetProps): React.ReactElement {
   // Normalize data
   const chartData: ChartData[] = Array.isArray(data)
@@ -253,6 +259,15 @@ export function ChartWidget({
           color={color}
         />
       )}
+      {type === 'line' && (
+        <LineChart
+          series={series ?? [{ y: numericData, color }]}
+          svi={svi}
+          title={title}
+          width={width}
+          height={height}
+        />
+      )}
       {type === 'bar' && (
         <VerticalBarChart
           data={chartData}
@@ -0,0 +1,69 @@
+/**
+ * Form Widget
+ * Text, number, select and toggle fields with inline validation
+ */
+
+import React, { useEffect, useState } from 'react'
+import { Box, Text, useInput } from 'ink'
+import { renderFormText } from './text.ts'
+import { inputFromInk } from './input.ts'
+import { fillForm, formFromOptions, formInput, type FormState } from './form.ts'
+
+export interface FormWidgetProps {
+  /** Field declarations, as in a form column's options.fields */
+  fields: unknown[]
+  /** Values to fill in (e.g. the last calibration) */
+  values?: Record<string, unknown>
+  /** Widget title */
+  title?: string
+  /** Submit button label */
+  submitLabel?: string
+  /** Size in cells, inside the border */
+  width?: number
+  height?: number
+  /** Enable keyboard input */
+  enableInput?: boolean
+  /** Called with the typed values when the form is submitted */
+  onSubmit?: (values: Record<string, unknown>) => void
+}
+
+export function FormWidget({
+  fields,
+  values,
+  title,
+  submitLabel,
+  width = 40,
+  height = 12,
+  enableInput = true,
+  onSubmit,
+}: FormWidgetProps): React.ReactElement {
+  const [form, setForm] = useState<FormState>(() => fillForm(formFromOptions({ fields, submitLabel }), values))
+
+  useEffect(() => {
+    setForm((f) => fillForm(f, values))
+  }, [values])
+
+  useInput(
+    (input, key) => {
+      const message = inputFromInk(input, key)
+      if (!message) return
+      const result = formInput(form, message)
+      setForm(result.state)
+      if (result.submitted) onSubmit?.(result.submitted)
+    },
+    { isActive: enableInput }
+  )
+
+  const lines = renderFormText(form, { width, height, focused: enableInput })
+
+  return (
+    <Box flexDirection="column" borderStyle="single" paddingX={1}>
+      {title && <Text bold>{title}</Text>}
+      {lines.map((line, i) => (
+        <Text key={i}>{line || ' '}</Text>
+      ))}
+    </Box>
+  )
+}
+
+export default FormWidget
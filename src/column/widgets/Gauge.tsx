@@ -0,0 +1,75 @@
+/**
+ * Gauge Widget
+ * A value against its range and thresholds, as a radial arc, bar or number
+ */
+
+import React, { useEffect, useRef, useState } from 'react'
+import { Box, Text } from 'ink'
+import { renderGaugeText } from './text.ts'
+import {
+  DEFAULT_GAUGE_HISTORY,
+  gaugeConfig,
+  thresholdCrossings,
+  type GaugeCrossing,
+  type GaugeMode,
+} from './gauge.ts'
+
+export interface GaugeWidgetProps {
+  /** Current value */
+  value: number
+  /** Range (default 0-100) */
+  min?: number
+  max?: number
+  /** Radial braille arc, linear bar or plain number */
+  mode?: GaugeMode
+  /** Band starts: numbers, or { value, color, level, label } */
+  thresholds?: Array<number | { value: number; color?: string; level?: string; label?: string }>
+  /** Label and unit */
+  label?: string
+  unit?: string
+  /** Size in cells, inside the border */
+  width?: number
+  height?: number
+  /** Values kept for the trailing sparkline (0 hides it) */
+  history?: number
+  /** Called for every threshold the value crosses */
+  onThreshold?: (crossing: GaugeCrossing, value: number) => void
+}
+
+export function GaugeWidget({
+  value,
+  min,
+  max,
+  mode = 'radial',
+  thresholds,
+  label,
+  unit,
+  width = 30,
+  height = 8,
+  history = DEFAULT_GAUGE_HISTORY,
+  onThreshold,
+}: GaugeWidgetProps): React.ReactElement {
+  const options = { min, max, mode, thresholds, label, unit, history }
+  const [values, setValues] = useState<number[]>([])
+  const last = useRef<number | null>(null)
+
+  // Track the history and report crossings as the value changes
+  useEffect(() => {
+    if (history > 0) setValues((v) => [...v, value].slice(-history))
+    const crossings = thresholdCrossings(last.current, value, gaugeConfig(options).thresholds)
+    for (const crossing of crossings) onThreshold?.(crossing, value)
+    last.current = value
+  }, [value])
+
+  const lines = renderGaugeText(value, { width, height }, options, values)
+
+  return (
+    <Box flexDirection="column" borderStyle="single" paddingX={1}>
+      {lines.map((line, i) => (
+        <Text key={i}>{line}</Text>
+      ))}
+    </Box>
+  )
+}
+
+export default GaugeWidget
@@ -0,0 +1,68 @@
+/**
+ * Heatmap Widget
+ * A surface as a colored grid with a cursor that reads out and selects nodes
+ */
+
+import React, { useState } from 'react'
+import { Box, Text, useInput } from 'ink'
+import { renderHeatmapText } from './text.ts'
+import { inputFromInk } from './input.ts'
+import { cursorInput, type GridCursor, type HeatmapCell, type HeatmapColor } from './heatmap.ts'
+import type { Surface } from '../../data/surface.ts'
+import type { Vec32, Vec64 } from '../../data/vec.ts'
+import type { GradientPreset } from '../../render/gradient.ts'
+
+export interface HeatmapWidgetProps {
+  /** Surface to draw (rows follow x, columns y) */
+  surface: Surface<Vec32 | Vec64> | null
+  /** Color by value or by slope magnitude */
+  color?: HeatmapColor
+  /** Gradient preset */
+  gradient?: GradientPreset
+  /** Widget title */
+  title?: string
+  /** Size in cells, inside the border */
+  width?: number
+  height?: number
+  /** Enable keyboard input */
+  enableInput?: boolean
+  /** Called with the node under the cursor on Enter or Space */
+  onSelect?: (cell: HeatmapCell) => void
+}
+
+export function HeatmapWidget({
+  surface,
+  color = 'value',
+  gradient = 'heat',
+  title,
+  width = 60,
+  height = 16,
+  enableInput = true,
+  onSelect,
+}: HeatmapWidgetProps): React.ReactElement {
+  const [cursor, setCursor] = useState<GridCursor | null>(null)
+
+  useInput(
+    (input, key) => {
+      const message = inputFromInk(input, key)
+      if (!message || !surface) return
+      const result = cursorInput(cursor, message, surface)
+      setCursor(result.cursor)
+      if (result.selected) onSelect?.(result.selected)
+    },
+    { isActive: enableInput }
+  )
+
+  const lines = renderHeatmapText(surface, { width, height, focused: enableInput }, { color, gradient }, cursor)
+
+  return (
+    <Box flexDirection="column" borderStyle="single" paddingX={1}>
+      {title && <Text bold>{title}</Text>}
+      {lines.map((line, i) => (
+        <Text key={i}>{line || ' '}</Text>
+      ))}
+    </Box>
+  )
+}
+
+export default HeatmapWidget
@@ -5,6 +5,7 @@
 
 import React, { useState, useEffect, useRef } from 'react'
 import { Box, Text, useInput } from 'ink'
+import { LEVEL_COLORS, LEVEL_ICONS } from './text.ts'
 
 export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
 
@@ -47,20 +48,6 @@ const LEVEL_ORDER: Record<LogLevel, number> = {
   error: 3,
 }
 
-const LEVEL_COLORS: Record<LogLevel, string> = {
-  debug: 'gray',
-  info: 'blue',
-  warn: 'yellow',
-  error: 'red',
-}
-
-const LEVEL_ICONS: Record<LogLevel, string> = {
-  debug: '·',
-  info: 'ℹ',
-  warn: '⚠',
-  error: '✖',
-}
-
 export function LogWidget({
   entries,
   title = 'Log',
@@ -19,18 +19,30 @@ import { Box, Text, useApp, useInput, useStdout } from 'ink'
 import type { Surface } from '../../data/surface.ts'
 import type { Vec64 } from '../../data/vec.ts'
 import { SurfaceWidget, RiskSummary, CrossSection } from './Surface.tsx'
+import { TableWidget, type TableColumn } from './Table.tsx'
 import type { RiskMetrics } from '../../render/gradient.ts'
 import {
   createRiskOracleState,
   updateRiskOracle,
+  setQuoteFits,
   type RiskOracleState,
   type RiskAlert,
   type ArbitrageOpportunity,
 } from '../../oracle/risk.ts'
+import type { PricingMarket } from '../../pricing/surface.ts'
+import type { Position } from '../../portfolio/position.ts'
+import { portfolioTableRows, type PortfolioValuation } from '../../portfolio/revalue.ts'
+import { quoteOutliers, type QuoteFit } from '../../surface/build.ts'
 
 export interface RiskOracleAppProps {
   /** Initial surface data */
   surface?: Surface<Vec64> | null
+  /** Position book revalued on every surface update */
+  positions?: Position[]
+  /** Underlying, rates and pricing model */
+  market?: PricingMarket
+  /** Per-quote fit errors when the surface was built from quotes */
+  quoteFits?: QuoteFit[]
   /** Called when surface updates */
   onSurfaceUpdate?: (surface: Surface<Vec64>) => void
   /** IPC message handler */
@@ -159,7 +171,10 @@ function GreeksRiskPanel({
   width: number
   height: number
 }): React.ReactElement {
-  const metrics = state.riskMetrics
+  const greeks = state.greeks
+  const exposureColor = (exposure: 'long' | 'short' | 'neutral') =>
+    exposure === 'long' ? 'green' : exposure === 'short' ? 'red' : 'yellow'
+  const pnlColor = (pnl: number) => (pnl >= 0 ? 'green' : 'red')
 
   return (
     <Box
@@ -169,16 +184,31 @@ function GreeksRiskPanel({
       height={height}
     >
       <Box paddingX={1}>
-        <Text bold>Slope Analysis</Text>
+        <Text bold>Greeks Risk</Text>
       </Box>
-      {metrics ? (
+      {greeks ? (
         <Box flexDirection="column" paddingX={1}>
-          <Text>Max Slope: {metrics.maxSlope.toFixed(4)}</Text>
-          <Text>Avg Slope: {metrics.avgSlope.toFixed(4)}</Text>
-          <Text dimColor>Variance: {metrics.slopeVariance.toFixed(4)}</Text>
-          <Text dimColor>Term Steep: {metrics.termStructureSteepness.toFixed(4)}</Text>
-          <Text dimColor>Smile Steep: {metrics.smileSteepness.toFixed(4)}</Text>
-          <Text dimColor>Upward Bias: {(metrics.upwardBias * 100).toFixed(0)}%</Text>
+          <Text>
+            Δ {greeks.totalDelta.toFixed(2)}{' '}
+            <Text color={exposureColor(greeks.deltaExposure)}>{greeks.deltaExposure}</Text>
+          </Text>
+          <Text>
+            Γ {greeks.totalGamma.toFixed(4)}{' '}
+            <Text color={exposureColor(greeks.gammaExposure)}>{greeks.gammaExposure}</Text>
+          </Text>
+          <Text>
+            Vega {(greeks.totalVega / 100).toFixed(2)}{' '}
+            <Text color={exposureColor(greeks.vegaExposure)}>{greeks.vegaExposure}</Text>
+          </Text>
+          <Text dimColor>Θ/day {greeks.thetaBleed.toFixed(2)}</Text>
+          <Text dimColor>
+            S±10%: <Text color={pnlColor(greeks.spotUp10Pct)}>{greeks.spotUp10Pct.toFixed(1)}</Text> /{' '}
+            <Text color={pnlColor(greeks.spotDown10Pct)}>{greeks.spotDown10Pct.toFixed(1)}</Text>
+          </Text>
+          <Text dimColor>
+            σ±5: <Text color={pnlColor(greeks.volUp5Pts)}>{greeks.volUp5Pts.toFixed(1)}</Text> /{' '}
+            <Text color={pnlColor(greeks.volDown5Pts)}>{greeks.volDown5Pts.toFixed(1)}</Text>
+          </Text>
         </Box>
       ) : (
         <Text dimColor paddingX={1}>
@@ -189,18 +219,73 @@ function GreeksRiskPanel({
   )
 }
 
+const fmt = (digits: number) => (value: unknown) => (value as number).toFixed(digits)
+
+const PORTFOLIO_COLUMNS: TableColumn<Record<string, unknown>>[] = [
+  { key: 'id', header: 'Position' },
+  { key: 'quantity', header: 'Qty', align: 'right' },
+  { key: 'bucket', header: 'Bkt' },
+  { key: 'vol', header: 'IV', align: 'right', format: (v) => `${((v as number) * 100).toFixed(1)}%` },
+  { key: 'value', header: 'Value', align: 'right', format: fmt(2) },
+  { key: 'pnl', header: 'P&L', align: 'right', format: fmt(2) },
+  { key: 'delta', header: 'Δ', align: 'right', format: fmt(2) },
+  { key: 'gamma', header: 'Γ', align: 'right', format: fmt(4) },
+  { key: 'vega', header: 'Vega', align: 'right', format: fmt(2) },
+  { key: 'theta', header: 'Θ/day', align: 'right', format: fmt(2) },
+]
+
+/**
+ * Portfolio Panel
+ */
+function PortfolioPanel({
+  valuation,
+  width,
+  maxRows,
+}: {
+  valuation: PortfolioValuation
+  width: number
+  maxRows: number
+}): React.ReactElement {
+  const rows = portfolioTableRows(valuation)
+  const title = `Portfolio  Value ${valuation.value.toFixed(2)}  P&L ${valuation.pnl >= 0 ? '+' : ''}${valuation.pnl.toFixed(2)}`
+
+  return (
+    <Box flexDirection="column" width={width}>
+      <TableWidget
+        columns={PORTFOLIO_COLUMNS}
+        data={rows}
+        title={title}
+        maxRows={maxRows}
+        enableInput={false}
+        highlight={(row) => ((row.pnl as number) < 0 ? 'error' : 'normal')}
+      />
+      <Box paddingX={1}>
+        <Text dimColor>
+          {valuation.buckets
+            .map((b) => `${b.bucket} Δ${b.delta.toFixed(1)} V${(b.vega / 100).toFixed(1)}`)
+            .join('  ')}
+        </Text>
+      </Box>
+    </Box>
+  )
+}
+
 /**
  * Arbitrage Detection Panel
  */
 function ArbitragePanel({
   opportunities,
+  fits,
   width,
   height,
 }: {
   opportunities: ArbitrageOpportunity[]
+  fits: QuoteFit[]
   width: number
   height: number
 }): React.ReactElement {
+  const outliers = quoteOutliers(fits, Math.max(0, height - 3 - opportunities.length))
+
   return (
     <Box
       flexDirection="column"
@@ -224,6 +309,13 @@ function ArbitragePanel({
             </Text>
           ))
         )}
+        {outliers.map((fit, i) => (
+          <Text key={`q${i}`} color="cyan">
+            Q: K={fit.quote.strike.toFixed(0)} T={fit.quote.expiry.toFixed(2)} fit{' '}
+            {fit.error >= 0 ? '+' : ''}
+            {(fit.error * 100).toFixed(2)}v
+          </Text>
+        ))}
       </Box>
     </Box>
   )
@@ -366,6 +458,9 @@ function StatusBar({
  */
 export function RiskOracleApp({
   surface: initialSurface = null,
+  positions = [],
+  market,
+  quoteFits = [],
   onSurfaceUpdate,
   onMessage,
 }: RiskOracleAppProps): React.ReactElement {
@@ -385,9 +480,9 @@ export function RiskOracleApp({
 
   // State
   const [state, setState] = useState<RiskOracleState>(() => {
-    const initial = createRiskOracleState()
+    const initial = setQuoteFits(createRiskOracleState(positions), quoteFits)
     if (initialSurface) {
-      return updateRiskOracle(initial, initialSurface)
+      return updateRiskOracle(initial, initialSurface, market)
     }
     return initial
   })
@@ -395,12 +490,12 @@ export function RiskOracleApp({
   // Handle surface updates
   const handleSurfaceUpdate = useCallback(
     (newSurface: Surface<Vec64>) => {
-      setState((prev) => updateRiskOracle(prev, newSurface))
+      setState((prev) => updateRiskOracle(prev, newSurface, market))
       if (onSurfaceUpdate) {
         onSurfaceUpdate(newSurface)
       }
     },
-    [onSurfaceUpdate]
+    [onSurfaceUpdate, market]
   )
 
   // Handle risk metrics from surface widget
@@ -447,6 +542,7 @@ export function RiskOracleApp({
         {/* Right: Arbitrage */}
         <ArbitragePanel
           opportunities={state.arbitrage}
+          fits={state.quoteFits}
           width={sideWidth}
           height={midHeight}
         />
@@ -457,8 +553,17 @@ export function RiskOracleApp({
         {/* Left: Risk Score */}
         <RiskScorePanel metrics={state.riskMetrics} width={sideWidth} height={bottomHeight} />
 
-        {/* Center: Status */}
-        <StatusBar state={state} width={centerWidth} />
+        {/* Center: Portfolio + Status */}
+        <Box flexDirection="column" width={centerWidth}>
+          {state.portfolio && (
+            <PortfolioPanel
+              valuation={state.portfolio}
+              width={centerWidth}
+              maxRows={Math.max(1, bottomHeight - 8)}
+            />
+          )}
+          <StatusBar state={state} width={centerWidth} />
+        </Box>
 
         {/* Right: Alerts */}
         <AlertsPanel alerts={state.alerts} width={sideWidth} height={bottomHeight} />
@@ -14,6 +14,15 @@ import { renderCubeFrame, surfaceToPoints } from '../../render/cube.ts'
 import { rasterizeCubeFrame, type RasterBuffer } from '../../render/rasterize.ts'
 import { computeRiskMetrics, formatRiskScore, generateRiskSummary } from '../../render/gradient.ts'
 import type { RiskMetrics } from '../../render/gradient.ts'
+import {
+  cellReadout,
+  clampCursor,
+  cursorInput,
+  heatmapCell,
+  slopeAt,
+  type GridCursor,
+  type HeatmapCell,
+} from './heatmap.ts'
 
 // Map color names to Ink color props
 type InkColor = 'black' | 'red' | 'green' | 'yellow' | 'blue' | 'magenta' | 'cyan' | 'white' | 'gray'
@@ -96,11 +105,13 @@ export interface SurfaceWidgetProps {
   showStatus?: boolean
   /** Initial projection settings */
   initialProjection?: Partial<Projection>
+  /** Called with the node under the crosshair (and its slope) on Enter */
+  onSelect?: (cell: HeatmapCell & { slope: number }) => void
 }
 
 /**
  * 3D Surface visualization widget
- * Use arrow keys to rotate, +/- to zoom
+ * Use arrow keys to rotate, +/- to zoom, h/j/k/l to move the crosshair
  */
 export function SurfaceWidget({
   surface,
@@ -112,6 +123,7 @@ export function SurfaceWidget({
   enableControls = true,
   showStatus = true,
   initialProjection = {},
+  onSelect,
 }: SurfaceWidgetProps): React.ReactElement {
   const { stdout } = useStdout()
   const { exit } = useApp()
@@ -125,12 +137,21 @@ export function SurfaceWidget({
     createProjection(termWidth - 4, termHeight - 6, initialProjection)
   )
 
+  // Crosshair node, shown once moved
+  const [cursor, setCursor] = useState<GridCursor | null>(null)
+  const at = surface && cursor ? clampCursor(cursor, surface) : null
+
   // Handle keyboard input
   useInput(
     (input, key) => {
       if (!enableControls) return
 
-      if (key.leftArrow) {
+      // h/j/k/l move the crosshair (the arrows rotate), Enter selects its node
+      if (surface && (['h', 'j', 'k', 'l'].includes(input) || key.return)) {
+        const result = cursorInput(cursor, { key: key.return ? 'return' : input }, surface)
+        setCursor(result.cursor)
+        if (result.selected) onSelect?.({ ...result.selected, slope: slopeAt(surface, result.cursor) })
+      } else if (key.leftArrow) {
         setProjection((p) => rotateProjection(p, -5, 0))
       } else if (key.rightArrow) {
         setProjection((p) => rotateProjection(p, 5, 0))
@@ -204,11 +225,12 @@ export function SurfaceWidget({
       showAxes: true,
       gridDivisions: 4,
       axisLabels: labels,
+      cursor: at,
     })
 
     // Rasterize to characters with colors
     return rasterizeCubeFrame(frame, termWidth - 4, termHeight - 8, { colorBySurface: true })
-  }, [surface, projection, termWidth, termHeight, labels])
+  }, [surface, projection, termWidth, termHeight, labels, at?.xi, at?.yi])
 
   // Loading state
   if (!surface) {
@@ -225,6 +247,7 @@ export function SurfaceWidget({
   }
 
   const riskDisplay = riskMetrics ? formatRiskScore(riskMetrics.riskScore) : null
+  const readout = at ? cellReadout(surface, heatmapCell(surface, at), slopeAt(surface, at)) : null
 
   return (
     <Box flexDirection="column" borderStyle="single" width={termWidth}>
@@ -246,6 +269,9 @@ export function SurfaceWidget({
       {/* Surface visualization */}
       <Box flexDirection="column" paddingX={1}>
         {renderedBuffer && <ColoredBuffer buffer={renderedBuffer} />}
+        {readout && (
+          <Text color="yellow">{readout.map(([label, value]) => `${label} ${value}`).join(' · ')}</Text>
+        )}
       </Box>
 
       {/* Status bar */}
@@ -255,7 +281,7 @@ export function SurfaceWidget({
             Az:{projection.azimuth.toFixed(0)}° El:{projection.elevation.toFixed(0)}° Zoom:{(projection.zoom / 10).toFixed(1)}x | {surface.nx}x{surface.ny} pts
           </Text>
           {enableControls && (
-            <Text dimColor>←↑↓→ rotate, +/- zoom, r reset, q quit</Text>
+            <Text dimColor>←↑↓→ rotate, hjkl cursor, Enter select, +/- zoom, r reset, q quit</Text>
           )}
         </Box>
       )}
@@ -0,0 +1,103 @@
+/**
+ * Tests for the form model: fields, validation and key handling
+ */
+
+import { describe, it, expect } from 'bun:test'
+import { fillForm, formFromOptions, formInput, formValues, validateField, type FormState } from './form.ts'
+import { renderFormText } from './text.ts'
+import { stripAnsi } from '../../render/ansi.ts'
+import { validateTemplate } from '../../config/types.ts'
+
+const options = {
+  submitLabel: 'Apply',
+  fields: [
+    { name: 'rho', type: 'number', default: -0.3, min: -1, max: 1, required: true },
+    { name: 'model', type: 'select', choices: ['svi', 'ssvi'] },
+    { name: 'live', type: 'toggle', default: true },
+    { name: 'note', label: 'Note', pattern: '^[a-z]*$' },
+  ],
+}
+
+// Press keys in order, collecting submissions
+function press(state: FormState, keys: string[]): { state: FormState; submitted: Record<string, unknown>[] } {
+  const submitted: Record<string, unknown>[] = []
+  for (const key of keys) {
+    const result = formInput(state, { key })
+    state = result.state
+    if (result.submitted) submitted.push(result.submitted)
+  }
+  return { state, submitted }
+}
+
+describe('Form model', () => {
+  it('should read fields from options with their defaults', () => {
+    const form = formFromOptions(options)
+    expect(form.fields.map((f) => [f.name, f.type, f.label])).toEqual([
+      ['rho', 'number', 'rho'],
+      ['model', 'select', 'model'],
+      ['live', 'toggle', 'live'],
+      ['note', 'text', 'Note'],
+    ])
+    expect(form.input).toEqual({ rho: '-0.3', model: 'svi', live: true, note: '' })
+    expect(formValues(form)).toEqual({ rho: -0.3, model: 'svi', live: true, note: null })
+    expect(fillForm(form, { rho: 0.5, model: 'nope', other: 1 }).input).toMatchObject({ rho: '0.5', model: 'svi' })
+  })
+
+  it('should validate numbers, required fields and patterns', () => {
+    const [rho, , , note] = formFromOptions(options).fields
+    expect(validateField(rho!, '')).toBe('Required')
+    expect(validateField(rho!, 'x')).toBe('Must be a number')
+    expect(validateField(rho!, '-2')).toBe('Must be at least -1')
+    expect(validateField(rho!, '1')).toBeNull()
+    expect(validateField(note!, 'Abc')).toBe('Must match ^[a-z]*$')
+    expect(validateField(note!, '')).toBeNull()
+
+    const result = validateTemplate({
+      name: 'forms',
+      columns: [{ id: 'f', type: 'form', options: { fields: [{ name: 'a', type: 'date' }, { name: 'b', type: 'select' }, 3] } }],
+    })
+    expect(result.errors).toEqual([
+      'Column 0 options.fields[0] type must be one of text, number, select, toggle',
+      'Column 0 options.fields[1] needs choices',
+      'Column 0 options.fields[2] must have a name string',
+    ])
+  })
+
+  it('should edit fields, traverse them and submit valid values', () => {
+    let { state, submitted } = press(formFromOptions(options), [
+      'backspace', 'backspace', 'backspace', 'backspace', '5', 'x', // rho: '5' (letters are not numbers)
+      'down', 'right', // model: ssvi
+      'down', ' ', // live: false
+      'down', 'Q', // note: 'Q'
+      'down', 'return', // submit: blocked
+    ])
+    expect(submitted).toEqual([])
+    expect(state.focus).toBe(0)
+    expect(state.touched).toEqual({ rho: true, model: true, live: true, note: true })
+
+    ;({ state, submitted } = press(state, ['backspace', '0', '.', '2', 'up', 'up', 'backspace', 'down', 'return']))
+    expect(submitted).toEqual([{ rho: 0.2, model: 'ssvi', live: false, note: null }])
+    expect(state.submitted).toBe(true)
+
+    // Tab wraps around like ↓; Escape restores the defaults
+    expect(press(state, ['tab', 'tab']).state.focus).toBe(1)
+    expect(press(state, ['escape']).state.input).toEqual(formFromOptions(options).input)
+  })
+
+  it('should render fields, errors and the submit button', () => {
+    const { state } = press(formFromOptions(options), ['backspace', 'backspace', 'backspace', 'backspace'])
+    const lines = renderFormText(state, { width: 30, height: 8, focused: true }).map((line) => stripAnsi(line).trimEnd())
+    expect(lines).toEqual([
+      '› rho',
+      '         ✖ Required',
+      '  model  ‹ svi ›',
+      '  live   [x]',
+      '  Note',
+      '',
+      '  [ Apply ]',
+    ])
+    // Focused rows scroll into view
+    const tail = renderFormText({ ...state, focus: 4 }, { width: 30, height: 2 }).map(stripAnsi)
+    expect(tail[1]).toBe('› [ Apply ]')
+  })
+})
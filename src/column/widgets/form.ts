@@ -0,0 +1,261 @@
+/**
+ * Form Model
+ * Fields declared in column options, their validation, and the key handling
+ * shared by the column worker (INPUT messages) and Form.tsx
+ */
+
+import type { InputMessage } from '../../ipc/protocol.ts'
+
+export type FormFieldType = 'text' | 'number' | 'select' | 'toggle'
+
+export const FORM_FIELD_TYPES: FormFieldType[] = ['text', 'number', 'select', 'toggle']
+
+/**
+ * Field declared in options.fields
+ */
+export interface FormField {
+  name: string
+  type: FormFieldType
+  label: string // Defaults to the name
+  required: boolean
+  default?: string | number | boolean
+  min?: number // number: inclusive bounds
+  max?: number
+  pattern?: string // text: regular expression the value must match
+  choices?: string[] // select
+}
+
+// Raw field input: typed text, the chosen choice, or a toggle's state
+export type FormInput = string | boolean
+
+/**
+ * Form state: raw input, the focused row and what has been validated
+ */
+export interface FormState {
+  fields: FormField[]
+  input: Record<string, FormInput>
+  focus: number // Field index; fields.length is the submit button
+  touched: Record<string, boolean> // Fields whose errors are shown
+  submitted: boolean // Until the next edit
+  submitLabel: string
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Problems with options.fields, for template validation
+ */
+export function formFieldErrors(options: unknown): string[] {
+  const fields = isRecord(options) ? options.fields : undefined
+  if (!Array.isArray(fields)) return ['options.fields must be an array']
+
+  const errors: string[] = []
+  const names = new Set<string>()
+  fields.forEach((field, i) => {
+    if (!isRecord(field) || typeof field.name !== 'string' || !field.name) {
+      errors.push(`options.fields[${i}] must have a name string`)
+      return
+    }
+    if (names.has(field.name)) errors.push(`options.fields[${i}] repeats the name ${field.name}`)
+    names.add(field.name)
+    if (!FORM_FIELD_TYPES.includes(field.type as FormFieldType)) {
+      errors.push(`options.fields[${i}] type must be one of ${FORM_FIELD_TYPES.join(', ')}`)
+    }
+    if (field.type === 'select' && (!Array.isArray(field.choices) || field.choices.length === 0)) {
+      errors.push(`options.fields[${i}] needs choices`)
+    }
+    if (field.pattern !== undefined) {
+      try {
+        new RegExp(String(field.pattern))
+      } catch {
+        errors.push(`options.fields[${i}] pattern is not a regular expression`)
+      }
+    }
+  })
+  return errors
+}
+
+/**
+ * Fields from column options; malformed ones are left out
+ * (validateTemplate reports them, see formFieldErrors)
+ */
+export function formFields(options: Record<string, unknown> = {}): FormField[] {
+  if (!Array.isArray(options.fields)) return []
+  const fields: FormField[] = []
+  for (const field of options.fields) {
+    if (!isRecord(field) || typeof field.name !== 'string' || !field.name) continue
+    if (fields.some((f) => f.name === field.name)) continue
+    const type = FORM_FIELD_TYPES.includes(field.type as FormFieldType) ? (field.type as FormFieldType) : 'text'
+    const choices = Array.isArray(field.choices) ? field.choices.map(String) : undefined
+    if (type === 'select' && !choices?.length) continue
+    fields.push({
+      name: field.name,
+      type,
+      label: typeof field.label === 'string' ? field.label : field.name,
+      required: field.required === true,
+      default: ['string', 'number', 'boolean'].includes(typeof field.default)
+        ? (field.default as string | number | boolean)
+        : undefined,
+      min: typeof field.min === 'number' ? field.min : undefined,
+      max: typeof field.max === 'number' ? field.max : undefined,
+      pattern: typeof field.pattern === 'string' ? field.pattern : undefined,
+      choices,
+    })
+  }
+  return fields
+}
+
+// Raw input for a value (a default, or data pushed into the form)
+function toInput(field: FormField, value: unknown): FormInput {
+  switch (field.type) {
+    case 'toggle':
+      return value === true
+    case 'select':
+      return field.choices!.includes(String(value)) ? String(value) : field.choices![0]!
+    default:
+      return value === undefined || value === null ? '' : String(value)
+  }
+}
+
+/**
+ * Fresh form: every field at its default, the first one focused
+ */
+export function createFormState(fields: FormField[], submitLabel = 'Submit'): FormState {
+  return {
+    fields,
+    input: Object.fromEntries(fields.map((field) => [field.name, toInput(field, field.default)])),
+    focus: 0,
+    touched: {},
+    submitted: false,
+    submitLabel,
+  }
+}
+
+/**
+ * Form for a column's options (options.fields, options.submitLabel)
+ */
+export function formFromOptions(options: Record<string, unknown> = {}): FormState {
+  return createFormState(formFields(options), typeof options.submitLabel === 'string' ? options.submitLabel : 'Submit')
+}
+
+/**
+ * Fill fields from data (an object of values by field name); other fields keep their input
+ */
+export function fillForm(state: FormState, data: unknown): FormState {
+  if (!isRecord(data)) return state
+  const input = { ...state.input }
+  for (const field of state.fields) {
+    if (data[field.name] !== undefined) input[field.name] = toInput(field, data[field.name])
+  }
+  return { ...state, input, submitted: false }
+}
+
+/**
+ * Error for a field's input, or null when it is valid
+ */
+export function validateField(field: FormField, input: FormInput): string | null {
+  if (field.type === 'toggle' || field.type === 'select') return null
+  const text = String(input).trim()
+  if (!text) return field.required ? 'Required' : null
+
+  if (field.type === 'number') {
+    const value = Number(text)
+    if (!Number.isFinite(value)) return 'Must be a number'
+    if (field.min !== undefined && value < field.min) return `Must be at least ${field.min}`
+    if (field.max !== undefined && value > field.max) return `Must be at most ${field.max}`
+    return null
+  }
+  if (field.pattern !== undefined && !new RegExp(field.pattern).test(text)) {
+    return `Must match ${field.pattern}`
+  }
+  return null
+}
+
+/**
+ * Errors by field name, for every invalid field
+ */
+export function formErrors(state: FormState): Record<string, string> {
+  const errors: Record<string, string> = {}
+  for (const field of state.fields) {
+    const error = validateField(field, state.input[field.name]!)
+    if (error) errors[field.name] = error
+  }
+  return errors
+}
+
+/**
+ * Typed values: numbers parsed, empty optional fields null
+ */
+export function formValues(state: FormState): Record<string, unknown> {
+  const values: Record<string, unknown> = {}
+  for (const field of state.fields) {
+    const input = state.input[field.name]!
+    if (field.type === 'toggle' || field.type === 'select') {
+      values[field.name] = input
+    } else {
+      const text = String(input).trim()
+      values[field.name] = text === '' ? null : field.type === 'number' ? Number(text) : text
+    }
+  }
+  return values
+}
+
+/**
+ * Apply a key press
+ * ↑/↓ (and Tab/Shift+Tab) move between fields and the submit button; Enter
+ * moves on, and on the submit button submits when every field is valid
+ * (otherwise the first invalid field is focused and all errors shown).
+ * Text and number fields take typed characters and Backspace, selects cycle
+ * with ←/→ or Space, toggles flip with ←/→ or Space, Escape resets the form.
+ * Returns the new state, and the values when the form was submitted.
+ */
+export function formInput(state: FormState, key: InputMessage): { state: FormState; submitted?: Record<string, unknown> } {
+  const rows = state.fields.length + 1
+  const field = state.fields[state.focus]
+  const move = (by: number) => ({ state: { ...state, focus: (state.focus + by + rows) % rows } })
+
+  if (key.key === 'up' || (key.key === 'tab' && key.shift)) return move(-1)
+  if (key.key === 'down' || key.key === 'tab') return move(1)
+  if (key.key === 'escape') return { state: createFormState(state.fields, state.submitLabel) }
+
+  if (key.key === 'return') {
+    if (field) return move(1)
+    const errors = formErrors(state)
+    const invalid = state.fields.findIndex((f) => errors[f.name])
+    if (invalid >= 0) {
+      const touched = Object.fromEntries(state.fields.map((f) => [f.name, true]))
+      return { state: { ...state, focus: invalid, touched } }
+    }
+    return { state: { ...state, submitted: true }, submitted: formValues(state) }
+  }
+
+  if (!field) return { state }
+  const edit = (input: FormInput) => ({
+    state: {
+      ...state,
+      input: { ...state.input, [field.name]: input },
+      touched: { ...state.touched, [field.name]: true },
+      submitted: false,
+    },
+  })
+  const current = state.input[field.name]!
+
+  switch (field.type) {
+    case 'toggle':
+      return key.key === ' ' || key.key === 'left' || key.key === 'right' ? edit(!current) : { state }
+    case 'select': {
+      const step = key.key === 'left' ? -1 : key.key === 'right' || key.key === ' ' ? 1 : 0
+      if (step === 0) return { state }
+      const choices = field.choices!
+      return edit(choices[(choices.indexOf(String(current)) + step + choices.length) % choices.length]!)
+    }
+    default:
+      if (key.key === 'backspace' || key.key === 'delete') return edit(String(current).slice(0, -1))
+      // Printable characters only; numbers also only what a number can contain
+      if ([...key.key].length !== 1 || key.ctrl || key.alt || key.key < ' ') return { state }
+      if (field.type === 'number' && !/[-+0-9.eE]/.test(key.key)) return { state }
+      return edit(String(current) + key.key)
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * Tests for the gauge model: options, bands, crossings and the radial arc
+ */
+
+import { describe, it, expect } from 'bun:test'
+import {
+  bandColor,
+  gaugeBand,
+  gaugeConfig,
+  gaugeValue,
+  radialArc,
+  thresholdCrossings,
+  thresholdEvent,
+} from './gauge.ts'
+
+describe('Gauge model', () => {
+  it('should read options, thresholds and values', () => {
+    const config = gaugeConfig({ mode: 'radial', max: 1, thresholds: [0.9, { value: 0.5, label: 'High', color: 'magenta' }] })
+    expect(config).toMatchObject({ min: 0, max: 1, mode: 'radial', history: 60, event: 'RISK_THRESHOLD' })
+    expect(config.thresholds).toEqual([
+      { value: 0.5, color: 'magenta', level: 'warn', label: 'High' },
+      { value: 0.9, color: 'red', level: 'error', label: undefined },
+    ])
+    expect(gaugeConfig({ mode: 'dial', history: 0 })).toMatchObject({ mode: 'linear', history: 0, thresholds: [] })
+
+    expect([gaugeValue(3), gaugeValue({ score: 0.4 }), gaugeValue({ riskScore: 0.7 }), gaugeValue('x')]).toEqual([
+      3,
+      0.4,
+      0.7,
+      null,
+    ])
+  })
+
+  it('should color values by band', () => {
+    const config = gaugeConfig({ max: 1, thresholds: [{ value: 0.6, label: 'Elevated' }, 0.8] })
+    expect([0.3, 0.6, 0.85].map((v) => bandColor(v, config))).toEqual(['green', 'yellow', 'red'])
+    expect(gaugeBand(0.7, config)?.label).toBe('Elevated')
+    // Without thresholds: yellow from 60%, red from 85% of the range
+    expect([50, 70, 90].map((v) => bandColor(v, gaugeConfig()))).toEqual(['green', 'yellow', 'red'])
+  })
+
+  it('should report threshold crossings in the order they were passed', () => {
+    const { thresholds } = gaugeConfig({ thresholds: [50, 80] })
+    const crossed = (previous: number | null, value: number) =>
+      thresholdCrossings(previous, value, thresholds).map((c) => `${c.direction} ${c.threshold.value}`)
+
+    expect(crossed(null, 60)).toEqual(['up 50'])
+    expect(crossed(null, 10)).toEqual([])
+    expect(crossed(40, 90)).toEqual(['up 50', 'up 80'])
+    expect(crossed(90, 10)).toEqual(['down 80', 'down 50'])
+    expect(crossed(50, 50)).toEqual([])
+    expect(crossed(60, 70)).toEqual([])
+
+    const [up] = thresholdCrossings(70, 85, gaugeConfig({ thresholds: [{ value: 80, label: 'Critical' }] }).thresholds)
+    expect(thresholdEvent(up!, 85, 'Risk', 'risk-score')).toMatchObject({
+      level: 'error',
+      source: 'risk-score',
+      message: 'Risk reached Critical (80): 85',
+      threshold: 80,
+      direction: 'up',
+    })
+  })
+
+  it('should fill the arc from the left up to the value', () => {
+    const empty = radialArc(0, 16, 4)
+    expect(empty.length).toBe(4)
+    expect(empty.flat().some((cell) => cell.filled)).toBe(false)
+    // Both ends of the half-ring sit on the bottom row
+    expect(empty[3]![0]!.char).not.toBe('')
+    expect(empty[3]![15]!.char).not.toBe('')
+
+    const half = radialArc(0.5, 16, 4)
+    const filled = half.flat().filter((cell) => cell.filled)
+    expect(filled.length).toBeGreaterThan(0)
+    expect(filled.every((cell) => cell.position <= 0.5)).toBe(true)
+    expect(half[3]![0]!.filled).toBe(true)
+    expect(half[3]![15]!.filled).toBe(false)
+  })
+})
@@ -0,0 +1,254 @@
+/**
+ * Gauge Model
+ * Options, threshold bands, threshold crossings and the braille arc of gauge
+ * columns; text.ts draws them and the column worker emits the crossings
+ */
+
+export type GaugeMode = 'radial' | 'linear' | 'numeric'
+
+export const GAUGE_MODES: GaugeMode[] = ['radial', 'linear', 'numeric']
+
+/**
+ * Threshold: the value a band starts at
+ */
+export interface GaugeThreshold {
+  value: number
+  color: string // Band color from this value up
+  level: string // Log level of the event when the value rises past it
+  label?: string // Band name (e.g. 'Critical')
+}
+
+/**
+ * Gauge options (column options, or the values in the gauge's data)
+ */
+export interface GaugeConfig {
+  min: number
+  max: number
+  mode: GaugeMode
+  thresholds: GaugeThreshold[] // Configured thresholds, ascending
+  color: string // Band color below the first threshold
+  history: number // Values kept for the sparkline (0: no sparkline)
+  event: string // Event emitted on crossings
+  label?: string
+  unit?: string
+}
+
+/**
+ * A threshold the value went past
+ */
+export interface GaugeCrossing {
+  threshold: GaugeThreshold
+  direction: 'up' | 'down'
+}
+
+/**
+ * Data of the event emitted on a crossing (RISK_THRESHOLD by default)
+ */
+export interface ThresholdEvent {
+  timestamp: number
+  level: string
+  source: string // Column id
+  message: string
+  value: number
+  threshold: number
+  direction: 'up' | 'down'
+}
+
+export const DEFAULT_GAUGE_HISTORY = 60
+export const DEFAULT_THRESHOLD_EVENT = 'RISK_THRESHOLD'
+
+// Bands drawn when no thresholds are configured (fractions of the range)
+const DEFAULT_BANDS = [
+  { at: 0.6, color: 'yellow' },
+  { at: 0.85, color: 'red' },
+]
+
+// Braille dot bits by [column][row] within a cell (2x4 dots)
+const BRAILLE_DOTS = [
+  [0x01, 0x02, 0x04, 0x40],
+  [0x08, 0x10, 0x20, 0x80],
+]
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+// Thresholds from numbers or { value, color, level, label }; the top one is red
+function parseThresholds(value: unknown): GaugeThreshold[] {
+  if (!Array.isArray(value)) return []
+  const parsed = value
+    .map((entry) => (typeof entry === 'number' ? { value: entry } : entry))
+    .filter((entry): entry is Record<string, unknown> => isRecord(entry) && typeof entry.value === 'number')
+    .sort((a, b) => (a.value as number) - (b.value as number))
+
+  return parsed.map((entry, i) => {
+    const top = i === parsed.length - 1
+    return {
+      value: entry.value as number,
+      color: typeof entry.color === 'string' ? entry.color : top ? 'red' : 'yellow',
+      level: typeof entry.level === 'string' ? entry.level : top ? 'error' : 'warn',
+      label: typeof entry.label === 'string' ? entry.label : undefined,
+    }
+  })
+}
+
+/**
+ * Gauge options from column options
+ * Unknown or malformed options fall back to a linear 0-100 gauge
+ */
+export function gaugeConfig(options: Record<string, unknown> = {}): GaugeConfig {
+  const number = (value: unknown, fallback: number) => (typeof value === 'number' ? value : fallback)
+  const history = number(options.history, DEFAULT_GAUGE_HISTORY)
+  return {
+    min: number(options.min, 0),
+    max: number(options.max, 100),
+    mode: GAUGE_MODES.includes(options.mode as GaugeMode) ? (options.mode as GaugeMode) : 'linear',
+    thresholds: parseThresholds(options.thresholds),
+    color: typeof options.color === 'string' ? options.color : 'green',
+    history: Number.isInteger(history) && history > 0 ? history : 0,
+    event: typeof options.event === 'string' ? options.event : DEFAULT_THRESHOLD_EVENT,
+    label: typeof options.label === 'string' ? options.label : undefined,
+    unit: typeof options.unit === 'string' ? options.unit : undefined,
+  }
+}
+
+/**
+ * Value shown by a gauge: a number, or an object's value (or score, riskScore)
+ */
+export function gaugeValue(data: unknown): number | null {
+  if (typeof data === 'number') return Number.isFinite(data) ? data : null
+  if (!isRecord(data)) return null
+  const value = data.value ?? data.score ?? data.riskScore
+  return typeof value === 'number' && Number.isFinite(value) ? value : null
+}
+
+/**
+ * Position of a value within the gauge range, clamped to 0..1
+ */
+export function gaugeFraction(value: number, config: GaugeConfig): number {
+  return Math.max(0, Math.min(1, (value - config.min) / (config.max - config.min || 1)))
+}
+
+/**
+ * Bands to draw: the configured thresholds, or yellow/red at 60%/85% of the range
+ */
+export function gaugeBands(config: GaugeConfig): GaugeThreshold[] {
+  if (config.thresholds.length > 0) return config.thresholds
+  return DEFAULT_BANDS.map((band) => ({
+    value: config.min + band.at * (config.max - config.min),
+    color: band.color,
+    level: 'info',
+  }))
+}
+
+/**
+ * Band a value falls in (null below the first threshold)
+ */
+export function gaugeBand(value: number, config: GaugeConfig): GaugeThreshold | null {
+  let band: GaugeThreshold | null = null
+  for (const threshold of gaugeBands(config)) {
+    if (value >= threshold.value) band = threshold
+  }
+  return band
+}
+
+export function bandColor(value: number, config: GaugeConfig): string {
+  return gaugeBand(value, config)?.color ?? config.color
+}
+
+/**
+ * Configured thresholds passed going from previous to value
+ * A threshold is reached at its value: rising to it crosses up, falling
+ * below it crosses down. With no previous value (the first reading) only
+ * thresholds already reached are reported, as up crossings.
+ */
+export function thresholdCrossings(previous: number | null, value: number, thresholds: GaugeThreshold[]): GaugeCrossing[] {
+  const crossings: GaugeCrossing[] = []
+  for (const threshold of thresholds) {
+    const was = previous !== null && previous >= threshold.value
+    const is = value >= threshold.value
+    if (is && !was) crossings.push({ threshold, direction: 'up' })
+    if (was && !is) crossings.push({ threshold, direction: 'down' })
+  }
+  // In the order the value passed them
+  return previous !== null && value < previous ? crossings.reverse() : crossings
+}
+
+/**
+ * Event for a crossing, shaped as a log entry so wiring can APPEND it to a
+ * log column; rising past a threshold logs at its level, falling back at info
+ */
+export function thresholdEvent(
+  crossing: GaugeCrossing,
+  value: number,
+  name: string,
+  source: string
+): ThresholdEvent {
+  const { threshold, direction } = crossing
+  const format = (n: number) => (Number.isInteger(n) ? String(n) : n.toFixed(2))
+  const limit = threshold.label ? `${threshold.label} (${format(threshold.value)})` : format(threshold.value)
+  return {
+    timestamp: Date.now(),
+    level: direction === 'up' ? threshold.level : 'info',
+    source,
+    message: `${name} ${direction === 'up' ? 'reached' : 'fell below'} ${limit}: ${format(value)}`,
+    value,
+    threshold: threshold.value,
+    direction,
+  }
+}
+
+/**
+ * One cell of a radial arc
+ */
+export interface ArcCell {
+  char: string // Braille glyph ('' when no dot of the arc is in the cell)
+  position: number // Where along the arc the cell is, 0 (min) to 1 (max)
+  filled: boolean // Whether the value reaches the cell
+}
+
+/**
+ * Half-ring from min (left) to max (right) in braille dots
+ * Braille cells are 2x4 dots, close to square dots in a terminal, so the
+ * ring is round; it is as wide as the rows allow and centered horizontally.
+ * Cells the value reaches keep only their filled dots.
+ */
+export function radialArc(fraction: number, width: number, rows: number): ArcCell[][] {
+  const dotsWide = width * 2
+  const dotsHigh = rows * 4
+  const radius = Math.max(1, Math.min(Math.floor((dotsWide - 1) / 2), dotsHigh - 1))
+  const thickness = Math.max(2, Math.round(radius * 0.25))
+  const cx = (dotsWide - 1) / 2
+  const cy = dotsHigh - 1
+
+  const grid: ArcCell[][] = []
+  for (let row = 0; row < rows; row++) {
+    const cells: ArcCell[] = []
+    for (let col = 0; col < width; col++) {
+      let track = 0
+      let filled = 0
+      let positions = 0
+      let count = 0
+      for (let dx = 0; dx < 2; dx++) {
+        for (let dy = 0; dy < 4; dy++) {
+          const px = col * 2 + dx - cx
+          const py = cy - (row * 4 + dy)
+          const distance = Math.hypot(px, py)
+          if (distance > radius + 0.5 || distance <= radius + 0.5 - thickness) continue
+          // 0 at the left end of the ring, 1 at the right
+          const position = 1 - Math.atan2(py, px) / Math.PI
+          const bit = BRAILLE_DOTS[dx]![dy]!
+          track |= bit
+          if (fraction > 0 && position <= fraction) filled |= bit
+          positions += position
+          count++
+        }
+      }
+      const position = count > 0 ? positions / count : 0
+      const dots = filled || track
+      cells.push({ char: dots ? String.fromCharCode(0x2800 + dots) : '', position, filled: filled !== 0 })
+    }
+    grid.push(cells)
+  }
+  return grid
+}
@@ -0,0 +1,124 @@
+/**
+ * Tests for the heatmap model and its text rendering
+ */
+
+import { describe, it, expect } from 'bun:test'
+import {
+  cellReadout,
+  clampCursor,
+  cursorInput,
+  formatTick,
+  heatmapCell,
+  heatmapColors,
+  heatmapOptions,
+  slopeAt,
+  type GridCursor,
+} from './heatmap.ts'
+import { renderHeatmapText, renderSurfaceText } from './text.ts'
+import { createMockSnapshot } from '../../chain/volatility.ts'
+import { createSurface } from '../../data/surface.ts'
+import { stripAnsi, visibleWidth } from '../../render/ansi.ts'
+
+// 3 expiries x 4 strikes, IV rising along both axes
+const surface = createSurface(
+  new Float64Array([30, 60, 90]),
+  new Float64Array([90, 100, 110, 120]),
+  new Float64Array([0.2, 0.21, 0.22, 0.23, 0.24, 0.25, 0.26, 0.27, 0.28, 0.29, 0.3, 0.31]),
+  { x: 'DTE', y: 'Strike', z: 'IV' }
+)
+
+describe('Heatmap model', () => {
+  it('should color nodes by value or slope', () => {
+    expect(heatmapOptions({ color: 'slope', gradient: 'nope' })).toEqual({ color: 'slope', gradient: 'heat', center: null })
+
+    const value = heatmapColors(surface, heatmapOptions())
+    expect(value.min).toBeCloseTo(0.2)
+    expect(value.max).toBeCloseTo(0.31)
+    expect(value.colors.length).toBe(3)
+    expect(value.colors[0]!.length).toBe(4)
+    expect(value.colors[0]![0]).not.toEqual(value.colors[2]![3]!)
+
+    const slope = heatmapColors(surface, heatmapOptions({ color: 'slope' }))
+    expect(slope.min).toBe(0)
+    expect(slope.max).toBeGreaterThan(0)
+
+    // Centered on 0 the range is symmetric, so 0 lands mid-gradient
+    const centered = heatmapColors(surface, heatmapOptions({ gradient: 'divergent', center: 0 }))
+    expect(centered.min).toBeCloseTo(-0.31)
+    expect(centered.max).toBeCloseTo(0.31)
+  })
+
+  it('should move, clamp and select with the cursor', () => {
+    const press = (cursor: GridCursor | null, keys: string[]) => {
+      const selected: unknown[] = []
+      for (const key of keys) {
+        const result = cursorInput(cursor, { key }, surface)
+        cursor = result.cursor
+        if (result.selected) selected.push(result.selected)
+      }
+      return { cursor, selected }
+    }
+
+    expect(clampCursor(null, surface)).toEqual({ xi: 1, yi: 1 })
+    expect(press(null, ['down', 'l', 'right']).cursor).toEqual({ xi: 2, yi: 3 })
+    expect(press(null, ['pageup', 'h', 'left']).cursor).toEqual({ xi: 0, yi: 0 })
+    expect(press({ xi: 9, yi: -1 }, ['return']).selected).toEqual([{ xi: 2, yi: 0, x: 90, y: 90, z: 0.28 }])
+  })
+
+  it('should format ticks to four significant digits', () => {
+    expect(formatTick(0.123456)).toBe('0.1235')
+    expect(formatTick(100)).toBe('100')
+    expect(formatTick(NaN)).toBe('–')
+  })
+
+  it('should read out a node with its slope', () => {
+    const cursor = { xi: 1, yi: 2 }
+    // dIV/dDTE = 0.04 / 30, dIV/dStrike = 0.01 / 10
+    expect(slopeAt(surface, cursor)).toBeCloseTo(Math.hypot(0.04 / 30, 0.001))
+    expect(cellReadout(surface, heatmapCell(surface, cursor), slopeAt(surface, cursor))).toEqual([
+      ['DTE', '60'],
+      ['Strike', '110'],
+      ['IV', '0.26'],
+      ['slope', '0.001667'],
+    ])
+
+    // The surface view draws a crosshair once there is a cursor, with the readout below
+    const plain = renderSurfaceText(surface, { width: 40, height: 10 })
+    const lines = renderSurfaceText(surface, { width: 40, height: 10 }, {}, cursor)
+    expect(lines.length).toBe(10)
+    expect(stripAnsi(plain.join('\n'))).not.toContain('◆')
+    expect(stripAnsi(lines.join('\n'))).toContain('◆')
+    expect(stripAnsi(lines.at(-1)!)).toBe('DTE 60 · Strike 110 · IV 0.26 · slope 0.001667')
+  })
+
+  it('should render a readout, half-block rows and axis ticks', () => {
+    const lines = renderHeatmapText(surface, { width: 50, height: 5 }, {}, { xi: 2, yi: 1 })
+    expect(lines.length).toBe(5)
+    for (const line of lines) expect(visibleWidth(line)).toBeLessThanOrEqual(50)
+
+    const text = lines.map((line) => stripAnsi(line).trimEnd())
+    expect(text[0]).toStartWith('DTE 90 · Strike 100 · IV 0.29')
+    expect(text[0]).toEndWith('0.2 ██████ 0.31')
+    // One node per line here; ticks leave a line between them
+    expect(text.slice(1, 4)).toEqual(['30 ', '   ', '90 '].map((tick) => tick + '▀'.repeat(47)))
+    expect(text[4]).toBe(`   90${' '.repeat(10)}100${' '.repeat(9)}110${' '.repeat(9)}120`)
+
+    expect(stripAnsi(renderHeatmapText(null, { width: 40, height: 5 }).join('\n'))).toContain('Waiting for surface data')
+  })
+
+  it('should read out playlist nodes at their own values', () => {
+    // The generator fills one row of 25 strikes per expiry (1, 7, 14, 30, 60, 90 days)
+    const { surface: snapshot } = createMockSnapshot(18_000_000, 1_700_000_000)
+    const cursor = { xi: Array.from(snapshot.x).indexOf(90), yi: Array.from(snapshot.y).indexOf(70) }
+    expect(cursor).toEqual({ xi: 5, yi: 0 })
+
+    const cell = heatmapCell(snapshot, cursor)
+    expect(cell).toMatchObject({ x: 90, y: 70, z: snapshot.z[5 * 25 + 0]! })
+    expect(cellReadout(snapshot, cell).slice(0, 2)).toEqual([
+      ['Expiry (days)', '90'],
+      ['Strike %', '70'],
+    ])
+    // Along the other axis: the 1 day expiry's 130 strike ends its row
+    expect(heatmapCell(snapshot, { xi: 0, yi: 24 })).toMatchObject({ x: 1, y: 130, z: snapshot.z[24]! })
+  })
+})
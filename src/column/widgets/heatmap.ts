@@ -0,0 +1,182 @@
+/**
+ * Heatmap Model
+ * Colors, cursor and cells of a surface drawn as a 2D grid: rows follow the
+ * x axis (z[xi][yi] row by row), columns the y axis. The cursor and readout
+ * are shared with the 3D surface's crosshair.
+ */
+
+import { computeSlope, type Surface } from '../../data/surface.ts'
+import type { Vec32, Vec64 } from '../../data/vec.ts'
+import {
+  GRADIENT_PRESETS,
+  sampleGradient,
+  slopeToColorGrid,
+  type ColorRGB,
+  type GradientPreset,
+} from '../../render/gradient.ts'
+import type { InputMessage } from '../../ipc/protocol.ts'
+
+/**
+ * What the colors show: the surface value, or its slope magnitude
+ */
+export type HeatmapColor = 'value' | 'slope'
+
+export interface HeatmapOptions {
+  color: HeatmapColor
+  gradient: GradientPreset
+  center: number | null // Value colored mid-gradient (e.g. 0 for changes), null for the z midpoint
+}
+
+/**
+ * Grid node under the cursor
+ */
+export interface GridCursor {
+  xi: number
+  yi: number
+}
+
+/**
+ * A node with its coordinates and value, as carried by SELECTED
+ */
+export interface HeatmapCell extends GridCursor {
+  x: number
+  y: number
+  z: number
+}
+
+/**
+ * Node colors by [xi][yi], with the range of the colored quantity
+ */
+export interface HeatmapColors {
+  colors: ColorRGB[][]
+  min: number
+  max: number
+}
+
+// Rows or columns moved by PageUp/PageDown
+const PAGE = 5
+
+/**
+ * Heatmap options from column options (options.color, options.gradient,
+ * options.center)
+ */
+export function heatmapOptions(options: Record<string, unknown> = {}): HeatmapOptions {
+  return {
+    color: options.color === 'slope' ? 'slope' : 'value',
+    gradient: (options.gradient as GradientPreset) in GRADIENT_PRESETS ? (options.gradient as GradientPreset) : 'heat',
+    center: typeof options.center === 'number' && Number.isFinite(options.center) ? options.center : null,
+  }
+}
+
+/**
+ * Color every node: by value over the surface's z range (widened to be
+ * symmetric around options.center, so a diverging gradient splits there), or
+ * by slope magnitude (slopeToColorGrid) relative to the steepest node
+ */
+export function heatmapColors(surface: Surface<Vec32 | Vec64>, options: HeatmapOptions): HeatmapColors {
+  const { nx, ny } = surface
+  if (options.color === 'slope') {
+    const slope = computeSlope(surface as Surface<Vec64>)
+    let max = 0
+    for (const magnitude of slope.magnitude) max = Math.max(max, magnitude)
+    return { colors: slopeToColorGrid(slope, nx, ny, options.gradient), min: 0, max }
+  }
+
+  let min = Infinity
+  let max = -Infinity
+  for (const z of surface.z) {
+    if (!Number.isFinite(z)) continue
+    min = Math.min(min, z)
+    max = Math.max(max, z)
+  }
+  if (options.center !== null && Number.isFinite(min)) {
+    const reach = Math.max(Math.abs(max - options.center), Math.abs(options.center - min))
+    min = options.center - reach
+    max = options.center + reach
+  }
+  const range = max - min || 1
+  const gradient = GRADIENT_PRESETS[options.gradient]
+  const colors: ColorRGB[][] = []
+  for (let xi = 0; xi < nx; xi++) {
+    const row: ColorRGB[] = []
+    for (let yi = 0; yi < ny; yi++) {
+      row.push(sampleGradient(gradient, (surface.z[xi * ny + yi]! - min) / range))
+    }
+    colors.push(row)
+  }
+  return { colors, min: Number.isFinite(min) ? min : 0, max: Number.isFinite(max) ? max : 0 }
+}
+
+/**
+ * Keep a cursor on the grid; no cursor starts in the middle
+ */
+export function clampCursor(cursor: GridCursor | null, surface: Surface<Vec32 | Vec64>): GridCursor {
+  if (!cursor) return { xi: Math.floor((surface.nx - 1) / 2), yi: Math.floor((surface.ny - 1) / 2) }
+  return {
+    xi: Math.max(0, Math.min(surface.nx - 1, cursor.xi)),
+    yi: Math.max(0, Math.min(surface.ny - 1, cursor.yi)),
+  }
+}
+
+/**
+ * Slope magnitude at a node (see computeSlope)
+ */
+export function slopeAt(surface: Surface<Vec32 | Vec64>, cursor: GridCursor): number {
+  return computeSlope(surface as Surface<Vec64>).magnitude[cursor.xi * surface.ny + cursor.yi]!
+}
+
+/**
+ * Label/value pairs for a node under the surface's axis labels
+ * (e.g. DTE, Strike, IV), plus the slope when given
+ */
+export function cellReadout(surface: Surface<Vec32 | Vec64>, cell: HeatmapCell, slope?: number): [string, string][] {
+  const readout: [string, string][] = [
+    [surface.meta.xLabel, formatTick(cell.x)],
+    [surface.meta.yLabel, formatTick(cell.y)],
+    [surface.meta.zLabel, formatTick(cell.z)],
+  ]
+  if (slope !== undefined) readout.push(['slope', formatTick(slope)])
+  return readout
+}
+
+export function heatmapCell(surface: Surface<Vec32 | Vec64>, cursor: GridCursor): HeatmapCell {
+  const { xi, yi } = cursor
+  return { xi, yi, x: surface.x[xi]!, y: surface.y[yi]!, z: surface.z[xi * surface.ny + yi]! }
+}
+
+/**
+ * Apply a key press to the cursor
+ * Arrows or h/j/k/l move a node, PageUp/PageDown five rows; Enter or Space
+ * selects the node under the cursor.
+ */
+export function cursorInput(
+  cursor: GridCursor | null,
+  key: InputMessage,
+  surface: Surface<Vec32 | Vec64>
+): { cursor: GridCursor; selected?: HeatmapCell } {
+  const at = clampCursor(cursor, surface)
+  const moves: Record<string, [number, number]> = {
+    up: [-1, 0],
+    k: [-1, 0],
+    down: [1, 0],
+    j: [1, 0],
+    left: [0, -1],
+    h: [0, -1],
+    right: [0, 1],
+    l: [0, 1],
+    pageup: [-PAGE, 0],
+    pagedown: [PAGE, 0],
+  }
+  const move = moves[key.key]
+  if (move) return { cursor: clampCursor({ xi: at.xi + move[0], yi: at.yi + move[1] }, surface) }
+  if (key.key === 'return' || key.key === ' ') return { cursor: at, selected: heatmapCell(surface, at) }
+  return { cursor: at }
+}
+
+/**
+ * Short label for an axis value or reading (four significant digits)
+ */
+export function formatTick(value: number): string {
+  if (!Number.isFinite(value)) return '–'
+  return String(Number(value.toPrecision(4)))
+}
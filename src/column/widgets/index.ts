@@ -18,6 +18,40 @@ export type { TableWidgetProps, TableColumn } from './Table.tsx'
 
 export { ChartWidget, MultiSparkline, sparkline, horizontalBar } from './Chart.tsx'
 export type { ChartWidgetProps, ChartData, MultiSparklineProps } from './Chart.tsx'
+export { chartSeries, niceTicks, sviOverlay } from './linechart.ts'
+export type { ChartSeries, SeriesStyle, SviOverlay } from './linechart.ts'
 
 export { LogWidget, createLogEntry, log } from './Log.tsx'
 export type { LogWidgetProps, LogEntry, LogLevel } from './Log.tsx'
+
+export { GaugeWidget } from './Gauge.tsx'
+export type { GaugeWidgetProps } from './Gauge.tsx'
+export { gaugeConfig, gaugeValue, thresholdCrossings, radialArc } from './gauge.ts'
+export type { GaugeConfig, GaugeMode, GaugeThreshold, GaugeCrossing, ThresholdEvent } from './gauge.ts'
+
+export { FormWidget } from './Form.tsx'
+export type { FormWidgetProps } from './Form.tsx'
+export { formFields, formFromOptions, formInput, formValues, validateField } from './form.ts'
+export type { FormField, FormFieldType, FormState } from './form.ts'
+export { inputFromInk } from './input.ts'
+
+export { HeatmapWidget } from './Heatmap.tsx'
+export type { HeatmapWidgetProps } from './Heatmap.tsx'
+export { heatmapColors, heatmapOptions, cursorInput, cellReadout, slopeAt } from './heatmap.ts'
+export type { GridCursor, HeatmapCell, HeatmapColor, HeatmapOptions } from './heatmap.ts'
+
+// Text rendering (used by column workers, no React)
+export {
+  renderWidgetText,
+  renderListText,
+  renderTableText,
+  renderChartText,
+  renderLineChartText,
+  renderLogText,
+  renderSurfaceText,
+  renderGaugeText,
+  renderFormText,
+  renderHeatmapText,
+  renderJsonText,
+} from './text.ts'
+export type { TextView, WidgetTextState } from './text.ts'
@@ -0,0 +1,37 @@
+/**
+ * Key Input
+ * Ink key events as INPUT messages, for widgets and for forwarding to columns
+ */
+
+import type { Key } from 'ink'
+import type { InputMessage } from '../../ipc/protocol.ts'
+
+// Named keys, in the order Ink reports them
+const KEY_NAMES: [keyof Key, string][] = [
+  ['upArrow', 'up'],
+  ['downArrow', 'down'],
+  ['leftArrow', 'left'],
+  ['rightArrow', 'right'],
+  ['return', 'return'],
+  ['escape', 'escape'],
+  ['tab', 'tab'],
+  ['backspace', 'backspace'],
+  ['delete', 'delete'],
+  ['pageUp', 'pageup'],
+  ['pageDown', 'pagedown'],
+]
+
+/**
+ * INPUT message for an Ink useInput callback; null for nothing recognizable
+ */
+export function inputFromInk(input: string, key: Key): InputMessage | null {
+  const named = KEY_NAMES.find(([flag]) => key[flag])
+  const name = named ? named[1] : input
+  if (!name) return null
+
+  const message: InputMessage = { key: name }
+  if (key.ctrl) message.ctrl = true
+  if (key.meta) message.alt = true
+  if (key.shift) message.shift = true
+  return message
+}
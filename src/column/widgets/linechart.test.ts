@@ -0,0 +1,101 @@
+/**
+ * Tests for the line chart model and its text rendering
+ */
+
+import { describe, it, expect } from 'bun:test'
+import { canvasChar, chartSeries, createCanvas, drawSegment, niceTicks, setDot, sviOverlay } from './linechart.ts'
+import { renderChartText, renderLineChartText } from './text.ts'
+import { stripAnsi, visibleWidth } from '../../render/ansi.ts'
+import { sviImpliedVol, DEFAULT_SVI } from '../../surface/svi.ts'
+
+describe('Line chart model', () => {
+  it('should read series from numbers, { x, y }, points and series lists', () => {
+    expect(chartSeries([3, 1])).toEqual([{ label: 'Series 1', color: 'cyan', style: 'line', x: [0, 1], y: [3, 1] }])
+    expect(chartSeries({ x: [10, 20], y: [1, 2] })[0]).toMatchObject({ x: [10, 20], y: [1, 2] })
+
+    const series = chartSeries({
+      series: [
+        { label: 'Front', points: [[1, 0.2], { x: 2, y: 0.3 }, [3, NaN]] },
+        { y: [1, 2], color: 'red', style: 'points' },
+        { label: 'Empty', y: [] },
+        'nope',
+      ],
+    })
+    expect(series).toEqual([
+      { label: 'Front', color: 'cyan', style: 'line', x: [1, 2], y: [0.2, 0.3] },
+      { label: 'Series 2', color: 'red', style: 'points', x: [0, 1], y: [1, 2] },
+    ])
+    expect(chartSeries({ rows: [] })).toEqual([])
+  })
+
+  it('should overlay an SVI fit on market quotes', () => {
+    const market = [-0.2, 0, 0.2].map((k) => ({ k, iv: sviImpliedVol(k, 0.5, DEFAULT_SVI) + 0.01 }))
+    const [quotes, fit] = chartSeries({ svi: { params: DEFAULT_SVI, t: 0.5, market } })
+    expect(quotes).toMatchObject({ label: 'Market', style: 'points', x: [-0.2, 0, 0.2] })
+    expect(fit).toMatchObject({ label: 'SVI fit', style: 'line' })
+    expect(fit!.x[0]).toBe(-0.2)
+    expect(fit!.x.at(-1)).toBeCloseTo(0.2)
+    expect(fit!.y[0]).toBeCloseTo(sviImpliedVol(-0.2, 0.5, DEFAULT_SVI))
+
+    // Calibration results carry their quotes as residuals
+    const residuals = [{ k: 0.1, marketIV: 0.25, modelIV: 0.24, residual: 0, weight: 1 }]
+    expect(sviOverlay({ params: DEFAULT_SVI, residuals })!.market).toEqual([{ k: 0.1, iv: 0.25 }])
+    expect(sviOverlay({ params: { a: 1 } })).toBeNull()
+  })
+
+  it('should pick round ticks', () => {
+    expect(niceTicks(0, 10, 5)).toEqual([0, 2, 4, 6, 8, 10])
+    expect(niceTicks(0.21, 0.34, 3)).toEqual([0.25, 0.3])
+    expect(niceTicks(-1, 1, 2)).toEqual([-1, 0, 1])
+    expect(niceTicks(5, 5, 3)).toEqual([5])
+  })
+
+  it('should set braille dots and draw segments', () => {
+    const canvas = createCanvas(2, 1)
+    setDot(canvas, 0, 0, 'cyan')
+    setDot(canvas, 1, 2, 'cyan')
+    setDot(canvas, 9, 9, 'cyan') // Off the canvas
+    expect(canvasChar(canvas, 0, 0)).toBe('⠡') // Dots 1 and 6
+    expect(canvasChar(canvas, 1, 0)).toBe('')
+
+    drawSegment(canvas, 0, 2, 3, 2, 'red')
+    expect([canvasChar(canvas, 0, 0), canvasChar(canvas, 1, 0)]).toEqual(['⠥', '⠤'])
+    expect(canvas.colors).toEqual(['red', 'red'])
+  })
+})
+
+describe('Line chart rendering', () => {
+  const data = {
+    series: [
+      { label: 'Front', x: [0, 1, 2, 3, 4], y: [0.3, 0.25, 0.2, 0.25, 0.3] },
+      { label: 'Market', x: [2], y: [0.28], style: 'points' },
+    ],
+  }
+
+  it('should render a legend, y ticks, annotations and x ticks', () => {
+    const lines = renderLineChartText(data, { width: 30, height: 8 })
+    expect(lines.length).toBe(8)
+    for (const line of lines) expect(visibleWidth(line)).toBeLessThanOrEqual(30)
+
+    const text = lines.map(stripAnsi)
+    expect(text[0]).toBe('━ Front  • Market')
+    expect(text.slice(1, 7).map((line) => line.slice(0, 5))).toEqual([' 0.3┤', '    │', '    │', '0.25┤', '    │', ' 0.2┤'])
+    expect(text[1]).toContain('▲0.3')
+    expect(text[6]).toContain('▼0.2')
+    expect(text.join('\n')).toContain('•')
+    expect(text[7]).toBe(`     0${' '.repeat(11)}2${' '.repeat(11)}4`)
+  })
+
+  it('should drop the legend, then the x ticks, in small views', () => {
+    expect(renderLineChartText(data, { width: 30, height: 5 }).map(stripAnsi)[0]).not.toContain('Front')
+    expect(renderLineChartText(data, { width: 30, height: 3 }).map(stripAnsi).at(-1)).toContain('┤')
+    expect(stripAnsi(renderLineChartText([], { width: 30, height: 3 }).join('\n'))).toContain('No data')
+  })
+
+  it('should be picked by chart columns in line mode or with series', () => {
+    const line = renderChartText([1, 2, 3], { width: 20, height: 6 }, { mode: 'line' }).map(stripAnsi)
+    expect(line.some((l) => l.includes('┤'))).toBe(true)
+    expect(renderChartText(data, { width: 20, height: 6 }).map(stripAnsi)[0]).toContain('Front')
+    expect(renderChartText([1, 2, 3], { width: 20, height: 6 }).map(stripAnsi).join('')).not.toContain('┤')
+  })
+})
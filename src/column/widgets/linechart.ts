@@ -0,0 +1,238 @@
+/**
+ * Line Chart Model
+ * Series, axis ticks and the braille canvas behind the XY line chart (2x3
+ * dots per cell, see BRAILLE_CHARS), with an optional SVI fit overlaid on
+ * market points
+ */
+
+import { BRAILLE_CHARS } from '../../render/rasterize.ts'
+import { generateSVISmile, type SVIParams } from '../../surface/svi.ts'
+
+export type SeriesStyle = 'line' | 'points'
+
+/**
+ * One series: a polyline, or markers (e.g. market quotes)
+ */
+export interface ChartSeries {
+  label: string
+  color: string
+  style: SeriesStyle
+  x: number[]
+  y: number[]
+}
+
+/**
+ * SVI fit over market points: raw params, expiry in years and the quotes by
+ * log-moneyness (a calibration result's residuals work as quotes too)
+ */
+export interface SviOverlay {
+  params: SVIParams
+  t: number
+  market: { k: number; iv: number }[]
+}
+
+// Series colors, in order, for series without one
+export const SERIES_COLORS = ['cyan', 'magenta', 'yellow', 'green', 'blue', 'red']
+
+// Braille dots per cell
+export const DOTS_X = 2
+export const DOTS_Y = 3
+
+// Points along the SVI fit line
+const SVI_FIT_POINTS = 60
+
+/**
+ * Dots of a chart area: one braille mask and color per cell
+ * (the last series drawn in a cell colors it)
+ */
+export interface BrailleCanvas {
+  width: number // Cells
+  height: number
+  masks: Uint8Array
+  colors: (string | null)[]
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function numbers(value: unknown): number[] | null {
+  return Array.isArray(value) && value.every((v) => typeof v === 'number') ? value : null
+}
+
+// x/y pairs from { y, x? } or { points: [[x, y]] | [{ x, y }] }, finite pairs only
+function seriesPoints(entry: Record<string, unknown>): { x: number[]; y: number[] } | null {
+  let x: number[] = []
+  let y: number[] = []
+  if (Array.isArray(entry.points)) {
+    for (const point of entry.points) {
+      const pair = Array.isArray(point) ? point : isRecord(point) ? [point.x, point.y] : []
+      if (typeof pair[0] === 'number' && typeof pair[1] === 'number') {
+        x.push(pair[0])
+        y.push(pair[1])
+      }
+    }
+  } else {
+    const ys = numbers(entry.y)
+    if (!ys) return null
+    const xs = numbers(entry.x)
+    y = ys
+    x = ys.map((_, i) => xs?.[i] ?? i)
+  }
+  const keep = x.map((v, i) => Number.isFinite(v) && Number.isFinite(y[i]!))
+  return { x: x.filter((_, i) => keep[i]), y: y.filter((_, i) => keep[i]) }
+}
+
+/**
+ * SVI overlay from data.svi ({ params, t, market } or a calibration result
+ * with residuals); null when the params are missing
+ */
+export function sviOverlay(value: unknown): SviOverlay | null {
+  if (!isRecord(value) || !isRecord(value.params)) return null
+  const params = value.params as Record<string, unknown>
+  if (!['a', 'b', 'rho', 'm', 'sigma'].every((key) => typeof params[key] === 'number')) return null
+
+  const quotes = Array.isArray(value.market) ? value.market : Array.isArray(value.residuals) ? value.residuals : []
+  const market: { k: number; iv: number }[] = []
+  for (const quote of quotes) {
+    if (!isRecord(quote) || typeof quote.k !== 'number') continue
+    const iv = typeof quote.iv === 'number' ? quote.iv : quote.marketIV
+    if (typeof iv === 'number') market.push({ k: quote.k, iv })
+  }
+  return { params: value.params as unknown as SVIParams, t: typeof value.t === 'number' ? value.t : 1, market }
+}
+
+/**
+ * Market markers and the fitted smile across their log-moneyness range
+ * (-1..1 without quotes)
+ */
+export function sviSeries(overlay: SviOverlay): ChartSeries[] {
+  const ks = overlay.market.map((q) => q.k)
+  const kMin = ks.length > 1 ? Math.min(...ks) : -1
+  const kMax = ks.length > 1 ? Math.max(...ks) : 1
+  const fit = generateSVISmile(overlay.params, overlay.t, kMin, kMax, SVI_FIT_POINTS)
+
+  const series: ChartSeries[] = []
+  if (overlay.market.length > 0) {
+    series.push({
+      label: 'Market',
+      color: 'white',
+      style: 'points',
+      x: overlay.market.map((q) => q.k),
+      y: overlay.market.map((q) => q.iv),
+    })
+  }
+  series.push({ label: 'SVI fit', color: 'magenta', style: 'line', x: fit.map((p) => p.k), y: fit.map((p) => p.iv) })
+  return series
+}
+
+/**
+ * Series from chart data: an array of numbers, { x?, y }, or
+ * { series: [{ label, color, style, x?, y } | { label, points }], svi }
+ */
+export function chartSeries(data: unknown): ChartSeries[] {
+  const entries: unknown[] = numbers(data)
+    ? [{ y: data }]
+    : isRecord(data) && Array.isArray(data.series)
+      ? data.series
+      : isRecord(data) && numbers(data.y)
+        ? [data]
+        : []
+
+  const series: ChartSeries[] = []
+  entries.forEach((entry, i) => {
+    if (!isRecord(entry)) return
+    const points = seriesPoints(entry)
+    if (!points || points.x.length === 0) return
+    series.push({
+      label: typeof entry.label === 'string' ? entry.label : `Series ${i + 1}`,
+      color: typeof entry.color === 'string' ? entry.color : SERIES_COLORS[i % SERIES_COLORS.length]!,
+      style: entry.style === 'points' ? 'points' : 'line',
+      ...points,
+    })
+  })
+
+  const overlay = isRecord(data) ? sviOverlay(data.svi) : null
+  if (overlay) series.push(...sviSeries(overlay))
+  return series
+}
+
+/**
+ * Round tick values within [min, max], stepping by 1, 2 or 5 times a power
+ * of ten so that about `count` of them fit
+ */
+export function niceTicks(min: number, max: number, count: number): number[] {
+  if (!Number.isFinite(min) || !Number.isFinite(max) || count < 1) return []
+  if (max <= min) return [min]
+
+  const rough = (max - min) / count
+  const power = 10 ** Math.floor(Math.log10(rough))
+  const step = ([1, 2, 5, 10].find((m) => m * power >= rough) ?? 10) * power
+  const ticks: number[] = []
+  for (let tick = Math.ceil(min / step) * step; tick <= max + step * 1e-9; tick += step) {
+    // Snap away float noise (0.30000000000000004)
+    ticks.push(Number(tick.toPrecision(12)))
+  }
+  return ticks
+}
+
+export function createCanvas(width: number, height: number): BrailleCanvas {
+  return { width, height, masks: new Uint8Array(width * height), colors: Array(width * height).fill(null) }
+}
+
+/**
+ * Set the dot at (px, py), counted from the top left; dots off the canvas are skipped
+ */
+export function setDot(canvas: BrailleCanvas, px: number, py: number, color: string): void {
+  const x = Math.round(px)
+  const y = Math.round(py)
+  if (x < 0 || y < 0 || x >= canvas.width * DOTS_X || y >= canvas.height * DOTS_Y) return
+  const cell = Math.floor(y / DOTS_Y) * canvas.width + Math.floor(x / DOTS_X)
+  // Left column dots are bits 0-2 top to bottom, right column bits 3-5
+  canvas.masks[cell]! |= 1 << ((x % DOTS_X) * DOTS_Y + (y % DOTS_Y))
+  canvas.colors[cell] = color
+}
+
+/**
+ * Draw a segment between two dots (Bresenham)
+ */
+export function drawSegment(
+  canvas: BrailleCanvas,
+  x0: number,
+  y0: number,
+  x1: number,
+  y1: number,
+  color: string
+): void {
+  let x = Math.round(x0)
+  let y = Math.round(y0)
+  const xEnd = Math.round(x1)
+  const yEnd = Math.round(y1)
+  const dx = Math.abs(xEnd - x)
+  const dy = -Math.abs(yEnd - y)
+  const sx = x < xEnd ? 1 : -1
+  const sy = y < yEnd ? 1 : -1
+  let error = dx + dy
+
+  for (;;) {
+    setDot(canvas, x, y, color)
+    if (x === xEnd && y === yEnd) break
+    const e2 = 2 * error
+    if (e2 >= dy) {
+      error += dy
+      x += sx
+    }
+    if (e2 <= dx) {
+      error += dx
+      y += sy
+    }
+  }
+}
+
+/**
+ * Braille glyph of a cell ('' when it has no dots)
+ */
+export function canvasChar(canvas: BrailleCanvas, column: number, row: number): string {
+  const mask = canvas.masks[row * canvas.width + column]!
+  return mask ? BRAILLE_CHARS[mask]! : ''
+}
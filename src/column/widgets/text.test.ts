@@ -0,0 +1,116 @@
+/**
+ * Tests for the widget text renderers
+ */
+
+import { describe, it, expect } from 'bun:test'
+import {
+  renderWidgetText,
+  renderListText,
+  renderTableText,
+  renderChartText,
+  renderLogText,
+  renderGaugeText,
+  sparkline,
+  horizontalBar,
+} from './text.ts'
+import { createTestSurface } from '../../data/surface.ts'
+import { stripAnsi, visibleWidth } from '../../render/ansi.ts'
+
+const plain = (lines: string[]) => lines.map((line) => stripAnsi(line).trimEnd())
+
+describe('Widget text rendering', () => {
+  it('should keep sparkline and bar helpers', () => {
+    expect(sparkline([1, 2, 3])).toBe('▁▅█')
+    expect(horizontalBar(5, 10, 4)).toBe('██  ')
+    expect(horizontalBar(-1, 10, 2)).toBe('  ')
+  })
+
+  it('should render lists and count what does not fit', () => {
+    const items = [{ label: 'AAPL' }, { name: 'MSFT' }, 'GOOG', 42]
+    expect(plain(renderListText(items, { width: 10, height: 4 }))).toEqual(['AAPL', 'MSFT', 'GOOG', '42'])
+    expect(plain(renderListText({ items }, { width: 10, height: 3 }))).toEqual(['AAPL', 'MSFT', '… 2 more'])
+    expect(plain(renderListText([], { width: 10, height: 3 }))).toEqual(['No items'])
+  })
+
+  it('should render tables with aligned columns', () => {
+    const rows = [
+      { symbol: 'AAPL', qty: 10, pnl: 1.5 },
+      { symbol: 'MSFT', qty: 200, pnl: -12.25 },
+    ]
+    expect(plain(renderTableText({ rows }, { width: 40, height: 5 }))).toEqual([
+      'symbol qty    pnl',
+      '─────────────────',
+      'AAPL    10   1.50',
+      'MSFT   200 -12.25',
+    ])
+
+    // Narrow views shrink the widest column; options.columns picks and orders
+    const narrow = plain(renderTableText(rows, { width: 9, height: 4 }, { columns: ['qty', 'symbol'] }))
+    expect(narrow[0]).toBe('qty symb…')
+    expect(narrow[2]).toBe(' 10 AAPL')
+  })
+
+  it('should render number series as bars and labelled items as horizontal bars', () => {
+    const series = plain(renderChartText([1, 2, 3, 4], { width: 10, height: 3 }))
+    expect(series[0]).toBe('4 ↓1 ↑4')
+    expect(series.slice(1)).toEqual(['  ▃█', '▁▅██'])
+
+    const bars = plain(renderChartText([{ label: 'a', value: 2 }, { label: 'bb', value: 4 }], { width: 10, height: 2 }))
+    expect(bars).toEqual(['a  ██  2.0', 'bb ███ 4.0'])
+  })
+
+  it('should render the latest log entries', () => {
+    const entries = [
+      'boot',
+      { level: 'warn', message: 'slow', source: 'feed' },
+      { level: 'error', message: 'down' },
+    ]
+    expect(plain(renderLogText(entries, { width: 20, height: 2 }))).toEqual(['⚠ [feed] slow', '✖ down'])
+  })
+
+  it('should color gauges by how full they are', () => {
+    const lines = renderGaugeText({ value: 90, label: 'VaR', unit: '%' }, { width: 10, height: 3 })
+    expect(plain(lines)).toEqual(['VaR   90 %', '█████████░', '0      100'])
+    expect(lines[1]).toContain('\x1b[31m')
+    expect(renderGaugeText(30, { width: 10, height: 3 })[1]).toContain('\x1b[32m')
+  })
+
+  it('should draw gauges as bars, arcs and numbers with thresholds and history', () => {
+    const options = { min: 0, max: 1, thresholds: [{ value: 0.6, label: 'Elevated' }, 0.8], label: 'Risk' }
+    const view = { width: 20, height: 4 }
+
+    const bar = plain(renderGaugeText(0.7, view, options, [0.2, 0.5, 0.7]))
+    expect(bar).toEqual(['Risk            0.70', '██████████████░░░░░░', '0          0.60    1', '▁▅█'])
+
+    const numeric = plain(renderGaugeText(0.7, view, { ...options, mode: 'numeric' }))
+    expect(numeric).toEqual(['Risk', '        0.70', '      Elevated', '       0 – 1'])
+
+    const radial = plain(renderGaugeText(0.9, { width: 20, height: 6 }, { ...options, mode: 'radial' }))
+    expect(radial[0]).toBe('Risk')
+    expect(radial.length).toBe(6)
+    expect(radial[5]).toContain('0.90')
+    expect(radial.slice(1).join('')).toMatch(/[\u2801-\u28ff]/)
+    // Too short for an arc: a bar instead
+    expect(plain(renderGaugeText(0.9, { width: 20, height: 2 }, { ...options, mode: 'radial' }))[1]).toContain('█')
+  })
+
+  it('should fit every widget type to the view', () => {
+    const surface = createTestSurface(8, 6)
+    const states = [
+      { type: 'surface', data: null, surface },
+      { type: 'surface', data: null, surface: null },
+      { type: 'chart', data: { values: [3, 1, 2] }, surface: null },
+      { type: 'form', data: { name: 'x', fields: [1, 2, 3] }, surface: null },
+      { type: 'custom', data: null, surface: null },
+    ]
+    for (const state of states) {
+      const lines = renderWidgetText(state, { width: 24, height: 8 })
+      expect(lines.length).toBe(8)
+      expect(lines.every((line) => visibleWidth(line) === 24)).toBe(true)
+    }
+
+    const surfaceText = plain(renderWidgetText(states[0]!, { width: 24, height: 8 })).join('')
+    expect(surfaceText.trim().length).toBeGreaterThan(0)
+    expect(renderWidgetText(states[4]!, { width: 0, height: 2 })).toEqual(['', ''])
+  })
+})
@@ -0,0 +1,706 @@
+/**
+ * Text Renderers
+ * Draw widget state into plain ANSI lines, so column workers can render
+ * without React; the TUI composites the results (see tui/composite.ts)
+ */
+
+import type { Surface } from '../../data/surface.ts'
+import type { Vec32, Vec64 } from '../../data/vec.ts'
+import { createProjection } from '../../render/project.ts'
+import { renderCubeFrame, surfaceToPoints } from '../../render/cube.ts'
+import { rasterizeCubeFrame, bufferToAnsi } from '../../render/rasterize.ts'
+import { ansi256Bg, ansi256Fg, COLORS, GRADIENT_PRESETS, rgbToAnsi256, sampleGradient, type ColorName } from '../../render/gradient.ts'
+import { ANSI_RESET, fitLine, fitLines, styled, visibleWidth, type TextStyle } from '../../render/ansi.ts'
+import {
+  bandColor,
+  gaugeBand,
+  gaugeConfig,
+  gaugeFraction,
+  gaugeValue,
+  radialArc,
+  type GaugeConfig,
+} from './gauge.ts'
+import { formErrors, formFromOptions, type FormState } from './form.ts'
+import {
+  cellReadout,
+  clampCursor,
+  formatTick,
+  heatmapCell,
+  heatmapColors,
+  heatmapOptions,
+  slopeAt,
+  type GridCursor,
+} from './heatmap.ts'
+import { canvasChar, chartSeries, createCanvas, drawSegment, DOTS_X, DOTS_Y, niceTicks, setDot } from './linechart.ts'
+
+// Sparkline characters (8 levels)
+const SPARK_CHARS = '▁▂▃▄▅▆▇█'
+
+// Log level colors and icons (shared with Log.tsx)
+export const LEVEL_COLORS: Record<string, string> = {
+  debug: 'gray',
+  info: 'blue',
+  warn: 'yellow',
+  error: 'red',
+}
+
+export const LEVEL_ICONS: Record<string, string> = {
+  debug: '·',
+  info: 'ℹ',
+  warn: '⚠',
+  error: '✖',
+}
+
+/**
+ * Area a widget renders into, in terminal cells
+ */
+export interface TextView {
+  width: number
+  height: number
+  focused?: boolean
+}
+
+/**
+ * What a column renders from
+ */
+export interface WidgetTextState {
+  type: string
+  data: unknown
+  surface: Surface<Vec32 | Vec64> | null
+  options?: Record<string, unknown>
+  history?: number[] // Trailing values of a gauge column
+  form?: FormState // Input of a form column (default: fresh from options)
+  cursor?: GridCursor | null // Node under a heatmap's cursor (default: the middle) or a surface's crosshair
+}
+
+/**
+ * Generate sparkline string from values
+ */
+export function sparkline(values: number[]): string {
+  if (values.length === 0) return ''
+
+  const min = Math.min(...values)
+  const max = Math.max(...values)
+  const range = max - min || 1
+
+  return values
+    .map((v) => {
+      const norm = (v - min) / range
+      const idx = Math.min(Math.floor(norm * SPARK_CHARS.length), SPARK_CHARS.length - 1)
+      return SPARK_CHARS[idx]
+    })
+    .join('')
+}
+
+/**
+ * Generate horizontal bar
+ */
+export function horizontalBar(value: number, max: number, width: number): string {
+  const filled = Math.max(0, Math.min(width, Math.round((value / max) * width)))
+  return '█'.repeat(filled) + ' '.repeat(width - filled)
+}
+
+// Short display form of a value
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return ''
+  if (typeof value === 'number') return Number.isInteger(value) ? String(value) : value.toFixed(2)
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+// Items of list-like data: an array, or an object holding one under key
+function itemsOf(data: unknown, key: string): unknown[] {
+  if (Array.isArray(data)) return data
+  if (isRecord(data) && Array.isArray(data[key])) return data[key] as unknown[]
+  return []
+}
+
+function placeholder(text: string): string[] {
+  return [styled(text, { dim: true })]
+}
+
+// Keep the first height lines, replacing the last with a count of what was cut
+function clip(lines: string[], height: number): string[] {
+  if (lines.length <= height) return lines
+  const kept = lines.slice(0, Math.max(0, height - 1))
+  return [...kept, styled(`… ${lines.length - kept.length} more`, { dim: true })]
+}
+
+/**
+ * List: strings, numbers, or objects with a label (or name, title, id)
+ */
+export function renderListText(data: unknown, view: TextView): string[] {
+  const items = itemsOf(data, 'items')
+  if (items.length === 0) return placeholder('No items')
+
+  const lines = items.map((item) => {
+    if (!isRecord(item)) return formatValue(item)
+    const label = item.label ?? item.name ?? item.title ?? item.id
+    const text = label === undefined ? JSON.stringify(item) : formatValue(label)
+    return item.disabled ? styled(text, { dim: true }) : text
+  })
+  return clip(lines, view.height)
+}
+
+/**
+ * Table: an array of row objects, or { rows } (portfolio columns)
+ * Columns come from options.columns or the keys of the rows; the widest
+ * columns are narrowed until the table fits
+ */
+export function renderTableText(data: unknown, view: TextView, options: Record<string, unknown> = {}): string[] {
+  const rows = itemsOf(data, 'rows').filter(isRecord)
+  if (rows.length === 0) return placeholder('No rows')
+
+  const keys = Array.isArray(options.columns)
+    ? options.columns.map(String)
+    : [...new Set(rows.flatMap((row) => Object.keys(row)))]
+  const cells = rows.map((row) => keys.map((key) => formatValue(row[key])))
+  const numeric = keys.map((_, c) => rows.every((row) => typeof row[keys[c]!] === 'number' || row[keys[c]!] == null))
+
+  const widths = keys.map((key, c) => Math.max(key.length, ...cells.map((row) => row[c]!.length)))
+  const total = () => widths.reduce((sum, w) => sum + w, 0) + widths.length - 1
+  while (total() > view.width) {
+    const widest = widths.indexOf(Math.max(...widths))
+    if (widths[widest]! <= 3) break
+    widths[widest]!--
+  }
+
+  const formatRow = (values: string[]) =>
+    values
+      .map((value, c) => {
+        const width = widths[c]!
+        const text = value.length > width ? value.slice(0, Math.max(0, width - 1)) + '…' : value
+        return numeric[c] ? text.padStart(width) : text.padEnd(width)
+      })
+      .join(' ')
+
+  const header = styled(formatRow(keys), { bold: true })
+  const rule = styled('─'.repeat(Math.min(view.width, total())), { dim: true })
+  return [header, rule, ...clip(cells.map(formatRow), Math.max(0, view.height - 2))]
+}
+
+/**
+ * Chart: a number series (vertical bars, latest values) or labelled
+ * { label, value, color } items (horizontal bars)
+ */
+export function renderChartText(data: unknown, view: TextView, options: Record<string, unknown> = {}): string[] {
+  if (options.mode === 'line' || (isRecord(data) && (Array.isArray(data.series) || isRecord(data.svi)))) {
+    return renderLineChartText(data, view)
+  }
+  const items = itemsOf(data, 'values')
+  if (items.length === 0) return placeholder('No data')
+
+  if (items.every((v) => typeof v === 'number')) {
+    const values = (items as number[]).slice(-view.width)
+    const min = Math.min(...values)
+    const max = Math.max(...values)
+    const range = max - min || 1
+    const last = values[values.length - 1]!
+    const header = `${styled(formatValue(last), { bold: true, color: 'cyan' })} ${styled(
+      `↓${formatValue(min)} ↑${formatValue(max)}`,
+      { dim: true }
+    )}`
+
+    // Bar heights in eighths of a row; the smallest value keeps a sliver
+    const rows = Math.max(1, view.height - 1)
+    const levels = values.map((v) => Math.max(1, Math.round(((v - min) / range) * rows * 8)))
+    const lines: string[] = []
+    for (let row = rows - 1; row >= 0; row--) {
+      const line = levels
+        .map((level) => {
+          const fill = level - row * 8
+          if (fill >= 8) return '█'
+          return fill > 0 ? SPARK_CHARS[fill - 1]! : ' '
+        })
+        .join('')
+      lines.push(styled(line, { color: 'cyan' }))
+    }
+    return [header, ...lines]
+  }
+
+  const bars = items.filter(isRecord).filter((item) => typeof item.value === 'number')
+  if (bars.length === 0) return placeholder('No data')
+  const max = Math.max(...bars.map((item) => item.value as number), 1)
+  const labelWidth = Math.max(0, ...bars.map((item) => formatValue(item.label).length)) + 1
+  const valueWidth = Math.max(...bars.map((item) => (item.value as number).toFixed(1).length)) + 1
+  const barWidth = Math.max(1, view.width - labelWidth - valueWidth)
+  const lines = bars.map((item) => {
+    const value = item.value as number
+    const color = typeof item.color === 'string' ? item.color : 'green'
+    return (
+      formatValue(item.label).padEnd(labelWidth) +
+      styled(horizontalBar(value, max, barWidth), { color }) +
+      styled(` ${value.toFixed(1)}`, { dim: true })
+    )
+  })
+  return clip(lines, view.height)
+}
+
+/**
+ * Line chart: series (see linechart.ts) as braille lines on shared axes, with
+ * y ticks on the left, x ticks below and a legend on top; the first line
+ * series has its maximum and minimum annotated. Small views drop the legend,
+ * then the x ticks.
+ */
+export function renderLineChartText(data: unknown, view: TextView): string[] {
+  const series = chartSeries(data)
+  if (series.length === 0) return placeholder('No data')
+
+  const xs = series.flatMap((s) => s.x)
+  const ys = series.flatMap((s) => s.y)
+  let [xMin, xMax] = [Math.min(...xs), Math.max(...xs)]
+  let [yMin, yMax] = [Math.min(...ys), Math.max(...ys)]
+  if (xMax === xMin) [xMin, xMax] = [xMin - 1, xMax + 1]
+  if (yMax === yMin) [yMin, yMax] = [yMin - (Math.abs(yMin) || 1) / 10, yMax + (Math.abs(yMax) || 1) / 10]
+
+  const legend = view.height >= 6
+  const xAxis = view.height >= 5
+  const plotHeight = Math.max(1, view.height - (legend ? 1 : 0) - (xAxis ? 1 : 0))
+  const yTicks = niceTicks(yMin, yMax, Math.max(1, Math.floor(plotHeight / 2)))
+  const tickWidth = Math.min(Math.max(1, ...yTicks.map((tick) => formatTick(tick).length)), Math.floor(view.width / 4))
+  const plotWidth = Math.max(1, view.width - tickWidth - 1)
+
+  // Dot positions, and the cell a dot falls in
+  const toX = (x: number) => ((x - xMin) / (xMax - xMin)) * (plotWidth * DOTS_X - 1)
+  const toY = (y: number) => ((yMax - y) / (yMax - yMin)) * (plotHeight * DOTS_Y - 1)
+  const column = (x: number) => Math.floor(Math.round(toX(x)) / DOTS_X)
+  const row = (y: number) => Math.floor(Math.round(toY(y)) / DOTS_Y)
+
+  // Lines go on the canvas; point markers and annotations are drawn over it
+  const canvas = createCanvas(plotWidth, plotHeight)
+  const overlay = new Map<number, { char: string; style: TextStyle }>()
+  for (const s of series) {
+    s.x.forEach((x, i) => {
+      const y = s.y[i]!
+      if (s.style === 'points') overlay.set(row(y) * plotWidth + column(x), { char: '•', style: { color: s.color } })
+      else if (i === 0) setDot(canvas, toX(x), toY(y), s.color)
+      else drawSegment(canvas, toX(s.x[i - 1]!), toY(s.y[i - 1]!), toX(x), toY(y), s.color)
+    })
+  }
+
+  const primary = series.find((s) => s.style === 'line')
+  if (primary && plotHeight >= 3) {
+    for (const [mark, pick] of [['▲', Math.max], ['▼', Math.min]] as const) {
+      const value = pick(...primary.y)
+      const at = primary.y.indexOf(value)
+      const text = `${mark}${formatTick(value)}`
+      const col = column(primary.x[at]!)
+      // Right of the point when it fits, else left of it
+      const start = col + 1 + text.length <= plotWidth ? col + 1 : col - text.length
+      if (start < 0) continue
+      ;[...text].forEach((char, i) => {
+        overlay.set(row(value) * plotWidth + start + i, { char, style: { color: primary.color, bold: true } })
+      })
+    }
+  }
+
+  const tickRows = new Map<number, string>()
+  for (const tick of yTicks) tickRows.set(row(tick), formatTick(tick).slice(0, tickWidth))
+
+  const lines: string[] = []
+  if (legend) {
+    lines.push(
+      series
+        .map((s) => `${styled(s.style === 'points' ? '•' : '━', { color: s.color })} ${s.label}`)
+        .join('  ')
+    )
+  }
+  for (let r = 0; r < plotHeight; r++) {
+    const tick = tickRows.get(r)
+    const cells = Array.from({ length: plotWidth }, (_, c) => {
+      const over = overlay.get(r * plotWidth + c)
+      if (over) return over
+      const char = canvasChar(canvas, c, r)
+      return char ? { char, style: { color: canvas.colors[r * plotWidth + c]! } } : { char: ' ', style: {} }
+    })
+    lines.push(styled((tick ?? '').padStart(tickWidth) + (tick ? '┤' : '│'), { dim: true }) + styledCells(cells))
+  }
+  if (xAxis) {
+    const xTicks = niceTicks(xMin, xMax, Math.max(1, Math.floor(plotWidth / 8))).map((tick) => ({
+      text: formatTick(tick),
+      at: column(tick),
+    }))
+    lines.push(' '.repeat(tickWidth + 1) + styled(labelLine(plotWidth, xTicks), { dim: true }))
+  }
+  return lines
+}
+
+/**
+ * Log: strings or { level, message, timestamp, source } entries, newest last
+ */
+export function renderLogText(data: unknown, view: TextView): string[] {
+  const entries = itemsOf(data, 'entries')
+  if (entries.length === 0) return placeholder('No log entries')
+
+  return entries.slice(-view.height).map((entry) => {
+    if (!isRecord(entry)) return formatValue(entry)
+    const level = typeof entry.level === 'string' ? entry.level : 'info'
+    let line = styled(`${LEVEL_ICONS[level] ?? '·'} `, { color: LEVEL_COLORS[level] })
+    if (typeof entry.timestamp === 'number') {
+      line += styled(`${new Date(entry.timestamp).toLocaleTimeString('en-US', { hour12: false })} `, { dim: true })
+    }
+    if (entry.source) line += styled(`[${formatValue(entry.source)}] `, { color: 'magenta' })
+    const message = formatValue(entry.message ?? entry.text ?? '')
+    return line + (level === 'error' ? styled(message, { color: 'red' }) : message)
+  })
+}
+
+/**
+ * Surface: the 3D cube view, rotated by options.azimuth/elevation; with a
+ * cursor, a crosshair through that node and its readout on the last line
+ */
+export function renderSurfaceText(
+  surface: Surface<Vec32 | Vec64> | null,
+  view: TextView,
+  options: Record<string, unknown> = {},
+  cursor: GridCursor | null = null
+): string[] {
+  if (!surface) return placeholder('Waiting for surface data')
+
+  const at = cursor && surface.nx > 0 && surface.ny > 0 ? clampCursor(cursor, surface) : null
+  const height = at ? Math.max(1, view.height - 1) : view.height
+  const points = surfaceToPoints(surface.x, surface.y, surface.z, surface.nx, surface.ny)
+  const projection = createProjection(view.width, height, {
+    azimuth: typeof options.azimuth === 'number' ? options.azimuth : 45,
+    elevation: typeof options.elevation === 'number' ? options.elevation : 30,
+  })
+  const frame = renderCubeFrame(points, projection, {
+    axisLabels: { x: surface.meta.xLabel, y: surface.meta.yLabel, z: surface.meta.zLabel },
+    cursor: at,
+  })
+  const buffer = rasterizeCubeFrame(frame, view.width, height, { colorBySurface: true })
+  const lines = bufferToAnsi(buffer).split('\n')
+  if (at) lines.push(readoutLine(cellReadout(surface, heatmapCell(surface, at), slopeAt(surface, at))))
+  return lines
+}
+
+/**
+ * Heatmap: the surface as a colored grid (see heatmap.ts), two grid rows per
+ * line with half blocks, x ticks on the left and y ticks below; the top line
+ * reads out the node under the cursor next to the color scale
+ */
+export function renderHeatmapText(
+  surface: Surface<Vec32 | Vec64> | null,
+  view: TextView,
+  options: Record<string, unknown> = {},
+  cursor: GridCursor | null = null
+): string[] {
+  if (!surface || surface.nx === 0 || surface.ny === 0) return placeholder('Waiting for surface data')
+
+  const settings = heatmapOptions(options)
+  const gradient = GRADIENT_PRESETS[settings.gradient]
+  const { colors, min, max } = heatmapColors(surface, settings)
+  const at = clampCursor(cursor, surface)
+  const cell = heatmapCell(surface, at)
+
+  const readout = readoutLine(cellReadout(surface, cell))
+  const legend = `${settings.color === 'slope' ? '|∇| ' : ''}${formatTick(min)} ${gradientBar(gradient, 6)} ${formatTick(max)}`
+  const header =
+    visibleWidth(readout) + visibleWidth(legend) + 2 <= view.width ? spread(readout, legend, view.width) : readout
+
+  // Grid nodes by plot position (nearest node; small grids repeat, large ones are sampled)
+  const rowTicks = Array.from(surface.x, formatTick)
+  const tickWidth = Math.min(Math.max(...rowTicks.map((tick) => tick.length)), Math.floor(view.width / 4))
+  const plotWidth = Math.max(1, view.width - tickWidth - 1)
+  const plotHeight = Math.max(1, view.height - 2)
+  const rowOf = (sample: number) => Math.min(surface.nx - 1, Math.floor((sample * surface.nx) / (plotHeight * 2)))
+  const colOf = (column: number) => Math.min(surface.ny - 1, Math.floor((column * surface.ny) / plotWidth))
+
+  // The cursor node is drawn in a color no gradient ends in
+  const cursorColor = gradient.includes('white') ? COLORS.black : COLORS.white
+  const code = (xi: number, yi: number) =>
+    rgbToAnsi256(xi === at.xi && yi === at.yi ? cursorColor : colors[xi]![yi]!)
+
+  const lines = [header]
+  let lastTick = -2
+  let lastTickRow = -1
+  for (let line = 0; line < plotHeight; line++) {
+    const top = rowOf(line * 2)
+    const bottom = rowOf(line * 2 + 1)
+    // Tick the first line of a row, leaving a line between ticks
+    let tick = ''
+    if (top !== lastTickRow && line - lastTick >= 2) {
+      tick = rowTicks[top]!.slice(0, tickWidth)
+      lastTick = line
+      lastTickRow = top
+    }
+
+    let plot = ''
+    for (let column = 0; column < plotWidth; column++) {
+      const yi = colOf(column)
+      plot += ansi256Fg(code(top, yi)) + ansi256Bg(code(bottom, yi)) + '▀'
+    }
+    lines.push(styled(tick.padStart(tickWidth), { dim: true }) + ' ' + plot + ANSI_RESET)
+  }
+
+  const columnTicks = Array.from(surface.y, (y, yi) => ({
+    text: formatTick(y),
+    at: Math.ceil((yi * plotWidth) / surface.ny),
+  }))
+  lines.push(' '.repeat(tickWidth + 1) + styled(labelLine(plotWidth, columnTicks), { dim: true }))
+  return lines
+}
+
+// Readout pairs as one line: labels plain, values bold
+function readoutLine(readout: [string, string][]): string {
+  return readout.map(([label, value]) => `${label} ${styled(value, { bold: true })}`).join(styled(' · ', { dim: true }))
+}
+
+// Color scale: a run of blocks sampled along the gradient
+function gradientBar(gradient: ColorName[], width: number): string {
+  let bar = ''
+  for (let i = 0; i < width; i++) {
+    bar += ansi256Fg(rgbToAnsi256(sampleGradient(gradient, i / Math.max(1, width - 1)))) + '█'
+  }
+  return bar + ANSI_RESET
+}
+
+/**
+ * Gauge: a value against options.min/max and thresholds (see gauge.ts),
+ * drawn in options.mode as a bar, a braille arc or a number; with history
+ * (the trailing values) the last line is a sparkline
+ */
+export function renderGaugeText(
+  data: unknown,
+  view: TextView,
+  options: Record<string, unknown> = {},
+  history: number[] = []
+): string[] {
+  const value = gaugeValue(data)
+  if (value === null) return placeholder('No value')
+
+  // min, max, label and unit in the data override the column options
+  const overrides = isRecord(data)
+    ? Object.fromEntries(['min', 'max', 'label', 'unit'].filter((key) => data[key] !== undefined).map((key) => [key, data[key]]))
+    : {}
+  const config = gaugeConfig({ ...options, ...overrides })
+  const color = bandColor(value, config)
+  const valueText = `${formatValue(value)}${config.unit ? ` ${config.unit}` : ''}`
+  const label = styled(config.label ?? '', { bold: true })
+  const bandLabel = styled(gaugeBand(value, config)?.label ?? '', { color })
+  const trend = history.length > 1 ? gaugeTrend(history.slice(-view.width), config) : null
+
+  let lines: string[]
+  const rows = view.height - 1 - (trend ? 1 : 0)
+  if (config.mode === 'radial' && rows >= 2) {
+    const header = config.label || bandLabel ? [spread(label, bandLabel, view.width)] : []
+    const arc = radialGauge(value, config, view.width, view.height - header.length - (trend ? 1 : 0), valueText, color)
+    lines = [...header, ...arc]
+  } else if (config.mode === 'numeric') {
+    const range = styled(`${formatValue(config.min)} – ${formatValue(config.max)}`, { dim: true })
+    lines = [
+      ...(config.label ? [label] : []),
+      center(styled(valueText, { bold: true, color }), view.width),
+      ...(bandLabel ? [center(bandLabel, view.width)] : []),
+      center(range, view.width),
+    ]
+  } else {
+    lines = [
+      spread(label, styled(valueText, { bold: true, color }), view.width),
+      linearBar(gaugeFraction(value, config), config, view.width),
+      styled(scaleLine(config, view.width), { dim: true }),
+    ]
+  }
+
+  if (trend && lines.length < view.height) {
+    lines = [...lines.slice(0, view.height - 1), ...Array(Math.max(0, view.height - 1 - lines.length)).fill(''), trend]
+  }
+  return lines
+}
+
+// Cell-by-cell styled text, joined into one escape sequence per run
+function styledCells(cells: { char: string; style: TextStyle }[]): string {
+  let line = ''
+  let run = ''
+  let style: TextStyle | null = null
+  for (const cell of cells) {
+    if (style && JSON.stringify(style) !== JSON.stringify(cell.style)) {
+      line += styled(run, style)
+      run = ''
+    }
+    style = cell.style
+    run += cell.char
+  }
+  return style ? line + styled(run, style) : line
+}
+
+// left and right at the two ends of a width-cell line
+function spread(left: string, right: string, width: number): string {
+  return left + ' '.repeat(Math.max(1, width - visibleWidth(left) - visibleWidth(right))) + right
+}
+
+function center(text: string, width: number): string {
+  return ' '.repeat(Math.max(0, Math.floor((width - visibleWidth(text)) / 2))) + text
+}
+
+// Bar over the whole range, each cell in the color of its band (dim beyond the value)
+function linearBar(fraction: number, config: GaugeConfig, width: number): string {
+  const filled = Math.round(fraction * width)
+  const cells = Array.from({ length: width }, (_, i) => {
+    const color = bandColor(config.min + ((i + 0.5) / width) * (config.max - config.min), config)
+    return i < filled ? { char: '█', style: { color } } : { char: '░', style: { color, dim: true } }
+  })
+  return styledCells(cells)
+}
+
+// min and max at the ends, configured thresholds under their place on the bar
+function scaleLine(config: GaugeConfig, width: number): string {
+  return labelLine(width, [
+    { text: formatValue(config.min), at: 0 },
+    { text: formatValue(config.max), at: width },
+    ...config.thresholds.map((threshold) => ({
+      text: formatValue(threshold.value),
+      at: Math.round(gaugeFraction(threshold.value, config) * (width - 1)),
+    })),
+  ])
+}
+
+// Labels starting at their cell (kept on the line), in order; a label that
+// would touch an earlier one is dropped
+function labelLine(width: number, labels: { text: string; at: number }[]): string {
+  const line = Array<string>(width).fill(' ')
+  const taken = Array<boolean>(width).fill(false)
+  for (const { text, at } of labels) {
+    const start = Math.max(0, Math.min(width - text.length, at))
+    let free = true
+    for (let i = start - 1; i <= start + text.length; i++) {
+      if (taken[i]) free = false
+    }
+    if (!free) continue
+    for (let i = 0; i < text.length && start + i < width; i++) {
+      line[start + i] = text[i]!
+      taken[start + i] = true
+    }
+  }
+  return line.join('')
+}
+
+// Braille half-ring in band colors, the value in its middle
+function radialGauge(value: number, config: GaugeConfig, width: number, rows: number, text: string, color: string): string[] {
+  // No taller than the width allows (a half circle is twice as wide as high)
+  const arcRows = Math.max(1, Math.min(rows, Math.ceil(width / 4)))
+  const arc = radialArc(gaugeFraction(value, config), width, arcRows)
+  const lines = arc.map((row) =>
+    row.map((cell): { char: string; style: TextStyle } => {
+      if (!cell.char) return { char: ' ', style: {} }
+      const band = bandColor(config.min + cell.position * (config.max - config.min), config)
+      return { char: cell.char, style: { color: band, dim: !cell.filled } }
+    })
+  )
+
+  const last = lines[lines.length - 1]!
+  const start = Math.max(0, Math.floor((width - text.length) / 2))
+  for (let i = 0; i < text.length && start + i < width; i++) {
+    last[start + i] = { char: text[i]!, style: { color, bold: true } }
+  }
+  return lines.map(styledCells)
+}
+
+// Sparkline of the trailing values, each in its band's color
+function gaugeTrend(values: number[], config: GaugeConfig): string {
+  const chars = [...sparkline(values)]
+  return styledCells(chars.map((char, i) => ({ char, style: { color: bandColor(values[i]!, config) } })))
+}
+
+/**
+ * Form: a row per field with its input and, once touched, its error, then
+ * the submit button; the focused row is highlighted while the panel has focus
+ * and kept in view
+ */
+export function renderFormText(state: FormState, view: TextView): string[] {
+  if (state.fields.length === 0) return placeholder('No fields')
+
+  const errors = formErrors(state)
+  const labelWidth = Math.min(Math.max(...state.fields.map((field) => field.label.length)), Math.floor(view.width / 2))
+  const inputWidth = Math.max(1, view.width - labelWidth - 4)
+  const marker = (focused: boolean) => (focused ? styled('›', { color: 'cyan', bold: true }) : ' ')
+
+  const lines: string[] = []
+  let focusLine = 0
+  state.fields.forEach((field, i) => {
+    const focused = i === state.focus
+    const active = focused && !!view.focused
+    const input = state.input[field.name]!
+    const error = state.touched[field.name] ? errors[field.name] : undefined
+
+    let text: string
+    if (field.type === 'toggle') {
+      text = input ? '[x]' : '[ ]'
+    } else if (field.type === 'select') {
+      text = `‹ ${input} ›`
+    } else {
+      // Typed text keeps its end in view, with a cursor cell while editing
+      text = String(input) + (active ? ' ' : '')
+      if ([...text].length > inputWidth) text = '…' + [...text].slice(-(inputWidth - 1)).join('')
+    }
+
+    if (focused) focusLine = lines.length
+    const value = styled(text, { inverse: active, color: error ? 'red' : undefined })
+    lines.push(`${marker(focused)} ${fitLine(field.label, labelWidth)}  ${value}`)
+    if (error) lines.push(' '.repeat(labelWidth + 4) + styled(`✖ ${error}`, { color: 'red' }))
+  })
+
+  const onSubmit = state.focus === state.fields.length
+  if (onSubmit) focusLine = lines.length + 1
+  const button = styled(`[ ${state.submitLabel} ]`, { bold: true, inverse: onSubmit && !!view.focused })
+  lines.push('', `${marker(onSubmit)} ${button}${state.submitted ? styled('  ✓ Submitted', { color: 'green' }) : ''}`)
+
+  if (lines.length <= view.height) return lines
+  const start = Math.max(0, Math.min(focusLine - Math.floor(view.height / 2), lines.length - view.height))
+  return lines.slice(start, start + view.height)
+}
+
+/**
+ * Anything else (detail, custom): the data as indented JSON
+ */
+export function renderJsonText(data: unknown, view: TextView): string[] {
+  if (data === null || data === undefined) return placeholder('No data')
+  const text = typeof data === 'string' ? data : JSON.stringify(data, null, 2)
+  return clip(text.split('\n'), view.height)
+}
+
+/**
+ * Render a column's widget into exactly view.height lines of view.width cells
+ */
+export function renderWidgetText(state: WidgetTextState, view: TextView): string[] {
+  const width = Math.max(0, Math.floor(view.width))
+  const height = Math.max(0, Math.floor(view.height))
+  if (width === 0 || height === 0) return Array(height).fill('')
+
+  const size: TextView = { ...view, width, height }
+  const options = state.options ?? {}
+  let lines: string[]
+  switch (state.type) {
+    case 'list':
+      lines = renderListText(state.data, size)
+      break
+    case 'table':
+      lines = renderTableText(state.data, size, options)
+      break
+    case 'chart':
+      lines = renderChartText(state.data, size, options)
+      break
+    case 'log':
+      lines = renderLogText(state.data, size)
+      break
+    case 'surface':
+      lines = renderSurfaceText(state.surface, size, options, state.cursor ?? null)
+      break
+    case 'gauge':
+      lines = renderGaugeText(state.data, size, options, state.history)
+      break
+    case 'form':
+      lines = renderFormText(state.form ?? formFromOptions(options), size)
+      break
+    case 'heatmap':
+      lines = renderHeatmapText(state.surface, size, options, state.cursor ?? null)
+      break
+    default:
+      lines = renderJsonText(state.data, size)
+  }
+  return fitLines(lines, width, height)
+}
@@ -2,29 +2,131 @@
  * Column Worker - subprocess that handles widget rendering and IPC
  */
 
-import { type Socket } from 'bun'
-import { MessageType, type FrameHeader } from '../ipc/protocol.ts'
-import { encodeFrame, FrameReader, decodeFrame } from '../ipc/frame.ts'
+import {
+  MessageType,
+  PROTOCOL_FEATURES,
+  PROTOCOL_VERSION,
+  type ActionMessage,
+  type ErrorMessage,
+  type FrameHeader,
+  type InitMessage,
+  type InputMessage,
+  type ProtocolFeature,
+  type ReadyMessage,
+  type RenderRequestMessage,
+  type RenderResultMessage,
+} from '../ipc/protocol.ts'
+import {
+  encodeFrame,
+  FrameReader,
+  decodeFrame,
+  supportedCodecs,
+  type FrameCompression,
+} from '../ipc/frame.ts'
+import { RpcServer, type RequestHandler } from '../ipc/rpc.ts'
+import { SurfaceReceiver } from '../ipc/stream.ts'
+import { SocketBridge, type BridgeAddress, type BridgeConnection, type BridgeOptions } from '../ipc/bridge.ts'
+import {
+  JsonRpcErrorCode,
+  JsonRpcServer,
+  encodeNotification,
+  jsonRpcError,
+  getParam,
+  requireParam,
+  type JsonRpcParams,
+} from '../ipc/jsonrpc.ts'
+import { createSurface, type Surface } from '../data/surface.ts'
+import { encodeSurfacePayload } from '../ipc/serialize.ts'
+import { toCompute, type Vec32, type Vec64 } from '../data/vec.ts'
+import { defaultPricingMarket, type PricingMarket } from '../pricing/surface.ts'
+import { WIDGET_TYPES } from '../config/types.ts'
+import { loadPortfolio, type Position } from '../portfolio/position.ts'
+import { revaluePortfolio, portfolioTableRows } from '../portfolio/revalue.ts'
+import { renderWidgetText } from './widgets/text.ts'
+import { gaugeConfig, gaugeValue, thresholdCrossings, thresholdEvent } from './widgets/gauge.ts'
+import { fillForm, formFromOptions, formInput, type FormState } from './widgets/form.ts'
+import { cursorInput, slopeAt, type GridCursor } from './widgets/heatmap.ts'
+import { detectArbitrage } from '../oracle/risk.ts'
+import {
+  arbitrageListData,
+  riskMetricsUpdate,
+  slopeTableData,
+  smileData,
+  surfaceFromUpdate,
+  surfaceUpdate,
+  termStructureData,
+} from './actions.ts'
 
 // Get config from environment
 const columnId = process.env.COLUMN_ID!
 const config = JSON.parse(process.env.COLUMN_CONFIG!)
 const socketDir = process.env.SOCKET_DIR!
 const socketPath = `${socketDir}/${columnId}.sock`
+// TCP/WebSocket listeners for this column (ports already offset by the parent)
+const bridgeOptions: BridgeOptions = process.env.COLUMN_BRIDGE ? JSON.parse(process.env.COLUMN_BRIDGE) : {}
 
 // Frame reader for stdin
 const stdinReader = new FrameReader()
 
-// Connected external clients
-const externalClients = new Set<Socket>()
+// Notification topics external clients can subscribe to
+type Topic = 'data' | 'events' | 'title'
+const TOPICS: Topic[] = ['data', 'events', 'title']
+
+// Connected external clients (unix socket or network bridge), with their subscriptions
+interface ExternalClient {
+  connection: BridgeConnection
+  topics: Set<Topic>
+}
+const externalClients = new Set<ExternalClient>()
 
 // Widget state
 let widgetData: unknown = null
+let title: string | null = config.title ?? null
+
+// Viewport from the last RENDER_REQUEST (null: the parent does not display this column)
+let viewport: RenderRequestMessage | null = null
+let renderTimer: ReturnType<typeof setTimeout> | null = null
+
+// Changes within this window are rendered once
+const RENDER_DEBOUNCE_MS = 30
+
+// Position book for portfolio columns (options.portfolio = CSV/JSON/YAML path)
+let positions: Position[] = []
+
+// Gauge columns: trailing values for the sparkline, the last one for threshold crossings
+const gauge = config.type === 'gauge' ? gaugeConfig(config.options) : null
+let gaugeHistory: number[] = []
+let gaugeLast: number | null = null
+
+// Form columns: field input, focus and errors (data pushed to the column fills
+// the fields, CLEAR resets them)
+let form: FormState | null = config.type === 'form' ? formFromOptions(config.options) : null
+
+// Heatmap and surface columns: node under the cursor (null until moved:
+// heatmaps start in the middle of the grid, surfaces without a crosshair)
+let cursor: GridCursor | null = null
 
 // Message handlers
 type MessageHandler = (header: FrameHeader, payload: Uint8Array) => void
 const messageHandlers = new Map<MessageType, MessageHandler>()
 
+// Wired action handlers (custom verbs such as UPDATE_SLICE_X)
+type ActionHandler = (message: ActionMessage) => void
+const actionHandlers = new Map<string, ActionHandler>()
+
+// ERROR codes reported to the parent
+const ERROR_PORTFOLIO = 1 // Position book failed to load
+const ERROR_FRAME = 2 // A frame from the parent could not be handled
+
+// Arbitrage found by the last CHECK_ARBITRAGE (ARBITRAGE_FOUND fires when it changes)
+let lastArbitrage = ''
+
+// Compression the parent chose in INIT (null until then, or if unsupported)
+let parentCompression: FrameCompression | null = null
+
+// Features negotiated in INIT
+let features: ProtocolFeature[] = []
+
 // Send frame to parent via stdout
 function sendToParent(
   type: MessageType,
@@ -32,25 +134,160 @@ function sendToParent(
   flags = 0,
   seq = 0
 ): void {
-  const frame = encodeFrame(type, payload, flags, seq)
+  const frame = encodeFrame(type, payload, flags, seq, parentCompression)
   Bun.write(Bun.stdout, frame)
 }
 
+// Request handlers (frames sent with Sixcol.request)
+const rpc = new RpcServer(sendToParent)
+
+// Surface rebuilt from SURFACE_FULL/SURFACE_DELTA frames
+const surfaceStream = new SurfaceReceiver(
+  () => sendToParent(MessageType.SURFACE_RESYNC, new Uint8Array(0)),
+  {
+    onSurface: (surface) => {
+      if (positions.length > 0) revalue(computeSurface(surface))
+      // Surface columns announce every surface to the columns wired to them
+      if (config.type === 'surface') {
+        emitEvent('SURFACE_UPDATE', surfaceUpdate(surface))
+        emitEvent('RISK_METRICS', riskMetricsUpdate(computeSurface(surface)))
+      }
+      scheduleRender()
+    },
+  }
+)
+
 // Send JSON message to parent
 function sendJsonToParent(type: MessageType, data: unknown): void {
   const payload = new TextEncoder().encode(JSON.stringify(data))
   sendToParent(type, payload)
 }
 
-// Broadcast to all connected external clients
-function broadcastToExternal(data: Uint8Array): void {
+// Push a JSON-RPC notification to clients subscribed to a topic
+function notifySubscribers(topic: Topic, method: string, params: unknown): void {
+  if (externalClients.size === 0) return
+  const line = encodeNotification(method, params)
   for (const client of externalClients) {
-    client.write(data)
+    if (client.topics.has(topic)) {
+      client.connection.send(line)
+    }
   }
 }
 
+// Render the widget into the current viewport
+function renderResult(view: RenderRequestMessage): RenderResultMessage {
+  const lines = renderWidgetText(
+    {
+      type: config.type,
+      data: widgetData,
+      surface: surfaceStream.surface,
+      options: config.options,
+      history: gaugeHistory,
+      form: form ?? undefined,
+      cursor,
+    },
+    view
+  )
+  return { columnId, width: view.width, height: view.height, lines, title }
+}
+
+function cancelRender(): void {
+  if (renderTimer) {
+    clearTimeout(renderTimer)
+    renderTimer = null
+  }
+}
+
+function render(): void {
+  cancelRender()
+  if (viewport) {
+    sendJsonToParent(MessageType.RENDER_RESULT, renderResult(viewport))
+  }
+}
+
+// Re-render after a change, once the parent has asked for a viewport
+function scheduleRender(): void {
+  if (!viewport || renderTimer) return
+  renderTimer = setTimeout(render, RENDER_DEBOUNCE_MS)
+}
+
+// Read a RENDER_REQUEST payload
+function viewportParam(payload: Uint8Array): RenderRequestMessage {
+  const request = JSON.parse(new TextDecoder().decode(payload)) as RenderRequestMessage
+  if (!Number.isInteger(request.width) || !Number.isInteger(request.height) || request.width < 0 || request.height < 0) {
+    throw new Error(`Invalid render viewport: ${request.width}x${request.height}`)
+  }
+  return { width: request.width, height: request.height, focused: request.focused ?? false }
+}
+
+// Record a gauge reading, emitting an event for every threshold it crossed
+// (CLEAR forgets the history)
+function trackGauge(data: unknown): void {
+  if (!gauge) return
+  if (data === null) {
+    gaugeHistory = []
+    gaugeLast = null
+    return
+  }
+  const value = gaugeValue(data)
+  if (value === null) return
+  if (gauge.history > 0) gaugeHistory = [...gaugeHistory, value].slice(-gauge.history)
+  for (const crossing of thresholdCrossings(gaugeLast, value, gauge.thresholds)) {
+    emitEvent(gauge.event, thresholdEvent(crossing, value, gauge.label ?? title ?? columnId, columnId))
+  }
+  gaugeLast = value
+}
+
+// Apply a key press to a form column (submitting stores the values as the
+// column's data and emits SUBMITTED with them) or a heatmap's or surface's
+// cursor (selecting emits SELECTED with the node; surfaces add its slope)
+function handleInput(key: InputMessage): void {
+  const surface = surfaceStream.surface
+  if ((config.type === 'heatmap' || config.type === 'surface') && surface) {
+    const result = cursorInput(cursor, key, surface)
+    cursor = result.cursor
+    if (result.selected) {
+      const value = config.type === 'surface' ? { ...result.selected, slope: slopeAt(surface, cursor) } : result.selected
+      emit(MessageType.SELECTED, { index: cursor.xi * surface.ny + cursor.yi, value })
+    }
+    scheduleRender()
+    return
+  }
+  if (!form) return
+  const result = formInput(form, key)
+  if (result.submitted) {
+    changeData(result.submitted, true)
+    emit(MessageType.SUBMITTED, { values: result.submitted })
+  }
+  form = result.state
+  scheduleRender()
+}
+
+// Replace widget data; local changes are also reported to the parent
+function changeData(data: unknown, notifyParent = false): void {
+  widgetData = data
+  trackGauge(data)
+  if (form) form = data === null ? formFromOptions(config.options) : fillForm(form, data)
+  if (notifyParent) {
+    sendJsonToParent(MessageType.SET_DATA, { columnId, data })
+  }
+  notifySubscribers('data', 'data', { columnId, data })
+  scheduleRender()
+}
+
+function changeTitle(next: string, notifyParent = false): void {
+  title = next
+  if (notifyParent) {
+    sendJsonToParent(MessageType.SET_TITLE, { columnId, title })
+  }
+  notifySubscribers('title', 'title', { columnId, title })
+  scheduleRender()
+}
+
 // Handle message from parent
 function handleParentMessage(header: FrameHeader, payload: Uint8Array): void {
+  if (rpc.handleFrame(header, payload)) return
+
   const handler = messageHandlers.get(header.type)
   if (handler) {
     handler(header, payload)
@@ -59,9 +296,20 @@ function handleParentMessage(header: FrameHeader, payload: Uint8Array): void {
 
   // Default handlers
   switch (header.type) {
-    case MessageType.INIT:
-      // Already initialized via env
+    case MessageType.INIT: {
+      // Config arrives via env; INIT carries the negotiated compression
+      const init = JSON.parse(new TextDecoder().decode(payload)) as InitMessage
+      parentCompression = init.compression ?? null
+      features = init.features ?? []
       break
+    }
+
+    case MessageType.ERROR: {
+      // The parent rejected this worker (e.g. protocol mismatch)
+      const error = JSON.parse(new TextDecoder().decode(payload)) as ErrorMessage
+      console.error(`[${columnId}] Parent error ${error.code}: ${error.message}`)
+      break
+    }
 
     case MessageType.SHUTDOWN:
       shutdown()
@@ -71,81 +319,233 @@ function handleParentMessage(header: FrameHeader, payload: Uint8Array): void {
       sendToParent(MessageType.PONG, payload, 0, header.seq)
       break
 
+    case MessageType.SURFACE_FULL:
+    case MessageType.SURFACE_DELTA:
+      surfaceStream.handleFrame(header, payload)
+      break
+
     case MessageType.SET_DATA:
-      const data = JSON.parse(new TextDecoder().decode(payload))
-      widgetData = data
-      // TODO: trigger re-render
+      changeData(JSON.parse(new TextDecoder().decode(payload)))
+      break
+
+    case MessageType.APPEND_DATA:
+      appendData(JSON.parse(new TextDecoder().decode(payload)))
       break
 
     case MessageType.CLEAR:
-      widgetData = null
+      changeData(null)
+      break
+
+    case MessageType.SET_TITLE: {
+      // Wired SET_TITLE carries the title, or an object with one
+      const value = JSON.parse(new TextDecoder().decode(payload))
+      changeTitle(typeof value === 'string' ? value : String(value?.title ?? ''))
+      break
+    }
+
+    case MessageType.RENDER_REQUEST:
+      try {
+        viewport = viewportParam(payload)
+        render()
+      } catch (err) {
+        console.error(`[${columnId}] ${(err as Error).message}`)
+      }
+      break
+
+    case MessageType.INPUT:
+      handleInput(JSON.parse(new TextDecoder().decode(payload)))
+      break
+
+    case MessageType.ACTION: {
+      const message = JSON.parse(new TextDecoder().decode(payload)) as ActionMessage
+      const action = actionHandlers.get(message.action)
+      if (action) {
+        action(message)
+      } else {
+        console.error(`[${columnId}] Dropped unhandled action ${message.action} from ${message.source}`)
+      }
       break
+    }
 
     default:
       console.error(`[${columnId}] Unknown message type: ${header.type}`)
   }
 }
 
-// Handle message from external client
-function handleExternalMessage(socket: Socket, data: Buffer): void {
-  try {
-    // Try to parse as JSON-RPC
-    const text = data.toString()
-    for (const line of text.split('\n')) {
-      if (!line.trim()) continue
-
-      const msg = JSON.parse(line)
-
-      if (msg.method === 'setData') {
-        widgetData = msg.params?.data
-        // Notify parent
-        sendJsonToParent(MessageType.SET_DATA, {
-          columnId,
-          data: widgetData,
-        })
-      } else if (msg.method === 'getData') {
-        socket.write(
-          JSON.stringify({
-            jsonrpc: '2.0',
-            id: msg.id,
-            result: widgetData,
-          }) + '\n'
-        )
-      } else if (msg.method === 'subscribe') {
-        // Client wants to receive updates
-        // Already in externalClients set
-      }
+// Append items to list-like widget data, keeping the most recent MAX_ITEMS
+const MAX_ITEMS = 1000
+
+function appendData(data: unknown, notifyParent = false): unknown[] {
+  const items = Array.isArray(data) ? data : [data]
+  const current = Array.isArray(widgetData) ? widgetData : widgetData == null ? [] : [widgetData]
+  const next = [...current, ...items].slice(-MAX_ITEMS)
+  changeData(next, notifyParent)
+  return next
+}
+
+// Received surfaces in float64 for analysis
+function computeSurface(received: Surface<Vec32>): Surface<Vec64> {
+  return { ...received, x: toCompute(received.x), y: toCompute(received.y), z: toCompute(received.z) }
+}
+
+// Revalue the position book against a new surface
+function revalue(surface: Surface<Vec64>): void {
+  const market: PricingMarket = {
+    ...defaultPricingMarket(surface),
+    ...(config.options?.market as Partial<PricingMarket> | undefined),
+  }
+
+  const valuation = revaluePortfolio(positions, surface, market)
+  changeData({
+    rows: portfolioTableRows(valuation),
+    totals: valuation.totals,
+    value: valuation.value,
+    pnl: valuation.pnl,
+    buckets: valuation.buckets,
+    timestamp: valuation.timestamp,
+  })
+}
+
+// Read the topics param of subscribe/unsubscribe (all topics when omitted)
+function topicsParam(params: JsonRpcParams): Topic[] {
+  const topics = Array.isArray(params) ? params : params?.topics
+  if (topics === undefined) return TOPICS
+  if (!Array.isArray(topics) || !topics.every((t) => TOPICS.includes(t))) {
+    throw jsonRpcError(JsonRpcErrorCode.INVALID_PARAMS, `topics must be a list of: ${TOPICS.join(', ')}`)
+  }
+  return topics
+}
+
+// Surface upload formats accepted by setSurface
+const SURFACE_FORMATS = ['binary', 'json']
+
+// Decode setSurface params into a SURFACE_FULL payload
+// binary: base64 of the serializeSurface payload; json: x, y, z arrays and optional labels
+function surfaceParam(params: JsonRpcParams): Uint8Array {
+  const format = getParam(params, 'format', 0) ?? 'json'
+  if (format === 'binary') {
+    const payload = requireParam(params, 'payload', 1)
+    if (typeof payload !== 'string') {
+      throw jsonRpcError(JsonRpcErrorCode.INVALID_PARAMS, 'payload must be a base64 string')
+    }
+    // Copy out of Buffer's shared pool so the f32 views are aligned
+    return new Uint8Array(Buffer.from(payload, 'base64'))
+  }
+  if (format !== 'json') {
+    throw jsonRpcError(JsonRpcErrorCode.INVALID_PARAMS, `format must be one of: ${SURFACE_FORMATS.join(', ')}`)
+  }
+
+  const axis = (name: string, index: number) => {
+    const values = requireParam(params, name, index)
+    if (!Array.isArray(values) || !values.every((v) => typeof v === 'number')) {
+      throw jsonRpcError(JsonRpcErrorCode.INVALID_PARAMS, `${name} must be an array of numbers`)
     }
+    return Float64Array.from(values)
+  }
+  const labels = (getParam(params, 'labels', 4) ?? {}) as { x?: string; y?: string; z?: string }
+  try {
+    return encodeSurfacePayload(createSurface(axis('x', 1), axis('y', 2), axis('z', 3), labels))
   } catch (err) {
-    console.error(`[${columnId}] Error parsing external message:`, err)
+    throw jsonRpcError(JsonRpcErrorCode.INVALID_PARAMS, (err as Error).message)
   }
 }
 
-// Start unix socket server for external programs
-async function startSocketServer(): Promise<void> {
-  try {
-    Bun.listen({
-      unix: socketPath,
-      socket: {
-        open(socket) {
-          externalClients.add(socket)
-          console.error(`[${columnId}] External client connected`)
-        },
-        close(socket) {
-          externalClients.delete(socket)
-          console.error(`[${columnId}] External client disconnected`)
-        },
-        data(socket, data) {
-          handleExternalMessage(socket, data)
-        },
-        error(socket, error) {
-          console.error(`[${columnId}] Socket error:`, error)
-        },
-      },
+// JSON-RPC 2.0 methods for external clients
+const jsonRpc: JsonRpcServer<ExternalClient> = new JsonRpcServer<ExternalClient>()
+  .method('getData', () => widgetData)
+  .method('setData', (params) => {
+    changeData(requireParam(params, 'data', 0), true)
+  })
+  .method('appendData', (params) => appendData(requireParam(params, 'data', 0), true).length)
+  .method('clear', () => {
+    changeData(null, true)
+  })
+  .method('getTitle', () => title)
+  .method('setTitle', (params) => {
+    const next = requireParam(params, 'title', 0)
+    if (typeof next !== 'string') {
+      throw jsonRpcError(JsonRpcErrorCode.INVALID_PARAMS, 'title must be a string')
+    }
+    changeTitle(next, true)
+  })
+  .method('emit', (params) => {
+    const event = requireParam(params, 'event', 0)
+    if (typeof event !== 'string' || event === '') {
+      throw jsonRpcError(JsonRpcErrorCode.INVALID_PARAMS, 'event must be a non-empty string')
+    }
+    emitEvent(event, getParam(params, 'data', 1) ?? null)
+  })
+  .method('setSurface', (params) => {
+    const payload = surfaceParam(params)
+    const header = { type: MessageType.SURFACE_FULL, flags: 0, seq: 0, length: payload.length }
+    try {
+      surfaceStream.handleFrame(header, payload)
+    } catch (err) {
+      throw jsonRpcError(JsonRpcErrorCode.INVALID_PARAMS, `Invalid surface: ${(err as Error).message}`)
+    }
+    // The parent sees uploads like any other column message
+    sendToParent(MessageType.SURFACE_FULL, payload)
+    const { nx, ny } = surfaceStream.surface!
+    return { nx, ny }
+  })
+  .method('describe', () => ({
+    columnId,
+    type: config.type,
+    title,
+    protocol: PROTOCOL_VERSION,
+    methods: jsonRpc.methodNames,
+    topics: TOPICS,
+    surfaceFormats: SURFACE_FORMATS,
+  }))
+  .method('subscribe', (params, client) => {
+    for (const topic of topicsParam(params)) client.topics.add(topic)
+    return { topics: [...client.topics] }
+  })
+  .method('unsubscribe', (params, client) => {
+    for (const topic of topicsParam(params)) client.topics.delete(topic)
+    return { topics: [...client.topics] }
+  })
+
+// Handle a line from an external client: one JSON-RPC message or batch
+function handleExternalMessage(client: ExternalClient, line: string): void {
+  jsonRpc
+    .handleLine(line, client)
+    .then((response) => {
+      if (response !== null && externalClients.has(client)) {
+        client.connection.send(response + '\n')
+      }
+    })
+    .catch((err) => {
+      console.error(`[${columnId}] Error handling external message:`, err)
     })
+}
+
+// Start the unix socket server (and TCP/WebSocket bridge, if configured) for external programs
+// Resolves with the network addresses, or null without a bridge
+async function startSocketServer(): Promise<BridgeAddress | null> {
+  const bridge = new SocketBridge<ExternalClient>(socketPath, bridgeOptions, {
+    open: (connection) => {
+      const client: ExternalClient = { connection, topics: new Set() }
+      externalClients.add(client)
+      console.error(`[${columnId}] External client connected (${connection.transport})`)
+      return client
+    },
+    line: handleExternalMessage,
+    close: (client) => {
+      externalClients.delete(client)
+      console.error(`[${columnId}] External client disconnected (${client.connection.transport})`)
+    },
+  })
+
+  try {
+    const address = await bridge.start()
     console.error(`[${columnId}] Socket server listening at ${socketPath}`)
+    if (address.tcpPort === null && address.wsPort === null) return null
+    console.error(`[${columnId}] Bridge listening on ${address.host} (tcp ${address.tcpPort ?? '-'}, ws ${address.wsPort ?? '-'})`)
+    return address
   } catch (err) {
     console.error(`[${columnId}] Failed to start socket server:`, err)
+    return null
   }
 }
 
@@ -160,23 +560,39 @@ async function readStdin(): Promise<void> {
 
       stdinReader.append(value)
 
-      // Process all complete frames
-      for (const { header, payload } of stdinReader.readAll()) {
-        handleParentMessage(header, payload)
+      // Process all complete frames; a corrupt frame is dropped on its own
+      while (true) {
+        let frame: ReturnType<FrameReader['read']>
+        try {
+          frame = stdinReader.read()
+        } catch (err) {
+          console.error(`[${columnId}] Dropped frame:`, (err as Error).message)
+          continue
+        }
+        if (!frame) break
+        // A frame that fails (malformed JSON, a bad surface) is reported, not fatal
+        try {
+          handleParentMessage(frame.header, frame.payload)
+        } catch (err) {
+          const type = MessageType[frame.header.type] ?? String(frame.header.type)
+          reportError(ERROR_FRAME, `Failed to handle ${type}: ${(err as Error).message}`)
+        }
       }
     }
   } catch (err) {
+    // Abnormal termination: exit nonzero so on-failure restarts the column
     console.error(`[${columnId}] Error reading stdin:`, err)
+    shutdown(1)
   }
 
   // Stdin closed, shutdown
   shutdown()
 }
 
-// Graceful shutdown
-function shutdown(): void {
-  console.error(`[${columnId}] Shutting down`)
-  process.exit(0)
+// Shutdown: exit 0 on SHUTDOWN or stdin EOF, nonzero when the worker failed
+function shutdown(code = 0): void {
+  console.error(`[${columnId}] Shutting down${code === 0 ? '' : ` (exit ${code})`}`)
+  process.exit(code)
 }
 
 // Register message handler
@@ -184,31 +600,150 @@ export function onMessage(type: MessageType, handler: MessageHandler): void {
   messageHandlers.set(type, handler)
 }
 
+// Features negotiated with the parent (empty until INIT)
+export function getFeatures(): ProtocolFeature[] {
+  return [...features]
+}
+
 // Get current widget data
 export function getData(): unknown {
   return widgetData
 }
 
+// Get the surface received over SURFACE_FULL/SURFACE_DELTA (null before the first keyframe)
+export function getSurface(): Surface<Vec32> | null {
+  return surfaceStream.surface
+}
+
 // Set widget data and notify parent
 export function setData(data: unknown): void {
-  widgetData = data
-  sendJsonToParent(MessageType.SET_DATA, { columnId, data })
+  changeData(data, true)
 }
 
 // Emit event to parent
 export function emit(event: MessageType, data: unknown): void {
   sendJsonToParent(event, { columnId, ...data })
+  notifySubscribers('events', 'event', { columnId, event: MessageType[event] ?? String(event), data })
+}
+
+// Register handler for requests of a message type (replies are sent automatically)
+export function onRequest(type: MessageType, handler: RequestHandler): () => void {
+  return rpc.handle(type, handler)
+}
+
+// Built-in requests: PING echoes, SET_DATA acknowledges once applied,
+// RENDER_REQUEST answers with the RenderResultMessage (and keeps the viewport)
+rpc.handle(MessageType.PING, (payload) => payload)
+rpc.handle(MessageType.SET_DATA, (payload) => {
+  changeData(JSON.parse(new TextDecoder().decode(payload)))
+})
+rpc.handle(MessageType.RENDER_REQUEST, (payload) => {
+  viewport = viewportParam(payload)
+  cancelRender()
+  return new TextEncoder().encode(JSON.stringify(renderResult(viewport)))
+})
+
+// Register handler for a wired action verb
+export function onAction(action: string, handler: ActionHandler): void {
+  actionHandlers.set(action, handler)
+}
+
+// Report an error to the parent (and the worker log)
+function reportError(code: number, message: string): void {
+  console.error(`[${columnId}] ${message}`)
+  const error: ErrorMessage = { code, message, columnId }
+  sendJsonToParent(MessageType.ERROR, error)
+}
+
+// Surface an action works on: the one carried by SURFACE_UPDATE, else the column's own
+function actionSurface(message: ActionMessage): Surface<Vec64> | null {
+  const received = surfaceFromUpdate(message.data)
+  if (received) return received
+  return surfaceStream.surface ? computeSurface(surfaceStream.surface) : null
+}
+
+// Register a built-in verb that needs a surface (dropped, with a log line, without one)
+function onSurfaceAction(action: string, handler: (surface: Surface<Vec64>, message: ActionMessage) => void): void {
+  onAction(action, (message) => {
+    const surface = actionSurface(message)
+    if (!surface) {
+      console.error(`[${columnId}] Dropped ${action}: no surface`)
+      return
+    }
+    handler(surface, message)
+  })
+}
+
+// Built-in verbs of the risk oracle template (see actions.ts); onAction replaces them
+onSurfaceAction('UPDATE_SLICE_X', (surface) => changeData(termStructureData(surface)))
+onSurfaceAction('UPDATE_SLICE_Y', (surface) => changeData(smileData(surface)))
+onSurfaceAction('RECOMPUTE', (surface) => changeData(slopeTableData(riskMetricsUpdate(surface))))
+onSurfaceAction('CHECK_ARBITRAGE', (surface) => {
+  const opportunities = detectArbitrage(surface)
+  changeData(arbitrageListData(opportunities))
+  const found = opportunities.map((o) => o.description).join('\n')
+  if (found !== lastArbitrage && opportunities.length > 0) {
+    const best = opportunities[0]!
+    emitEvent('ARBITRAGE_FOUND', {
+      timestamp: Date.now(),
+      level: 'warn',
+      source: columnId,
+      message: `${opportunities.length} arbitrage opportunities, best: ${best.description} (+${best.profit.toFixed(2)})`,
+      count: opportunities.length,
+    })
+  }
+  lastArbitrage = found
+})
+onSurfaceAction('REVALUE', (surface) => {
+  if (positions.length === 0) {
+    console.error(`[${columnId}] Dropped REVALUE: no positions (options.portfolio)`)
+    return
+  }
+  revalue(surface)
+})
+onAction('UPDATE_SCORE', (message) => {
+  const value = gaugeValue(message.data)
+  if (value === null) {
+    console.error(`[${columnId}] Dropped UPDATE_SCORE without a score`)
+    return
+  }
+  changeData(value)
+})
+
+// Emit a named custom event (routed by wiring on its name)
+export function emitEvent(event: string, data: unknown): void {
+  sendJsonToParent(MessageType.EVENT, { columnId, event, data })
+  notifySubscribers('events', 'event', { columnId, event, data })
 }
 
 // Main entry
 async function main(): Promise<void> {
   console.error(`[${columnId}] Worker starting, config:`, config)
 
+  // Load position book
+  const portfolioPath = config.options?.portfolio
+  if (typeof portfolioPath === 'string') {
+    try {
+      positions = await loadPortfolio(portfolioPath)
+      console.error(`[${columnId}] Loaded ${positions.length} positions`)
+    } catch (err) {
+      reportError(ERROR_PORTFOLIO, (err as Error).message)
+    }
+  }
+
   // Start socket server
-  await startSocketServer()
+  const bridge = await startSocketServer()
 
   // Signal ready to parent
-  sendJsonToParent(MessageType.READY, { columnId })
+  const ready: ReadyMessage = {
+    columnId,
+    protocol: PROTOCOL_VERSION,
+    features: [...PROTOCOL_FEATURES],
+    widgets: [...WIDGET_TYPES],
+    compression: supportedCodecs(),
+    bridge: bridge ?? undefined,
+  }
+  sendJsonToParent(MessageType.READY, ready)
 
   // Start reading from parent
   await readStdin()
@@ -0,0 +1,180 @@
+/**
+ * Tests for template wiring: expressions, routing and validation
+ */
+
+import { describe, it, expect } from 'bun:test'
+import { compileExpression, evaluateExpression } from './expression.ts'
+import { createEventRouter, decodeColumnEvent, encodeAction, resolveAction } from './wiring.ts'
+import { getWiredTargets } from './loader.ts'
+import { validateTemplate, type EventWiring, type SixcolTemplate } from './types.ts'
+import { MessageType } from '../ipc/protocol.ts'
+
+const encode = (value: unknown) => new TextEncoder().encode(JSON.stringify(value))
+const decode = (payload: Uint8Array) => JSON.parse(new TextDecoder().decode(payload))
+
+describe('Transform expressions', () => {
+  it('should evaluate operators, literals and member access', () => {
+    const scope = { data: { index: 2, value: { strike: 100, iv: 0.25 }, rows: [1, 2, 3] } }
+    expect(evaluateExpression('data.value.iv * 100', scope)).toBe(25)
+    expect(evaluateExpression('data.rows[data.index] + 1', scope)).toBe(4)
+    expect(evaluateExpression('data.index > 1 ? "far" : "near"', scope)).toBe('far')
+    expect(evaluateExpression('{ k: data.value.strike, t: [1, 2].length }', scope)).toEqual({ k: 100, t: 2 })
+    expect(evaluateExpression('data.missing.deep ?? -1', scope)).toBe(-1)
+    expect(evaluateExpression('!data.index || 2 - 3 * 2 % 4', scope)).toBe(0)
+  })
+
+  it('should support whitelisted calls and arrow functions', () => {
+    const scope = { data: [{ iv: 0.2 }, { iv: 0.3 }, { iv: 0.25 }] }
+    expect(evaluateExpression('Math.max(1, 5, 3)')).toBe(5)
+    expect(evaluateExpression('data.map(q => q.iv * 100)', scope)).toEqual([20, 30, 25])
+    expect(evaluateExpression('data.reduce((acc, q) => acc + q.iv, 0).toFixed(2)', scope)).toBe('0.75')
+    expect(evaluateExpression('keys({ a: 1, b: 2 }).join(",")')).toBe('a,b')
+    expect(evaluateExpression('String(42).padStart(4, "0")')).toBe('0042')
+  })
+
+  it('should keep expressions sandboxed', () => {
+    expect(() => evaluateExpression('data.constructor', { data: {} })).toThrow('not allowed')
+    expect(() => evaluateExpression('data["__proto__"]', { data: {} })).toThrow('not allowed')
+    expect(() => evaluateExpression('data.push(1)', { data: [] })).toThrow("Method 'push' is not allowed")
+    expect(() => evaluateExpression('process.exit(1)')).toThrow('Unknown identifier: process')
+    expect(() => evaluateExpression('data.f()', { data: { f: () => 1 } })).toThrow('not allowed')
+    expect(evaluateExpression('data.toString', { data: {} })).toBeUndefined()
+  })
+
+  it('should report syntax errors at compile time', () => {
+    expect(() => compileExpression('data.')).toThrow('Expected property name')
+    expect(() => compileExpression('1 +')).toThrow('Unexpected end')
+    expect(() => compileExpression('a = 1')).toThrow("Unexpected character '='")
+    expect(() => compileExpression('"open')).toThrow('Unterminated string')
+  })
+})
+
+describe('Event routing', () => {
+  const columns = ['list', 'surface', 'chart', 'alerts']
+
+  it('should map actions to message types', () => {
+    expect(resolveAction('SET_DATA')).toBe(MessageType.SET_DATA)
+    expect(resolveAction('append')).toBe(MessageType.APPEND_DATA)
+    expect(resolveAction('CLEAR')).toBe(MessageType.CLEAR)
+    expect(resolveAction('UPDATE_SLICE_X')).toBe(MessageType.ACTION)
+  })
+
+  it('should encode actions issued outside wiring', () => {
+    const set = encodeAction('set', [1, 2], 'control', 'set')
+    expect(set.type).toBe(MessageType.SET_DATA)
+    expect(decode(set.payload)).toEqual([1, 2])
+
+    const custom = encodeAction('UPDATE_SLICE_X', { x: 3 }, 'control', 'UPDATE_SLICE_X')
+    expect(custom.type).toBe(MessageType.ACTION)
+    expect(decode(custom.payload)).toEqual({ action: 'UPDATE_SLICE_X', source: 'control', event: 'UPDATE_SLICE_X', data: { x: 3 } })
+
+    expect(encodeAction('CLEAR', null, 'control', 'CLEAR').payload.length).toBe(0)
+    expect(Array.from(encodeAction('SURFACE_FULL', 'AQID', 'control', 'SURFACE_FULL').payload)).toEqual([1, 2, 3])
+    expect(() => encodeAction('SURFACE_FULL', [1], 'control', 'SURFACE_FULL')).toThrow('must be a base64 string')
+  })
+
+  it('should apply transforms and actions per wiring', () => {
+    const wiring: EventWiring[] = [
+      { on: { column: 'list', event: 'SELECTED' }, do: { column: 'surface', action: 'SET_DATA', transform: 'data.value' } },
+      { on: { column: 'list', event: 'SELECTED' }, do: { column: 'chart', action: 'UPDATE_SLICE_X', transform: 'data.index * 2' } },
+      { on: { column: 'list', event: 'SELECTED' }, do: { column: 'alerts', action: 'CLEAR' } },
+      { on: { column: 'list', event: 'CLICKED' }, do: { column: 'chart', action: 'SET_DATA' } },
+    ]
+    const router = createEventRouter(wiring, () => columns)
+    const event = decodeColumnEvent(MessageType.SELECTED, encode({ columnId: 'list', index: 3, value: 'ETH' }))
+    const messages = router.route('list', event)
+
+    expect(messages.map((m) => [m.columnId, m.type])).toEqual([
+      ['surface', MessageType.SET_DATA],
+      ['chart', MessageType.ACTION],
+      ['alerts', MessageType.CLEAR],
+    ])
+    expect(decode(messages[0]!.payload)).toBe('ETH')
+    expect(decode(messages[1]!.payload)).toEqual({ action: 'UPDATE_SLICE_X', source: 'list', event: 'SELECTED', data: 6 })
+    expect(messages[2]!.payload.length).toBe(0)
+  })
+
+  it('should route custom events and broadcast to every other column', () => {
+    const wiring: EventWiring[] = [
+      { on: { column: 'surface', event: 'RISK_METRICS' }, do: { column: '*', action: 'APPEND', transform: '{ score: data.score }' } },
+    ]
+    const router = createEventRouter(wiring, () => columns)
+    const event = decodeColumnEvent(MessageType.EVENT, encode({ event: 'RISK_METRICS', data: { score: 0.7, skew: 1 } }))
+    expect(event.name).toBe('RISK_METRICS')
+
+    const messages = router.route('surface', event)
+    expect(messages.map((m) => m.columnId)).toEqual(['list', 'chart', 'alerts'])
+    expect(messages.every((m) => m.type === MessageType.APPEND_DATA)).toBe(true)
+    expect(decode(messages[0]!.payload)).toEqual({ score: 0.7 })
+    expect(router.route('surface', { ...event, name: 'SURFACE_UPDATE' })).toEqual([])
+  })
+
+  it('should skip deliveries whose transform throws', () => {
+    const errors: string[] = []
+    const router = createEventRouter(
+      [{ on: { column: 'list', event: 'SELECTED' }, do: { column: 'chart', action: 'SET_DATA', transform: 'data.rows.at(0).x.y()' } }],
+      () => columns,
+      (_, err) => errors.push(err.message)
+    )
+    const messages = router.route('list', decodeColumnEvent(MessageType.SELECTED, encode({ rows: [] })))
+    expect(messages).toEqual([])
+    expect(errors.length).toBe(1)
+    expect(() =>
+      createEventRouter([{ on: { column: 'a', event: 'X' }, do: { column: 'b', action: 'SET', transform: '(' } }], () => [])
+    ).toThrow('Invalid transform for a:X')
+  })
+
+  it('should pass binary payloads through untouched', () => {
+    const router = createEventRouter(
+      [{ on: { column: 'surface', event: 'SELECTED' }, do: { column: 'chart', action: 'SET_DATA' } }],
+      () => columns
+    )
+    const payload = new Uint8Array([0xff, 0x00, 0x10])
+    const [message] = router.route('surface', decodeColumnEvent(MessageType.SELECTED, payload))
+    expect(message!.payload).toBe(payload)
+  })
+})
+
+describe('Template wiring helpers', () => {
+  const template: SixcolTemplate = {
+    name: 't',
+    columns: [
+      { id: 'a', type: 'list' },
+      { id: 'b', type: 'chart' },
+      { id: 'c', type: 'log' },
+    ],
+    wiring: [
+      { on: { column: 'a', event: 'SELECTED' }, do: { column: '*', action: 'SET_DATA' } },
+      { on: { column: 'a', event: 'SELECTED' }, do: { column: 'b', action: 'APPEND' } },
+    ],
+  }
+
+  it('should expand broadcast targets', () => {
+    expect(getWiredTargets(template, 'a', 'SELECTED')).toEqual(['b', 'c'])
+    expect(getWiredTargets(template, 'b', 'SELECTED')).toEqual([])
+  })
+
+  it('should validate actions, transforms and sources', () => {
+    expect(validateTemplate(template).valid).toBe(true)
+
+    const result = validateTemplate({
+      ...template,
+      wiring: [{ on: { column: 'a', event: 'X' }, do: { column: 'b', action: 'SET', transform: 'data +' } }],
+      sources: [{ type: 'ftp', target: 'x', columns: ['zz'] }],
+    })
+    expect(result.errors).toEqual([
+      'Invalid transform for a:X: Unexpected end of expression',
+      'Source 0 has unknown type: ftp',
+      'Source 0 references unknown column: zz',
+    ])
+  })
+
+  it('should validate bridge options', () => {
+    expect(validateTemplate({ ...template, options: { bridge: { tcpPort: 7400, token: 's3cret' } } }).valid).toBe(true)
+    expect(validateTemplate({ ...template, options: { bridge: { wsPort: 70000, host: 1, origins: 'x' } } }).errors).toEqual([
+      'options.bridge.wsPort must be a port number',
+      'options.bridge.host must be a string',
+      'options.bridge.origins must be a list of strings',
+    ])
+  })
+})
@@ -0,0 +1,514 @@
+/**
+ * Sandboxed Expression Evaluator
+ * Evaluates wiring `transform` expressions without eval/Function
+ *
+ * Supported syntax is a JavaScript expression subset: literals, array and
+ * object literals, member access, arithmetic, comparison, logical and
+ * ternary operators, and single-expression arrow functions. Calls are
+ * limited to whitelisted globals (Math.*, Number, String, keys, ...) and
+ * non-mutating array/string methods. Only own properties are readable, so
+ * prototypes and constructors cannot be reached; member access on
+ * null/undefined yields undefined instead of throwing, and `==`/`!=`
+ * compare strictly.
+ */
+
+type Node =
+  | { kind: 'literal'; value: unknown }
+  | { kind: 'ident'; name: string }
+  | { kind: 'array'; items: Node[] }
+  | { kind: 'object'; entries: Array<[string, Node]> }
+  | { kind: 'member'; object: Node; property: Node; computed: boolean }
+  | { kind: 'call'; callee: Node; args: Node[] }
+  | { kind: 'unary'; op: string; arg: Node }
+  | { kind: 'binary'; op: string; left: Node; right: Node }
+  | { kind: 'conditional'; test: Node; then: Node; else: Node }
+  | { kind: 'arrow'; params: string[]; body: Node }
+
+interface Token {
+  type: 'num' | 'str' | 'ident' | 'punct' | 'end'
+  value: string
+  pos: number
+}
+
+export type ExpressionScope = Record<string, unknown>
+
+export type CompiledExpression = (scope?: ExpressionScope) => unknown
+
+const PUNCTUATORS = [
+  '===', '!==', '=>', '==', '!=', '<=', '>=', '&&', '||', '??',
+  '+', '-', '*', '/', '%', '<', '>', '!', '?', ':', '.', ',', '(', ')', '[', ']', '{', '}',
+]
+
+const BLOCKED_PROPERTIES = new Set(['__proto__', 'prototype', 'constructor'])
+
+const SANDBOX_MATH = Object.freeze({
+  abs: Math.abs,
+  min: Math.min,
+  max: Math.max,
+  round: Math.round,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  sqrt: Math.sqrt,
+  log: Math.log,
+  exp: Math.exp,
+  pow: Math.pow,
+  sign: Math.sign,
+  PI: Math.PI,
+  E: Math.E,
+})
+
+const GLOBALS: Record<string, unknown> = {
+  Math: SANDBOX_MATH,
+  Number: (v: unknown) => Number(v),
+  String: (v: unknown) => String(v),
+  Boolean: (v: unknown) => Boolean(v),
+  isNaN: (v: unknown) => Number.isNaN(Number(v)),
+  keys: (v: unknown) => (v && typeof v === 'object' ? Object.keys(v) : []),
+  values: (v: unknown) => (v && typeof v === 'object' ? Object.values(v) : []),
+  undefined,
+}
+
+const GLOBAL_FUNCTIONS = new Set<unknown>([
+  ...Object.values(SANDBOX_MATH).filter((v) => typeof v === 'function'),
+  ...Object.values(GLOBALS).filter((v) => typeof v === 'function'),
+])
+
+// Functions created by arrow expressions (callable from expressions)
+const ARROWS = new WeakSet<object>()
+
+const ARRAY_METHODS = new Set([
+  'map', 'filter', 'find', 'findIndex', 'some', 'every', 'reduce',
+  'slice', 'concat', 'join', 'indexOf', 'includes', 'at', 'flat',
+])
+
+const STRING_METHODS = new Set([
+  'slice', 'split', 'trim', 'toUpperCase', 'toLowerCase', 'indexOf', 'includes',
+  'startsWith', 'endsWith', 'replace', 'padStart', 'padEnd', 'at',
+])
+
+const NUMBER_METHODS = new Set(['toFixed', 'toPrecision'])
+
+/**
+ * Split an expression into tokens
+ */
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+
+  while (i < source.length) {
+    const ch = source[i]!
+
+    if (/\s/.test(ch)) {
+      i++
+      continue
+    }
+
+    if (/[0-9]/.test(ch) || (ch === '.' && /[0-9]/.test(source[i + 1] ?? ''))) {
+      const match = /^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/.exec(source.slice(i))!
+      tokens.push({ type: 'num', value: match[0], pos: i })
+      i += match[0].length
+      continue
+    }
+
+    if (/[A-Za-z_$]/.test(ch)) {
+      const match = /^[A-Za-z_$][\w$]*/.exec(source.slice(i))!
+      tokens.push({ type: 'ident', value: match[0], pos: i })
+      i += match[0].length
+      continue
+    }
+
+    if (ch === '"' || ch === "'") {
+      let value = ''
+      let j = i + 1
+      while (j < source.length && source[j] !== ch) {
+        if (source[j] === '\\' && j + 1 < source.length) {
+          const next = source[j + 1]!
+          value += next === 'n' ? '\n' : next === 't' ? '\t' : next
+          j += 2
+        } else {
+          value += source[j]
+          j++
+        }
+      }
+      if (j >= source.length) {
+        throw new Error(`Unterminated string at ${i}`)
+      }
+      tokens.push({ type: 'str', value, pos: i })
+      i = j + 1
+      continue
+    }
+
+    const punct = PUNCTUATORS.find((p) => source.startsWith(p, i))
+    if (!punct) {
+      throw new Error(`Unexpected character '${ch}' at ${i}`)
+    }
+    tokens.push({ type: 'punct', value: punct, pos: i })
+    i += punct.length
+  }
+
+  tokens.push({ type: 'end', value: '', pos: source.length })
+  return tokens
+}
+
+/**
+ * Recursive-descent parser producing an expression tree
+ */
+class Parser {
+  private tokens: Token[]
+  private index = 0
+
+  constructor(tokens: Token[]) {
+    this.tokens = tokens
+  }
+
+  parse(): Node {
+    const node = this.expression()
+    const token = this.peek()
+    if (token.type !== 'end') {
+      throw new Error(`Unexpected '${token.value}' at ${token.pos}`)
+    }
+    return node
+  }
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)]!
+  }
+
+  private next(): Token {
+    const token = this.peek()
+    this.index++
+    return token
+  }
+
+  private isPunct(value: string, offset = 0): boolean {
+    const token = this.peek(offset)
+    return token.type === 'punct' && token.value === value
+  }
+
+  private expect(value: string): void {
+    const token = this.next()
+    if (token.type !== 'punct' || token.value !== value) {
+      throw new Error(`Expected '${value}' at ${token.pos}`)
+    }
+  }
+
+  private expression(): Node {
+    return this.arrow() ?? this.conditional()
+  }
+
+  // x => body, (a, b) => body
+  private arrow(): Node | null {
+    if (this.peek().type === 'ident' && this.isPunct('=>', 1)) {
+      const name = this.next().value
+      this.next()
+      return { kind: 'arrow', params: [name], body: this.expression() }
+    }
+
+    if (!this.isPunct('(')) return null
+
+    // Scan ahead for "(ident, ident) =>"
+    const params: string[] = []
+    let offset = 1
+    while (!this.isPunct(')', offset)) {
+      const token = this.peek(offset)
+      if (token.type !== 'ident') return null
+      params.push(token.value)
+      offset++
+      if (this.isPunct(',', offset)) offset++
+      else if (!this.isPunct(')', offset)) return null
+    }
+    if (!this.isPunct('=>', offset + 1)) return null
+
+    this.index += offset + 2
+    return { kind: 'arrow', params, body: this.expression() }
+  }
+
+  private conditional(): Node {
+    const test = this.binary(0)
+    if (!this.isPunct('?')) return test
+
+    this.next()
+    const then = this.expression()
+    this.expect(':')
+    return { kind: 'conditional', test, then, else: this.expression() }
+  }
+
+  private static PRECEDENCE: string[][] = [
+    ['||', '??'],
+    ['&&'],
+    ['==', '!=', '===', '!=='],
+    ['<', '<=', '>', '>='],
+    ['+', '-'],
+    ['*', '/', '%'],
+  ]
+
+  private binary(level: number): Node {
+    if (level >= Parser.PRECEDENCE.length) return this.unary()
+
+    let left = this.binary(level + 1)
+    const ops = Parser.PRECEDENCE[level]!
+    while (this.peek().type === 'punct' && ops.includes(this.peek().value)) {
+      const op = this.next().value
+      left = { kind: 'binary', op, left, right: this.binary(level + 1) }
+    }
+    return left
+  }
+
+  private unary(): Node {
+    if (this.isPunct('!') || this.isPunct('-') || this.isPunct('+')) {
+      const op = this.next().value
+      return { kind: 'unary', op, arg: this.unary() }
+    }
+    return this.postfix()
+  }
+
+  private postfix(): Node {
+    let node = this.primary()
+
+    while (true) {
+      if (this.isPunct('.')) {
+        this.next()
+        const token = this.next()
+        if (token.type !== 'ident') {
+          throw new Error(`Expected property name at ${token.pos}`)
+        }
+        node = { kind: 'member', object: node, property: { kind: 'literal', value: token.value }, computed: false }
+      } else if (this.isPunct('[')) {
+        this.next()
+        const property = this.expression()
+        this.expect(']')
+        node = { kind: 'member', object: node, property, computed: true }
+      } else if (this.isPunct('(')) {
+        this.next()
+        node = { kind: 'call', callee: node, args: this.list(')') }
+      } else {
+        return node
+      }
+    }
+  }
+
+  private list(close: string): Node[] {
+    const items: Node[] = []
+    while (!this.isPunct(close)) {
+      items.push(this.expression())
+      if (!this.isPunct(close)) this.expect(',')
+    }
+    this.next()
+    return items
+  }
+
+  private primary(): Node {
+    const token = this.next()
+
+    switch (token.type) {
+      case 'num':
+        return { kind: 'literal', value: Number(token.value) }
+      case 'str':
+        return { kind: 'literal', value: token.value }
+      case 'ident':
+        if (token.value === 'true') return { kind: 'literal', value: true }
+        if (token.value === 'false') return { kind: 'literal', value: false }
+        if (token.value === 'null') return { kind: 'literal', value: null }
+        return { kind: 'ident', name: token.value }
+      case 'punct':
+        if (token.value === '(') {
+          const node = this.expression()
+          this.expect(')')
+          return node
+        }
+        if (token.value === '[') {
+          return { kind: 'array', items: this.list(']') }
+        }
+        if (token.value === '{') {
+          return { kind: 'object', entries: this.entries() }
+        }
+        break
+    }
+
+    throw new Error(
+      token.type === 'end' ? 'Unexpected end of expression' : `Unexpected '${token.value}' at ${token.pos}`
+    )
+  }
+
+  private entries(): Array<[string, Node]> {
+    const entries: Array<[string, Node]> = []
+    while (!this.isPunct('}')) {
+      const key = this.next()
+      if (key.type !== 'ident' && key.type !== 'str' && key.type !== 'num') {
+        throw new Error(`Expected property name at ${key.pos}`)
+      }
+      if (key.type === 'ident' && (this.isPunct(',') || this.isPunct('}'))) {
+        // Shorthand { data }
+        entries.push([key.value, { kind: 'ident', name: key.value }])
+      } else {
+        this.expect(':')
+        entries.push([key.value, this.expression()])
+      }
+      if (!this.isPunct('}')) this.expect(',')
+    }
+    this.next()
+    return entries
+  }
+}
+
+// Read a property, allowing only own data and array/string length
+function readProperty(object: unknown, property: unknown): unknown {
+  if (object === null || object === undefined) return undefined
+
+  const key = String(property)
+  if (BLOCKED_PROPERTIES.has(key)) {
+    throw new Error(`Access to '${key}' is not allowed`)
+  }
+  if (key === 'length' && (typeof object === 'string' || Array.isArray(object))) {
+    return object.length
+  }
+  if (typeof object === 'string') {
+    return /^\d+$/.test(key) ? object[Number(key)] : undefined
+  }
+  if (typeof object !== 'object' && typeof object !== 'function') return undefined
+
+  return Object.hasOwn(object, key) ? (object as Record<string, unknown>)[key] : undefined
+}
+
+// Call a whitelisted method on an array, string or number
+function callMethod(object: unknown, name: string, args: unknown[]): unknown {
+  const allowed = Array.isArray(object)
+    ? ARRAY_METHODS
+    : typeof object === 'string'
+      ? STRING_METHODS
+      : typeof object === 'number'
+        ? NUMBER_METHODS
+        : null
+
+  if (!allowed || !allowed.has(name)) {
+    throw new Error(`Method '${name}' is not allowed`)
+  }
+
+  const method = (object as Record<string, unknown>)[name] as (...a: unknown[]) => unknown
+  return method.apply(object, args)
+}
+
+function evaluate(node: Node, scope: ExpressionScope, locals: Map<string, unknown> | null): unknown {
+  switch (node.kind) {
+    case 'literal':
+      return node.value
+
+    case 'ident':
+      if (locals?.has(node.name)) return locals.get(node.name)
+      if (Object.hasOwn(scope, node.name)) return scope[node.name]
+      if (Object.hasOwn(GLOBALS, node.name)) return GLOBALS[node.name]
+      throw new Error(`Unknown identifier: ${node.name}`)
+
+    case 'array':
+      return node.items.map((item) => evaluate(item, scope, locals))
+
+    case 'object': {
+      const result: Record<string, unknown> = {}
+      for (const [key, value] of node.entries) {
+        if (BLOCKED_PROPERTIES.has(key)) {
+          throw new Error(`Property '${key}' is not allowed`)
+        }
+        result[key] = evaluate(value, scope, locals)
+      }
+      return result
+    }
+
+    case 'member':
+      return readProperty(
+        evaluate(node.object, scope, locals),
+        node.computed ? evaluate(node.property, scope, locals) : (node.property as { value: unknown }).value
+      )
+
+    case 'call': {
+      const args = node.args.map((arg) => evaluate(arg, scope, locals))
+
+      if (node.callee.kind === 'member') {
+        const object = evaluate(node.callee.object, scope, locals)
+        const name = String(
+          node.callee.computed
+            ? evaluate(node.callee.property, scope, locals)
+            : (node.callee.property as { value: unknown }).value
+        )
+        if (object === SANDBOX_MATH) {
+          const fn = readProperty(object, name)
+          if (typeof fn !== 'function') throw new Error(`Math.${name} is not a function`)
+          return fn(...args)
+        }
+        return callMethod(object, name, args)
+      }
+
+      const fn = evaluate(node.callee, scope, locals)
+      if (typeof fn !== 'function' || !(GLOBAL_FUNCTIONS.has(fn) || ARROWS.has(fn))) {
+        throw new Error('Only whitelisted functions can be called')
+      }
+      return fn(...args)
+    }
+
+    case 'unary': {
+      const arg = evaluate(node.arg, scope, locals)
+      if (node.op === '!') return !arg
+      if (node.op === '-') return -(arg as number)
+      return +(arg as number)
+    }
+
+    case 'binary': {
+      const left = evaluate(node.left, scope, locals)
+
+      // Short-circuit operators
+      if (node.op === '&&') return left && evaluate(node.right, scope, locals)
+      if (node.op === '||') return left || evaluate(node.right, scope, locals)
+      if (node.op === '??') return left ?? evaluate(node.right, scope, locals)
+
+      const right = evaluate(node.right, scope, locals)
+      const l = left as number
+      const r = right as number
+      switch (node.op) {
+        case '+': return l + r
+        case '-': return l - r
+        case '*': return l * r
+        case '/': return l / r
+        case '%': return l % r
+        case '<': return l < r
+        case '<=': return l <= r
+        case '>': return l > r
+        case '>=': return l >= r
+        case '==':
+        case '===': return left === right
+        case '!=':
+        case '!==': return left !== right
+      }
+      throw new Error(`Unknown operator: ${node.op}`)
+    }
+
+    case 'conditional':
+      return evaluate(node.test, scope, locals)
+        ? evaluate(node.then, scope, locals)
+        : evaluate(node.else, scope, locals)
+
+    case 'arrow': {
+      const fn = (...args: unknown[]) => {
+        const inner = new Map(locals ?? [])
+        node.params.forEach((param, i) => inner.set(param, args[i]))
+        return evaluate(node.body, scope, inner)
+      }
+      ARROWS.add(fn)
+      return fn
+    }
+  }
+}
+
+/**
+ * Compile an expression once for repeated evaluation
+ * Throws on syntax errors
+ */
+export function compileExpression(source: string): CompiledExpression {
+  const tree = new Parser(tokenize(source)).parse()
+  return (scope: ExpressionScope = {}) => evaluate(tree, scope, null)
+}
+
+/**
+ * Evaluate an expression against a scope
+ */
+export function evaluateExpression(source: string, scope: ExpressionScope = {}): unknown {
+  return compileExpression(source)(scope)
+}
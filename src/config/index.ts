@@ -5,6 +5,7 @@
 export {
   validateTemplate,
   DEFAULT_TEMPLATE,
+  WIDGET_TYPES,
 } from './types.ts'
 export type {
   WidgetType,
@@ -23,7 +24,30 @@ export {
   mergeWithDefaults,
   resolveLayout,
   buildWiringMap,
+  getWireTargets,
   getWiredTargets,
   generateExampleTemplate,
   getRiskOracleTemplate,
 } from './loader.ts'
+
+export {
+  placeColumns,
+  parseTrackSize,
+  sizeTracks,
+  trackSizes,
+  layoutTemplate,
+  DEFAULT_LAYOUT,
+} from './layout.ts'
+export type { GridCell, CellRect, TrackSize, GridPlacement } from './layout.ts'
+
+export {
+  createEventRouter,
+  decodeColumnEvent,
+  resolveAction,
+  encodeAction,
+  ROUTED_EVENTS,
+} from './wiring.ts'
+export type { EventRouter, RoutedMessage, ColumnEvent } from './wiring.ts'
+
+export { compileExpression, evaluateExpression } from './expression.ts'
+export type { CompiledExpression, ExpressionScope } from './expression.ts'
@@ -0,0 +1,125 @@
+/**
+ * Tests for grid placement, track sizing and layout validation
+ */
+
+import { describe, it, expect } from 'bun:test'
+import { layoutTemplate, parseTrackSize, placeColumns, sizeTracks } from './layout.ts'
+import { resolveLayout, getRiskOracleTemplate } from './loader.ts'
+import { validateTemplate, DEFAULT_TEMPLATE, type SixcolTemplate } from './types.ts'
+
+describe('Grid layout', () => {
+  it('should place explicit positions first and auto-fill the free cells', () => {
+    const { cells, errors } = placeColumns(
+      [
+        { id: 'a', type: 'list' },
+        { id: 'wide', type: 'surface', position: { row: 0, col: 1, colSpan: 2 } },
+        { id: 'b', type: 'list' },
+        { id: 'c', type: 'list' },
+      ],
+      { rows: 2, cols: 3 }
+    )
+    expect(errors).toEqual([])
+    expect(Object.fromEntries(cells)).toEqual({
+      a: { x: 0, y: 0, w: 1, h: 1 },
+      wide: { x: 1, y: 0, w: 2, h: 1 },
+      b: { x: 0, y: 1, w: 1, h: 1 },
+      c: { x: 1, y: 1, w: 1, h: 1 },
+    })
+    expect(resolveLayout(getRiskOracleTemplate()).get('surface-cube')).toEqual({ x: 1, y: 0, w: 1, h: 2 })
+  })
+
+  it('should report overlapping, out-of-bounds and unplaceable columns', () => {
+    const { cells, errors } = placeColumns(
+      [
+        { id: 'a', type: 'list', position: { row: 0, col: 0, rowSpan: 2 } },
+        { id: 'b', type: 'list', position: { row: 1, col: 0 } },
+        { id: 'c', type: 'list', position: { row: 0, col: 1, colSpan: 2 } },
+        { id: 'd', type: 'list' },
+        { id: 'e', type: 'list' },
+        { id: 'f', type: 'list' },
+      ],
+      { rows: 2, cols: 2 }
+    )
+    expect(errors).toEqual([
+      'Column b overlaps a',
+      'Column c at row 0, col 1 (1x2) is outside the 2x2 grid',
+      'Column f does not fit: the 2x2 grid is full',
+    ])
+    expect([...cells.keys()]).toEqual(['a', 'd', 'e'])
+  })
+
+  it('should size tracks from cells, percentages and the remaining space', () => {
+    expect(parseTrackSize(20)).toEqual({ cells: 20 })
+    expect(parseTrackSize('40%')).toEqual({ percent: 40 })
+    expect(parseTrackSize('12')).toEqual({ cells: 12 })
+    expect(parseTrackSize('0%')).toBeNull()
+    expect(parseTrackSize(2.5)).toBeNull()
+
+    // 100 cells, gaps of 1: 98 to share
+    expect(sizeTracks(100, [undefined, undefined, undefined], 1)).toEqual([
+      { start: 0, size: 33 },
+      { start: 34, size: 32 },
+      { start: 67, size: 33 },
+    ])
+    expect(sizeTracks(100, [20, '50%', undefined], 1).map((t) => t.size)).toEqual([20, 49, 29])
+    // Oversized requests shrink; leftovers with no auto track go to the last one
+    expect(sizeTracks(10, [8, 8]).map((t) => t.size)).toEqual([5, 5])
+    expect(sizeTracks(10, [3, 3]).map((t) => t.size)).toEqual([3, 7])
+  })
+
+  it('should lay templates out on the screen with spans and gaps', () => {
+    const template: SixcolTemplate = {
+      name: 'grid',
+      layout: { rows: 2, cols: 3, gap: 1 },
+      columns: [
+        { id: 'nav', type: 'list', width: 20 },
+        { id: 'main', type: 'surface', position: { row: 0, col: 1, colSpan: 2, rowSpan: 2 } },
+        { id: 'log', type: 'log', height: '25%' },
+      ],
+    }
+    const rects = layoutTemplate(template, 101, 41)
+    expect(rects.get('nav')).toEqual({ x: 0, y: 0, width: 20, height: 30 })
+    expect(rects.get('log')).toEqual({ x: 0, y: 31, width: 20, height: 10 })
+    expect(rects.get('main')).toEqual({ x: 21, y: 0, width: 80, height: 41 })
+
+    // Reflow: the same template on a smaller screen
+    expect(layoutTemplate(template, 61, 21).get('main')).toEqual({ x: 21, y: 0, width: 40, height: 21 })
+  })
+
+  it('should validate the layout in templates', () => {
+    expect(validateTemplate(DEFAULT_TEMPLATE).valid).toBe(true)
+    expect(validateTemplate(getRiskOracleTemplate()).valid).toBe(true)
+
+    const result = validateTemplate({
+      name: 'bad',
+      layout: { rows: 1, cols: 2, gap: -1 },
+      columns: [
+        { id: 'a', type: 'list', width: '150%' },
+        { id: 'b', type: 'list', position: { row: 0, col: 0 } },
+        { id: 'c', type: 'list' },
+        { id: 'd', type: 'list' },
+      ],
+    })
+    expect(result.errors).toEqual([
+      'Column 0 width must be a cell count or a percentage',
+      'layout.gap must be a non-negative integer',
+    ])
+
+    const placement = validateTemplate({
+      name: 'bad',
+      layout: { rows: 2, cols: 2 },
+      columns: [
+        { id: 'a', type: 'list', position: { row: 1, col: 0 }, width: 10 },
+        { id: 'b', type: 'list', position: { row: 0, col: 0 }, width: 12 },
+        { id: 'c', type: 'list', position: { row: 0, col: 2 } },
+      ],
+    })
+    expect(placement.errors).toEqual([
+      'Column c at row 0, col 2 (1x1) is outside the 2x2 grid',
+      'Columns a and b set different widths for grid column 0',
+    ])
+    expect(validateTemplate({ name: 'x', layout: { rows: 0, cols: 2 }, columns: [] }).errors).toEqual([
+      'layout.rows must be a positive integer',
+    ])
+  })
+})
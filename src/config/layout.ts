@@ -0,0 +1,224 @@
+/**
+ * Grid Layout
+ * Places template columns on the layout grid and sizes the grid to a screen
+ */
+
+import type { ColumnConfig, LayoutConfig, SixcolTemplate } from './types.ts'
+
+export const DEFAULT_LAYOUT: LayoutConfig = { rows: 2, cols: 3 }
+
+/**
+ * Column area in grid units
+ */
+export interface GridCell {
+  x: number // Grid column
+  y: number // Grid row
+  w: number // Columns spanned
+  h: number // Rows spanned
+}
+
+/**
+ * Column area in terminal cells
+ */
+export interface CellRect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/**
+ * Track (grid row or column) size: cells, or a percentage string such as '40%'
+ */
+export type TrackSize = number | string
+
+export interface GridPlacement {
+  cells: Map<string, GridCell>
+  errors: string[] // Columns that could not be placed, and why
+}
+
+/**
+ * Place columns on the grid
+ * Explicit positions are placed first; the others fill the free cells row by
+ * row. Positions outside the grid or on top of another column are reported
+ * in errors and left out, as are columns that find no free cell.
+ */
+export function placeColumns(columns: ColumnConfig[], grid: LayoutConfig = DEFAULT_LAYOUT): GridPlacement {
+  const cells = new Map<string, GridCell>()
+  const errors: string[] = []
+  const owner: (string | null)[][] = Array.from({ length: grid.rows }, () => Array(grid.cols).fill(null))
+
+  const occupy = (id: string, cell: GridCell) => {
+    for (let y = cell.y; y < cell.y + cell.h; y++) {
+      for (let x = cell.x; x < cell.x + cell.w; x++) owner[y]![x] = id
+    }
+    cells.set(id, cell)
+  }
+
+  for (const column of columns) {
+    if (!column.position) continue
+    const { row, col, rowSpan = 1, colSpan = 1 } = column.position
+    const cell: GridCell = { x: col, y: row, w: colSpan, h: rowSpan }
+
+    if (![row, col, rowSpan, colSpan].every(Number.isInteger) || rowSpan < 1 || colSpan < 1) {
+      errors.push(`Column ${column.id} position needs integer row/col and spans of at least 1`)
+      continue
+    }
+    if (row < 0 || col < 0 || row + rowSpan > grid.rows || col + colSpan > grid.cols) {
+      errors.push(
+        `Column ${column.id} at row ${row}, col ${col} (${rowSpan}x${colSpan}) is outside the ${grid.rows}x${grid.cols} grid`
+      )
+      continue
+    }
+    const taken = new Set<string>()
+    for (let y = row; y < row + rowSpan; y++) {
+      for (let x = col; x < col + colSpan; x++) {
+        if (owner[y]![x]) taken.add(owner[y]![x]!)
+      }
+    }
+    if (taken.size > 0) {
+      errors.push(`Column ${column.id} overlaps ${[...taken].join(', ')}`)
+      continue
+    }
+    occupy(column.id, cell)
+  }
+
+  // Auto-layout: fill the free cells row by row
+  let next = 0
+  for (const column of columns) {
+    if (column.position) continue
+    while (next < grid.rows * grid.cols && owner[Math.floor(next / grid.cols)]![next % grid.cols]) next++
+    if (next >= grid.rows * grid.cols) {
+      errors.push(`Column ${column.id} does not fit: the ${grid.rows}x${grid.cols} grid is full`)
+      continue
+    }
+    occupy(column.id, { x: next % grid.cols, y: Math.floor(next / grid.cols), w: 1, h: 1 })
+  }
+
+  return { cells, errors }
+}
+
+/**
+ * Parse a track size; null if it is neither a cell count nor a percentage
+ */
+export function parseTrackSize(size: TrackSize): { cells: number } | { percent: number } | null {
+  if (typeof size === 'number') {
+    return Number.isInteger(size) && size > 0 ? { cells: size } : null
+  }
+  const match = /^(\d+(?:\.\d+)?)(%?)$/.exec(size.trim())
+  if (!match) return null
+  const value = Number(match[1])
+  if (match[2]) return value > 0 && value <= 100 ? { percent: value } : null
+  return Number.isInteger(value) && value > 0 ? { cells: value } : null
+}
+
+/**
+ * Split total cells into tracks separated by gap
+ * Sized tracks get their cells (percentages of the space left after gaps);
+ * the rest share what remains evenly. When sized tracks ask for more than
+ * there is they shrink proportionally, and space left with no auto track
+ * goes to the last track, so the grid always fills the screen.
+ */
+export function sizeTracks(
+  total: number,
+  sizes: (TrackSize | undefined)[],
+  gap = 0
+): { start: number; size: number }[] {
+  const count = sizes.length
+  const available = Math.max(0, total - gap * (count - 1))
+
+  const fixed = sizes.map((size) => {
+    const parsed = size === undefined ? null : parseTrackSize(size)
+    if (!parsed) return null
+    return 'cells' in parsed ? parsed.cells : Math.round((parsed.percent * available) / 100)
+  })
+  let fixedTotal = fixed.reduce<number>((sum, size) => sum + (size ?? 0), 0)
+  if (fixedTotal > available) {
+    for (let i = 0; i < count; i++) {
+      if (fixed[i] !== null) fixed[i] = Math.floor((fixed[i]! * available) / fixedTotal)
+    }
+    fixedTotal = fixed.reduce<number>((sum, size) => sum + (size ?? 0), 0)
+  }
+
+  const remaining = available - fixedTotal
+  const autos = fixed.filter((size) => size === null).length
+  let auto = 0
+  const widths = fixed.map((size) => {
+    if (size !== null) return size
+    // Even split by rounded edges, so rounding is spread across tracks
+    const width = Math.round(((auto + 1) * remaining) / autos) - Math.round((auto * remaining) / autos)
+    auto++
+    return width
+  })
+  if (autos === 0 && count > 0) widths[count - 1]! += remaining
+
+  const tracks: { start: number; size: number }[] = []
+  let start = 0
+  for (const size of widths) {
+    tracks.push({ start, size })
+    start += size + gap
+  }
+  return tracks
+}
+
+/**
+ * Track sizes requested by columns: width/height of columns spanning one track
+ * Returns the sizes, and an error for every track two columns disagree on
+ */
+export function trackSizes(
+  template: SixcolTemplate,
+  cells: Map<string, GridCell>
+): { cols: (TrackSize | undefined)[]; rows: (TrackSize | undefined)[]; errors: string[] } {
+  const grid = template.layout ?? DEFAULT_LAYOUT
+  const cols: (TrackSize | undefined)[] = Array(grid.cols).fill(undefined)
+  const rows: (TrackSize | undefined)[] = Array(grid.rows).fill(undefined)
+  const setBy: Record<'cols' | 'rows', Map<number, string>> = { cols: new Map(), rows: new Map() }
+  const errors: string[] = []
+
+  const request = (axis: 'cols' | 'rows', track: number, size: TrackSize, id: string) => {
+    const tracks = axis === 'cols' ? cols : rows
+    const other = setBy[axis].get(track)
+    if (other !== undefined && tracks[track] !== size) {
+      const name = axis === 'cols' ? 'width' : 'height'
+      errors.push(`Columns ${other} and ${id} set different ${name}s for grid ${axis === 'cols' ? 'column' : 'row'} ${track}`)
+      return
+    }
+    tracks[track] = size
+    setBy[axis].set(track, id)
+  }
+
+  for (const column of template.columns) {
+    const cell = cells.get(column.id)
+    if (!cell) continue
+    if (column.width !== undefined && cell.w === 1) request('cols', cell.x, column.width, column.id)
+    if (column.height !== undefined && cell.h === 1) request('rows', cell.y, column.height, column.id)
+  }
+
+  return { cols, rows, errors }
+}
+
+/**
+ * Lay a template out on a width x height screen
+ * Columns that cannot be placed (see placeColumns) are left out
+ */
+export function layoutTemplate(template: SixcolTemplate, width: number, height: number): Map<string, CellRect> {
+  const grid = template.layout ?? DEFAULT_LAYOUT
+  const { cells } = placeColumns(template.columns, grid)
+  const sizes = trackSizes(template, cells)
+  const gap = grid.gap ?? 0
+  const cols = sizeTracks(width, sizes.cols, gap)
+  const rows = sizeTracks(height, sizes.rows, gap)
+
+  const rects = new Map<string, CellRect>()
+  for (const [id, cell] of cells) {
+    const first = { col: cols[cell.x]!, row: rows[cell.y]! }
+    const last = { col: cols[cell.x + cell.w - 1]!, row: rows[cell.y + cell.h - 1]! }
+    rects.set(id, {
+      x: first.col.start,
+      y: first.row.start,
+      width: last.col.start + last.col.size - first.col.start,
+      height: last.row.start + last.row.size - first.row.start,
+    })
+  }
+  return rects
+}
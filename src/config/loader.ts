@@ -12,6 +12,7 @@ import {
   type ColumnConfig,
   type EventWiring,
 } from './types.ts'
+import { placeColumns, DEFAULT_LAYOUT, type GridCell } from './layout.ts'
 
 /**
  * Load template from file
@@ -101,41 +102,10 @@ export function mergeWithDefaults(template: Partial<SixcolTemplate>): SixcolTemp
 
 /**
  * Resolve column positions for grid layout
+ * Columns that do not fit the grid (see placeColumns) are left out
  */
-export function resolveLayout(template: SixcolTemplate): Map<string, { x: number; y: number; w: number; h: number }> {
-  const layout = new Map<string, { x: number; y: number; w: number; h: number }>()
-  const grid = template.layout || { rows: 2, cols: 3 }
-
-  let row = 0
-  let col = 0
-
-  for (const column of template.columns) {
-    if (column.position) {
-      // Explicit position
-      layout.set(column.id, {
-        x: column.position.col,
-        y: column.position.row,
-        w: column.position.colSpan || 1,
-        h: column.position.rowSpan || 1,
-      })
-    } else {
-      // Auto-layout: fill row by row
-      layout.set(column.id, {
-        x: col,
-        y: row,
-        w: 1,
-        h: 1,
-      })
-
-      col++
-      if (col >= grid.cols) {
-        col = 0
-        row++
-      }
-    }
-  }
-
-  return layout
+export function resolveLayout(template: SixcolTemplate): Map<string, GridCell> {
+  return placeColumns(template.columns, template.layout ?? DEFAULT_LAYOUT).cells
 }
 
 /**
@@ -163,28 +133,35 @@ export function buildWiringMap(
   return map
 }
 
+/**
+ * Resolve one wiring's target columns
+ * '*' broadcasts to every column except the source
+ */
+export function getWireTargets(
+  wire: EventWiring,
+  columnIds: string[],
+  sourceColumn: string
+): string[] {
+  if (wire.do.column === '*') {
+    return columnIds.filter((id) => id !== sourceColumn)
+  }
+  return [wire.do.column]
+}
+
 /**
  * Get columns that a column is wired to
  */
 export function getWiredTargets(
-  template: SixcolTemplate,
+  template: Pick<SixcolTemplate, 'wiring'> & { columns: Array<{ id: string }> },
   sourceColumn: string,
   event: string
 ): string[] {
+  const columnIds = template.columns.map((c) => c.id)
   const targets: string[] = []
 
   for (const wire of template.wiring || []) {
     if (wire.on.column === sourceColumn && wire.on.event === event) {
-      if (wire.do.column === '*') {
-        // Broadcast to all except source
-        targets.push(
-          ...template.columns
-            .map((c) => c.id)
-            .filter((id) => id !== sourceColumn)
-        )
-      } else {
-        targets.push(wire.do.column)
-      }
+      targets.push(...getWireTargets(wire, columnIds, sourceColumn))
     }
   }
 
@@ -273,8 +250,10 @@ options:
 
 /**
  * Risk Oracle template
+ * @param positions - Position book for the portfolio column; without one the
+ *   column stays empty and is not wired to surface updates
  */
-export function getRiskOracleTemplate(): SixcolTemplate {
+export function getRiskOracleTemplate(positions?: string): SixcolTemplate {
   return {
     name: 'risk-oracle',
     description: '7-column risk oracle with 3D surface',
@@ -285,6 +264,7 @@ export function getRiskOracleTemplate(): SixcolTemplate {
         type: 'chart',
         title: 'Term Structure',
         position: { row: 0, col: 0 },
+        options: { mode: 'line' },
       },
       {
         id: 'surface-cube',
@@ -297,6 +277,7 @@ export function getRiskOracleTemplate(): SixcolTemplate {
         type: 'chart',
         title: 'Smile/Skew',
         position: { row: 0, col: 2 },
+        options: { mode: 'line' },
       },
       {
         id: 'slope-analysis',
@@ -315,6 +296,16 @@ export function getRiskOracleTemplate(): SixcolTemplate {
         type: 'gauge',
         title: 'Risk Score',
         position: { row: 2, col: 0 },
+        options: {
+          mode: 'radial',
+          min: 0,
+          max: 1,
+          // Same levels as the oracle's risk alerts
+          thresholds: [
+            { value: 0.6, label: 'Elevated' },
+            { value: 0.8, label: 'Critical' },
+          ],
+        },
       },
       {
         id: 'alerts',
@@ -322,12 +313,22 @@ export function getRiskOracleTemplate(): SixcolTemplate {
         title: 'Alerts',
         position: { row: 2, col: 2 },
       },
+      {
+        id: 'portfolio',
+        type: 'table',
+        title: 'Portfolio',
+        position: { row: 2, col: 1 },
+        ...(positions !== undefined && { options: { portfolio: positions } }),
+      },
     ],
     wiring: [
       { on: { column: 'surface-cube', event: 'SURFACE_UPDATE' }, do: { column: 'term-structure', action: 'UPDATE_SLICE_X' } },
       { on: { column: 'surface-cube', event: 'SURFACE_UPDATE' }, do: { column: 'smile-skew', action: 'UPDATE_SLICE_Y' } },
       { on: { column: 'surface-cube', event: 'SURFACE_UPDATE' }, do: { column: 'slope-analysis', action: 'RECOMPUTE' } },
       { on: { column: 'surface-cube', event: 'SURFACE_UPDATE' }, do: { column: 'arb-detect', action: 'CHECK_ARBITRAGE' } },
+      ...(positions !== undefined
+        ? [{ on: { column: 'surface-cube', event: 'SURFACE_UPDATE' }, do: { column: 'portfolio', action: 'REVALUE' } }]
+        : []),
       { on: { column: 'surface-cube', event: 'RISK_METRICS' }, do: { column: 'risk-score', action: 'UPDATE_SCORE' } },
       { on: { column: 'arb-detect', event: 'ARBITRAGE_FOUND' }, do: { column: 'alerts', action: 'APPEND' } },
       { on: { column: 'risk-score', event: 'RISK_THRESHOLD' }, do: { column: 'alerts', action: 'APPEND' } },
@@ -3,11 +3,17 @@
  * Template definitions for Sixcol layouts
  */
 
+import { compileExpression } from './expression.ts'
+import type { BridgeOptions } from '../ipc/bridge.ts'
+import { DEFAULT_LAYOUT, parseTrackSize, placeColumns, trackSizes } from './layout.ts'
+import { formFieldErrors } from '../column/widgets/form.ts'
+
 /**
  * Widget type definitions
  */
 export type WidgetType =
   | 'surface' // 3D surface visualization
+  | 'heatmap' // Surface as a colored 2D grid
   | 'list' // Scrollable list
   | 'table' // Data table
   | 'chart' // Sparklines, bar charts
@@ -16,6 +22,19 @@ export type WidgetType =
   | 'gauge' // Value gauge/meter
   | 'custom' // Custom widget
 
+// Every widget type, as advertised by column workers in READY
+export const WIDGET_TYPES: readonly WidgetType[] = [
+  'surface',
+  'heatmap',
+  'list',
+  'table',
+  'chart',
+  'log',
+  'form',
+  'gauge',
+  'custom',
+]
+
 /**
  * Column position in grid
  */
@@ -37,6 +56,7 @@ export interface ColumnConfig {
   width?: number | string // Fixed width or percentage
   height?: number | string
   options?: Record<string, unknown> // Widget-specific options
+  restart?: 'never' | 'on-failure' | 'always' // Worker restart policy (default on-failure)
 }
 
 /**
@@ -63,6 +83,7 @@ export interface DataSourceConfig {
   interval?: number // Polling interval in ms (for command/http)
   parse?: 'json' | 'csv' | 'lines' | 'raw'
   columns?: string[] // Target column IDs to send data to
+  mode?: 'set' | 'append' // SET_DATA or APPEND_DATA (default: append for websocket, set otherwise)
 }
 
 /**
@@ -99,6 +120,7 @@ export interface SixcolTemplate {
     refreshRate?: number // Global refresh rate in ms
     theme?: 'dark' | 'light'
     borderStyle?: 'single' | 'double' | 'round' | 'bold' | 'none'
+    bridge?: BridgeOptions // TCP/WebSocket access to column sockets (base ports, one per column)
   }
 }
 
@@ -113,6 +135,10 @@ export interface ColumnState {
   lastUpdate: number
 }
 
+const RESTART_POLICIES: NonNullable<ColumnConfig['restart']>[] = ['never', 'on-failure', 'always']
+const SOURCE_TYPES: DataSourceConfig['type'][] = ['command', 'websocket', 'file', 'http']
+const SOURCE_FORMATS: NonNullable<DataSourceConfig['parse']>[] = ['json', 'csv', 'lines', 'raw']
+
 /**
  * Validate template configuration
  */
@@ -137,6 +163,7 @@ export function validateTemplate(template: unknown): {
     errors.push('Template must have a columns array')
   } else {
     const columnIds = new Set<string>()
+    const errorsBeforeColumns = errors.length
 
     for (let i = 0; i < t.columns.length; i++) {
       const col = t.columns[i] as Record<string, unknown>
@@ -152,6 +179,53 @@ export function validateTemplate(template: unknown): {
       if (!col.type || typeof col.type !== 'string') {
         errors.push(`Column ${i} must have a type string`)
       }
+
+      if (
+        col.restart !== undefined &&
+        (typeof col.restart !== 'string' || !(RESTART_POLICIES as readonly string[]).includes(col.restart))
+      ) {
+        errors.push(`Column ${i} has unknown restart policy: ${String(col.restart)}`)
+      }
+
+      for (const key of ['width', 'height']) {
+        const size = col[key]
+        if (size !== undefined && !((typeof size === 'number' || typeof size === 'string') && parseTrackSize(size))) {
+          errors.push(`Column ${i} ${key} must be a cell count or a percentage`)
+        }
+      }
+      if (col.position !== undefined && (!col.position || typeof col.position !== 'object')) {
+        errors.push(`Column ${i} position must be an object`)
+      }
+      const options = col.options as Record<string, unknown> | undefined
+      if (col.type === 'form' && options?.fields !== undefined) {
+        errors.push(...formFieldErrors(options).map((error) => `Column ${i} ${error}`))
+      }
+    }
+
+    // Validate the grid, then that every (valid) column has a cell of its own
+    const columnsValid = errors.length === errorsBeforeColumns
+    const layout = t.layout as Record<string, unknown> | undefined
+    let gridValid = true
+    if (layout !== undefined) {
+      if (!layout || typeof layout !== 'object') {
+        errors.push('layout must be an object')
+        gridValid = false
+      } else {
+        for (const key of ['rows', 'cols']) {
+          if (!Number.isInteger(layout[key]) || (layout[key] as number) < 1) {
+            errors.push(`layout.${key} must be a positive integer`)
+            gridValid = false
+          }
+        }
+        if (layout.gap !== undefined && (!Number.isInteger(layout.gap) || (layout.gap as number) < 0)) {
+          errors.push('layout.gap must be a non-negative integer')
+        }
+      }
+    }
+    if (gridValid && columnsValid) {
+      const placement = placeColumns(t.columns as ColumnConfig[], (layout as unknown as LayoutConfig) ?? DEFAULT_LAYOUT)
+      errors.push(...placement.errors)
+      errors.push(...trackSizes(t as unknown as SixcolTemplate, placement.cells).errors)
     }
 
     // Validate wiring references
@@ -163,6 +237,70 @@ export function validateTemplate(template: unknown): {
         if (wire.do.column !== '*' && !columnIds.has(wire.do.column)) {
           errors.push(`Wiring references unknown target column: ${wire.do.column}`)
         }
+        if (!wire.do.action || typeof wire.do.action !== 'string') {
+          errors.push(`Wiring from ${wire.on.column}:${wire.on.event} must have an action string`)
+        }
+        if (wire.do.transform !== undefined) {
+          try {
+            compileExpression(String(wire.do.transform))
+          } catch (err) {
+            errors.push(`Invalid transform for ${wire.on.column}:${wire.on.event}: ${(err as Error).message}`)
+          }
+        }
+      }
+    }
+
+    // Validate data sources
+    if (Array.isArray(t.sources)) {
+      for (let i = 0; i < t.sources.length; i++) {
+        const source = t.sources[i] as Record<string, unknown>
+
+        if (!SOURCE_TYPES.includes(source.type as DataSourceConfig['type'])) {
+          errors.push(`Source ${i} has unknown type: ${String(source.type)}`)
+        }
+        if (!source.target || typeof source.target !== 'string') {
+          errors.push(`Source ${i} must have a target string`)
+        }
+        if (
+          source.parse !== undefined &&
+          (typeof source.parse !== 'string' || !(SOURCE_FORMATS as readonly string[]).includes(source.parse))
+        ) {
+          errors.push(`Source ${i} has unknown parse format: ${String(source.parse)}`)
+        }
+        if (!Array.isArray(source.columns) || source.columns.length === 0) {
+          errors.push(`Source ${i} must list target columns`)
+        } else {
+          for (const id of source.columns as string[]) {
+            if (!columnIds.has(id)) {
+              errors.push(`Source ${i} references unknown column: ${id}`)
+            }
+          }
+        }
+      }
+    }
+  }
+
+  // Validate the network bridge
+  const options = t.options as Record<string, unknown> | undefined
+  if (options?.bridge !== undefined) {
+    const bridge = options.bridge as Record<string, unknown>
+    if (!bridge || typeof bridge !== 'object') {
+      errors.push('options.bridge must be an object')
+    } else {
+      for (const key of ['tcpPort', 'wsPort']) {
+        const port = bridge[key]
+        if (port !== undefined && (!Number.isInteger(port) || (port as number) < 0 || (port as number) > 65535)) {
+          errors.push(`options.bridge.${key} must be a port number`)
+        }
+      }
+      for (const key of ['host', 'token']) {
+        if (bridge[key] !== undefined && typeof bridge[key] !== 'string') {
+          errors.push(`options.bridge.${key} must be a string`)
+        }
+      }
+      const origins = bridge.origins
+      if (origins !== undefined && (!Array.isArray(origins) || !origins.every((o) => typeof o === 'string'))) {
+        errors.push('options.bridge.origins must be a list of strings')
       }
     }
   }
@@ -0,0 +1,187 @@
+/**
+ * Event Wiring Router
+ * Turns column events into frames for wired target columns
+ */
+
+import { MessageType, type ActionMessage, type EventMessage } from '../ipc/protocol.ts'
+import type { EventWiring } from './types.ts'
+import { getWireTargets } from './loader.ts'
+import { compileExpression, type CompiledExpression } from './expression.ts'
+
+/**
+ * Actions with a dedicated message type
+ * Anything else is delivered as an ACTION frame carrying the verb
+ */
+const ACTION_TYPES: Record<string, MessageType> = {
+  SET: MessageType.SET_DATA,
+  SET_DATA: MessageType.SET_DATA,
+  APPEND: MessageType.APPEND_DATA,
+  APPEND_DATA: MessageType.APPEND_DATA,
+  CLEAR: MessageType.CLEAR,
+  SCROLL: MessageType.SCROLL,
+  FOCUS: MessageType.FOCUS,
+  SET_TITLE: MessageType.SET_TITLE,
+  SURFACE_FULL: MessageType.SURFACE_FULL,
+  CHAIN_FULL: MessageType.CHAIN_FULL,
+}
+
+// Actions whose payload is forwarded untouched (binary frames)
+const BINARY_ACTIONS = new Set([MessageType.SURFACE_FULL, MessageType.CHAIN_FULL])
+
+// Column events that are routed through wiring
+export const ROUTED_EVENTS = new Set([
+  MessageType.SELECTED,
+  MessageType.CLICKED,
+  MessageType.SUBMITTED,
+  MessageType.KEY_PRESSED,
+  MessageType.SCROLL_CHANGED,
+  MessageType.EVENT,
+])
+
+/**
+ * Message type for a wiring action, or ACTION for custom verbs
+ */
+export function resolveAction(action: string): MessageType {
+  return ACTION_TYPES[action.toUpperCase()] ?? MessageType.ACTION
+}
+
+/**
+ * Frame for an action issued directly (control socket) rather than by wiring
+ * Binary actions take their payload as a base64 string
+ */
+export function encodeAction(
+  action: string,
+  data: unknown,
+  source: string,
+  event: string
+): { type: MessageType; payload: Uint8Array } {
+  const type = resolveAction(action)
+  if (type === MessageType.ACTION) {
+    const message: ActionMessage = { action, source, event, data: data ?? null }
+    return { type, payload: encodeJson(message) }
+  }
+  if (type === MessageType.CLEAR) {
+    return { type, payload: new Uint8Array(0) }
+  }
+  if (BINARY_ACTIONS.has(type)) {
+    if (typeof data !== 'string') {
+      throw new Error(`${action} data must be a base64 string`)
+    }
+    return { type, payload: new Uint8Array(Buffer.from(data, 'base64')) }
+  }
+  return { type, payload: encodeJson(data) }
+}
+
+/**
+ * Frame produced by routing an event
+ */
+export interface RoutedMessage {
+  columnId: string
+  type: MessageType
+  payload: Uint8Array
+}
+
+/**
+ * Decoded column event
+ */
+export interface ColumnEvent {
+  name: string // MessageType name, or the custom event name for EVENT frames
+  data: unknown // Parsed JSON payload (EventMessage.data for EVENT); undefined if binary
+  payload: Uint8Array // Original payload
+}
+
+/**
+ * Decode an event frame payload
+ */
+export function decodeColumnEvent(type: MessageType, payload: Uint8Array): ColumnEvent {
+  let data: unknown
+  try {
+    data = JSON.parse(new TextDecoder().decode(payload))
+  } catch {
+    data = undefined
+  }
+
+  if (type === MessageType.EVENT) {
+    const message = data as EventMessage | undefined
+    if (!message || typeof message.event !== 'string') {
+      throw new Error('EVENT payload must be JSON with an event name')
+    }
+    return { name: message.event, data: message.data, payload }
+  }
+
+  return { name: MessageType[type] ?? String(type), data, payload }
+}
+
+export interface EventRouter {
+  route: (sourceId: string, event: ColumnEvent) => RoutedMessage[]
+}
+
+const encoder = new TextEncoder()
+
+function encodeJson(value: unknown): Uint8Array {
+  return encoder.encode(JSON.stringify(value ?? null))
+}
+
+/**
+ * Create a router for a wiring table
+ * Transforms are compiled up front, so syntax errors surface immediately.
+ * @param columnIds - Function returning the current column ids (for '*' targets)
+ * @param onError - Called when a transform throws; that delivery is skipped
+ */
+export function createEventRouter(
+  wiring: EventWiring[],
+  columnIds: () => string[],
+  onError: (wire: EventWiring, error: Error) => void = () => {}
+): EventRouter {
+  const transforms = new Map<EventWiring, CompiledExpression>()
+  for (const wire of wiring) {
+    if (wire.do.transform) {
+      try {
+        transforms.set(wire, compileExpression(wire.do.transform))
+      } catch (err) {
+        throw new Error(`Invalid transform for ${wire.on.column}:${wire.on.event}: ${(err as Error).message}`)
+      }
+    }
+  }
+
+  return {
+    route(sourceId: string, event: ColumnEvent): RoutedMessage[] {
+      const messages: RoutedMessage[] = []
+
+      for (const wire of wiring) {
+        if (wire.on.column !== sourceId || wire.on.event !== event.name) continue
+
+        let data = event.data
+        const transform = transforms.get(wire)
+        if (transform) {
+          try {
+            data = transform({ data, event: event.name, source: sourceId })
+          } catch (err) {
+            onError(wire, err as Error)
+            continue
+          }
+        }
+
+        const type = resolveAction(wire.do.action)
+        let payload: Uint8Array
+        if (type === MessageType.ACTION) {
+          const action: ActionMessage = { action: wire.do.action, source: sourceId, event: event.name, data: data ?? null }
+          payload = encodeJson(action)
+        } else if (type === MessageType.CLEAR) {
+          payload = new Uint8Array(0)
+        } else if (BINARY_ACTIONS.has(type) || (!transform && event.data === undefined)) {
+          // Binary payloads pass through unchanged
+          payload = event.payload
+        } else {
+          payload = encodeJson(data)
+        }
+
+        for (const columnId of getWireTargets(wire, columnIds(), sourceId)) {
+          messages.push({ columnId, type, payload })
+        }
+      }
+
+      return messages
+    },
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * OptionChain - snapshot of listed option quotes for one underlying
+ * Missing numeric fields are NaN so every quote has the same columnar shape
+ */
+
+export type ChainOptionType = 'call' | 'put'
+
+export interface ChainQuote {
+  instrument: string // Venue instrument name (unique within the chain)
+  type: ChainOptionType
+  strike: number
+  expiry: number // Unix ms
+  bid: number // Price in quote currency
+  ask: number
+  last: number
+  markIv: number // Decimal (0.55 = 55%)
+  underlyingPrice: number // Forward/index used by the venue for this expiry
+  openInterest: number
+  volume: number
+}
+
+export interface OptionChain {
+  underlying: string
+  timestamp: number // Unix ms of the snapshot
+  spot: number
+  quotes: ChainQuote[]
+}
+
+/**
+ * Incremental chain update: upserts keyed by instrument plus removals
+ */
+export interface ChainDelta {
+  timestamp: number
+  spot: number
+  updates: ChainQuote[]
+  removed: string[]
+}
+
+// Numeric quote fields, in wire order
+export const CHAIN_NUMERIC_FIELDS = [
+  'strike',
+  'expiry',
+  'bid',
+  'ask',
+  'last',
+  'markIv',
+  'underlyingPrice',
+  'openInterest',
+  'volume',
+] as const
+
+export type ChainNumericField = (typeof CHAIN_NUMERIC_FIELDS)[number]
+
+// Create a quote with NaN for anything not provided
+export function createChainQuote(
+  fields: Pick<ChainQuote, 'type' | 'strike' | 'expiry'> & Partial<ChainQuote>
+): ChainQuote {
+  return {
+    instrument: fields.instrument ?? defaultInstrumentName(fields.strike, fields.expiry, fields.type),
+    type: fields.type,
+    strike: fields.strike,
+    expiry: fields.expiry,
+    bid: fields.bid ?? NaN,
+    ask: fields.ask ?? NaN,
+    last: fields.last ?? NaN,
+    markIv: fields.markIv ?? NaN,
+    underlyingPrice: fields.underlyingPrice ?? NaN,
+    openInterest: fields.openInterest ?? NaN,
+    volume: fields.volume ?? NaN,
+  }
+}
+
+// Synthetic instrument name: YYYY-MM-DD-K-C
+function defaultInstrumentName(strike: number, expiry: number, type: ChainOptionType): string {
+  const date = new Date(expiry).toISOString().split('T')[0]!
+  return `${date}-${strike}-${type === 'call' ? 'C' : 'P'}`
+}
+
+// Create chain with quotes sorted by expiry, strike, then type
+export function createChain(
+  underlying: string,
+  timestamp: number,
+  spot: number,
+  quotes: ChainQuote[]
+): OptionChain {
+  return {
+    underlying,
+    timestamp,
+    spot,
+    quotes: [...quotes].sort(
+      (a, b) => a.expiry - b.expiry || a.strike - b.strike || a.type.localeCompare(b.type)
+    ),
+  }
+}
+
+// Distinct expiries (Unix ms), ascending
+export function chainExpiries(chain: OptionChain): number[] {
+  return [...new Set(chain.quotes.map((q) => q.expiry))].sort((a, b) => a - b)
+}
+
+// Distinct strikes, ascending
+export function chainStrikes(chain: OptionChain): number[] {
+  return [...new Set(chain.quotes.map((q) => q.strike))].sort((a, b) => a - b)
+}
+
+function sameQuote(a: ChainQuote, b: ChainQuote): boolean {
+  if (a.type !== b.type) return false
+  return CHAIN_NUMERIC_FIELDS.every((f) => Object.is(a[f], b[f]))
+}
+
+// Compute the delta that turns prev into next
+export function diffChains(prev: OptionChain, next: OptionChain): ChainDelta {
+  const before = new Map(prev.quotes.map((q) => [q.instrument, q]))
+  const after = new Set(next.quotes.map((q) => q.instrument))
+
+  return {
+    timestamp: next.timestamp,
+    spot: next.spot,
+    updates: next.quotes.filter((q) => {
+      const old = before.get(q.instrument)
+      return !old || !sameQuote(old, q)
+    }),
+    removed: prev.quotes.filter((q) => !after.has(q.instrument)).map((q) => q.instrument),
+  }
+}
+
+// Apply a delta, returning a new chain
+export function applyChainDelta(chain: OptionChain, delta: ChainDelta): OptionChain {
+  const quotes = new Map(chain.quotes.map((q) => [q.instrument, q]))
+  for (const name of delta.removed) quotes.delete(name)
+  for (const q of delta.updates) quotes.set(q.instrument, q)
+
+  return createChain(chain.underlying, delta.timestamp, delta.spot, [...quotes.values()])
+}
@@ -0,0 +1,38 @@
+/**
+ * CSV - line splitting shared by the position, chain and data source importers
+ */
+
+/**
+ * Split a delimited line into trimmed fields, honouring double-quoted fields
+ * ("" inside quotes is a literal quote)
+ */
+export function splitCsvLine(line: string, delimiter = ','): string[] {
+  const fields: string[] = []
+  let current = ''
+  let quoted = false
+
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i]!
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        current += '"'
+        i++
+      } else if (ch === '"') {
+        quoted = false
+      } else {
+        current += ch
+      }
+    } else if (ch === '"') {
+      quoted = true
+    } else if (line.startsWith(delimiter, i)) {
+      fields.push(current.trim())
+      current = ''
+      i += delimiter.length - 1
+    } else {
+      current += ch
+    }
+  }
+  fields.push(current.trim())
+
+  return fields
+}
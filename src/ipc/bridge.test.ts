@@ -0,0 +1,187 @@
+/**
+ * Tests for the unix/TCP/WebSocket socket bridge
+ */
+
+import { describe, it, expect, afterEach } from 'bun:test'
+import { SocketBridge, type BridgeConnection, type BridgeOptions } from './bridge.ts'
+import { JsonRpcErrorCode } from './jsonrpc.ts'
+
+// Echo server: answers every line with the transport and the line
+function createBridge(unixPath: string | null, options: BridgeOptions) {
+  const opened: string[] = []
+  const bridge = new SocketBridge<BridgeConnection>(unixPath, options, {
+    open: (connection) => {
+      opened.push(connection.transport)
+      return connection
+    },
+    line: (connection, line) => connection.send(JSON.stringify({ transport: connection.transport, line }) + '\n'),
+    close: () => {},
+  })
+  return { bridge, opened }
+}
+
+// Line-collecting TCP client
+async function tcpClient(port: number) {
+  const received: Record<string, unknown>[] = []
+  let buffered = ''
+  let closed = false
+  const socket = await Bun.connect({
+    hostname: '127.0.0.1',
+    port,
+    socket: {
+      data(_socket, chunk) {
+        buffered += chunk.toString()
+        const lines = buffered.split('\n')
+        buffered = lines.pop()!
+        received.push(...lines.map((l) => JSON.parse(l)))
+      },
+      close() {
+        closed = true
+      },
+    },
+  })
+  const waitFor = async (count: number) => {
+    for (let i = 0; i < 40 && received.length < count; i++) await Bun.sleep(10)
+  }
+  return { socket, received, waitFor, closed: () => closed }
+}
+
+async function wsClient(url: string) {
+  const received: Record<string, unknown>[] = []
+  const ws = new WebSocket(url)
+  ws.onmessage = (event) => received.push(JSON.parse(String(event.data)))
+  await new Promise((resolve, reject) => {
+    ws.onopen = resolve
+    ws.onerror = reject
+  })
+  const waitFor = async (count: number) => {
+    for (let i = 0; i < 40 && received.length < count; i++) await Bun.sleep(10)
+  }
+  return { ws, received, waitFor }
+}
+
+describe('SocketBridge', () => {
+  let bridge: SocketBridge<BridgeConnection> | null = null
+
+  afterEach(() => {
+    bridge?.stop()
+    bridge = null
+  })
+
+  it('should serve unix and TCP clients without a token', async () => {
+    const unixPath = `/tmp/sixcol-bridge-test-${Date.now()}.sock`
+    const created = createBridge(unixPath, { tcpPort: 0 })
+    bridge = created.bridge
+    const address = await bridge.start()
+    expect(address.host).toBe('127.0.0.1')
+    expect(address.tcpPort).toBeGreaterThan(0)
+    expect(address.wsPort).toBeNull()
+
+    const tcp = await tcpClient(address.tcpPort!)
+    tcp.socket.write('{"id":1}\n{"id"')
+    tcp.socket.write(':2}\n')
+    await tcp.waitFor(2)
+    expect(tcp.received).toEqual([
+      { transport: 'tcp', line: '{"id":1}' },
+      { transport: 'tcp', line: '{"id":2}' },
+    ])
+
+    let reply = ''
+    const unix = await Bun.connect({
+      unix: unixPath,
+      socket: {
+        data(_socket, chunk) {
+          reply += chunk.toString()
+        },
+      },
+    })
+    unix.write('{"id":3}\n')
+    for (let i = 0; i < 40 && !reply; i++) await Bun.sleep(10)
+    expect(JSON.parse(reply)).toEqual({ transport: 'unix', line: '{"id":3}' })
+    expect(created.opened).toEqual(['tcp', 'unix'])
+
+    tcp.socket.end()
+    unix.end()
+  })
+
+  it('should require the token on network connections', async () => {
+    const unixPath = `/tmp/sixcol-bridge-test-${Date.now()}.sock`
+    const created = createBridge(unixPath, { tcpPort: 0, token: 's3cret' })
+    bridge = created.bridge
+    const { tcpPort } = await bridge.start()
+
+    const tcp = await tcpClient(tcpPort!)
+    tcp.socket.write('{"jsonrpc":"2.0","id":1,"method":"getData"}\n')
+    tcp.socket.write('{"jsonrpc":"2.0","id":2,"method":"auth","params":{"token":"s3cret"}}\n')
+    tcp.socket.write('{"jsonrpc":"2.0","id":3,"method":"getData"}\n')
+    await tcp.waitFor(3)
+    expect(tcp.received[0]).toEqual({
+      jsonrpc: '2.0',
+      id: 1,
+      error: { code: JsonRpcErrorCode.UNAUTHORIZED, message: 'Authentication required' },
+    })
+    expect(tcp.received[1]).toEqual({ jsonrpc: '2.0', id: 2, result: { authenticated: true } })
+    expect(tcp.received[2]).toEqual({ transport: 'tcp', line: '{"jsonrpc":"2.0","id":3,"method":"getData"}' })
+
+    // A wrong token closes the connection
+    const intruder = await tcpClient(tcpPort!)
+    intruder.socket.write('{"jsonrpc":"2.0","id":1,"method":"auth","params":["guess"]}\n{"id":2}\n')
+    await intruder.waitFor(1)
+    for (let i = 0; i < 40 && !intruder.closed(); i++) await Bun.sleep(10)
+    expect(intruder.received).toEqual([
+      { jsonrpc: '2.0', id: 1, error: { code: JsonRpcErrorCode.UNAUTHORIZED, message: 'Invalid token' } },
+    ])
+    expect(intruder.closed()).toBe(true)
+    expect(created.opened).toEqual(['tcp'])
+
+    tcp.socket.end()
+  })
+
+  it('should accept WebSocket clients with an auth message or ?token=', async () => {
+    const created = createBridge(null, { wsPort: 0, token: 's3cret' })
+    bridge = created.bridge
+    const { wsPort } = await bridge.start()
+
+    const byQuery = await wsClient(`ws://127.0.0.1:${wsPort}/?token=s3cret`)
+    byQuery.ws.send('{"id":1}')
+    await byQuery.waitFor(1)
+    expect(byQuery.received).toEqual([{ transport: 'ws', line: '{"id":1}' }])
+
+    const byMessage = await wsClient(`ws://127.0.0.1:${wsPort}/`)
+    byMessage.ws.send('{"jsonrpc":"2.0","id":1,"method":"auth","params":{"token":"s3cret"}}')
+    byMessage.ws.send('{"id":2}')
+    await byMessage.waitFor(2)
+    expect(byMessage.received[1]).toEqual({ transport: 'ws', line: '{"id":2}' })
+
+    const rejected = await fetch(`http://127.0.0.1:${wsPort}/?token=guess`, { headers: { upgrade: 'websocket' } })
+    expect(rejected.status).toBe(401)
+
+    byQuery.ws.close()
+    byMessage.ws.close()
+  })
+
+  it('should refuse WebSocket upgrades from origins not on the allow-list', async () => {
+    const created = createBridge(null, { wsPort: 0, origins: ['http://localhost:3000'] })
+    bridge = created.bridge
+    const { wsPort } = await bridge.start()
+
+    // A page on another site, with or without a token
+    for (const url of [`http://127.0.0.1:${wsPort}/`, `http://127.0.0.1:${wsPort}/?token=s3cret`]) {
+      const foreign = await fetch(url, { headers: { upgrade: 'websocket', origin: 'https://evil.example' } })
+      expect(foreign.status).toBe(403)
+    }
+
+    const allowed = new WebSocket(`ws://127.0.0.1:${wsPort}/`, { headers: { origin: 'http://localhost:3000' } })
+    await new Promise((resolve, reject) => {
+      allowed.onopen = resolve
+      allowed.onerror = reject
+    })
+    allowed.close()
+    expect(created.opened).toEqual(['ws'])
+  })
+
+  it('should refuse to listen beyond localhost without a token', async () => {
+    const created = createBridge(null, { host: '0.0.0.0', tcpPort: 0 })
+    await expect(created.bridge.start()).rejects.toThrow('A token is required to listen on 0.0.0.0')
+  })
+})
@@ -0,0 +1,249 @@
+/**
+ * Socket Bridge
+ * Serves line-delimited JSON-RPC over the column's unix socket and,
+ * optionally, TCP and WebSocket listeners for clients that cannot reach it
+ * (browsers, containers without a shared volume)
+ */
+
+import { type Server, type ServerWebSocket, type Socket, type TCPSocketListener, type UnixSocketListener } from 'bun'
+import { timingSafeEqual } from 'node:crypto'
+import { rm } from 'node:fs/promises'
+import { JsonRpcErrorCode, LineBuffer, getParam, type JsonRpcId } from './jsonrpc.ts'
+
+export interface BridgeOptions {
+  host?: string // Bind address for TCP/WebSocket (default 127.0.0.1)
+  tcpPort?: number // Omitted: no TCP listener; 0: any free port
+  wsPort?: number // Omitted: no WebSocket listener; 0: any free port
+  token?: string // Shared secret network clients must authenticate with
+  origins?: string[] // Browser origins allowed to open WebSockets ('*' for any)
+}
+
+/**
+ * Addresses the network listeners are bound to, reported in READY
+ */
+export interface BridgeAddress {
+  host: string
+  tcpPort: number | null
+  wsPort: number | null
+}
+
+export type BridgeTransport = 'unix' | 'tcp' | 'ws'
+
+/**
+ * An authenticated connection, on any transport
+ */
+export interface BridgeConnection {
+  transport: BridgeTransport
+  send: (line: string) => void
+  close: () => void
+}
+
+export interface BridgeHandlers<C> {
+  open: (connection: BridgeConnection) => C // Per-connection state passed back to line/close
+  line: (client: C, line: string) => void
+  close: (client: C) => void
+}
+
+export const DEFAULT_BRIDGE_HOST = '127.0.0.1'
+
+const LOOPBACK_HOSTS = new Set(['127.0.0.1', '::1', 'localhost'])
+
+// Connection state: lines until authenticated, then the handler's client
+interface Peer<C> {
+  connection: BridgeConnection
+  lines: LineBuffer
+  client: C | null
+}
+
+// WebSocket data: the peer is created once the socket opens
+interface WebSocketData<C> {
+  preauthorized: boolean // Valid ?token= on the upgrade request
+  peer: Peer<C> | null
+}
+
+function tokensMatch(expected: string, given: unknown): boolean {
+  if (typeof given !== 'string') return false
+  const a = Buffer.from(expected)
+  const b = Buffer.from(given)
+  return a.length === b.length && timingSafeEqual(a, b)
+}
+
+function authResponse(id: JsonRpcId, error?: string): string {
+  const body = error
+    ? { jsonrpc: '2.0', id, error: { code: JsonRpcErrorCode.UNAUTHORIZED, message: error } }
+    : { jsonrpc: '2.0', id, result: { authenticated: true } }
+  return JSON.stringify(body) + '\n'
+}
+
+/**
+ * Unix, TCP and WebSocket listeners feeding one set of handlers
+ *
+ * With a token, network connections must first send
+ * {"jsonrpc":"2.0","id":1,"method":"auth","params":{"token":"..."}}
+ * (WebSocket clients may pass ?token= instead); other messages are refused
+ * and a wrong token closes the connection. Unix connections are trusted.
+ *
+ * WebSocket upgrades carrying an Origin header (any browser page) are refused
+ * unless the origin is in options.origins, token or not, so a page the user
+ * happens to visit cannot drive the columns on loopback.
+ */
+export class SocketBridge<C> {
+  private unixPath: string | null
+  private options: BridgeOptions
+  private handlers: BridgeHandlers<C>
+  private unix: UnixSocketListener<Peer<C>> | null = null
+  private tcp: TCPSocketListener<Peer<C>> | null = null
+  private ws: Server<WebSocketData<C>> | null = null
+
+  constructor(unixPath: string | null, options: BridgeOptions, handlers: BridgeHandlers<C>) {
+    this.unixPath = unixPath
+    this.options = options
+    this.handlers = handlers
+  }
+
+  async start(): Promise<BridgeAddress> {
+    const host = this.options.host ?? DEFAULT_BRIDGE_HOST
+    const network = this.options.tcpPort !== undefined || this.options.wsPort !== undefined
+    if (network && !this.options.token && !LOOPBACK_HOSTS.has(host)) {
+      throw new Error(`A token is required to listen on ${host}`)
+    }
+
+    if (this.unixPath) {
+      // A crashed predecessor (before a restart) leaves its socket file behind
+      await rm(this.unixPath, { force: true })
+      this.unix = Bun.listen<Peer<C>>({ unix: this.unixPath, socket: this.socketHandlers('unix') })
+    }
+    if (this.options.tcpPort !== undefined) {
+      this.tcp = Bun.listen<Peer<C>>({ hostname: host, port: this.options.tcpPort, socket: this.socketHandlers('tcp') })
+    }
+    if (this.options.wsPort !== undefined) {
+      this.ws = this.serveWebSocket(host, this.options.wsPort)
+    }
+
+    return { host, tcpPort: this.tcp?.port ?? null, wsPort: this.ws?.port ?? null }
+  }
+
+  stop(): void {
+    this.unix?.stop(true)
+    this.tcp?.stop(true)
+    this.ws?.stop(true)
+    this.unix = this.tcp = null
+    this.ws = null
+  }
+
+  private socketHandlers(transport: 'unix' | 'tcp') {
+    return {
+      open: (socket: Socket<Peer<C>>) => {
+        socket.data = this.connect({
+          transport,
+          send: (line) => {
+            socket.write(line)
+          },
+          close: () => socket.end(),
+        })
+      },
+      data: (socket: Socket<Peer<C>>, data: Buffer) => this.receive(socket.data, data),
+      close: (socket: Socket<Peer<C>>) => this.disconnect(socket.data),
+      error: (_socket: Socket<Peer<C>>, err: Error) => {
+        console.error(`Bridge ${transport} socket error:`, err.message)
+      },
+    }
+  }
+
+  private serveWebSocket(host: string, port: number): Server<WebSocketData<C>> {
+    return Bun.serve<WebSocketData<C>>({
+      hostname: host,
+      port,
+      fetch: (req, server) => {
+        const origin = req.headers.get('origin')
+        if (origin !== null && !this.originAllowed(origin)) {
+          return new Response('Origin not allowed', { status: 403 })
+        }
+        const given = new URL(req.url).searchParams.get('token')
+        if (given !== null && this.options.token && !tokensMatch(this.options.token, given)) {
+          return new Response('Unauthorized', { status: 401 })
+        }
+        const data: WebSocketData<C> = { preauthorized: given !== null, peer: null }
+        if (server.upgrade(req, { data })) return undefined
+        return new Response('Expected a WebSocket upgrade', { status: 426 })
+      },
+      websocket: {
+        open: (ws: ServerWebSocket<WebSocketData<C>>) => {
+          const connection: BridgeConnection = {
+            transport: 'ws',
+            send: (line) => {
+              ws.send(line)
+            },
+            close: () => ws.close(),
+          }
+          ws.data.peer = this.connect(connection, ws.data.preauthorized)
+        },
+        // Each WebSocket message is a whole JSON-RPC message or batch
+        message: (ws, message) => {
+          const text = typeof message === 'string' ? message : new TextDecoder().decode(message)
+          this.receive(ws.data.peer ?? undefined, text + '\n')
+        },
+        close: (ws) => this.disconnect(ws.data.peer ?? undefined),
+      },
+    })
+  }
+
+  private originAllowed(origin: string): boolean {
+    const origins = this.options.origins ?? []
+    return origins.includes('*') || origins.includes(origin)
+  }
+
+  private connect(connection: BridgeConnection, preauthorized = false): Peer<C> {
+    const peer: Peer<C> = { connection, lines: new LineBuffer(), client: null }
+    if (connection.transport === 'unix' || !this.options.token || preauthorized) {
+      peer.client = this.handlers.open(connection)
+    }
+    return peer
+  }
+
+  private receive(peer: Peer<C> | undefined, data: Uint8Array | string): void {
+    if (!peer) return
+    for (const line of peer.lines.push(data)) {
+      if (peer.client !== null) {
+        this.handlers.line(peer.client, line)
+      } else if (!this.authenticate(peer, line)) {
+        return
+      }
+    }
+  }
+
+  // Handle a line from an unauthenticated connection; false once it is closed
+  private authenticate(peer: Peer<C>, line: string): boolean {
+    let message: { id?: JsonRpcId; method?: unknown; params?: unknown } | null = null
+    try {
+      const parsed = JSON.parse(line)
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) message = parsed
+    } catch {
+      // Answered below
+    }
+
+    const id = message?.id ?? null
+    if (message?.method !== 'auth') {
+      peer.connection.send(authResponse(id, 'Authentication required'))
+      return true
+    }
+
+    const params = message.params as Record<string, unknown> | unknown[] | undefined
+    if (!tokensMatch(this.options.token!, getParam(params, 'token', 0))) {
+      peer.connection.send(authResponse(id, 'Invalid token'))
+      peer.connection.close()
+      return false
+    }
+
+    peer.connection.send(authResponse(id))
+    peer.client = this.handlers.open(peer.connection)
+    return true
+  }
+
+  private disconnect(peer: Peer<C> | undefined): void {
+    if (peer?.client != null) {
+      this.handlers.close(peer.client)
+      peer.client = null
+    }
+  }
+}
@@ -12,10 +12,27 @@ import {
   decodeJsonPayload,
   encodeTypedArrayFrame,
   decodeTypedArrayPayload,
+  compressPayload,
+  negotiateCodec,
+  supportedCodecs,
 } from './frame.ts'
-import { MessageType, FRAME_HEADER_SIZE } from './protocol.ts'
+import { MessageType, MessageFlag, FRAME_HEADER_SIZE, PROTOCOL_VERSION, type ReadyMessage } from './protocol.ts'
 import { createTestSurface } from '../data/surface.ts'
-import { serializeSurface, deserializeSurface } from './serialize.ts'
+import {
+  serializeSurface,
+  deserializeSurface,
+  serializeChain,
+  deserializeChain,
+  serializeChainDelta,
+  deserializeChainDelta,
+  serializeSurfaceDelta,
+  deserializeSurfaceDelta,
+  encodeSurfaceDeltaPayload,
+} from './serialize.ts'
+import { createChain, createChainQuote, diffChains, applyChainDelta } from '../data/chain.ts'
+import { RpcClient, RpcServer } from './rpc.ts'
+import { negotiateHandshake } from './handshake.ts'
+import { SurfacePublisher, SurfaceReceiver, type SurfacePublisherOptions } from './stream.ts'
 
 describe('Frame encode/decode', () => {
   it('should encode and decode frame header', () => {
@@ -106,6 +123,102 @@ describe('FrameReader streaming', () => {
   })
 })
 
+describe('Frame compression', () => {
+  // Repetitive payload that compresses well
+  const text = new TextEncoder().encode('{"strike":70000,"iv":0.55}'.repeat(200))
+  const compression = { codec: 'deflate' as const, threshold: 1024 }
+
+  it('should round-trip compressed payloads with each codec', () => {
+    for (const codec of supportedCodecs()) {
+      const frame = encodeFrame(MessageType.SET_DATA, text, 0, 7, { codec, threshold: 1024 })
+      expect(frame[5]! & MessageFlag.COMPRESSED).toBe(MessageFlag.COMPRESSED)
+      expect(frame.length).toBeLessThan(text.length)
+
+      const decoded = decodeFrame(frame)
+      expect(decoded!.header.flags & MessageFlag.COMPRESSED).toBe(0)
+      expect(decoded!.header.length).toBe(text.length)
+      expect(decoded!.header.seq).toBe(7)
+      expect(decoded!.payload).toEqual(text)
+    }
+  })
+
+  it('should leave payloads below the threshold uncompressed', () => {
+    const payload = text.slice(0, 512)
+    const frame = encodeFrame(MessageType.SET_DATA, payload, 0, 0, compression)
+    expect(frame[5]! & MessageFlag.COMPRESSED).toBe(0)
+    expect(frame.length).toBe(FRAME_HEADER_SIZE + payload.length)
+  })
+
+  it('should leave incompressible payloads uncompressed', () => {
+    const noise = new Uint8Array(4096)
+    for (let i = 0; i < noise.length; i++) noise[i] = (Math.random() * 256) | 0
+
+    const frame = encodeFrame(MessageType.SET_DATA, noise, 0, 0, compression)
+    expect(frame[5]! & MessageFlag.COMPRESSED).toBe(0)
+    expect(decodeFrame(frame)!.payload).toEqual(noise)
+  })
+
+  it('should read mixed compressed and uncompressed frames from chunks', () => {
+    const frames = [
+      encodeFrame(MessageType.PING, new Uint8Array([1, 2, 3]), 0, 1, compression),
+      encodeFrame(MessageType.SET_DATA, text, 0, 2, compression),
+      encodeFrame(MessageType.PONG, new Uint8Array([4]), 0, 3),
+      encodeFrame(MessageType.APPEND_DATA, text, 0, 4, { codec: supportedCodecs()[0]!, threshold: 0 }),
+    ]
+    const combined = new Uint8Array(frames.reduce((sum, f) => sum + f.length, 0))
+    let offset = 0
+    for (const frame of frames) {
+      combined.set(frame, offset)
+      offset += frame.length
+    }
+
+    const reader = new FrameReader()
+    const read: Array<{ header: { type: MessageType; seq: number }; payload: Uint8Array }> = []
+    for (let i = 0; i < combined.length; i += 37) {
+      reader.append(combined.slice(i, i + 37))
+      read.push(...reader.readAll())
+    }
+
+    expect(read.map((f) => f.header.seq)).toEqual([1, 2, 3, 4])
+    expect(read[0]!.payload).toEqual(new Uint8Array([1, 2, 3]))
+    expect(read[1]!.payload).toEqual(text)
+    expect(read[2]!.payload).toEqual(new Uint8Array([4]))
+    expect(read[3]!.header.type).toBe(MessageType.APPEND_DATA)
+    expect(read[3]!.payload).toEqual(text)
+    expect(reader.pending).toBe(0)
+  })
+
+  it('should shrink large surface frames', () => {
+    const frame = serializeSurface(createTestSurface(200, 200))
+    const raw = decodeFrame(frame)!
+    const compressed = encodeFrame(raw.header.type, raw.payload, 0, 0, compression)
+    expect(compressed.length).toBeLessThan(frame.length)
+
+    const result = deserializeSurface(decodeFrame(compressed)!.payload)
+    expect(result.nx).toBe(200)
+    expect(result.ny).toBe(200)
+  })
+
+  it('should skip a corrupt compressed frame and keep reading', () => {
+    const bad = compressPayload(text, 'deflate')
+    bad.fill(0xff, 1)
+    const reader = new FrameReader()
+    reader.append(encodeFrame(MessageType.SET_DATA, bad, MessageFlag.COMPRESSED))
+    reader.append(encodeFrame(MessageType.PING, new Uint8Array([9])))
+
+    expect(() => reader.read()).toThrow('Failed to decompress frame')
+    const next = reader.read()
+    expect(next!.header.type).toBe(MessageType.PING)
+    expect(next!.payload).toEqual(new Uint8Array([9]))
+  })
+
+  it('should negotiate a codec both peers support', () => {
+    expect(negotiateCodec(['deflate'])).toBe('deflate')
+    expect(negotiateCodec(['lz4'])).toBeNull()
+    expect(negotiateCodec(undefined)).toBeNull()
+  })
+})
+
 describe('JSON frame encoding', () => {
   it('should encode and decode JSON payload', () => {
     const data = { foo: 'bar', num: 42, arr: [1, 2, 3] }
@@ -195,3 +308,356 @@ describe('Surface serialization', () => {
     expect(result.meta.yDomain[1]).toBeCloseTo(surface.meta.yDomain[1], 5)
   })
 })
+
+describe('Chain serialization', () => {
+  const expiry = Date.UTC(2024, 11, 27, 8)
+  const chain = createChain('BTC', Date.UTC(2024, 10, 1), 70000, [
+    createChainQuote({ instrument: 'BTC-27DEC24-60000-P', type: 'put', strike: 60000, expiry, bid: 850.5, ask: 910.25, markIv: 0.55 }),
+    createChainQuote({ instrument: 'BTC-27DEC24-80000-C', type: 'call', strike: 80000, expiry, last: 1200, underlyingPrice: 70350.5 }),
+  ])
+
+  it('should round-trip a full chain', () => {
+    const decoded = decodeFrame(serializeChain(chain))
+    expect(decoded!.header.type).toBe(MessageType.CHAIN_FULL)
+
+    const result = deserializeChain(decoded!.payload)
+    expect(result.underlying).toBe('BTC')
+    expect(result.timestamp).toBe(chain.timestamp)
+    expect(result.spot).toBe(70000)
+    // f64 columns are exact, missing fields stay NaN
+    expect(result.quotes).toEqual(chain.quotes)
+    expect(result.quotes[1]!.bid).toBeNaN()
+  })
+
+  it('should decode chains from unaligned payloads', () => {
+    const payload = decodeFrame(serializeChain(chain))!.payload
+    const shifted = new Uint8Array(payload.length + 3)
+    shifted.set(payload, 3)
+    expect(deserializeChain(shifted.subarray(3)).quotes).toEqual(chain.quotes)
+  })
+
+  it('should round-trip a chain delta', () => {
+    const next = createChain('BTC', chain.timestamp + 1000, 70100, [
+      { ...chain.quotes[0]!, bid: 860 },
+      createChainQuote({ type: 'call', strike: 90000, expiry, ask: 400 }),
+    ])
+    const delta = diffChains(chain, next)
+    expect(delta.updates.length).toBe(2)
+    expect(delta.removed).toEqual(['BTC-27DEC24-80000-C'])
+
+    const decoded = decodeFrame(serializeChainDelta(delta))
+    expect(decoded!.header.type).toBe(MessageType.CHAIN_DELTA)
+
+    const result = deserializeChainDelta(decoded!.payload)
+    expect(result).toEqual(delta)
+    expect(applyChainDelta(chain, result)).toEqual(next)
+  })
+})
+
+describe('Request/response RPC', () => {
+  // Client and server joined through encoded frames
+  function connect() {
+    const toClient = new FrameReader()
+    const toServer = new FrameReader()
+    const sent: number[] = []
+
+    const server: RpcServer = new RpcServer((type, payload, flags, seq) => {
+      toClient.append(encodeFrame(type, payload, flags, seq))
+      queueMicrotask(() => {
+        for (const { header, payload: p } of toClient.readAll()) client.handleFrame(header, p)
+      })
+    })
+    const client: RpcClient = new RpcClient((type, payload, flags, seq) => {
+      sent.push(seq)
+      toServer.append(encodeFrame(type, payload, flags, seq))
+      for (const { header, payload: p } of toServer.readAll()) server.handleFrame(header, p)
+    }, 'test')
+
+    return { client, server, sent }
+  }
+
+  const text = (s: string) => new TextEncoder().encode(s)
+  const read = (p: Uint8Array) => new TextDecoder().decode(p)
+
+  it('should correlate concurrent responses by seq', async () => {
+    const { client, server } = connect()
+    server.handle(MessageType.SET_DATA, async (payload) => {
+      await Bun.sleep(read(payload) === 'slow' ? 20 : 0)
+      return text(`ack:${read(payload)}`)
+    })
+
+    const [slow, fast] = await Promise.all([
+      client.request(MessageType.SET_DATA, text('slow')),
+      client.request(MessageType.SET_DATA, text('fast')),
+    ])
+    expect(read(slow.payload)).toBe('ack:slow')
+    expect(read(fast.payload)).toBe('ack:fast')
+    expect(slow.header.flags & MessageFlag.RESPONSE).toBeTruthy()
+    expect(client.inFlight).toBe(0)
+  })
+
+  it('should reject with handler errors and missing handlers', async () => {
+    const { client, server } = connect()
+    server.handle(MessageType.CLEAR, () => {
+      throw new Error('nothing to clear')
+    })
+
+    await expect(client.request(MessageType.CLEAR, new Uint8Array(0))).rejects.toThrow(
+      'Request CLEAR to test failed: nothing to clear'
+    )
+    await expect(client.request(MessageType.FOCUS, new Uint8Array(0))).rejects.toThrow('No handler for FOCUS')
+  })
+
+  it('should time out and cancel the handler', async () => {
+    const { client, server } = connect()
+    let aborted = false
+    server.handle(MessageType.RENDER_REQUEST, async (_, { signal }) => {
+      signal.addEventListener('abort', () => (aborted = true))
+      await Bun.sleep(50)
+      return text('late')
+    })
+
+    await expect(client.request(MessageType.RENDER_REQUEST, text('x'), { timeout: 10 })).rejects.toThrow(
+      'timed out after 10ms'
+    )
+    expect(aborted).toBe(true)
+    await Bun.sleep(60)
+    expect(client.inFlight).toBe(0)
+  })
+
+  it('should cancel through an AbortSignal', async () => {
+    const { client, server } = connect()
+    server.handle(MessageType.RENDER_REQUEST, () => new Promise(() => {}))
+
+    const controller = new AbortController()
+    const pending = client.request(MessageType.RENDER_REQUEST, text('x'), { signal: controller.signal })
+    controller.abort()
+    await expect(pending).rejects.toThrow('cancelled')
+    await expect(
+      client.request(MessageType.RENDER_REQUEST, text('x'), { signal: controller.signal })
+    ).rejects.toThrow('cancelled')
+  })
+
+  it('should wrap seq around and skip requests still in flight', async () => {
+    const { client, server, sent } = connect()
+    let release: () => void = () => {}
+    const gate = new Promise<void>((resolve) => (release = resolve))
+    server.handle(MessageType.PING, async (payload) => {
+      if (read(payload) === 'hold') await gate
+      return payload
+    })
+
+    // seq 1 stays in flight while the counter jumps to the top of the range
+    const held = client.request(MessageType.PING, text('hold'))
+    const internals = client as unknown as { nextSeq: number }
+    internals.nextSeq = 0xffff
+    await client.request(MessageType.PING, text('a'))
+    const wrapped = await client.request(MessageType.PING, text('b'))
+
+    expect(sent[0]).toBe(1)
+    expect(sent[1]).toBe(0xffff)
+    // 0 is reserved and 1 is busy, so the next request uses 2
+    expect(wrapped.header.seq).toBe(2)
+
+    release()
+    expect(read((await held).payload)).toBe('hold')
+  })
+
+  it('should reject everything in flight when the peer goes away', async () => {
+    const client = new RpcClient(() => {}, 'gone')
+    const pending = client.request(MessageType.PING, new Uint8Array(0))
+    client.rejectAll('Column gone exited with code 1')
+    await expect(pending).rejects.toThrow('exited with code 1')
+  })
+})
+
+describe('Surface streaming', () => {
+  type Sent = { type: MessageType; payload: Uint8Array; seq: number }
+
+  // Publisher wired to a receiver through encoded frames
+  function createStream(options: SurfacePublisherOptions = {}) {
+    const sent: Sent[] = []
+    let resyncs = 0
+    const publisher = new SurfacePublisher((type, payload, _flags, seq) => sent.push({ type, payload, seq }), options)
+    const receiver = new SurfaceReceiver(() => {
+      resyncs++
+      publisher.resync()
+    })
+    const deliver = (frame: Sent) => {
+      const decoded = decodeFrame(encodeFrame(frame.type, frame.payload, 0, frame.seq))!
+      receiver.handleFrame(decoded.header, decoded.payload)
+    }
+    return { sent, publisher, receiver, deliver, resyncs: () => resyncs }
+  }
+
+  it('should round-trip delta payloads with a timestamp', () => {
+    const indices = new Uint32Array([3, 7])
+    const values = new Float32Array([0.5, 0.25])
+    const decoded = decodeFrame(serializeSurfaceDelta(indices, values, 1700000000000, 9))!
+    expect(decoded.header.type).toBe(MessageType.SURFACE_DELTA)
+    expect(decoded.header.seq).toBe(9)
+
+    const delta = deserializeSurfaceDelta(decoded.payload)
+    expect(Array.from(delta.indices)).toEqual([3, 7])
+    expect(Array.from(delta.values)).toEqual([0.5, 0.25])
+    expect(delta.timestamp).toBe(1700000000000)
+
+    expect(deserializeSurfaceDelta(decodeFrame(serializeSurfaceDelta(indices, values))!.payload).timestamp).toBeUndefined()
+  })
+
+  it('should send a keyframe, then deltas with only the changed cells', () => {
+    const { sent, publisher, receiver, deliver } = createStream({ tolerance: 1e-4 })
+    const surface = createTestSurface(20, 10)
+
+    expect(publisher.publish(surface)).toBe('full')
+    surface.z[5] = surface.z[5]! + 0.01
+    surface.z[42] = surface.z[42]! - 0.02
+    surface.z[43] = surface.z[43]! + 1e-6 // below tolerance
+    expect(publisher.publish(surface)).toBe('delta')
+    expect(publisher.publish(surface)).toBe('none')
+
+    expect(sent.map((f) => f.type)).toEqual([MessageType.SURFACE_FULL, MessageType.SURFACE_DELTA])
+    expect(sent.map((f) => f.seq)).toEqual([1, 2])
+    expect(deserializeSurfaceDelta(sent[1]!.payload).indices.length).toBe(2)
+
+    sent.forEach(deliver)
+    const received = receiver.surface!
+    expect(received.z[5]).toBeCloseTo(surface.z[5]!, 5)
+    expect(received.z[42]).toBeCloseTo(surface.z[42]!, 5)
+    expect(receiver.stats).toMatchObject({ keyframes: 1, deltas: 1, gaps: 0 })
+  })
+
+  it('should send keyframes periodically and when the grid changes', () => {
+    const { sent, publisher } = createStream({ keyframeInterval: 2 })
+    const surface = createTestSurface(10, 10)
+
+    const results = [0, 1, 2, 3].map((i) => {
+      surface.z[i] = surface.z[i]! + 0.1
+      return publisher.publish(surface)
+    })
+    expect(results).toEqual(['full', 'delta', 'delta', 'full'])
+    expect(publisher.publish(createTestSurface(12, 10))).toBe('full')
+    expect(sent.length).toBe(5)
+  })
+
+  it('should send a keyframe when most cells changed', () => {
+    const { publisher } = createStream()
+    const surface = createTestSurface(10, 10)
+    publisher.publish(surface)
+    for (let i = 0; i < surface.z.length; i++) surface.z[i] = surface.z[i]! + 0.1
+    expect(publisher.publish(surface)).toBe('full')
+  })
+
+  it('should request a resync on a seq gap and recover from the keyframe', () => {
+    const { sent, publisher, receiver, deliver, resyncs } = createStream()
+    const surface = createTestSurface(10, 10)
+
+    publisher.publish(surface)
+    for (const i of [1, 2, 3]) {
+      surface.z[i] = surface.z[i]! + 0.1
+      publisher.publish(surface)
+    }
+    // Lose the first delta
+    deliver(sent[0]!)
+    deliver(sent[2]!)
+    expect(resyncs()).toBe(1)
+    expect(receiver.synced).toBe(false)
+    expect(receiver.surface!.z[2]).not.toBeCloseTo(surface.z[2]!, 5)
+
+    // Later deltas are dropped without asking again; the keyframe answer resyncs
+    deliver(sent[3]!)
+    expect(resyncs()).toBe(1)
+    expect(sent[4]!.type).toBe(MessageType.SURFACE_FULL)
+    deliver(sent[4]!)
+    expect(receiver.synced).toBe(true)
+    for (const i of [1, 2, 3]) {
+      expect(receiver.surface!.z[i]).toBeCloseTo(surface.z[i]!, 5)
+    }
+
+    surface.z[9] = 0.9
+    publisher.publish(surface)
+    deliver(sent[5]!)
+    expect(receiver.surface!.z[9]).toBeCloseTo(0.9, 5)
+    expect(receiver.stats).toMatchObject({ keyframes: 2, deltas: 1, gaps: 1, resyncs: 1 })
+  })
+
+  it('should request a keyframe for deltas before the first one', () => {
+    const requests: number[] = []
+    const receiver = new SurfaceReceiver(() => requests.push(1))
+    const frame = decodeFrame(serializeSurfaceDelta(new Uint32Array([0]), new Float32Array([1]), undefined, 4))!
+    expect(receiver.handleFrame(frame.header, frame.payload)).toBe(true)
+    expect(receiver.surface).toBeNull()
+    expect(requests.length).toBe(1)
+  })
+
+  it('should treat out-of-range delta indices as a gap', () => {
+    const { sent, publisher, receiver, deliver, resyncs } = createStream()
+    publisher.publish(createTestSurface(4, 4))
+    deliver(sent[0]!)
+
+    deliver({ type: MessageType.SURFACE_DELTA, payload: encodeSurfaceDeltaPayload(new Uint32Array([99]), new Float32Array([1])), seq: 2 })
+    expect(resyncs()).toBe(1)
+    expect(receiver.stats.gaps).toBe(1)
+  })
+
+  it('should wrap stream seq past 65535 without a gap', () => {
+    const { sent, publisher, receiver, deliver } = createStream({ keyframeInterval: 1e9 })
+    const surface = createTestSurface(4, 4)
+    publisher.publish(surface)
+    deliver(sent[0]!)
+    const internals = receiver as unknown as { lastSeq: number }
+    const publisherInternals = publisher as unknown as { seq: number }
+    internals.lastSeq = 65535
+    publisherInternals.seq = 65535
+
+    surface.z[0] = 0.42
+    publisher.publish(surface)
+    expect(sent[1]!.seq).toBe(1)
+    deliver(sent[1]!)
+    expect(receiver.synced).toBe(true)
+    expect(receiver.surface!.z[0]).toBeCloseTo(0.42, 5)
+  })
+})
+
+describe('Protocol handshake', () => {
+  it('should accept current workers and share their features', () => {
+    const handshake = negotiateHandshake(
+      { columnId: 'c1', protocol: PROTOCOL_VERSION, features: ['requests', 'compression'], widgets: ['list', 'table'] },
+      'list'
+    )
+    expect(handshake).toEqual({
+      protocol: PROTOCOL_VERSION,
+      features: ['compression', 'requests'],
+      widgets: ['list', 'table'],
+      compatible: true,
+      error: null,
+    })
+  })
+
+  it('should treat workers without a version as protocol 1', () => {
+    expect(negotiateHandshake({ columnId: 'c1' }, 'list')).toMatchObject({ protocol: 1, features: [], compatible: true })
+    expect(negotiateHandshake({ columnId: 'c1', compression: ['deflate'] }, 'list').features).toEqual(['compression'])
+    expect(negotiateHandshake(null, 'list').compatible).toBe(true)
+  })
+
+  it('should reject unsupported protocol versions', () => {
+    const handshake = negotiateHandshake({ columnId: 'c1', protocol: PROTOCOL_VERSION + 1 }, 'list')
+    expect(handshake.compatible).toBe(false)
+    expect(handshake.error).toContain(`protocol ${PROTOCOL_VERSION + 1}`)
+  })
+
+  it('should reject workers that cannot render the column widget', () => {
+    const ready: ReadyMessage = { columnId: 'c1', protocol: PROTOCOL_VERSION, widgets: ['list'] }
+    const handshake = negotiateHandshake(ready, 'surface')
+    expect(handshake.compatible).toBe(false)
+    expect(handshake.error).toBe('worker cannot render widget type surface (supports list)')
+
+    // Custom column types are served by the worker's own handlers
+    expect(negotiateHandshake(ready, 'detail').compatible).toBe(true)
+  })
+
+  it('should ignore unknown features', () => {
+    const ready = { columnId: 'c1', protocol: PROTOCOL_VERSION, features: ['teleport', 'requests'] }
+    expect(negotiateHandshake(ready as ReadyMessage, 'list').features).toEqual(['requests'])
+  })
+})
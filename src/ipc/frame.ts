@@ -1,21 +1,92 @@
 /**
  * Binary frame encode/decode
  * Frame format: [length: u32][type: u8][flags: u8][seq: u16][payload: u8[]]
+ *
+ * Compressed frames set MessageFlag.COMPRESSED and carry
+ * [codec: u8][compressed payload]. Decoding is transparent: readers return
+ * the original payload with the flag cleared and length updated.
  */
 
 import {
+  type CompressionCodec,
   type FrameHeader,
   type MessageType,
+  MessageFlag,
   FRAME_HEADER_SIZE,
 } from './protocol.ts'
 
+export type { CompressionCodec }
+
+/**
+ * Negotiated payload compression
+ */
+export interface FrameCompression {
+  codec: CompressionCodec
+  threshold: number // Only payloads of at least this many bytes are compressed
+}
+
+export const DEFAULT_COMPRESSION_THRESHOLD = 16 * 1024
+
+// Codec tags (first payload byte of compressed frames)
+const CODEC_TAGS: Record<CompressionCodec, number> = { deflate: 1, zstd: 2 }
+
+// Codecs this runtime can encode and decode, in order of preference
+export function supportedCodecs(): CompressionCodec[] {
+  const codecs: CompressionCodec[] = []
+  if (typeof Bun.zstdCompressSync === 'function') codecs.push('zstd')
+  codecs.push('deflate')
+  return codecs
+}
+
+// Pick our most preferred codec that the peer also supports
+export function negotiateCodec(peer: readonly string[] | undefined): CompressionCodec | null {
+  if (!peer) return null
+  return supportedCodecs().find((c) => peer.includes(c)) ?? null
+}
+
+// Compress payload, prefixed with its codec tag
+export function compressPayload(payload: Uint8Array, codec: CompressionCodec): Uint8Array {
+  const input = payload as Uint8Array<ArrayBuffer>
+  const body = codec === 'zstd' ? Bun.zstdCompressSync(input) : Bun.deflateSync(input)
+  const out = new Uint8Array(1 + body.length)
+  out[0] = CODEC_TAGS[codec]
+  out.set(body, 1)
+  return out
+}
+
+// Decompress a codec-tagged payload
+// The result is copied into its own buffer so typed-array views stay aligned
+export function decompressPayload(data: Uint8Array): Uint8Array {
+  const tag = data[0]
+  const body = data.subarray(1) as Uint8Array<ArrayBuffer>
+  switch (tag) {
+    case CODEC_TAGS.deflate:
+      return new Uint8Array(Bun.inflateSync(body))
+    case CODEC_TAGS.zstd:
+      return new Uint8Array(Bun.zstdDecompressSync(body))
+    default:
+      throw new Error(`Unknown compression codec tag: ${tag}`)
+  }
+}
+
 // Encode frame header + payload into binary
+// With compression, payloads at or above the threshold are compressed
+// when that makes them smaller
 export function encodeFrame(
   type: MessageType,
   payload: Uint8Array,
   flags = 0,
-  seq = 0
+  seq = 0,
+  compression?: FrameCompression | null
 ): Uint8Array {
+  if (compression && payload.length >= compression.threshold && !(flags & MessageFlag.COMPRESSED)) {
+    const compressed = compressPayload(payload, compression.codec)
+    if (compressed.length < payload.length) {
+      payload = compressed
+      flags |= MessageFlag.COMPRESSED
+    }
+  }
+
   const frame = new Uint8Array(FRAME_HEADER_SIZE + payload.length)
   const view = new DataView(frame.buffer)
 
@@ -59,7 +130,28 @@ export function decodeFrame(data: Uint8Array): {
     FRAME_HEADER_SIZE,
     FRAME_HEADER_SIZE + header.length
   )
-  return { header, payload }
+  return inflateFrame(header, payload)
+}
+
+// Undo payload compression, clearing the flag
+function inflateFrame(
+  header: FrameHeader,
+  payload: Uint8Array
+): { header: FrameHeader; payload: Uint8Array } {
+  if (!(header.flags & MessageFlag.COMPRESSED)) {
+    return { header, payload }
+  }
+
+  let inflated: Uint8Array
+  try {
+    inflated = decompressPayload(payload)
+  } catch (err) {
+    throw new Error(`Failed to decompress frame: ${(err as Error).message}`)
+  }
+  return {
+    header: { ...header, length: inflated.length, flags: header.flags & ~MessageFlag.COMPRESSED },
+    payload: inflated,
+  }
 }
 
 // Frame reader for streaming data
@@ -75,6 +167,7 @@ export class FrameReader {
   }
 
   // Try to read a complete frame, returns null if incomplete
+  // A frame that fails to decompress is consumed before the error is thrown
   read(): { header: FrameHeader; payload: Uint8Array } | null {
     if (this.buffer.length < FRAME_HEADER_SIZE) {
       return null
@@ -93,7 +186,7 @@ export class FrameReader {
     // Remove consumed data from buffer
     this.buffer = this.buffer.slice(frameSize)
 
-    return { header, payload }
+    return inflateFrame(header, payload)
   }
 
   // Read all complete frames
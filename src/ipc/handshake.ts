@@ -0,0 +1,58 @@
+/**
+ * Protocol handshake
+ *
+ * Workers announce their protocol version, features and widget types in
+ * READY; the main process checks them against its own and answers with the
+ * negotiated features in INIT, or with an ERROR for incompatible workers.
+ */
+
+import {
+  MIN_PROTOCOL_VERSION,
+  PROTOCOL_FEATURES,
+  PROTOCOL_VERSION,
+  type ProtocolFeature,
+  type ReadyMessage,
+} from './protocol.ts'
+import { WIDGET_TYPES } from '../config/types.ts'
+
+/**
+ * Negotiated state of one worker connection
+ */
+export interface Handshake {
+  protocol: number // Worker's protocol version
+  features: ProtocolFeature[] // Supported by both sides
+  widgets: string[] | null // Built-in widget types the worker renders; null if unreported
+  compatible: boolean
+  error: string | null // Why the worker was rejected
+}
+
+// Error code carried in the ERROR frame sent to rejected workers
+export const HandshakeErrorCode = {
+  INCOMPATIBLE: 3,
+} as const
+
+/**
+ * Check a worker's READY against this build
+ * @param ready - Parsed READY payload, or null for a bare READY
+ * @param widgetType - Widget type the column is configured with; only built-in
+ *   types are checked against the worker's list
+ */
+export function negotiateHandshake(ready: ReadyMessage | null, widgetType: string): Handshake {
+  const protocol = ready?.protocol ?? 1
+
+  // Version 1 workers only signal compression, by listing codecs
+  const offered: string[] =
+    ready?.protocol === undefined ? (ready?.compression?.length ? ['compression'] : []) : (ready.features ?? [])
+  const features = PROTOCOL_FEATURES.filter((f) => offered.includes(f))
+  const widgets = ready?.widgets ?? null
+
+  let error: string | null = null
+  if (!Number.isInteger(protocol) || protocol < MIN_PROTOCOL_VERSION || protocol > PROTOCOL_VERSION) {
+    error = `worker speaks protocol ${protocol}; this build supports ${MIN_PROTOCOL_VERSION}-${PROTOCOL_VERSION}`
+  } else if (widgets && (WIDGET_TYPES as readonly string[]).includes(widgetType) && !widgets.includes(widgetType)) {
+    // Types outside WIDGET_TYPES are custom columns the worker serves through its own handlers
+    error = `worker cannot render widget type ${widgetType} (supports ${widgets.join(', ') || 'none'})`
+  }
+
+  return { protocol, features, widgets, compatible: error === null, error }
+}
@@ -0,0 +1,154 @@
+/**
+ * Unit tests for the JSON-RPC 2.0 server
+ */
+
+import { describe, it, expect } from 'bun:test'
+import {
+  JsonRpcErrorCode,
+  JsonRpcServer,
+  LineBuffer,
+  encodeNotification,
+  jsonRpcError,
+  requireParam,
+} from './jsonrpc.ts'
+
+function createServer() {
+  const calls: string[] = []
+  const server = new JsonRpcServer<{ name: string }>()
+    .method('add', (params) => (requireParam(params, 'a', 0) as number) + (requireParam(params, 'b', 1) as number))
+    .method('whoami', (_params, client) => client.name)
+    .method('log', (params) => {
+      calls.push(String(requireParam(params, 'message', 0)))
+    })
+    .method('fail', () => {
+      throw new Error('boom')
+    })
+    .method('reject', () => {
+      throw jsonRpcError(-32001, 'Not allowed', { reason: 'readonly' })
+    })
+    .method('slow', async () => {
+      await Bun.sleep(5)
+      return 'done'
+    })
+  return { server, calls }
+}
+
+const client = { name: 'tester' }
+
+async function call(server: JsonRpcServer<{ name: string }>, message: unknown): Promise<unknown> {
+  const line = typeof message === 'string' ? message : JSON.stringify(message)
+  const response = await server.handleLine(line, client)
+  return response === null ? null : JSON.parse(response)
+}
+
+describe('JSON-RPC server', () => {
+  it('should answer requests with by-name and by-position params', async () => {
+    const { server } = createServer()
+    expect(await call(server, { jsonrpc: '2.0', id: 1, method: 'add', params: { a: 2, b: 3 } })).toEqual({
+      jsonrpc: '2.0',
+      id: 1,
+      result: 5,
+    })
+    expect(await call(server, { jsonrpc: '2.0', id: 'x', method: 'add', params: [4, 5] })).toEqual({
+      jsonrpc: '2.0',
+      id: 'x',
+      result: 9,
+    })
+    expect(await call(server, { jsonrpc: '2.0', id: 2, method: 'whoami' })).toMatchObject({ result: 'tester' })
+    expect(await call(server, { jsonrpc: '2.0', id: 3, method: 'slow' })).toMatchObject({ result: 'done' })
+
+    // Older clients omit the version
+    expect(await call(server, { id: 4, method: 'add', params: [1, 2] })).toEqual({ jsonrpc: '2.0', id: 4, result: 3 })
+  })
+
+  it('should not answer notifications', async () => {
+    const { server, calls } = createServer()
+    expect(await call(server, { jsonrpc: '2.0', method: 'log', params: ['hello'] })).toBeNull()
+    expect(await call(server, { jsonrpc: '2.0', method: 'missing' })).toBeNull()
+    expect(await call(server, { jsonrpc: '2.0', method: 'fail' })).toBeNull()
+    expect(calls).toEqual(['hello'])
+  })
+
+  it('should return error objects', async () => {
+    const { server } = createServer()
+    const error = async (message: unknown) => ((await call(server, message)) as { error: unknown; id: unknown })
+
+    expect(await call(server, '{"jsonrpc": "2.0", "method"')).toEqual({
+      jsonrpc: '2.0',
+      id: null,
+      error: { code: JsonRpcErrorCode.PARSE_ERROR, message: 'Parse error' },
+    })
+    expect((await error({ jsonrpc: '1.0', id: 1, method: 'add' })).error).toMatchObject({
+      code: JsonRpcErrorCode.INVALID_REQUEST,
+    })
+    expect((await error({ jsonrpc: '2.0', id: 1, method: 'nope' })).error).toMatchObject({
+      code: JsonRpcErrorCode.METHOD_NOT_FOUND,
+      message: 'Method not found: nope',
+    })
+    expect((await error({ jsonrpc: '2.0', id: 1, method: 'add', params: { a: 1 } })).error).toMatchObject({
+      code: JsonRpcErrorCode.INVALID_PARAMS,
+      message: 'Missing param: b',
+    })
+    expect((await error({ jsonrpc: '2.0', id: 1, method: 'add', params: 7 })).error).toMatchObject({
+      code: JsonRpcErrorCode.INVALID_REQUEST,
+    })
+    expect((await error({ jsonrpc: '2.0', id: 1, method: 'fail' })).error).toEqual({
+      code: JsonRpcErrorCode.SERVER_ERROR,
+      message: 'boom',
+    })
+    expect((await error({ jsonrpc: '2.0', id: 1, method: 'reject' })).error).toEqual({
+      code: -32001,
+      message: 'Not allowed',
+      data: { reason: 'readonly' },
+    })
+    expect(await error({ jsonrpc: '2.0', id: { bad: true }, method: 'add' })).toMatchObject({
+      id: null,
+      error: { code: JsonRpcErrorCode.INVALID_REQUEST },
+    })
+  })
+
+  it('should handle batches', async () => {
+    const { server, calls } = createServer()
+    const responses = await call(server, [
+      { jsonrpc: '2.0', id: 1, method: 'add', params: [1, 1] },
+      { jsonrpc: '2.0', method: 'log', params: { message: 'batched' } },
+      { jsonrpc: '2.0', id: 2, method: 'nope' },
+      42,
+    ])
+
+    expect(responses).toEqual([
+      { jsonrpc: '2.0', id: 1, result: 2 },
+      { jsonrpc: '2.0', id: 2, error: { code: JsonRpcErrorCode.METHOD_NOT_FOUND, message: 'Method not found: nope' } },
+      { jsonrpc: '2.0', id: null, error: { code: JsonRpcErrorCode.INVALID_REQUEST, message: 'Invalid Request' } },
+    ])
+    expect(calls).toEqual(['batched'])
+
+    expect(await call(server, [{ jsonrpc: '2.0', method: 'log', params: ['quiet'] }])).toBeNull()
+    expect(await call(server, [])).toMatchObject({ error: { code: JsonRpcErrorCode.INVALID_REQUEST } })
+  })
+
+  it('should encode notifications', () => {
+    expect(encodeNotification('data', { x: 1 })).toBe('{"jsonrpc":"2.0","method":"data","params":{"x":1}}\n')
+    expect(encodeNotification('ping')).toBe('{"jsonrpc":"2.0","method":"ping"}\n')
+  })
+})
+
+describe('LineBuffer', () => {
+  it('should keep partial lines until they complete', () => {
+    const lines = new LineBuffer()
+    expect(lines.push('{"a":1}\n{"b"')).toEqual(['{"a":1}'])
+    expect(lines.pending).toBe(4)
+    expect(lines.push(':2}\r\n\n{"c":3}\n')).toEqual(['{"b":2}', '{"c":3}'])
+    expect(lines.pending).toBe(0)
+  })
+
+  it('should join UTF-8 sequences split across chunks', () => {
+    const bytes = new TextEncoder().encode('{"label":"σ→∞"}\n')
+    const lines = new LineBuffer()
+    const out: string[] = []
+    for (let i = 0; i < bytes.length; i += 3) {
+      out.push(...lines.push(bytes.slice(i, i + 3)))
+    }
+    expect(out).toEqual(['{"label":"σ→∞"}'])
+  })
+})
@@ -0,0 +1,192 @@
+/**
+ * JSON-RPC 2.0 over newline-delimited streams
+ * Used by column sockets: one JSON message (or batch array) per line.
+ */
+
+export const JsonRpcErrorCode = {
+  PARSE_ERROR: -32700,
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+  INTERNAL_ERROR: -32603,
+  SERVER_ERROR: -32000, // Handler threw a plain Error
+  UNAUTHORIZED: -32001, // Network bridge connection has not authenticated
+} as const
+
+export type JsonRpcId = string | number | null
+
+export interface JsonRpcErrorObject {
+  code: number
+  message: string
+  data?: unknown
+}
+
+export interface JsonRpcResponse {
+  jsonrpc: '2.0'
+  id: JsonRpcId
+  result?: unknown
+  error?: JsonRpcErrorObject
+}
+
+export interface JsonRpcNotification {
+  jsonrpc: '2.0'
+  method: string
+  params?: unknown
+}
+
+// params is an object (by-name), an array (by-position), or undefined
+export type JsonRpcParams = Record<string, unknown> | unknown[] | undefined
+
+export type JsonRpcMethod<C> = (params: JsonRpcParams, client: C) => unknown | Promise<unknown>
+
+/**
+ * Error carrying a JSON-RPC error code, for handlers to throw
+ */
+export function jsonRpcError(code: number, message: string, data?: unknown): Error & JsonRpcErrorObject {
+  return Object.assign(new Error(message), { code, data })
+}
+
+/**
+ * Read a named (or positional) parameter
+ * @param index - Position used when params is an array
+ */
+export function getParam(params: JsonRpcParams, name: string, index: number): unknown {
+  if (Array.isArray(params)) return params[index]
+  return params?.[name]
+}
+
+/**
+ * Read a parameter that must be present, failing with INVALID_PARAMS
+ */
+export function requireParam(params: JsonRpcParams, name: string, index: number): unknown {
+  const value = getParam(params, name, index)
+  if (value === undefined) {
+    throw jsonRpcError(JsonRpcErrorCode.INVALID_PARAMS, `Missing param: ${name}`)
+  }
+  return value
+}
+
+/**
+ * Splits a byte stream into lines, keeping partial lines (and partial
+ * UTF-8 sequences) until the rest arrives
+ */
+export class LineBuffer {
+  private decoder = new TextDecoder()
+  private partial = ''
+
+  push(chunk: Uint8Array | string): string[] {
+    this.partial += typeof chunk === 'string' ? chunk : this.decoder.decode(chunk, { stream: true })
+    const lines = this.partial.split('\n')
+    this.partial = lines.pop()!
+    return lines.map((l) => l.replace(/\r$/, '')).filter((l) => l.trim() !== '')
+  }
+
+  get pending(): number {
+    return this.partial.length
+  }
+}
+
+function errorResponse(id: JsonRpcId, code: number, message: string, data?: unknown): JsonRpcResponse {
+  const error: JsonRpcErrorObject = { code, message }
+  if (data !== undefined) error.data = data
+  return { jsonrpc: '2.0', id, error }
+}
+
+function isValidId(id: unknown): id is JsonRpcId {
+  return id === null || typeof id === 'string' || (typeof id === 'number' && Number.isFinite(id))
+}
+
+/**
+ * Dispatches JSON-RPC requests to registered methods
+ * @typeParam C - Per-connection context passed to methods
+ */
+export class JsonRpcServer<C = undefined> {
+  private methods: Map<string, JsonRpcMethod<C>> = new Map()
+
+  method(name: string, handler: JsonRpcMethod<C>): this {
+    this.methods.set(name, handler)
+    return this
+  }
+
+  get methodNames(): string[] {
+    return Array.from(this.methods.keys())
+  }
+
+  /**
+   * Handle one line: a request, a notification, or a batch
+   * Returns the serialized response, or null when nothing is owed
+   * (notifications, or a batch of only notifications)
+   */
+  async handleLine(line: string, client: C): Promise<string | null> {
+    let message: unknown
+    try {
+      message = JSON.parse(line)
+    } catch {
+      return JSON.stringify(errorResponse(null, JsonRpcErrorCode.PARSE_ERROR, 'Parse error'))
+    }
+
+    if (Array.isArray(message)) {
+      if (message.length === 0) {
+        return JSON.stringify(errorResponse(null, JsonRpcErrorCode.INVALID_REQUEST, 'Invalid Request: empty batch'))
+      }
+      const responses = await Promise.all(message.map((m) => this.handleMessage(m, client)))
+      const owed = responses.filter((r): r is JsonRpcResponse => r !== null)
+      return owed.length > 0 ? JSON.stringify(owed) : null
+    }
+
+    const response = await this.handleMessage(message, client)
+    return response ? JSON.stringify(response) : null
+  }
+
+  private async handleMessage(message: unknown, client: C): Promise<JsonRpcResponse | null> {
+    if (typeof message !== 'object' || message === null || Array.isArray(message)) {
+      return errorResponse(null, JsonRpcErrorCode.INVALID_REQUEST, 'Invalid Request')
+    }
+
+    const request = message as Record<string, unknown>
+    const isNotification = !('id' in request)
+    const id = isNotification ? null : request.id
+
+    if (!isValidId(id)) {
+      return errorResponse(null, JsonRpcErrorCode.INVALID_REQUEST, 'Invalid Request: bad id')
+    }
+    // A missing "jsonrpc" member is tolerated for clients written before the server was strict
+    if ((request.jsonrpc !== undefined && request.jsonrpc !== '2.0') || typeof request.method !== 'string') {
+      return errorResponse(id, JsonRpcErrorCode.INVALID_REQUEST, 'Invalid Request')
+    }
+    const params = request.params
+    if (params !== undefined && (typeof params !== 'object' || params === null)) {
+      return errorResponse(id, JsonRpcErrorCode.INVALID_REQUEST, 'Invalid Request: params must be an object or array')
+    }
+
+    const handler = this.methods.get(request.method)
+    if (!handler) {
+      return isNotification
+        ? null
+        : errorResponse(id, JsonRpcErrorCode.METHOD_NOT_FOUND, `Method not found: ${request.method}`)
+    }
+
+    try {
+      const result = await handler(params as JsonRpcParams, client)
+      return isNotification ? null : { jsonrpc: '2.0', id, result: result ?? null }
+    } catch (err) {
+      if (isNotification) return null
+      const { code, message, data } = err as Partial<JsonRpcErrorObject>
+      return errorResponse(
+        id,
+        typeof code === 'number' ? code : JsonRpcErrorCode.SERVER_ERROR,
+        message ?? String(err),
+        data
+      )
+    }
+  }
+}
+
+/**
+ * Serialize a notification line (no id, no response expected)
+ */
+export function encodeNotification(method: string, params?: unknown): string {
+  const notification: JsonRpcNotification = { jsonrpc: '2.0', method }
+  if (params !== undefined) notification.params = params
+  return JSON.stringify(notification) + '\n'
+}
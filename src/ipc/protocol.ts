@@ -2,6 +2,10 @@
  * IPC Protocol - Message types and flags
  */
 
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import type { BridgeAddress } from './bridge.ts'
+
 export enum MessageType {
   // Control (0x00-0x0F)
   INIT = 0x00,
@@ -11,6 +15,7 @@ export enum MessageType {
   PONG = 0x04,
   ERROR = 0x05,
   ACK = 0x06,
+  CANCEL = 0x07, // abandon the request with this seq
 
   // Data (0x10-0x1F)
   SURFACE_FULL = 0x10,
@@ -19,6 +24,7 @@ export enum MessageType {
   CHAIN_DELTA = 0x13,
   TIMESERIES = 0x14,
   DISPERSION = 0x15,
+  SURFACE_RESYNC = 0x16, // receiver missed a delta; publisher answers with SURFACE_FULL
 
   // Widget (0x20-0x2F)
   SET_DATA = 0x20,
@@ -28,6 +34,8 @@ export enum MessageType {
   FOCUS = 0x24,
   RESIZE = 0x25,
   SET_TITLE = 0x26,
+  ACTION = 0x27, // named action from event wiring (JSON ActionMessage)
+  INPUT = 0x28, // key press for the focused column (JSON InputMessage)
 
   // Events - column → parent (0x30-0x3F)
   SELECTED = 0x30,
@@ -35,6 +43,7 @@ export enum MessageType {
   SUBMITTED = 0x32,
   KEY_PRESSED = 0x33,
   SCROLL_CHANGED = 0x34,
+  EVENT = 0x35, // named custom event (JSON EventMessage)
 
   // Render (0x40-0x4F)
   RENDER_REQUEST = 0x40,
@@ -75,14 +84,54 @@ export interface IPCMessage<T = unknown> {
   payload: T
 }
 
+// Protocol version spoken by this build (workers that predate the handshake are version 1)
+export const PROTOCOL_VERSION = 2
+// Oldest worker protocol the main process still accepts
+export const MIN_PROTOCOL_VERSION = 1
+
+// Name prefix of instance socket directories, which clients scan the temp dir for
+export const SOCKET_DIR_PREFIX = 'sixcol-'
+
+/**
+ * Socket directory of an instance started without settings.socketDir: under
+ * the OS temp dir (TMPDIR when set), where the TypeScript and Python clients
+ * look for it
+ */
+export function defaultSocketDir(): string {
+  return join(tmpdir(), `${SOCKET_DIR_PREFIX}${Date.now()}`)
+}
+
+/**
+ * Optional protocol features, negotiated in READY/INIT
+ * - compression: COMPRESSED frames (see frame.ts)
+ * - surface-delta: SURFACE_DELTA streams with SURFACE_RESYNC (see stream.ts)
+ * - requests: REQUEST/RESPONSE frames and CANCEL (see rpc.ts)
+ * - render: RENDER_REQUEST/RENDER_RESULT text rendering (see widgets/text.ts)
+ * - input: INPUT key presses, e.g. for form columns (see widgets/form.ts)
+ */
+export type ProtocolFeature = 'compression' | 'surface-delta' | 'requests' | 'render' | 'input'
+
+export const PROTOCOL_FEATURES: readonly ProtocolFeature[] = ['compression', 'surface-delta', 'requests', 'render', 'input']
+
+// Payload compression codecs (see frame.ts)
+export type CompressionCodec = 'deflate' | 'zstd'
+
 // Control messages
 export interface InitMessage {
   columnId: string
   config: Record<string, unknown>
+  compression?: { codec: CompressionCodec; threshold: number } | null // Used by both sides
+  protocol?: number // Main process protocol version
+  features?: ProtocolFeature[] // Features both sides support
 }
 
 export interface ReadyMessage {
   columnId: string
+  compression?: CompressionCodec[] // Codecs the worker can decode; absent for old workers
+  protocol?: number // Absent for workers that predate the handshake
+  features?: ProtocolFeature[]
+  widgets?: string[] // Built-in widget types the worker renders; absent means any
+  bridge?: BridgeAddress // TCP/WebSocket listeners, when configured
 }
 
 export interface ShutdownMessage {
@@ -115,6 +164,7 @@ export interface SurfaceFullMessage {
 export interface SurfaceDeltaMessage {
   indices: Uint32Array // flat indices that changed
   values: Float32Array // new values
+  timestamp?: number // surface timestamp after the update
 }
 
 // Widget messages
@@ -128,6 +178,15 @@ export interface AppendDataMessage {
   data: unknown
 }
 
+// Key press forwarded to a column: a printable character, or up, down, left,
+// right, return, escape, tab, backspace, delete, pageup, pagedown
+export interface InputMessage {
+  key: string
+  ctrl?: boolean
+  alt?: boolean
+  shift?: boolean
+}
+
 // Event messages
 export interface SelectedMessage {
   columnId: string
@@ -135,6 +194,12 @@ export interface SelectedMessage {
   value: unknown
 }
 
+// Form submission; values are typed (numbers parsed, toggles boolean)
+export interface SubmittedMessage {
+  columnId: string
+  values: Record<string, unknown>
+}
+
 export interface ClickedMessage {
   columnId: string
   x: number
@@ -142,6 +207,38 @@ export interface ClickedMessage {
   value?: unknown
 }
 
+// Custom event, routed by its name (e.g. SURFACE_UPDATE, RISK_METRICS)
+export interface EventMessage {
+  columnId?: string
+  event: string
+  data: unknown
+}
+
+// Wired action without a dedicated message type (e.g. UPDATE_SLICE_X)
+export interface ActionMessage {
+  action: string
+  source: string // Column that raised the event
+  event: string
+  data: unknown
+}
+
+// Render messages
+// Viewport for the column's widget; the worker answers with RENDER_RESULT and
+// sends a fresh one whenever its data, title or surface changes
+export interface RenderRequestMessage {
+  width: number // Terminal cells, inside the panel border
+  height: number
+  focused?: boolean
+}
+
+export interface RenderResultMessage {
+  columnId: string
+  width: number
+  height: number
+  lines: string[] // Exactly height lines of width cells, with ANSI colors
+  title: string | null
+}
+
 export interface KeyPressedMessage {
   columnId: string
   key: string
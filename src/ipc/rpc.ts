@@ -0,0 +1,240 @@
+/**
+ * Request/response RPC over binary frames
+ *
+ * A request is a frame with MessageFlag.REQUEST and a non-zero seq. The
+ * responder answers with the same type and seq plus MessageFlag.RESPONSE,
+ * or with an ERROR frame (RESPONSE flag, ErrorMessage payload) on failure.
+ * A requester that gives up (timeout or abort) sends CANCEL with the seq so
+ * the responder can stop work and drop the reply.
+ */
+
+import { MessageFlag, MessageType, type ErrorMessage, type FrameHeader } from './protocol.ts'
+
+// Writes one frame to the peer
+export type FrameSender = (type: MessageType, payload: Uint8Array, flags: number, seq: number) => void
+
+export interface RpcResponse {
+  header: FrameHeader
+  payload: Uint8Array
+}
+
+export interface RequestOptions {
+  timeout?: number // ms (default 5000)
+  signal?: AbortSignal // Cancels the request when aborted
+}
+
+export interface RequestContext {
+  header: FrameHeader
+  signal: AbortSignal // Aborted when the requester cancels
+}
+
+export type RequestHandler = (
+  payload: Uint8Array,
+  context: RequestContext
+) => Uint8Array | void | Promise<Uint8Array | void>
+
+// Error codes carried in ERROR responses
+export const RpcErrorCode = {
+  NO_HANDLER: 1,
+  HANDLER_FAILED: 2,
+} as const
+
+const MAX_SEQ = 0xffff
+const DEFAULT_TIMEOUT = 5000
+
+interface PendingRequest {
+  type: MessageType
+  resolve: (response: RpcResponse) => void
+  reject: (error: Error) => void
+  timer: Timer
+  cleanup: () => void
+}
+
+/**
+ * Issues requests and correlates responses by seq
+ */
+export class RpcClient {
+  private send: FrameSender
+  private label: string
+  private pending: Map<number, PendingRequest> = new Map()
+  private nextSeq = 1
+
+  /**
+   * @param send - Frame writer for the peer
+   * @param label - Peer name used in error messages
+   */
+  constructor(send: FrameSender, label = 'peer') {
+    this.send = send
+    this.label = label
+  }
+
+  request(type: MessageType, payload: Uint8Array, options: RequestOptions = {}): Promise<RpcResponse> {
+    const { timeout = DEFAULT_TIMEOUT, signal } = options
+    const name = MessageType[type] ?? String(type)
+
+    if (signal?.aborted) {
+      return Promise.reject(new Error(`Request ${name} to ${this.label} cancelled`))
+    }
+
+    let seq: number
+    try {
+      seq = this.allocateSeq()
+    } catch (err) {
+      return Promise.reject(err)
+    }
+
+    return new Promise<RpcResponse>((resolve, reject) => {
+      const fail = (message: string) => {
+        if (!this.pending.has(seq)) return
+        this.finish(seq)
+        try {
+          this.send(MessageType.CANCEL, new Uint8Array(0), 0, seq)
+        } catch {
+          // Peer is gone; nothing to cancel
+        }
+        reject(new Error(message))
+      }
+
+      const onAbort = () => fail(`Request ${name} to ${this.label} cancelled`)
+      signal?.addEventListener('abort', onAbort, { once: true })
+
+      this.pending.set(seq, {
+        type,
+        resolve,
+        reject,
+        timer: setTimeout(() => fail(`Request ${name} to ${this.label} timed out after ${timeout}ms`), timeout),
+        cleanup: () => signal?.removeEventListener('abort', onAbort),
+      })
+
+      try {
+        this.send(type, payload, MessageFlag.REQUEST, seq)
+      } catch (err) {
+        this.finish(seq)
+        reject(err as Error)
+      }
+    })
+  }
+
+  /**
+   * Settle the request a RESPONSE frame answers
+   * Returns true when the frame was a response (even for an unknown seq)
+   */
+  handleFrame(header: FrameHeader, payload: Uint8Array): boolean {
+    if (!(header.flags & MessageFlag.RESPONSE)) return false
+
+    const request = this.pending.get(header.seq)
+    if (!request) return true // Late reply to a cancelled or timed-out request
+    this.finish(header.seq)
+
+    if (header.type === MessageType.ERROR && request.type !== MessageType.ERROR) {
+      let error: ErrorMessage
+      try {
+        error = JSON.parse(new TextDecoder().decode(payload))
+      } catch {
+        error = { code: RpcErrorCode.HANDLER_FAILED, message: 'Malformed error response' }
+      }
+      request.reject(
+        new Error(`Request ${MessageType[request.type] ?? request.type} to ${this.label} failed: ${error.message}`)
+      )
+    } else {
+      request.resolve({ header, payload })
+    }
+    return true
+  }
+
+  // Reject everything in flight (e.g. when the peer exits)
+  rejectAll(reason: string): void {
+    for (const [seq, request] of this.pending) {
+      this.finish(seq)
+      request.reject(new Error(reason))
+    }
+  }
+
+  get inFlight(): number {
+    return this.pending.size
+  }
+
+  // Next free seq in 1..65535; 0 is reserved for frames that expect no reply
+  private allocateSeq(): number {
+    if (this.pending.size >= MAX_SEQ) {
+      throw new Error(`Too many requests in flight to ${this.label}`)
+    }
+    while (this.pending.has(this.nextSeq)) {
+      this.nextSeq = (this.nextSeq % MAX_SEQ) + 1
+    }
+    const seq = this.nextSeq
+    this.nextSeq = (this.nextSeq % MAX_SEQ) + 1
+    return seq
+  }
+
+  private finish(seq: number): void {
+    const request = this.pending.get(seq)
+    if (!request) return
+    clearTimeout(request.timer)
+    request.cleanup()
+    this.pending.delete(seq)
+  }
+}
+
+/**
+ * Dispatches REQUEST frames to handlers and writes their responses
+ */
+export class RpcServer {
+  private send: FrameSender
+  private handlers: Map<MessageType, RequestHandler> = new Map()
+  private active: Map<number, AbortController> = new Map()
+
+  constructor(send: FrameSender) {
+    this.send = send
+  }
+
+  // Register a handler for requests of a message type
+  handle(type: MessageType, handler: RequestHandler): () => void {
+    this.handlers.set(type, handler)
+    return () => this.handlers.delete(type)
+  }
+
+  /**
+   * Handle REQUEST and CANCEL frames
+   * Returns false for frames that are not part of the RPC exchange
+   */
+  handleFrame(header: FrameHeader, payload: Uint8Array): boolean {
+    if (header.type === MessageType.CANCEL) {
+      this.active.get(header.seq)?.abort()
+      this.active.delete(header.seq)
+      return true
+    }
+    if (!(header.flags & MessageFlag.REQUEST)) return false
+
+    const handler = this.handlers.get(header.type)
+    if (!handler) {
+      this.sendError(header.seq, RpcErrorCode.NO_HANDLER, `No handler for ${MessageType[header.type] ?? header.type}`)
+      return true
+    }
+
+    const controller = new AbortController()
+    this.active.set(header.seq, controller)
+
+    const respond = async () => {
+      try {
+        const result = await handler(payload, { header, signal: controller.signal })
+        if (controller.signal.aborted) return
+        this.send(header.type, result ?? new Uint8Array(0), MessageFlag.RESPONSE, header.seq)
+      } catch (err) {
+        if (controller.signal.aborted) return
+        this.sendError(header.seq, RpcErrorCode.HANDLER_FAILED, (err as Error).message)
+      } finally {
+        if (this.active.get(header.seq) === controller) {
+          this.active.delete(header.seq)
+        }
+      }
+    }
+    respond()
+    return true
+  }
+
+  private sendError(seq: number, code: number, message: string): void {
+    const error: ErrorMessage = { code, message }
+    this.send(MessageType.ERROR, new TextEncoder().encode(JSON.stringify(error)), MessageFlag.RESPONSE, seq)
+  }
+}
@@ -5,12 +5,18 @@
 
 import type { Surface } from '../data/surface.ts'
 import type { Vec64, Vec32 } from '../data/vec.ts'
+import {
+  CHAIN_NUMERIC_FIELDS,
+  type ChainDelta,
+  type ChainQuote,
+  type OptionChain,
+} from '../data/chain.ts'
 import { MessageType, type SurfaceFullMessage } from './protocol.ts'
 import { encodeFrame } from './frame.ts'
 
-// Serialize Surface to binary frame
+// Encode Surface as a SURFACE_FULL payload
 // Layout: [nx:u32][ny:u32][meta:json_len:u32][meta:json][x:f32*nx][y:f32*ny][z:f32*nx*ny]
-export function serializeSurface(s: Surface<Vec64>): Uint8Array {
+export function encodeSurfacePayload(s: Surface<Vec64 | Vec32>): Uint8Array {
   const { nx, ny } = s
 
   // Encode metadata as JSON
@@ -72,7 +78,12 @@ export function serializeSurface(s: Surface<Vec64>): Uint8Array {
     f32View[f32Offset++] = s.z[i]!
   }
 
-  return encodeFrame(MessageType.SURFACE_FULL, bytes)
+  return bytes
+}
+
+// Serialize Surface to binary frame
+export function serializeSurface(s: Surface<Vec64 | Vec32>, seq = 0): Uint8Array {
+  return encodeFrame(MessageType.SURFACE_FULL, encodeSurfacePayload(s), 0, seq)
 }
 
 // Deserialize Surface from binary payload
@@ -129,14 +140,15 @@ export function deserializeSurface(
   }
 }
 
-// Serialize delta update (only changed cells)
-export function serializeSurfaceDelta(
+// Encode changed cells as a SURFACE_DELTA payload
+// Layout: [count:u32][indices:u32*count][values:f32*count][timestamp:f64]?
+export function encodeSurfaceDeltaPayload(
   indices: Uint32Array,
-  values: Float32Array
+  values: Float32Array,
+  timestamp?: number
 ): Uint8Array {
-  // Layout: [count:u32][indices:u32*count][values:f32*count]
   const count = indices.length
-  const size = 4 + count * 4 + count * 4
+  const size = 4 + count * 4 + count * 4 + (timestamp === undefined ? 0 : 8)
   const buffer = new ArrayBuffer(size)
   const view = new DataView(buffer)
 
@@ -148,27 +160,152 @@ export function serializeSurfaceDelta(
   const valuesView = new Float32Array(buffer, 4 + count * 4, count)
   valuesView.set(values)
 
-  return encodeFrame(MessageType.SURFACE_DELTA, new Uint8Array(buffer))
+  if (timestamp !== undefined) {
+    view.setFloat64(4 + count * 8, timestamp, true)
+  }
+
+  return new Uint8Array(buffer)
+}
+
+// Serialize delta update (only changed cells)
+export function serializeSurfaceDelta(
+  indices: Uint32Array,
+  values: Float32Array,
+  timestamp?: number,
+  seq = 0
+): Uint8Array {
+  return encodeFrame(MessageType.SURFACE_DELTA, encodeSurfaceDeltaPayload(indices, values, timestamp), 0, seq)
 }
 
 // Deserialize delta update
+// Views are copied when the payload is not 4-byte aligned
 export function deserializeSurfaceDelta(payload: Uint8Array): {
   indices: Uint32Array
   values: Float32Array
+  timestamp?: number
 } {
-  const view = new DataView(payload.buffer, payload.byteOffset)
+  const view = new DataView(payload.buffer, payload.byteOffset, payload.byteLength)
   const count = view.getUint32(0, true)
+  const end = 4 + count * 8
+  if (payload.byteLength < end) {
+    throw new Error(`Surface delta truncated: ${count} cells need ${end} bytes, got ${payload.byteLength}`)
+  }
 
-  const indices = new Uint32Array(
-    payload.buffer,
-    payload.byteOffset + 4,
-    count
-  )
-  const values = new Float32Array(
-    payload.buffer,
-    payload.byteOffset + 4 + count * 4,
-    count
+  const data = payload.byteOffset % 4 === 0 ? payload : payload.slice()
+  const indices = new Uint32Array(data.buffer, data.byteOffset + 4, count)
+  const values = new Float32Array(data.buffer, data.byteOffset + 4 + count * 4, count)
+  const timestamp = payload.byteLength >= end + 8 ? view.getFloat64(end, true) : undefined
+
+  return { indices, values, timestamp }
+}
+
+// Encode chain quotes with a JSON header
+// Layout: [count:u32][meta_len:u32][meta:json][pad to 8][f64 column * count per numeric field][type:u8*count]
+function encodeChainBody(quotes: ChainQuote[], meta: Record<string, unknown>): Uint8Array {
+  const count = quotes.length
+  const metaBytes = new TextEncoder().encode(
+    JSON.stringify({ ...meta, instruments: quotes.map((q) => q.instrument) })
   )
 
-  return { indices, values }
+  const headerSize = 4 + 4 + metaBytes.length
+  const padding = (8 - (headerSize % 8)) % 8
+  const columnsSize = CHAIN_NUMERIC_FIELDS.length * count * 8
+  const buffer = new ArrayBuffer(headerSize + padding + columnsSize + count)
+  const view = new DataView(buffer)
+  const bytes = new Uint8Array(buffer)
+
+  view.setUint32(0, count, true)
+  view.setUint32(4, metaBytes.length, true)
+  bytes.set(metaBytes, 8)
+
+  let offset = headerSize + padding
+  for (const field of CHAIN_NUMERIC_FIELDS) {
+    const column = new Float64Array(buffer, offset, count)
+    for (let i = 0; i < count; i++) {
+      column[i] = quotes[i]![field]
+    }
+    offset += count * 8
+  }
+
+  for (let i = 0; i < count; i++) {
+    bytes[offset + i] = quotes[i]!.type === 'call' ? 0 : 1
+  }
+
+  return bytes
+}
+
+// Decode chain quotes and the JSON header
+function decodeChainBody(payload: Uint8Array): {
+  quotes: ChainQuote[]
+  meta: Record<string, unknown>
+} {
+  const view = new DataView(payload.buffer, payload.byteOffset, payload.byteLength)
+  const count = view.getUint32(0, true)
+  const metaLen = view.getUint32(4, true)
+  const meta = JSON.parse(new TextDecoder().decode(payload.subarray(8, 8 + metaLen)))
+  const instruments = meta.instruments as string[]
+
+  const headerSize = 8 + metaLen
+  let offset = headerSize + ((8 - (headerSize % 8)) % 8)
+
+  const quotes: ChainQuote[] = []
+  for (let i = 0; i < count; i++) {
+    quotes.push({
+      instrument: instruments[i]!,
+      type: payload[offset + CHAIN_NUMERIC_FIELDS.length * count * 8 + i] === 0 ? 'call' : 'put',
+    } as ChainQuote)
+  }
+
+  for (const field of CHAIN_NUMERIC_FIELDS) {
+    // Copy: payload offset is not guaranteed to be 8-byte aligned
+    const column = new Float64Array(payload.slice(offset, offset + count * 8).buffer)
+    for (let i = 0; i < count; i++) {
+      quotes[i]![field] = column[i]!
+    }
+    offset += count * 8
+  }
+
+  return { quotes, meta }
+}
+
+// Serialize OptionChain to binary frame
+export function serializeChain(chain: OptionChain): Uint8Array {
+  const body = encodeChainBody(chain.quotes, {
+    underlying: chain.underlying,
+    timestamp: chain.timestamp,
+    spot: chain.spot,
+  })
+  return encodeFrame(MessageType.CHAIN_FULL, body)
+}
+
+// Deserialize OptionChain from binary payload
+export function deserializeChain(payload: Uint8Array): OptionChain {
+  const { quotes, meta } = decodeChainBody(payload)
+  return {
+    underlying: meta.underlying as string,
+    timestamp: meta.timestamp as number,
+    spot: meta.spot as number,
+    quotes,
+  }
+}
+
+// Serialize chain delta (upserts and removed instruments)
+export function serializeChainDelta(delta: ChainDelta): Uint8Array {
+  const body = encodeChainBody(delta.updates, {
+    timestamp: delta.timestamp,
+    spot: delta.spot,
+    removed: delta.removed,
+  })
+  return encodeFrame(MessageType.CHAIN_DELTA, body)
+}
+
+// Deserialize chain delta
+export function deserializeChainDelta(payload: Uint8Array): ChainDelta {
+  const { quotes, meta } = decodeChainBody(payload)
+  return {
+    timestamp: meta.timestamp as number,
+    spot: meta.spot as number,
+    updates: quotes,
+    removed: meta.removed as string[],
+  }
 }
@@ -0,0 +1,282 @@
+/**
+ * Surface streaming over SURFACE_FULL / SURFACE_DELTA frames
+ *
+ * The publisher sends a SURFACE_FULL keyframe, then SURFACE_DELTA frames with
+ * only the cells that moved beyond a tolerance. Every frame of a stream carries
+ * the next seq (1..65535, wrapping); a receiver that sees a gap drops deltas
+ * until the next keyframe and asks for one with SURFACE_RESYNC.
+ */
+
+import type { Surface } from '../data/surface.ts'
+import type { Vec32, Vec64 } from '../data/vec.ts'
+import { MessageType, type FrameHeader } from './protocol.ts'
+import type { FrameSender } from './rpc.ts'
+import {
+  deserializeSurface,
+  deserializeSurfaceDelta,
+  encodeSurfaceDeltaPayload,
+  encodeSurfacePayload,
+} from './serialize.ts'
+
+export interface SurfacePublisherOptions {
+  keyframeInterval?: number // Deltas between keyframes (default 30)
+  tolerance?: number // Minimum |Δz| for a cell to be sent (default 1e-6)
+  maxDeltaRatio?: number // Send a keyframe when more than this fraction of cells changed (default 0.5)
+}
+
+export type PublishResult = 'full' | 'delta' | 'none'
+
+export interface SurfaceStreamStats {
+  keyframes: number
+  deltas: number
+  gaps: number // Seq gaps or undecodable deltas
+  resyncs: number // SURFACE_RESYNC frames sent or answered
+}
+
+const MAX_SEQ = 0xffff
+
+// Next stream seq; 0 marks unsequenced frames
+function nextSeq(seq: number): number {
+  return (seq % MAX_SEQ) + 1
+}
+
+function emptyStats(): SurfaceStreamStats {
+  return { keyframes: 0, deltas: 0, gaps: 0, resyncs: 0 }
+}
+
+// Same grid, axes and labels (z values and zDomain may differ)
+function sameLayout(a: Surface<Vec32>, b: Surface<Vec64 | Vec32>): boolean {
+  if (a.nx !== b.nx || a.ny !== b.ny) return false
+  if (a.meta.xLabel !== b.meta.xLabel || a.meta.yLabel !== b.meta.yLabel || a.meta.zLabel !== b.meta.zLabel) {
+    return false
+  }
+  for (let i = 0; i < a.nx; i++) {
+    if (a.x[i] !== Math.fround(b.x[i]!)) return false
+  }
+  for (let i = 0; i < a.ny; i++) {
+    if (a.y[i] !== Math.fround(b.y[i]!)) return false
+  }
+  return true
+}
+
+function zRange(z: Vec32): [number, number] {
+  let lo = Infinity
+  let hi = -Infinity
+  for (let i = 0; i < z.length; i++) {
+    const v = z[i]!
+    if (v < lo) lo = v
+    if (v > hi) hi = v
+  }
+  return [lo, hi]
+}
+
+/**
+ * Diffs successive surfaces into keyframes and deltas
+ */
+export class SurfacePublisher {
+  private send: FrameSender
+  private keyframeInterval: number
+  private tolerance: number
+  private maxDeltaRatio: number
+  private reference: Surface<Vec32> | null = null // What the receiver holds
+  private latest: Surface<Vec64 | Vec32> | null = null
+  private seq = 0
+  private sinceKeyframe = 0
+  private needKeyframe = false
+  private counters = emptyStats()
+
+  constructor(send: FrameSender, options: SurfacePublisherOptions = {}) {
+    this.send = send
+    this.keyframeInterval = options.keyframeInterval ?? 30
+    this.tolerance = options.tolerance ?? 1e-6
+    this.maxDeltaRatio = options.maxDeltaRatio ?? 0.5
+  }
+
+  /**
+   * Send the surface as a keyframe or a delta against what was last sent
+   * Returns 'none' when no cell moved beyond the tolerance
+   */
+  publish(surface: Surface<Vec64 | Vec32>): PublishResult {
+    this.latest = surface
+    const reference = this.reference
+
+    if (
+      !reference ||
+      this.needKeyframe ||
+      this.sinceKeyframe >= this.keyframeInterval ||
+      !sameLayout(reference, surface)
+    ) {
+      this.keyframe(surface)
+      return 'full'
+    }
+
+    const changed: number[] = []
+    for (let i = 0; i < surface.z.length; i++) {
+      const value = Math.fround(surface.z[i]!)
+      const previous = reference.z[i]!
+      if (Number.isNaN(value) && Number.isNaN(previous)) continue
+      if (!(Math.abs(value - previous) <= this.tolerance)) {
+        changed.push(i)
+      }
+    }
+
+    if (changed.length > surface.z.length * this.maxDeltaRatio) {
+      this.keyframe(surface)
+      return 'full'
+    }
+    if (changed.length === 0) return 'none'
+
+    const indices = Uint32Array.from(changed)
+    const values = new Float32Array(changed.length)
+    for (let k = 0; k < changed.length; k++) {
+      values[k] = surface.z[changed[k]!]!
+      reference.z[changed[k]!] = values[k]!
+    }
+    reference.meta = { ...reference.meta, timestamp: surface.meta.timestamp }
+
+    this.seq = nextSeq(this.seq)
+    this.sinceKeyframe++
+    this.counters.deltas++
+    this.send(MessageType.SURFACE_DELTA, encodeSurfaceDeltaPayload(indices, values, surface.meta.timestamp), 0, this.seq)
+    return 'delta'
+  }
+
+  // Answer a SURFACE_RESYNC: resend the latest surface as a keyframe now
+  resync(): void {
+    this.counters.resyncs++
+    if (this.latest) {
+      this.keyframe(this.latest)
+    } else {
+      this.needKeyframe = true
+    }
+  }
+
+  get stats(): SurfaceStreamStats {
+    return { ...this.counters }
+  }
+
+  private keyframe(surface: Surface<Vec64 | Vec32>): void {
+    this.reference = {
+      x: Float32Array.from(surface.x),
+      y: Float32Array.from(surface.y),
+      z: Float32Array.from(surface.z),
+      nx: surface.nx,
+      ny: surface.ny,
+      meta: { ...surface.meta },
+    }
+    this.seq = nextSeq(this.seq)
+    this.sinceKeyframe = 0
+    this.needKeyframe = false
+    this.counters.keyframes++
+    this.send(MessageType.SURFACE_FULL, encodeSurfacePayload(surface), 0, this.seq)
+  }
+}
+
+export interface SurfaceReceiverOptions {
+  onSurface?: (surface: Surface<Vec32>, kind: 'full' | 'delta') => void
+}
+
+/**
+ * Rebuilds a surface from keyframes and deltas
+ */
+export class SurfaceReceiver {
+  private requestResync: () => void
+  private onSurface?: (surface: Surface<Vec32>, kind: 'full' | 'delta') => void
+  private current: Surface<Vec32> | null = null
+  private lastSeq = 0
+  private awaitingKeyframe = true
+  private resyncRequested = false
+  private counters = emptyStats()
+
+  /**
+   * @param requestResync - Sends SURFACE_RESYNC to the publisher
+   */
+  constructor(requestResync: () => void, options: SurfaceReceiverOptions = {}) {
+    this.requestResync = requestResync
+    this.onSurface = options.onSurface
+  }
+
+  /**
+   * Apply SURFACE_FULL and SURFACE_DELTA frames
+   * Returns false for other frame types
+   */
+  handleFrame(header: FrameHeader, payload: Uint8Array): boolean {
+    if (header.type === MessageType.SURFACE_FULL) {
+      this.current = deserializeSurface(payload)
+      this.lastSeq = header.seq
+      this.awaitingKeyframe = false
+      this.resyncRequested = false
+      this.counters.keyframes++
+      this.onSurface?.(this.current, 'full')
+      return true
+    }
+    if (header.type !== MessageType.SURFACE_DELTA) return false
+
+    const current = this.current
+    if (!current || this.awaitingKeyframe) {
+      this.resync()
+      return true
+    }
+
+    // seq 0 marks an unsequenced delta, applied without gap detection
+    if (header.seq !== 0 && header.seq !== nextSeq(this.lastSeq)) {
+      this.gap()
+      return true
+    }
+
+    let delta: ReturnType<typeof deserializeSurfaceDelta>
+    try {
+      delta = deserializeSurfaceDelta(payload)
+    } catch {
+      this.gap()
+      return true
+    }
+    const { indices, values, timestamp } = delta
+    for (let k = 0; k < indices.length; k++) {
+      if (indices[k]! >= current.z.length) {
+        this.gap()
+        return true
+      }
+    }
+
+    for (let k = 0; k < indices.length; k++) {
+      current.z[indices[k]!] = values[k]!
+    }
+    current.meta = {
+      ...current.meta,
+      zDomain: zRange(current.z),
+      timestamp: timestamp ?? current.meta.timestamp,
+    }
+    if (header.seq !== 0) this.lastSeq = header.seq
+    this.counters.deltas++
+    this.onSurface?.(current, 'delta')
+    return true
+  }
+
+  // Current surface (stale while awaiting a keyframe), or null before the first one
+  get surface(): Surface<Vec32> | null {
+    return this.current
+  }
+
+  get synced(): boolean {
+    return !this.awaitingKeyframe
+  }
+
+  get stats(): SurfaceStreamStats {
+    return { ...this.counters }
+  }
+
+  private gap(): void {
+    this.counters.gaps++
+    this.awaitingKeyframe = true
+    this.resync()
+  }
+
+  // One SURFACE_RESYNC per gap; periodic keyframes cover a lost request
+  private resync(): void {
+    if (this.resyncRequested) return
+    this.resyncRequested = true
+    this.counters.resyncs++
+    this.requestResync()
+  }
+}
@@ -3,8 +3,15 @@
  */
 
 import { describe, it, expect, afterEach } from 'bun:test'
-import { Sixcol, type SixcolConfig } from './main.ts'
-import { MessageType } from './ipc/protocol.ts'
+import { rm } from 'node:fs/promises'
+import { Sixcol, templateColumns, type SixcolConfig } from './main.ts'
+import { MessageType, PROTOCOL_VERSION, type RenderResultMessage } from './ipc/protocol.ts'
+import { createSurface, createTestSurface, getZ } from './data/surface.ts'
+import { createPlaylist, playPlaylist } from './chain/volatility.ts'
+import { getRiskOracleTemplate } from './config/loader.ts'
+import { ColumnClient } from './client/client.ts'
+import type { ColumnSummary, TemplateReload } from './column/control.ts'
+import { stripAnsi } from './render/ansi.ts'
 
 describe('Sixcol main process', () => {
   let app: Sixcol | null = null
@@ -97,4 +104,750 @@ describe('Sixcol main process', () => {
       expect(app.getColumn(id)?.ready).toBe(true)
     }
   })
+
+  it('should run template sources and report their status', async () => {
+    const config: SixcolConfig = {
+      name: 'test',
+      columns: [{ id: 'c1', type: 'chart' }],
+      sources: [{ type: 'command', target: 'echo \'[1, 2, 3]\'', interval: 50, parse: 'json', columns: ['c1'] }],
+    }
+
+    app = new Sixcol(config)
+    const states: string[] = []
+    app.onSourceStatus((status) => states.push(status.state))
+    await app.start()
+
+    await Bun.sleep(150)
+
+    const [status] = app.sourceStatus()
+    expect(status!.state).toBe('ok')
+    expect(status!.updates).toBeGreaterThanOrEqual(1)
+    expect(states).toContain('ok')
+  })
+
+  it('should restart crashed columns and replay their data', async () => {
+    const socketDir = `/tmp/sixcol-test-${Date.now()}`
+    const config: SixcolConfig = {
+      name: 'test',
+      settings: { socketDir },
+      columns: [{ id: 'c1', type: 'list', restart: 'on-failure' }],
+      supervisor: { heartbeatInterval: 50, backoff: { initial: 20 } },
+      onWorkerLog: () => {},
+    }
+
+    app = new Sixcol(config)
+    await app.start()
+    app.sendToColumn('c1', MessageType.SET_DATA, new TextEncoder().encode('["a", "b"]'))
+    await Bun.sleep(100)
+    expect(app.health()[0]!.latencyMs).not.toBeNull()
+
+    const states: string[] = []
+    app.onHealth((health) => states.push(health.state))
+    app.getColumn('c1')!.proc.kill('SIGKILL')
+
+    // Wait for the replacement worker to come up
+    const recovered = () => app!.health()[0]!.restarts === 1 && app!.health()[0]!.state === 'healthy'
+    for (let i = 0; i < 100 && !recovered(); i++) {
+      await Bun.sleep(50)
+    }
+    expect(states.slice(0, 2)).toEqual(['restarting', 'starting'])
+    expect(app.health()[0]).toMatchObject({ state: 'healthy', restarts: 1 })
+
+    // The new worker received the last SET_DATA
+    const data = await new Promise<unknown>((resolve, reject) => {
+      Bun.connect({
+        unix: `${socketDir}/c1.sock`,
+        socket: {
+          open(socket) {
+            socket.write(JSON.stringify({ method: 'getData', id: 1 }) + '\n')
+          },
+          data(socket, chunk) {
+            resolve(JSON.parse(chunk.toString()).result)
+            socket.end()
+          },
+          error(_, err) {
+            reject(err)
+          },
+        },
+      }).catch(reject)
+    })
+    expect(data).toEqual(['a', 'b'])
+  })
+
+  it('should answer requests from column workers', async () => {
+    const config: SixcolConfig = {
+      name: 'test',
+      columns: [{ id: 'c1', type: 'list' }],
+    }
+
+    app = new Sixcol(config)
+    await app.start()
+
+    const echo = await app.request('c1', MessageType.PING, new TextEncoder().encode('hello'), { timeout: 2000 })
+    expect(new TextDecoder().decode(echo.payload)).toBe('hello')
+    expect(echo.header.type).toBe(MessageType.PING)
+
+    const ack = await app.request('c1', MessageType.SET_DATA, new TextEncoder().encode('[1]'))
+    expect(ack.payload.length).toBe(0)
+
+    await expect(app.request('c1', MessageType.FOCUS, new Uint8Array(0))).rejects.toThrow('No handler for FOCUS')
+    await expect(app.request('nope', MessageType.PING, new Uint8Array(0))).rejects.toThrow('Column nope not found')
+  })
+
+  it('should negotiate frame compression with workers', async () => {
+    const config: SixcolConfig = {
+      name: 'test',
+      columns: [{ id: 'c1', type: 'list' }],
+      compression: { codecs: ['deflate'], threshold: 256 },
+    }
+
+    app = new Sixcol(config)
+    await app.start()
+
+    expect(app.getColumn('c1')?.compression).toEqual({ codec: 'deflate', threshold: 256 })
+
+    // Large echo travels compressed both ways
+    const payload = new TextEncoder().encode('x'.repeat(100_000))
+    const echo = await app.request('c1', MessageType.PING, payload, { timeout: 2000 })
+    expect(echo.payload).toEqual(payload)
+  })
+
+  it('should keep plain frames when compression is disabled', async () => {
+    app = new Sixcol({ name: 'test', columns: [{ id: 'c1', type: 'list' }], compression: false })
+    await app.start()
+
+    expect(app.getColumn('c1')?.compression).toBeNull()
+  })
+
+  it('should stream surface deltas and resync columns that miss one', async () => {
+    app = new Sixcol({ name: 'test', columns: [{ id: 'c1', type: 'surface' }] })
+    await app.start()
+
+    const surface = createTestSurface(20, 20)
+    expect(app.publishSurface('c1', surface)).toBe('full')
+    surface.z[10] = 0.5
+    expect(app.publishSurface('c1', surface)).toBe('delta')
+
+    // Skip a seq so the worker sees a gap and asks for a keyframe
+    const internals = app as unknown as { surfaceStreams: Map<string, { seq: number }> }
+    internals.surfaceStreams.get('c1')!.seq += 1
+    surface.z[11] = 0.5
+    expect(app.publishSurface('c1', surface)).toBe('delta')
+
+    for (let i = 0; i < 40 && app.surfaceStats('c1')!.resyncs === 0; i++) {
+      await Bun.sleep(25)
+    }
+    expect(app.surfaceStats('c1')).toMatchObject({ keyframes: 2, deltas: 2, resyncs: 1 })
+    expect(() => app!.publishSurface('nope', surface)).toThrow('Column nope not found')
+  })
+
+  it('should report the negotiated handshake in getColumn', async () => {
+    app = new Sixcol({ name: 'test', columns: [{ id: 'c1', type: 'table' }] })
+    await app.start()
+
+    expect(app.getColumn('c1')?.handshake).toMatchObject({
+      protocol: PROTOCOL_VERSION,
+      features: ['compression', 'surface-delta', 'requests', 'render', 'input'],
+      compatible: true,
+      error: null,
+    })
+    expect(app.getColumn('c1')?.handshake?.widgets).toContain('table')
+  })
+
+  it('should reject workers that speak an unsupported protocol', async () => {
+    app = new Sixcol({ name: 'test', columns: [{ id: 'c1', type: 'list' }], onWorkerLog: () => {} })
+    await app.start()
+
+    // Replay a READY from a newer worker
+    const internals = app as unknown as {
+      handleColumnMessage: (id: string, header: object, payload: Uint8Array) => void
+      waitForReady: (timeoutMs: number) => Promise<void>
+    }
+    const ready = new TextEncoder().encode(JSON.stringify({ columnId: 'c1', protocol: PROTOCOL_VERSION + 1 }))
+    app.getColumn('c1')!.ready = false
+    internals.handleColumnMessage('c1', { type: MessageType.READY, flags: 0, seq: 0, length: ready.length }, ready)
+
+    expect(app.getColumn('c1')?.ready).toBe(false)
+    expect(app.getColumn('c1')?.handshake?.compatible).toBe(false)
+    await expect(internals.waitForReady(1000)).rejects.toThrow(
+      `Incompatible column workers: c1 (worker speaks protocol ${PROTOCOL_VERSION + 1}`
+    )
+  })
+
+  it('should serve JSON-RPC with subscriptions on column sockets', async () => {
+    const socketDir = `/tmp/sixcol-test-${Date.now()}`
+    app = new Sixcol({
+      name: 'test',
+      settings: { socketDir },
+      columns: [{ id: 'c1', type: 'list' }],
+      onWorkerLog: () => {},
+    })
+    await app.start()
+
+    const received: Record<string, unknown>[] = []
+    let buffered = ''
+    const socket = await Bun.connect({
+      unix: `${socketDir}/c1.sock`,
+      socket: {
+        data(_socket, chunk) {
+          buffered += chunk.toString()
+          const lines = buffered.split('\n')
+          buffered = lines.pop()!
+          received.push(...lines.map((l) => JSON.parse(l)))
+        },
+      },
+    })
+    const waitFor = async (count: number) => {
+      for (let i = 0; i < 80 && received.length < count; i++) await Bun.sleep(25)
+    }
+
+    // A request split across writes, then a batch
+    socket.write('{"jsonrpc":"2.0","id":1,"method":"subscribe","params":{"topics":["data","eve')
+    await Bun.sleep(20)
+    socket.write('nts"]}}\n')
+    await waitFor(1)
+    expect(received[0]).toEqual({ jsonrpc: '2.0', id: 1, result: { topics: ['data', 'events'] } })
+
+    const events: unknown[] = []
+    app.onMessage('c1', MessageType.EVENT, (_header, payload) => events.push(JSON.parse(new TextDecoder().decode(payload))))
+
+    socket.write(
+      JSON.stringify([
+        { jsonrpc: '2.0', id: 2, method: 'appendData', params: { data: ['a', 'b'] } },
+        { jsonrpc: '2.0', id: 3, method: 'emit', params: { event: 'PICKED', data: 7 } },
+        { jsonrpc: '2.0', id: 4, method: 'setTitle', params: [42] },
+      ]) + '\n'
+    )
+    await waitFor(4)
+    const notifications = received.filter((m) => 'method' in m)
+    const batch = received.find(Array.isArray) as unknown as Record<string, unknown>[]
+    expect(batch.map((r) => ('error' in r ? (r.error as { code: number }).code : r.result))).toEqual([2, null, -32602])
+    expect(notifications).toEqual([
+      { jsonrpc: '2.0', method: 'data', params: { columnId: 'c1', data: ['a', 'b'] } },
+      { jsonrpc: '2.0', method: 'event', params: { columnId: 'c1', event: 'PICKED', data: 7 } },
+    ])
+
+    // Data set by the parent is pushed too
+    app.sendToColumn('c1', MessageType.SET_DATA, new TextEncoder().encode('[1]'))
+    await waitFor(5)
+    expect(received[4]).toEqual({ jsonrpc: '2.0', method: 'data', params: { columnId: 'c1', data: [1] } })
+    expect(events).toEqual([{ columnId: 'c1', event: 'PICKED', data: 7 }])
+
+    socket.end()
+  })
+
+  it('should drive the instance through the control socket', async () => {
+    const socketDir = `/tmp/sixcol-test-${Date.now()}`
+    const template = `${socketDir}-template.json`
+    const writeTemplate = (columns: Array<{ id: string; type: string }>) =>
+      Bun.write(
+        template,
+        JSON.stringify({
+          name: 'test',
+          columns,
+          wiring: [{ on: { column: 'c1', event: 'PICKED' }, do: { column: columns[1]!.id, action: 'SET' } }],
+        })
+      )
+
+    app = new Sixcol({
+      name: 'test',
+      settings: { socketDir },
+      columns: [
+        { id: 'c1', type: 'list' },
+        { id: 'c2', type: 'list' },
+      ],
+      wiring: [{ on: { column: 'c1', event: 'PICKED' }, do: { column: 'c2', action: 'SET' } }],
+      template,
+      onWorkerLog: () => {},
+    })
+    await app.start()
+    expect(app.controlSocket).toBe(`${socketDir}/control.ctl`)
+
+    const control = await ColumnClient.connect(app.controlSocket!)
+    const c1 = await ColumnClient.connect(`${socketDir}/c1.sock`)
+    const c2 = await ColumnClient.connect(`${socketDir}/c2.sock`)
+    try {
+      const columns = await control.call<ColumnSummary[]>('listColumns')
+      expect(columns.map((c) => [c.id, c.ready, c.socket])).toEqual([
+        ['c1', true, `${socketDir}/c1.sock`],
+        ['c2', true, `${socketDir}/c2.sock`],
+      ])
+
+      // Events are streamed with the columns the wiring delivered them to
+      const events: unknown[] = []
+      await control.subscribe('*', (params) => events.push(params))
+      await c1.emit('PICKED', { strike: 100 })
+      for (let i = 0; i < 40 && events.length < 1; i++) await Bun.sleep(25)
+      expect(events).toEqual([{ columnId: 'c1', event: 'PICKED', data: { strike: 100 }, targets: ['c2'] }])
+      expect(await c2.getData<object>()).toEqual({ strike: 100 })
+
+      await control.call('sendTo', ['c1', 'SET_DATA', ['x']])
+      await control.call('broadcast', { action: 'APPEND', data: 'y' })
+      await Bun.sleep(50)
+      expect(await c1.getData<string[]>()).toEqual(['x', 'y'])
+
+      // A template that fails validation changes nothing
+      await Bun.write(template, '{"name": "broken"}')
+      await expect(control.call('reloadTemplate')).rejects.toThrow('Invalid template')
+      expect(app.columnIds).toEqual(['c1', 'c2'])
+
+      // Reload: c2 removed, c1 reconfigured, c3 added
+      await writeTemplate([
+        { id: 'c1', type: 'log' },
+        { id: 'c3', type: 'list' },
+      ])
+      expect(await control.call<TemplateReload>('reloadTemplate')).toEqual({
+        added: ['c3'],
+        removed: ['c2'],
+        restarted: ['c1'],
+      })
+      expect(app.columnIds).toEqual(['c1', 'c3'])
+      expect(app.getColumn('c1')!.config.type).toBe('log')
+      expect(app.health().map((h) => h.id)).toEqual(['c1', 'c3'])
+    } finally {
+      control.close()
+      c1.close()
+      c2.close()
+      await Bun.$`rm -f ${template}`.quiet()
+    }
+  })
+
+  it('should expose column sockets over TCP and WebSocket', async () => {
+    app = new Sixcol({
+      name: 'test',
+      columns: [
+        { id: 'c1', type: 'list' },
+        { id: 'c2', type: 'list' },
+      ],
+      bridge: { tcpPort: 0, wsPort: 0, token: 's3cret' },
+      onWorkerLog: () => {},
+    })
+    await app.start()
+
+    const bridges = app.listColumns().map((c) => c.bridge!)
+    expect(bridges.map((b) => b.host)).toEqual(['127.0.0.1', '127.0.0.1'])
+    expect(bridges[0]!.tcpPort).not.toBe(bridges[1]!.tcpPort)
+
+    const received: Record<string, unknown>[] = []
+    const ws = new WebSocket(`ws://127.0.0.1:${bridges[1]!.wsPort}/?token=s3cret`)
+    ws.onmessage = (event) => received.push(JSON.parse(String(event.data)))
+    await new Promise((resolve) => (ws.onopen = resolve))
+
+    ws.send(JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'setData', params: { data: ['remote'] } }))
+    ws.send(JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'describe' }))
+    for (let i = 0; i < 40 && received.length < 2; i++) await Bun.sleep(25)
+    expect(received[0]).toEqual({ jsonrpc: '2.0', id: 1, result: null })
+    expect(received[1]).toMatchObject({ id: 2, result: { columnId: 'c2' } })
+    ws.close()
+  })
+
+  it('should render columns in their workers on request and on change', async () => {
+    app = new Sixcol({
+      name: 'test',
+      columns: [{ id: 'c1', type: 'list', title: 'Tickers' }],
+      onWorkerLog: () => {},
+    })
+    await app.start()
+
+    const results: RenderResultMessage[] = []
+    app.onRender((result) => results.push(result))
+    const waitFor = async (count: number) => {
+      for (let i = 0; i < 40 && results.length < count; i++) await Bun.sleep(25)
+    }
+
+    app.requestRender('c1', { width: 12, height: 3 })
+    await waitFor(1)
+    expect(results[0]).toMatchObject({ columnId: 'c1', width: 12, height: 3, title: 'Tickers' })
+    expect(results[0]!.lines.map(stripAnsi)).toEqual(['No items    ', '            ', '            '])
+
+    // Changes re-render into the same viewport, debounced into one frame
+    app.sendAction('c1', 'SET_DATA', ['AAPL'])
+    app.sendAction('c1', 'APPEND', 'MSFT')
+    await waitFor(2)
+    await Bun.sleep(100)
+    expect(results.length).toBe(2)
+    expect(app.renderFrame('c1')!.lines.map(stripAnsi)).toEqual(['AAPL        ', 'MSFT        ', '            '])
+
+    // REQUEST frames get the rendering as the response
+    const response = await app.request('c1', MessageType.RENDER_REQUEST, new TextEncoder().encode('{"width":4,"height":2}'))
+    expect(JSON.parse(new TextDecoder().decode(response.payload)).lines).toEqual(['AAPL', 'MSFT'])
+    expect(() => app!.requestRender('nope', { width: 1, height: 1 })).toThrow('Column nope not found')
+  })
+
+  it('should emit gauge threshold events and render the gauge history', async () => {
+    app = new Sixcol({
+      name: 'test',
+      columns: [
+        { id: 'risk', type: 'gauge', options: { max: 1, label: 'Risk', thresholds: [0.6, 0.8] } },
+        { id: 'alerts', type: 'log' },
+      ],
+      wiring: [{ on: { column: 'risk', event: 'RISK_THRESHOLD' }, do: { column: 'alerts', action: 'APPEND' } }],
+      onWorkerLog: () => {},
+    })
+    await app.start()
+
+    const events: { event: string; data: unknown; targets: string[] }[] = []
+    app.onEvent((event) => events.push(event))
+    for (const score of [0.5, 0.85, 0.7]) {
+      app.sendAction('risk', 'UPDATE_SCORE', { riskScore: score })
+      await Bun.sleep(20)
+    }
+    for (let i = 0; i < 40 && events.length < 3; i++) await Bun.sleep(25)
+
+    expect(events.map((e) => [e.event, e.targets])).toEqual([
+      ['RISK_THRESHOLD', ['alerts']],
+      ['RISK_THRESHOLD', ['alerts']],
+      ['RISK_THRESHOLD', ['alerts']],
+    ])
+    expect(events.map((e) => (e.data as { message: string }).message)).toEqual([
+      'Risk reached 0.60: 0.85',
+      'Risk reached 0.80: 0.85',
+      'Risk fell below 0.80: 0.70',
+    ])
+
+    // The alerts log shows them; the gauge ends with its history
+    app.requestRender('alerts', { width: 30, height: 3 })
+    app.requestRender('risk', { width: 10, height: 4 })
+    for (let i = 0; i < 40 && !(app.renderFrame('alerts') && app.renderFrame('risk')); i++) await Bun.sleep(25)
+    const alerts = app.renderFrame('alerts')!.lines.map(stripAnsi)
+    expect(alerts.map((line) => line[0])).toEqual(['⚠', '✖', 'ℹ'])
+    expect(alerts[2]).toContain('[risk] Risk fell')
+    expect(stripAnsi(app.renderFrame('risk')!.lines[3]!).trim()).toBe('▁█▅')
+  })
+
+  it('should forward key presses to form columns and route SUBMITTED', async () => {
+    app = new Sixcol({
+      name: 'test',
+      columns: [
+        {
+          id: 'params',
+          type: 'form',
+          options: { fields: [{ name: 'rho', type: 'number', default: -0.3, min: -1, max: 1 }] },
+        },
+        { id: 'surface', type: 'list' },
+      ],
+      wiring: [
+        { on: { column: 'params', event: 'SUBMITTED' }, do: { column: 'surface', action: 'SET_SVI', transform: 'data.values' } },
+      ],
+      onWorkerLog: () => {},
+    })
+    await app.start()
+
+    const events: unknown[] = []
+    app.onEvent((event) => events.push(event))
+    for (const key of ['backspace', 'backspace', 'backspace', 'backspace', '0', '.', '5', 'down', 'return']) {
+      app.sendInput('params', { key })
+    }
+    for (let i = 0; i < 40 && events.length < 1; i++) await Bun.sleep(25)
+
+    expect(events).toEqual([
+      { columnId: 'params', event: 'SUBMITTED', data: { columnId: 'params', values: { rho: 0.5 } }, targets: ['surface'] },
+    ])
+    app.requestRender('params', { width: 20, height: 3 })
+    for (let i = 0; i < 40 && !app.renderFrame('params'); i++) await Bun.sleep(25)
+    expect(app.renderFrame('params')!.lines.map((line) => stripAnsi(line).trimEnd())).toEqual([
+      '  rho  0.5',
+      '',
+      '› [ Submit ]  ✓ Subm',
+    ])
+    expect(() => app!.sendInput('nope', { key: 'a' })).toThrow('Column nope not found')
+  })
+
+  it('should move a heatmap cursor and emit SELECTED with the node', async () => {
+    app = new Sixcol({ name: 'test', columns: [{ id: 'heat', type: 'heatmap' }], onWorkerLog: () => {} })
+    await app.start()
+
+    const events: unknown[] = []
+    app.onEvent((event) => events.push(event))
+    const surface = createTestSurface(5, 5)
+    app.publishSurface('heat', surface)
+    for (const key of ['down', 'l', 'return']) app.sendInput('heat', { key })
+    for (let i = 0; i < 40 && events.length < 1; i++) await Bun.sleep(25)
+
+    // Workers keep surfaces in float32
+    expect(events).toEqual([
+      {
+        columnId: 'heat',
+        event: 'SELECTED',
+        data: { columnId: 'heat', index: 18, value: { xi: 3, yi: 3, x: 0.75, y: 0.75, z: Math.fround(surface.z[18]!) } },
+        targets: [],
+      },
+    ])
+    app.requestRender('heat', { width: 40, height: 6 })
+    for (let i = 0; i < 40 && !app.renderFrame('heat'); i++) await Bun.sleep(25)
+    expect(stripAnsi(app.renderFrame('heat')!.lines[0]!)).toStartWith('X 0.75 · Y 0.75 · Z')
+  })
+
+  it('should report malformed frames and drop unhandled verbs without exiting', async () => {
+    const socketDir = `/tmp/sixcol-test-${Date.now()}`
+    const logs: string[] = []
+    app = new Sixcol({
+      name: 'test',
+      settings: { socketDir },
+      columns: [{ id: 'c1', type: 'list' }],
+      onWorkerLog: (_, line) => logs.push(line),
+    })
+    await app.start()
+
+    app.sendAction('c1', 'SET_DATA', ['AAPL'])
+    app.sendToColumn('c1', MessageType.SET_DATA, new TextEncoder().encode('not json'))
+    app.sendToColumn('c1', MessageType.SURFACE_FULL, new Uint8Array([1, 2, 3]))
+    app.sendAction('c1', 'UPDATE_SLICE_Z', ['overwritten'])
+    const logged = () => logs.some((line) => line.includes('UPDATE_SLICE_Z'))
+    for (let i = 0; i < 40 && !logged(); i++) await Bun.sleep(25)
+
+    expect(logs.some((line) => line.includes('Failed to handle SET_DATA'))).toBe(true)
+    expect(logs.some((line) => line.includes('Failed to handle SURFACE_FULL'))).toBe(true)
+    expect(logs.some((line) => line.includes('Dropped unhandled action UPDATE_SLICE_Z'))).toBe(true)
+    expect(app.getColumn('c1')?.ready).toBe(true)
+
+    const client = await ColumnClient.connect(`${socketDir}/c1.sock`)
+    try {
+      expect(await client.getData<string[]>()).toEqual(['AAPL'])
+    } finally {
+      client.close()
+    }
+  })
+
+  it('should drive the risk oracle verbs from SURFACE_UPDATE and RISK_METRICS', async () => {
+    const socketDir = `/tmp/sixcol-test-${Date.now()}`
+    const wire = (event: string, column: string, action: string) => ({ on: { column: 'cube', event }, do: { column, action } })
+    app = new Sixcol({
+      name: 'test',
+      settings: { socketDir },
+      columns: [
+        { id: 'cube', type: 'surface' },
+        { id: 'term', type: 'chart' },
+        { id: 'smile', type: 'chart' },
+        { id: 'slope', type: 'table' },
+        { id: 'arb', type: 'list' },
+        { id: 'score', type: 'gauge' },
+        { id: 'alerts', type: 'log' },
+      ],
+      wiring: [
+        wire('SURFACE_UPDATE', 'term', 'UPDATE_SLICE_X'),
+        wire('SURFACE_UPDATE', 'smile', 'UPDATE_SLICE_Y'),
+        wire('SURFACE_UPDATE', 'slope', 'RECOMPUTE'),
+        wire('SURFACE_UPDATE', 'arb', 'CHECK_ARBITRAGE'),
+        wire('RISK_METRICS', 'score', 'UPDATE_SCORE'),
+        { on: { column: 'arb', event: 'ARBITRAGE_FOUND' }, do: { column: 'alerts', action: 'APPEND' } },
+      ],
+      onWorkerLog: () => {},
+    })
+    await app.start()
+
+    const events: { columnId: string; event: string; data: unknown; targets: string[] }[] = []
+    app.onEvent((event) => events.push(event))
+    // The 90 strike is inverted along the term structure (calendar arbitrage)
+    app.publishSurface(
+      'cube',
+      createSurface(
+        new Float64Array([30, 60, 90]),
+        new Float64Array([90, 100, 110]),
+        new Float64Array([0.5, 0.2, 0.22, 0.4, 0.21, 0.23, 0.3, 0.22, 0.24]),
+        { x: 'DTE', y: 'Strike', z: 'IV' }
+      )
+    )
+    for (let i = 0; i < 40 && events.length < 3; i++) await Bun.sleep(25)
+
+    // ARBITRAGE_FOUND comes from another worker, so it may overtake RISK_METRICS
+    expect(events.map((e) => [e.columnId, e.event, e.targets]).sort()).toEqual([
+      ['arb', 'ARBITRAGE_FOUND', ['alerts']],
+      ['cube', 'RISK_METRICS', ['score']],
+      ['cube', 'SURFACE_UPDATE', ['term', 'smile', 'slope', 'arb']],
+    ])
+
+    // Each column's data, once its action has arrived
+    const getData = async (id: string) => {
+      const client = await ColumnClient.connect(`${socketDir}/${id}.sock`)
+      try {
+        let data = await client.getData()
+        for (let i = 0; i < 40 && data === null; i++) {
+          await Bun.sleep(25)
+          data = await client.getData()
+        }
+        return data
+      } finally {
+        client.close()
+      }
+    }
+    expect(await getData('term')).toMatchObject({
+      series: [{ label: 'Strike 90', x: [30, 60, 90] }, { label: 'Strike 100' }, { label: 'Strike 110' }],
+    })
+    expect(await getData('smile')).toMatchObject({ series: [{ label: 'DTE 30' }, { label: 'DTE 60' }] })
+    expect(((await getData('slope')) as { rows: { metric: string }[] }).rows[0]!.metric).toBe('Max slope')
+    expect(((await getData('arb')) as { items: { type: string }[] }).items[0]!.type).toBe('calendar')
+    const metrics = events.find((e) => e.event === 'RISK_METRICS')!.data as { riskScore: number }
+    expect(await getData('score')).toBe(metrics.riskScore)
+    const [alert] = (await getData('alerts')) as { message: string }[]
+    expect(alert!.message).toStartWith('2 arbitrage opportunities')
+  })
+
+  it('should revalue a position book on REVALUE from SURFACE_UPDATE', async () => {
+    const socketDir = `/tmp/sixcol-test-${Date.now()}`
+    const positions = `${socketDir}-positions.csv`
+    await Bun.write(positions, 'id,underlying,type,strike,expiry,quantity,entryPrice\nc100,SPX,call,100,60,2,1\n')
+    try {
+      app = new Sixcol({
+        name: 'test',
+        settings: { socketDir },
+        columns: [
+          { id: 'cube', type: 'surface' },
+          { id: 'book', type: 'table', options: { portfolio: positions } },
+        ],
+        wiring: [{ on: { column: 'cube', event: 'SURFACE_UPDATE' }, do: { column: 'book', action: 'REVALUE' } }],
+        onWorkerLog: () => {},
+      })
+      await app.start()
+
+      // Only the surface column receives the surface; the book prices off the event
+      app.publishSurface(
+        'cube',
+        createSurface(
+          new Float64Array([30, 60, 90]),
+          new Float64Array([90, 100, 110]),
+          new Float64Array([0.25, 0.2, 0.22, 0.24, 0.21, 0.23, 0.26, 0.22, 0.24]),
+          { x: 'DTE', y: 'Strike', z: 'IV' }
+        )
+      )
+
+      const client = await ColumnClient.connect(`${socketDir}/book.sock`)
+      try {
+        type Book = { rows: { id: string; vol: number; price: number; pnl: number }[] }
+        let book = await client.getData<Book | null>()
+        for (let i = 0; i < 40 && book === null; i++) {
+          await Bun.sleep(25)
+          book = await client.getData<Book | null>()
+        }
+        const [row] = book!.rows
+        expect(row!.id).toBe('c100')
+        expect(row!.vol).toBeCloseTo(0.21, 6)
+        expect(row!.price).toBeGreaterThan(0)
+        expect(row!.pnl).toBeCloseTo(2 * (row!.price - 1), 6)
+      } finally {
+        client.close()
+      }
+    } finally {
+      await rm(positions, { force: true })
+    }
+  })
+
+  it('should keep reading a column after a message handler throws', async () => {
+    const socketDir = `/tmp/sixcol-test-${Date.now()}`
+    app = new Sixcol({ name: 'test', settings: { socketDir }, columns: [{ id: 'c1', type: 'list' }], onWorkerLog: () => {} })
+    await app.start()
+
+    const events: string[] = []
+    app.onEvent((event) => events.push(event.event))
+    app.onMessage('c1', MessageType.EVENT, () => {
+      throw new Error('handler bug')
+    })
+
+    const client = await ColumnClient.connect(`${socketDir}/c1.sock`)
+    try {
+      await client.emit('FIRST', 1)
+      await client.emit('SECOND', 2)
+      for (let i = 0; i < 40 && events.length < 2; i++) await Bun.sleep(25)
+      expect(events).toEqual(['FIRST', 'SECOND'])
+    } finally {
+      client.close()
+    }
+  })
+
+  it('should restart sources and report a reload whose column fails to spawn', async () => {
+    const socketDir = `/tmp/sixcol-test-${Date.now()}`
+    const template = `${socketDir}-template.json`
+    const data = `${socketDir}-data.json`
+    const sources = [{ type: 'file' as const, target: data, interval: 20, parse: 'json' as const, columns: ['c1'] }]
+    await Bun.write(data, '[1]')
+    await Bun.write(template, JSON.stringify({ name: 'test', columns: [{ id: 'c1', type: 'list' }], sources }))
+    try {
+      app = new Sixcol({
+        name: 'test',
+        settings: { socketDir },
+        columns: [{ id: 'c1', type: 'list' }],
+        sources,
+        template,
+        onWorkerLog: () => {},
+      })
+      await app.start()
+      const reloads: string[][] = []
+      app.onReload((next) => reloads.push(next.columns.map((c) => c.id)))
+
+      // c2 cannot be spawned: bun is not on the PATH
+      await Bun.write(
+        template,
+        JSON.stringify({ name: 'test', columns: [{ id: 'c1', type: 'list' }, { id: 'c2', type: 'list' }], sources })
+      )
+      const path = process.env.PATH
+      process.env.PATH = '/nonexistent'
+      try {
+        await expect(app.reloadTemplate()).rejects.toThrow()
+      } finally {
+        process.env.PATH = path
+      }
+      expect(app.columnIds).toEqual(['c1'])
+      expect(reloads).toEqual([['c1', 'c2']])
+
+      // The source still feeds c1
+      await Bun.write(data, '[2]')
+      const client = await ColumnClient.connect(`${socketDir}/c1.sock`)
+      try {
+        let received = await client.getData<number[]>()
+        for (let i = 0; i < 40 && received[0] !== 2; i++) {
+          await Bun.sleep(25)
+          received = await client.getData<number[]>()
+        }
+        expect(received).toEqual([2])
+      } finally {
+        client.close()
+      }
+    } finally {
+      await rm(template, { force: true })
+      await rm(data, { force: true })
+    }
+  })
+
+  it('should revalue the risk oracle book from the played playlist', async () => {
+    const socketDir = `/tmp/sixcol-test-${Date.now()}`
+    const positions = `${socketDir}-positions.csv`
+    // Playlist strikes are in % of spot, expiries in days
+    await Bun.write(positions, 'id,underlying,type,strike,expiry,quantity\natm,ETH,call,100,30,1\n')
+    const template = getRiskOracleTemplate(positions)
+    // Only the first snapshot plays during the test
+    const playlist = { ...createPlaylist(), playbackSpeed: 60_000 }
+    let stop = () => {}
+    try {
+      app = new Sixcol({
+        name: template.name,
+        settings: { socketDir },
+        columns: templateColumns(template),
+        wiring: template.wiring,
+        onWorkerLog: () => {},
+      })
+      await app.start()
+      stop = playPlaylist(playlist, (snapshot) => app!.publishSurface('surface-cube', snapshot.surface))
+      expect(app.surfaceStats('surface-cube')!.keyframes).toBe(1)
+
+      const client = await ColumnClient.connect(`${socketDir}/portfolio.sock`)
+      try {
+        type Book = { rows: { id: string; vol: number }[] }
+        let book = await client.getData<Book | null>()
+        for (let i = 0; i < 40 && book === null; i++) {
+          await Bun.sleep(25)
+          book = await client.getData<Book | null>()
+        }
+        // The 30 day expiry at the money of the first snapshot
+        const first = playlist.snapshots[0]!.surface
+        expect([first.x[3], first.y[12]]).toEqual([30, 100])
+        expect(book!.rows[0]).toMatchObject({ id: 'atm' })
+        expect(book!.rows[0]!.vol).toBeCloseTo(getZ(first, 3, 12), 6)
+      } finally {
+        client.close()
+      }
+    } finally {
+      stop()
+      await rm(positions, { force: true })
+    }
+  })
 })
@@ -4,8 +4,56 @@
 
 import { spawn, type Subprocess } from 'bun'
 import { mkdir, rm } from 'node:fs/promises'
-import { MessageType, type FrameHeader } from './ipc/protocol.ts'
-import { encodeFrame, FrameReader } from './ipc/frame.ts'
+import {
+  MessageType,
+  PROTOCOL_VERSION,
+  defaultSocketDir,
+  type CompressionCodec,
+  type ErrorMessage,
+  type FrameHeader,
+  type InitMessage,
+  type InputMessage,
+  type ReadyMessage,
+  type RenderRequestMessage,
+  type RenderResultMessage,
+} from './ipc/protocol.ts'
+import {
+  encodeFrame,
+  FrameReader,
+  negotiateCodec,
+  DEFAULT_COMPRESSION_THRESHOLD,
+  type FrameCompression,
+} from './ipc/frame.ts'
+import { RpcClient, type RequestOptions, type RpcResponse } from './ipc/rpc.ts'
+import { negotiateHandshake, HandshakeErrorCode, type Handshake } from './ipc/handshake.ts'
+import type { BridgeAddress, BridgeOptions } from './ipc/bridge.ts'
+import { SurfacePublisher, type PublishResult, type SurfacePublisherOptions, type SurfaceStreamStats } from './ipc/stream.ts'
+import type { Surface } from './data/surface.ts'
+import type { Vec32, Vec64 } from './data/vec.ts'
+import type { DataSourceConfig, EventWiring, SixcolTemplate } from './config/types.ts'
+import { loadTemplate } from './config/loader.ts'
+import {
+  createEventRouter,
+  decodeColumnEvent,
+  encodeAction,
+  ROUTED_EVENTS,
+  type EventRouter,
+} from './config/wiring.ts'
+import { SourceManager, type SourceStatus } from './column/sources.ts'
+import type { BackoffOptions } from './column/external.ts'
+import {
+  ColumnSupervisor,
+  type ColumnHealth,
+  type RestartPolicy,
+  type SupervisorOptions,
+} from './column/supervisor.ts'
+import {
+  ControlServer,
+  CONTROL_SOCKET_NAME,
+  type ColumnSummary,
+  type RoutedEvent,
+  type TemplateReload,
+} from './column/control.ts'
 
 export interface ColumnConfig {
   id: string
@@ -18,6 +66,7 @@ export interface ColumnConfig {
     refresh?: number
   }
   options?: Record<string, unknown>
+  restart?: RestartPolicy // Default 'on-failure'
 }
 
 export interface SixcolConfig {
@@ -28,17 +77,50 @@ export interface SixcolConfig {
     theme?: string
   }
   columns: ColumnConfig[]
-  wiring?: Array<{
-    on: { column: string; event: string }
-    do: { column: string; method: string }
-  }>
+  wiring?: EventWiring[]
+  sources?: DataSourceConfig[]
+  sourceBackoff?: BackoffOptions
+  supervisor?: SupervisorOptions
+  onWorkerLog?: (columnId: string, line: string) => void // Worker stderr (default: console.error)
+  surfaceStream?: SurfacePublisherOptions // Keyframe interval and delta tolerance for publishSurface
+  // Frame compression offered to workers in INIT (false disables it)
+  compression?: false | { codecs?: CompressionCodec[]; threshold?: number }
+  template?: string // Template file, re-read by reloadTemplate
+  // Instance control socket (default <socketDir>/control.ctl; false disables it)
+  control?: false | { path?: string }
+  // TCP/WebSocket listeners for the column sockets; ports are bases, offset per column
+  bridge?: BridgeOptions
 }
 
+/**
+ * Column configs for a template's columns
+ */
+export function templateColumns(template: SixcolTemplate): ColumnConfig[] {
+  return template.columns.map((col) => ({
+    id: col.id,
+    type: col.type,
+    title: col.title,
+    options: col.options,
+    restart: col.restart,
+  }))
+}
+
+/**
+ * Column worker as returned by getColumn
+ * handshake and compression hold the state negotiated from the worker's READY:
+ * protocol version, shared features, widget types, and the frame codec
+ */
 interface ColumnProcess {
   id: string
-  proc: Subprocess
+  config: ColumnConfig
+  proc: Subprocess<'pipe', 'pipe', 'pipe'>
   reader: FrameReader
-  ready: boolean
+  rpc: RpcClient
+  handshake: Handshake | null // null until READY
+  compression: FrameCompression | null // Negotiated after READY
+  ready: boolean // READY received and handshake compatible
+  exited: boolean
+  bridge: BridgeAddress | null // Network listeners reported in READY
 }
 
 export class Sixcol {
@@ -46,10 +128,39 @@ export class Sixcol {
   private socketDir: string
   private config: SixcolConfig
   private messageHandlers: Map<string, (header: FrameHeader, payload: Uint8Array) => void> = new Map()
+  private router: EventRouter
+  private sources: SourceManager | null = null
+  private sourceStatusHandlers: Set<(status: SourceStatus) => void> = new Set()
+  private supervisor: ColumnSupervisor
+  private healthHandlers: Set<(health: ColumnHealth) => void> = new Set()
+  private lastData: Map<string, Uint8Array> = new Map() // Last SET_DATA per column, replayed after restarts
+  private surfaceStreams: Map<string, SurfacePublisher> = new Map()
+  private eventHandlers: Set<(event: RoutedEvent) => void> = new Set()
+  private control: ControlServer | null = null
+  private reloading = false
+  private reloadHandlers: Set<(template: SixcolTemplate) => void> = new Set()
+  private bridgeSlots: Map<string, number> = new Map() // Port offset per column, kept across restarts
+  private viewports: Map<string, RenderRequestMessage> = new Map() // Requested render size, re-sent after restarts
+  private renders: Map<string, RenderResultMessage> = new Map() // Latest RENDER_RESULT per column
+  private renderHandlers: Set<(result: RenderResultMessage) => void> = new Set()
 
   constructor(config: SixcolConfig) {
     this.config = config
-    this.socketDir = config.settings?.socketDir ?? `/tmp/sixcol-${Date.now()}`
+    this.socketDir = config.settings?.socketDir ?? defaultSocketDir()
+    this.router = this.createRouter(config.wiring ?? [])
+    this.supervisor = new ColumnSupervisor(
+      {
+        ping: (columnId, seq) => this.sendToColumn(columnId, MessageType.PING, new Uint8Array(0), 0, seq),
+        kill: (columnId) => this.columns.get(columnId)?.proc.kill('SIGKILL'),
+        restart: (columnId) => this.restartColumn(columnId),
+        onHealth: (health) => {
+          for (const handler of this.healthHandlers) {
+            handler(health)
+          }
+        },
+      },
+      config.supervisor
+    )
   }
 
   async start(): Promise<void> {
@@ -63,35 +174,146 @@ export class Sixcol {
 
     // Wait for all columns to report READY
     await this.waitForReady(10000)
+    this.supervisor.start()
+    this.startSources()
+
+    if (this.config.control !== false) {
+      this.control = new ControlServer(this.config.control?.path ?? `${this.socketDir}/${CONTROL_SOCKET_NAME}`, {
+        listColumns: () => this.listColumns(),
+        health: () => this.health(),
+        reloadTemplate: (path) => this.reloadTemplate(path),
+        sendTo: (columnId, action, data) => this.sendAction(columnId, action, data),
+      })
+      await this.control.start()
+      this.onEvent((event) => this.control?.publish(event))
+    }
 
     console.log(`Sixcol started with ${this.columns.size} columns`)
   }
 
+  // Start template data sources once every column can receive data
+  private startSources(): void {
+    if (this.config.sources && this.config.sources.length > 0) {
+      this.sources = new SourceManager(
+        this.config.sources,
+        (columnId, type, payload) => this.sendToColumn(columnId, type, payload),
+        {
+          backoff: this.config.sourceBackoff,
+          onStatus: (status) => {
+            for (const handler of this.sourceStatusHandlers) {
+              handler(status)
+            }
+          },
+        }
+      )
+      this.sources.start()
+    }
+  }
+
+  private createRouter(wiring: EventWiring[]): EventRouter {
+    return createEventRouter(
+      wiring,
+      () => this.columnIds,
+      (wire, err) => {
+        console.error(`Wiring transform failed (${wire.on.column}:${wire.on.event} -> ${wire.do.column}):`, err.message)
+      }
+    )
+  }
+
   private async spawnColumn(config: ColumnConfig): Promise<void> {
     const proc = spawn({
       cmd: ['bun', 'run', new URL('./column/worker.ts', import.meta.url).pathname],
       stdin: 'pipe',
       stdout: 'pipe',
-      stderr: 'inherit',
+      stderr: 'pipe',
       env: {
         ...process.env,
         COLUMN_ID: config.id,
         COLUMN_CONFIG: JSON.stringify(config),
         SOCKET_DIR: this.socketDir,
+        ...(this.config.bridge ? { COLUMN_BRIDGE: JSON.stringify(this.bridgeFor(config.id)) } : {}),
       },
     })
 
     const column: ColumnProcess = {
       id: config.id,
+      config,
       proc,
       reader: new FrameReader(),
+      rpc: new RpcClient(
+        (type, payload, flags, seq) => this.writeFrame(column, type, payload, flags, seq),
+        `column ${config.id}`
+      ),
+      handshake: null,
+      compression: null,
       ready: false,
+      exited: false,
+      bridge: null,
     }
 
+    if (!this.columns.has(config.id)) {
+      this.supervisor.add(config.id, config.restart)
+    }
     this.columns.set(config.id, column)
 
-    // Start reading from column's stdout
+    // Start reading from column's stdout and stderr
     this.readFromColumn(column)
+    this.readWorkerLog(column)
+
+    proc.exited.then((code) => {
+      column.exited = true
+      column.ready = false
+      column.rpc.rejectAll(`Column ${column.id} exited with code ${code}`)
+      // Ignore exits of processes that were already replaced
+      if (this.columns.get(column.id) === column) {
+        this.supervisor.exited(column.id, code)
+      }
+    })
+  }
+
+  /**
+   * Bridge options for one column: each column listens on base port + its slot
+   * Slots are handed out on first spawn, so restarts and reloads keep ports
+   * A base port of 0 gives every column a free port of its own
+   */
+  private bridgeFor(columnId: string): BridgeOptions {
+    const bridge = this.config.bridge!
+    let slot = this.bridgeSlots.get(columnId)
+    if (slot === undefined) {
+      slot = this.bridgeSlots.size
+      this.bridgeSlots.set(columnId, slot)
+    }
+    const offset = (port: number | undefined) => (port ? port + slot : port)
+    return { ...bridge, tcpPort: offset(bridge.tcpPort), wsPort: offset(bridge.wsPort) }
+  }
+
+  private restartColumn(columnId: string): void {
+    const column = this.columns.get(columnId)
+    if (!column) return
+    console.error(`Restarting column ${columnId}`)
+    this.spawnColumn(column.config).catch((err) => {
+      console.error(`Failed to restart column ${columnId}:`, err)
+      this.supervisor.spawnFailed(columnId, (err as Error).message)
+    })
+  }
+
+  private async readWorkerLog(column: ColumnProcess): Promise<void> {
+    const log = this.config.onWorkerLog ?? ((_: string, line: string) => console.error(line))
+    let buffer = ''
+
+    try {
+      for await (const chunk of column.proc.stderr) {
+        buffer += new TextDecoder().decode(chunk)
+        const lines = buffer.split('\n')
+        buffer = lines.pop() ?? ''
+        for (const line of lines) {
+          log(column.id, line)
+        }
+      }
+      if (buffer) log(column.id, buffer)
+    } catch {
+      // Stream closed
+    }
   }
 
   private async readFromColumn(column: ColumnProcess): Promise<void> {
@@ -104,9 +326,22 @@ export class Sixcol {
 
         column.reader.append(value)
 
-        // Process all complete frames
-        for (const { header, payload } of column.reader.readAll()) {
-          this.handleColumnMessage(column.id, header, payload)
+        // Process all complete frames; a corrupt frame is dropped on its own
+        while (true) {
+          let frame: ReturnType<FrameReader['read']>
+          try {
+            frame = column.reader.read()
+          } catch (err) {
+            console.error(`Dropped frame from column ${column.id}:`, (err as Error).message)
+            continue
+          }
+          if (!frame) break
+          // A frame that fails to handle (or a throwing onMessage handler) must not stop the reader
+          try {
+            this.handleColumnMessage(column.id, frame.header, frame.payload)
+          } catch (err) {
+            console.error(`Error handling frame ${frame.header.type} from column ${column.id}:`, err)
+          }
         }
       }
     } catch (err) {
@@ -122,26 +357,79 @@ export class Sixcol {
     const column = this.columns.get(columnId)
     if (!column) return
 
+    // Replies to request()
+    if (column.rpc.handleFrame(header, payload)) return
+
     switch (header.type) {
-      case MessageType.READY:
+      case MessageType.READY: {
+        if (!this.negotiate(column, payload)) break
         column.ready = true
         console.log(`Column ${columnId} ready`)
+        const restarted = (this.supervisor.get(columnId)?.restarts ?? 0) > 0
+        this.supervisor.ready(columnId)
+
+        // Restore the data the column had before it was restarted
+        const data = this.lastData.get(columnId)
+        if (restarted && data) {
+          this.sendToColumn(columnId, MessageType.SET_DATA, data)
+        }
+        if (restarted) {
+          this.surfaceStreams.get(columnId)?.resync()
+        }
+
+        // Columns displayed before they were ready (or restarted) render now
+        const viewport = this.viewports.get(columnId)
+        if (viewport) {
+          this.requestRender(columnId, viewport)
+        }
         break
+      }
 
-      case MessageType.ERROR:
-        const error = JSON.parse(new TextDecoder().decode(payload))
-        console.error(`Column ${columnId} error:`, error)
+      case MessageType.RENDER_RESULT: {
+        let result: RenderResultMessage
+        try {
+          result = JSON.parse(new TextDecoder().decode(payload))
+        } catch {
+          console.error(`Invalid RENDER_RESULT from column ${columnId}`)
+          break
+        }
+        this.renders.set(columnId, result)
+        for (const handler of this.renderHandlers) {
+          handler(result)
+        }
         break
+      }
 
-      case MessageType.SELECTED:
-      case MessageType.CLICKED:
-      case MessageType.SUBMITTED:
-        // Route event to wired columns
-        this.routeEvent(columnId, header, payload)
+      case MessageType.SURFACE_RESYNC:
+        this.surfaceStreams.get(columnId)?.resync()
         break
 
+      case MessageType.PONG:
+        this.supervisor.pong(columnId, header.seq)
+        break
+
+      case MessageType.ERROR: {
+        const text = new TextDecoder().decode(payload)
+        let error: unknown
+        try {
+          error = JSON.parse(text)
+        } catch {
+          error = text
+        }
+        console.error(`Column ${columnId} error:`, error)
+        break
+      }
+
       default:
-        // Check for custom handlers
+        // Data set from the column's socket is replayed after restarts too
+        if (header.type === MessageType.SET_DATA) {
+          this.recordColumnData(columnId, payload)
+        }
+
+        // Route wired events, then check for custom handlers
+        if (ROUTED_EVENTS.has(header.type)) {
+          this.routeEvent(columnId, header, payload)
+        }
         const handler = this.messageHandlers.get(`${columnId}:${header.type}`)
         if (handler) {
           handler(header, payload)
@@ -154,15 +442,84 @@ export class Sixcol {
     header: FrameHeader,
     payload: Uint8Array
   ): void {
-    if (!this.config.wiring) return
-
-    // Find matching wiring rules
-    const eventName = MessageType[header.type]
-    for (const wire of this.config.wiring) {
-      if (wire.on.column === sourceId && wire.on.event === eventName) {
-        // Send to target column
-        this.sendToColumn(wire.do.column, MessageType.SET_DATA, payload)
+    const wired = !!this.config.wiring && this.config.wiring.length > 0
+    if (!wired && this.eventHandlers.size === 0) return
+
+    try {
+      const event = decodeColumnEvent(header.type, payload)
+      const targets: string[] = []
+      if (wired) {
+        for (const message of this.router.route(sourceId, event)) {
+          this.sendToColumn(message.columnId, message.type, message.payload)
+          targets.push(message.columnId)
+        }
+      }
+
+      const routed: RoutedEvent = { columnId: sourceId, event: event.name, data: event.data, targets }
+      for (const handler of this.eventHandlers) {
+        handler(routed)
       }
+    } catch (err) {
+      console.error(`Failed to route event from ${sourceId}:`, (err as Error).message)
+    }
+  }
+
+  /**
+   * Check the worker's READY, pick a codec it can decode and answer with INIT
+   * Incompatible workers get an ERROR instead and never become ready
+   * Workers that predate the handshake report protocol 1 and only compression
+   */
+  private negotiate(column: ColumnProcess, payload: Uint8Array): boolean {
+    let ready: ReadyMessage | null = null
+    try {
+      ready = JSON.parse(new TextDecoder().decode(payload))
+    } catch {
+      // Bare READY
+    }
+
+    const handshake = negotiateHandshake(ready, column.config.type)
+    column.handshake = handshake
+    column.bridge = ready?.bridge ?? null
+    if (!handshake.compatible) {
+      column.compression = null
+      const error: ErrorMessage = {
+        code: HandshakeErrorCode.INCOMPATIBLE,
+        message: `Incompatible column worker: ${handshake.error}`,
+        columnId: column.id,
+      }
+      console.error(`Column ${column.id} rejected: ${handshake.error}`)
+      this.writeFrame(column, MessageType.ERROR, new TextEncoder().encode(JSON.stringify(error)), 0, 0, null)
+      return false
+    }
+
+    const settings = this.config.compression === false ? null : (this.config.compression ?? {})
+    const peer = handshake.features.includes('compression') ? ready?.compression : undefined
+    const codec = settings
+      ? negotiateCodec(settings.codecs ? peer?.filter((c) => settings.codecs!.includes(c)) : peer)
+      : null
+    column.compression = codec
+      ? { codec, threshold: settings?.threshold ?? DEFAULT_COMPRESSION_THRESHOLD }
+      : null
+
+    const init: InitMessage = {
+      columnId: column.id,
+      config: { ...column.config },
+      compression: column.compression,
+      protocol: PROTOCOL_VERSION,
+      features: handshake.features,
+    }
+    // INIT itself is never compressed: the worker learns the codec from it
+    this.writeFrame(column, MessageType.INIT, new TextEncoder().encode(JSON.stringify(init)), 0, 0, null)
+    return true
+  }
+
+  // Remember { columnId, data } notifications as the column's current data
+  private recordColumnData(columnId: string, payload: Uint8Array): void {
+    try {
+      const { data } = JSON.parse(new TextDecoder().decode(payload))
+      this.lastData.set(columnId, new TextEncoder().encode(JSON.stringify(data ?? null)))
+    } catch {
+      // Not a JSON notification
     }
   }
 
@@ -179,9 +536,144 @@ export class Sixcol {
       return
     }
 
-    const frame = encodeFrame(type, payload, flags, seq)
-    column.proc.stdin.write(frame)
-    column.proc.stdin.flush()
+    if (type === MessageType.SET_DATA) {
+      this.lastData.set(columnId, payload)
+    } else if (type === MessageType.CLEAR) {
+      this.lastData.delete(columnId)
+    }
+
+    // Data for a column that is down is replayed once it restarts
+    if (column.exited) return
+
+    this.writeFrame(column, type, payload, flags, seq)
+  }
+
+  /**
+   * Send a wiring-style action (SET_DATA, APPEND, CLEAR, a custom verb, ...)
+   * to a column; binary actions take base64 data
+   */
+  sendAction(columnId: string, action: string, data: unknown): void {
+    if (!this.columns.has(columnId)) {
+      throw new Error(`Column ${columnId} not found`)
+    }
+    const { type, payload } = encodeAction(action, data, 'control', action)
+    this.sendToColumn(columnId, type, payload)
+  }
+
+  /**
+   * Ask a column to render its widget into a viewport
+   * The column answers with RENDER_RESULT (see onRender) and re-renders on
+   * every change from then on; the viewport is kept across restarts.
+   * Columns without the render feature are skipped.
+   */
+  requestRender(columnId: string, viewport: RenderRequestMessage): void {
+    const column = this.columns.get(columnId)
+    if (!column) {
+      throw new Error(`Column ${columnId} not found`)
+    }
+    this.viewports.set(columnId, viewport)
+    if (!column.ready || !column.handshake?.features.includes('render')) return
+    this.sendToColumn(columnId, MessageType.RENDER_REQUEST, new TextEncoder().encode(JSON.stringify(viewport)))
+  }
+
+  // Latest text rendering of a column, if it has rendered since requestRender
+  renderFrame(columnId: string): RenderResultMessage | undefined {
+    return this.renders.get(columnId)
+  }
+
+  onRender(handler: (result: RenderResultMessage) => void): () => void {
+    this.renderHandlers.add(handler)
+    return () => this.renderHandlers.delete(handler)
+  }
+
+  /**
+   * Forward a key press to a column (the focused panel's, in the TUI)
+   * Key presses are not queued: columns that are down or lack the input
+   * feature drop them.
+   */
+  sendInput(columnId: string, input: InputMessage): void {
+    const column = this.columns.get(columnId)
+    if (!column) {
+      throw new Error(`Column ${columnId} not found`)
+    }
+    if (!column.ready || !column.handshake?.features.includes('input')) return
+    this.sendToColumn(columnId, MessageType.INPUT, new TextEncoder().encode(JSON.stringify(input)))
+  }
+
+  /**
+   * Send a request frame and wait for the column's response
+   * Rejects on timeout, cancellation, an ERROR response, or worker exit
+   */
+  request(
+    columnId: string,
+    type: MessageType,
+    payload: Uint8Array,
+    options: RequestOptions = {}
+  ): Promise<RpcResponse> {
+    const column = this.columns.get(columnId)
+    if (!column) {
+      return Promise.reject(new Error(`Column ${columnId} not found`))
+    }
+    if (column.exited) {
+      return Promise.reject(new Error(`Column ${columnId} is not running`))
+    }
+    if (column.handshake && !column.handshake.features.includes('requests')) {
+      return Promise.reject(new Error(`Column ${columnId} does not support requests`))
+    }
+    return column.rpc.request(type, payload, options)
+  }
+
+  private writeFrame(
+    column: ColumnProcess,
+    type: MessageType,
+    payload: Uint8Array,
+    flags: number,
+    seq: number,
+    compression: FrameCompression | null = column.compression
+  ): void {
+    // A worker that died but whose exit is not yet observed fails with EPIPE
+    const frame = encodeFrame(type, payload, flags, seq, compression)
+    try {
+      column.proc.stdin.write(frame)
+      Promise.resolve(column.proc.stdin.flush()).catch(() => {})
+    } catch {
+      // The exit handler reports the failure
+    }
+  }
+
+  /**
+   * Stream a surface to a column ('*' for all): a SURFACE_FULL keyframe,
+   * then SURFACE_DELTA frames with the cells that changed
+   */
+  publishSurface(target: string, surface: Surface<Vec64 | Vec32>): PublishResult {
+    if (target === '*') {
+      let result: PublishResult = 'none'
+      for (const id of this.columnIds) {
+        const published = this.publishSurface(id, surface)
+        if (published !== 'none') result = published
+      }
+      return result
+    }
+
+    const column = this.columns.get(target)
+    if (!column) {
+      throw new Error(`Column ${target} not found`)
+    }
+    let stream = this.surfaceStreams.get(target)
+    if (!stream) {
+      // Workers without surface-delta get every update as a keyframe
+      const deltas = !column.handshake || column.handshake.features.includes('surface-delta')
+      stream = new SurfacePublisher(
+        (type, payload, flags, seq) => this.sendToColumn(target, type, payload, flags, seq),
+        deltas ? this.config.surfaceStream : { ...this.config.surfaceStream, keyframeInterval: 0 }
+      )
+      this.surfaceStreams.set(target, stream)
+    }
+    return stream.publish(surface)
+  }
+
+  surfaceStats(columnId: string): SurfaceStreamStats | undefined {
+    return this.surfaceStreams.get(columnId)?.stats
   }
 
   broadcast(type: MessageType, payload: Uint8Array, flags = 0): void {
@@ -194,6 +686,13 @@ export class Sixcol {
     const start = Date.now()
 
     while (Date.now() - start < timeoutMs) {
+      const rejected = Array.from(this.columns.values()).filter((c) => c.handshake && !c.handshake.compatible)
+      if (rejected.length > 0) {
+        throw new Error(
+          `Incompatible column workers: ${rejected.map((c) => `${c.id} (${c.handshake!.error})`).join('; ')}`
+        )
+      }
+
       const allReady = Array.from(this.columns.values()).every((c) => c.ready)
       if (allReady) return
       await Bun.sleep(50)
@@ -216,7 +715,152 @@ export class Sixcol {
     return () => this.messageHandlers.delete(key)
   }
 
+  // Every column event (wired or not), with the columns it was routed to
+  onEvent(handler: (event: RoutedEvent) => void): () => void {
+    this.eventHandlers.add(handler)
+    return () => this.eventHandlers.delete(handler)
+  }
+
+  onSourceStatus(handler: (status: SourceStatus) => void): () => void {
+    this.sourceStatusHandlers.add(handler)
+    return () => this.sourceStatusHandlers.delete(handler)
+  }
+
+  sourceStatus(): SourceStatus[] {
+    return this.sources ? this.sources.status() : []
+  }
+
+  onHealth(handler: (health: ColumnHealth) => void): () => void {
+    this.healthHandlers.add(handler)
+    return () => this.healthHandlers.delete(handler)
+  }
+
+  health(): ColumnHealth[] {
+    return this.supervisor.health()
+  }
+
+  listColumns(): ColumnSummary[] {
+    return Array.from(this.columns.values()).map((column) => ({
+      id: column.id,
+      type: column.config.type,
+      title: column.config.title ?? null,
+      socket: `${this.socketDir}/${column.id}.sock`,
+      pid: column.proc.pid,
+      ready: column.ready,
+      protocol: column.handshake?.protocol ?? null,
+      features: column.handshake?.features ?? [],
+      state: this.supervisor.get(column.id)?.state ?? null,
+      bridge: column.bridge,
+    }))
+  }
+
+  /**
+   * Re-read the template and apply it to the running instance
+   * New columns are spawned, removed ones shut down, and columns whose config
+   * changed are restarted; wiring and data sources are replaced
+   */
+  async reloadTemplate(path = this.config.template): Promise<TemplateReload> {
+    if (!path) {
+      throw new Error('No template to reload')
+    }
+    if (this.reloading) {
+      throw new Error('Template reload already in progress')
+    }
+
+    this.reloading = true
+    try {
+      const template = await loadTemplate(path)
+      // Compile transforms before touching anything, so a bad template changes nothing
+      const router = this.createRouter(template.wiring ?? [])
+      const next = templateColumns(template)
+      const nextIds = new Set(next.map((c) => c.id))
+
+      if (this.sources) {
+        this.sources.stop()
+        this.sources = null
+      }
+
+      const result: TemplateReload = { added: [], removed: [], restarted: [] }
+      try {
+        for (const column of Array.from(this.columns.values())) {
+          if (!nextIds.has(column.id)) {
+            await this.stopColumn(column)
+            this.viewports.delete(column.id)
+            result.removed.push(column.id)
+          }
+        }
+        for (const config of next) {
+          const column = this.columns.get(config.id)
+          if (!column) {
+            result.added.push(config.id)
+          } else if (JSON.stringify(column.config) !== JSON.stringify(config)) {
+            await this.stopColumn(column)
+            result.restarted.push(config.id)
+          } else {
+            continue
+          }
+          await this.spawnColumn(config)
+        }
+        await this.waitForReady(10000)
+      } finally {
+        // Even when a column failed to spawn or start, the config lists the
+        // columns that run and the sources feed them again
+        const running = next.flatMap((config) => this.columns.get(config.id)?.config ?? [])
+        this.config = { ...this.config, template: path, columns: running, wiring: template.wiring, sources: template.sources }
+        this.router = router
+        this.startSources()
+        for (const handler of this.reloadHandlers) {
+          handler(template)
+        }
+      }
+      return result
+    } finally {
+      this.reloading = false
+    }
+  }
+
+  /**
+   * Called after every template reload (also one that failed part way) with
+   * the new template, e.g. to lay out added columns
+   */
+  onReload(handler: (template: SixcolTemplate) => void): () => void {
+    this.reloadHandlers.add(handler)
+    return () => this.reloadHandlers.delete(handler)
+  }
+
+  // Shut a column down for good (removed or about to be respawned with a new config)
+  private async stopColumn(column: ColumnProcess): Promise<void> {
+    this.columns.delete(column.id)
+    this.supervisor.remove(column.id)
+    this.lastData.delete(column.id)
+    this.surfaceStreams.delete(column.id)
+    this.renders.delete(column.id)
+
+    if (!column.exited) {
+      const payload = new TextEncoder().encode(JSON.stringify({ reason: 'reload' }))
+      this.writeFrame(column, MessageType.SHUTDOWN, payload, 0, 0)
+      const exited = await Promise.race([column.proc.exited.then(() => true), Bun.sleep(5000).then(() => false)])
+      if (!exited) {
+        column.proc.kill('SIGKILL')
+        await column.proc.exited
+      }
+    }
+  }
+
+  get controlSocket(): string | null {
+    return this.control?.socketPath ?? null
+  }
+
   async shutdown(): Promise<void> {
+    // Stop data sources and restarts before the columns go away
+    if (this.sources) {
+      this.sources.stop()
+      this.sources = null
+    }
+    this.supervisor.stop()
+    this.control?.stop()
+    this.control = null
+
     // Send SHUTDOWN to all columns
     const shutdownPayload = new TextEncoder().encode(JSON.stringify({ reason: 'shutdown' }))
     this.broadcast(MessageType.SHUTDOWN, shutdownPayload)
@@ -272,7 +916,21 @@ Example:
       { id: 'col2', type: 'detail', title: 'Column 2' },
       { id: 'col3', type: 'log', title: 'Column 3' },
       { id: 'col4', type: 'table', title: 'Column 4' },
-      { id: 'col5', type: 'form', title: 'Column 5' },
+      {
+        id: 'col5',
+        type: 'form',
+        title: 'Column 5',
+        options: {
+          submitLabel: 'Apply',
+          fields: [
+            { name: 'a', type: 'number', default: 0.04, min: 0, required: true },
+            { name: 'b', type: 'number', default: 0.4, min: 0, required: true },
+            { name: 'rho', type: 'number', default: -0.3, min: -1, max: 1, required: true },
+            { name: 'm', type: 'number', default: 0 },
+            { name: 'sigma', type: 'number', default: 0.2, min: 0 },
+          ],
+        },
+      },
       { id: 'col6', type: 'surface', title: 'Column 6' },
     ],
   }
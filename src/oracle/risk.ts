@@ -19,6 +19,15 @@ import type { Surface } from '../data/surface.ts'
 import type { Vec64 } from '../data/vec.ts'
 import { computeSlope, type SlopeData } from '../data/surface.ts'
 import { computeRiskMetrics, type RiskMetrics } from '../render/gradient.ts'
+import {
+  defaultPricingMarket,
+  priceSurface,
+  type PricingMarket,
+  type PriceSurfaceOptions,
+} from '../pricing/surface.ts'
+import { revaluePortfolio, type PortfolioValuation } from '../portfolio/revalue.ts'
+import type { Position } from '../portfolio/position.ts'
+import type { QuoteFit } from '../surface/build.ts'
 
 /**
  * Column configuration for 7-column risk oracle layout
@@ -32,6 +41,7 @@ export interface RiskOracleConfig {
     arbDetect: ColumnConfig
     riskScore: ColumnConfig
     alerts: ColumnConfig
+    portfolio: ColumnConfig
   }
   wiring: EventWiring[]
 }
@@ -102,6 +112,12 @@ export function createRiskOracleConfig(): RiskOracleConfig {
         position: 'right',
         row: 'bottom',
       },
+      portfolio: {
+        id: 'portfolio',
+        type: 'table',
+        position: 'center',
+        row: 'bottom',
+      },
     },
     wiring: [
       // Surface updates propagate to all analysis panels
@@ -109,6 +125,7 @@ export function createRiskOracleConfig(): RiskOracleConfig {
       { from: 'surface-cube', event: 'SURFACE_UPDATE', to: 'smile-skew', action: 'UPDATE_SLICE_Y' },
       { from: 'surface-cube', event: 'SURFACE_UPDATE', to: 'greeks-risk', action: 'RECOMPUTE_GREEKS' },
       { from: 'surface-cube', event: 'SURFACE_UPDATE', to: 'arb-detect', action: 'CHECK_ARBITRAGE' },
+      { from: 'surface-cube', event: 'SURFACE_UPDATE', to: 'portfolio', action: 'REVALUE' },
       { from: 'surface-cube', event: 'RISK_METRICS', to: 'risk-score', action: 'UPDATE_SCORE' },
       // Risk alerts
       { from: 'arb-detect', event: 'ARBITRAGE_FOUND', to: 'alerts', action: 'APPEND' },
@@ -289,6 +306,48 @@ export interface GreeksRisk {
   volDown5Pts: number
 }
 
+/**
+ * Compute Greeks risk by pricing every surface node
+ * Stress scenarios are full revaluations (sticky strike) and report P&L
+ */
+export function computeGreeksRisk(
+  surface: Surface<Vec64>,
+  market: PricingMarket = defaultPricingMarket(surface),
+  options: Pick<PriceSurfaceOptions, 'quantity'> = {}
+): GreeksRisk {
+  const base = priceSurface(surface, market, options)
+  const { totals } = base
+
+  const scenarioPnl = (spot: number, vol: number): number =>
+    priceSurface(surface, market, { ...options, shock: { spot, vol } }).totals.price -
+    totals.price
+
+  // Delta is neutral when net exposure is small relative to gross
+  let grossDelta = 0
+  for (const node of base.nodes) {
+    grossDelta += Math.abs(node.quantity * node.delta)
+  }
+  const neutralBand = grossDelta * 0.05
+
+  return {
+    totalDelta: totals.delta,
+    totalGamma: totals.gamma,
+    totalVega: totals.vega,
+    totalTheta: totals.theta,
+
+    deltaExposure:
+      totals.delta > neutralBand ? 'long' : totals.delta < -neutralBand ? 'short' : 'neutral',
+    gammaExposure: totals.gamma >= 0 ? 'long' : 'short',
+    vegaExposure: totals.vega >= 0 ? 'long' : 'short',
+    thetaBleed: totals.theta / 365,
+
+    spotUp10Pct: scenarioPnl(1.1, 0),
+    spotDown10Pct: scenarioPnl(0.9, 0),
+    volUp5Pts: scenarioPnl(1, 0.05),
+    volDown5Pts: scenarioPnl(1, -0.05),
+  }
+}
+
 /**
  * Arbitrage detection
  */
@@ -366,22 +425,31 @@ export interface RiskOracleState {
   riskMetrics: RiskMetrics | null
   termStructure: TermStructureAnalysis | null
   smile: SmileAnalysis | null
+  greeks: GreeksRisk | null
+  positions: Position[]
+  portfolio: PortfolioValuation | null
   arbitrage: ArbitrageOpportunity[]
+  quoteFits: QuoteFit[] // Per-quote fit errors when the surface was built from quotes
   alerts: RiskAlert[]
   lastUpdate: number
 }
 
 /**
  * Create initial risk oracle state
+ * @param positions - Position book revalued on every surface update
  */
-export function createRiskOracleState(): RiskOracleState {
+export function createRiskOracleState(positions: Position[] = []): RiskOracleState {
   return {
     surface: null,
     slope: null,
     riskMetrics: null,
     termStructure: null,
     smile: null,
+    greeks: null,
+    positions,
+    portfolio: null,
     arbitrage: [],
+    quoteFits: [],
     alerts: [],
     lastUpdate: 0,
   }
@@ -392,7 +460,8 @@ export function createRiskOracleState(): RiskOracleState {
  */
 export function updateRiskOracle(
   state: RiskOracleState,
-  surface: Surface<Vec64>
+  surface: Surface<Vec64>,
+  market?: PricingMarket
 ): RiskOracleState {
   const slope = computeSlope(surface)
   const riskMetrics = computeRiskMetrics(slope, surface.nx, surface.ny)
@@ -418,6 +487,13 @@ export function updateRiskOracle(
   const atmIndex = Math.floor(surface.ny / 2)
   const smile = analyzeSmile(surface, dteIndices, atmIndex)
 
+  // Price the surface and aggregate Greeks
+  const greeks = computeGreeksRisk(surface, market)
+
+  // Mark the position book against the new surface
+  const portfolio =
+    state.positions.length > 0 ? revaluePortfolio(state.positions, surface, market) : null
+
   // Detect arbitrage
   const arbitrage = detectArbitrage(surface)
 
@@ -462,8 +538,19 @@ export function updateRiskOracle(
     riskMetrics,
     termStructure,
     smile,
+    greeks,
+    positions: state.positions,
+    portfolio,
     arbitrage,
+    quoteFits: state.quoteFits,
     alerts,
     lastUpdate: now,
   }
 }
+
+/**
+ * Attach quote fit errors from a surface build
+ */
+export function setQuoteFits(state: RiskOracleState, quoteFits: QuoteFit[]): RiskOracleState {
+  return { ...state, quoteFits }
+}
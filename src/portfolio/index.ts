@@ -0,0 +1,25 @@
+/**
+ * Portfolio module exports
+ */
+
+export {
+  toPosition,
+  parsePositionsCsv,
+  parsePositionsDocument,
+  parsePortfolio,
+  loadPortfolio,
+} from './position.ts'
+export type { Position, PortfolioFormat } from './position.ts'
+
+export {
+  EXPIRY_BUCKETS,
+  expiryBucket,
+  revaluePortfolio,
+  portfolioTableRows,
+} from './revalue.ts'
+export type {
+  RevalueOptions,
+  PositionValuation,
+  BucketExposure,
+  PortfolioValuation,
+} from './revalue.ts'
@@ -0,0 +1,126 @@
+/**
+ * Tests for the position book and revaluation
+ */
+
+import { describe, it, expect } from 'bun:test'
+import { parsePortfolio, parsePositionsCsv, toPosition } from './position.ts'
+import { revaluePortfolio, expiryBucket, portfolioTableRows } from './revalue.ts'
+import { blackScholesPrice } from '../pricing/blackscholes.ts'
+import { createRiskOracleState, updateRiskOracle } from '../oracle/risk.ts'
+import { createSurface } from '../data/surface.ts'
+import { linspace } from '../data/vec.ts'
+
+const CSV = `# book
+id,underlying,type,strike,expiry,quantity,entry_price
+p1,SPX,put,90,0.25,-10,1.5
+c1,SPX,C,110,1,5,
+"straddle, atm",SPX,call,100,0.5,2,6
+`
+
+const strikes = linspace(80, 120, 9)
+const expiries = new Float64Array([0.1, 0.25, 0.5, 1])
+const flat = createSurface(expiries, strikes, new Float64Array(36).fill(0.2))
+
+describe('Position parsing', () => {
+  it('should parse CSV with aliases and quoted fields', () => {
+    const positions = parsePositionsCsv(CSV)
+    expect(positions.length).toBe(3)
+    expect(positions[0]).toEqual({
+      id: 'p1',
+      underlying: 'SPX',
+      type: 'put',
+      strike: 90,
+      expiry: 0.25,
+      quantity: -10,
+      entryPrice: 1.5,
+    })
+    expect(positions[1]!.type).toBe('call')
+    expect(positions[1]!.entryPrice).toBeUndefined()
+    expect(positions[2]!.id).toBe('straddle, atm')
+  })
+
+  it('should parse JSON and YAML documents', () => {
+    const json = parsePortfolio(
+      JSON.stringify({ positions: [{ type: 'put', strike: 95, expiry: '2027-01-15', quantity: 1 }] }),
+      'json'
+    )
+    expect(json[0]!.expiry).toBe('2027-01-15')
+
+    const yaml = parsePortfolio(
+      `- { type: call, strike: 105, expiry: 0.5, quantity: -3, multiplier: 100 }\n`,
+      'yaml'
+    )
+    expect(yaml[0]!.multiplier).toBe(100)
+    expect(yaml[0]!.quantity).toBe(-3)
+  })
+
+  it('should reject invalid positions with their location', () => {
+    expect(() => parsePositionsCsv('type,strike,expiry,quantity\ncall,abc,1,1\n')).toThrow('line 2')
+    expect(() => toPosition({ type: 'straddle', strike: 1, expiry: 1, quantity: 1 }, 'x')).toThrow(
+      'type must be call or put'
+    )
+    expect(() => parsePortfolio('{"foo": 1}', 'json')).toThrow('positions array')
+  })
+})
+
+describe('Portfolio revaluation', () => {
+  const positions = parsePositionsCsv(CSV)
+
+  it('should mark positions from the surface', () => {
+    const valuation = revaluePortfolio(positions, flat, { underlying: 100 })
+    const p1 = valuation.positions[0]!
+
+    expect(p1.vol).toBeCloseTo(0.2, 12)
+    expect(p1.unitPrice).toBeCloseTo(
+      blackScholesPrice({ type: 'put', spot: 100, strike: 90, T: 0.25, vol: 0.2 }),
+      12
+    )
+    expect(p1.value).toBeCloseTo(-10 * p1.unitPrice, 12)
+    expect(p1.pnl).toBeCloseTo((p1.unitPrice - 1.5) * -10, 12)
+
+    // No entry price: no P&L
+    expect(valuation.positions[1]!.pnl).toBe(0)
+
+    const sum = valuation.positions.reduce((acc, v) => acc + v.greeks.vega, 0)
+    expect(valuation.totals.vega).toBeCloseTo(sum, 12)
+  })
+
+  it('should clamp off-grid positions to the surface edge', () => {
+    const skewed = createSurface(
+      expiries,
+      strikes,
+      Float64Array.from({ length: 36 }, (_, i) => 0.3 - 0.01 * (i % 9))
+    )
+    const [far] = revaluePortfolio(
+      [{ id: 'x', underlying: '', type: 'put', strike: 50, expiry: 2, quantity: 1 }],
+      skewed,
+      { underlying: 100 }
+    ).positions
+    expect(far!.vol).toBeCloseTo(0.3, 12)
+    expect(far!.T).toBe(2)
+  })
+
+  it('should aggregate exposures by expiry bucket', () => {
+    expect(expiryBucket(0.01)).toBe('1W')
+    expect(expiryBucket(0.25)).toBe('3M')
+    expect(expiryBucket(3)).toBe('>1Y')
+
+    const valuation = revaluePortfolio(positions, flat, { underlying: 100 })
+    expect(valuation.buckets.map((b) => b.bucket)).toEqual(['3M', '6M', '1Y'])
+    const threeMonth = valuation.buckets[0]!
+    expect(threeMonth.count).toBe(1)
+    expect(threeMonth.delta).toBeCloseTo(valuation.positions[0]!.greeks.delta, 12)
+
+    const rows = portfolioTableRows(valuation)
+    expect(rows[0]!.theta).toBeCloseTo(valuation.positions[0]!.greeks.theta / 365, 12)
+  })
+
+  it('should revalue the book on oracle updates', () => {
+    const state = updateRiskOracle(createRiskOracleState(positions), flat, { underlying: 100 })
+    expect(state.portfolio).not.toBeNull()
+    expect(state.portfolio!.positions.length).toBe(3)
+
+    const empty = updateRiskOracle(createRiskOracleState(), flat)
+    expect(empty.portfolio).toBeNull()
+  })
+})
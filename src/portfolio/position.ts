@@ -0,0 +1,181 @@
+/**
+ * Position Book
+ * Option positions loaded from CSV, JSON or YAML files
+ *
+ * CSV files need a header row; column names are matched case-insensitively
+ * (strike, expiry, type, quantity, underlying, plus optional id, entryPrice
+ * and multiplier). JSON/YAML files hold either an array of positions or an
+ * object with a `positions` array.
+ */
+
+import { readFileSync, existsSync } from 'fs'
+import { parse as parseYaml } from 'yaml'
+import type { OptionType } from '../pricing/blackscholes.ts'
+import { splitCsvLine } from '../data/csv.ts'
+import { parseOptionType } from '../chain/ingest.ts'
+
+/**
+ * Single option position
+ */
+export interface Position {
+  id: string
+  underlying: string
+  type: OptionType
+  strike: number
+  expiry: number | string // Surface x units (e.g. years), or an ISO date
+  quantity: number // Signed: negative for short
+  entryPrice?: number // Premium paid per unit, for P&L
+  multiplier?: number // Contract size (default 1)
+}
+
+export type PortfolioFormat = 'csv' | 'json' | 'yaml'
+
+function parseNumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null
+  if (typeof value !== 'string' || value.trim() === '') return null
+  const n = Number(value.trim())
+  return Number.isFinite(n) ? n : null
+}
+
+/**
+ * Validate a raw record and convert it to a Position
+ * @param raw - Parsed record (object from JSON/YAML or CSV row)
+ * @param where - Location used in error messages
+ */
+export function toPosition(raw: unknown, where: string): Position {
+  if (!raw || typeof raw !== 'object') {
+    throw new Error(`Invalid position at ${where}: expected an object`)
+  }
+  const r = raw as Record<string, unknown>
+
+  const type = parseOptionType(r.type)
+  if (!type) {
+    throw new Error(`Invalid position at ${where}: type must be call or put`)
+  }
+
+  const strike = parseNumber(r.strike)
+  if (strike === null || strike <= 0) {
+    throw new Error(`Invalid position at ${where}: strike must be a positive number`)
+  }
+
+  const quantity = parseNumber(r.quantity)
+  if (quantity === null) {
+    throw new Error(`Invalid position at ${where}: quantity must be a number`)
+  }
+
+  let expiry: number | string
+  const expiryNumber = parseNumber(r.expiry)
+  if (expiryNumber !== null) {
+    expiry = expiryNumber
+  } else if (r.expiry instanceof Date) {
+    expiry = r.expiry.toISOString()
+  } else if (typeof r.expiry === 'string' && !Number.isNaN(Date.parse(r.expiry))) {
+    expiry = r.expiry.trim()
+  } else {
+    throw new Error(`Invalid position at ${where}: expiry must be a number or date`)
+  }
+
+  const position: Position = {
+    id: r.id !== undefined && r.id !== '' ? String(r.id) : `${type[0]!.toUpperCase()}${strike}@${expiry}`,
+    underlying: r.underlying !== undefined && r.underlying !== '' ? String(r.underlying) : '',
+    type,
+    strike,
+    expiry,
+    quantity,
+  }
+
+  const entryPrice = parseNumber(r.entryPrice)
+  if (entryPrice !== null) position.entryPrice = entryPrice
+
+  const multiplier = parseNumber(r.multiplier)
+  if (multiplier !== null) position.multiplier = multiplier
+
+  return position
+}
+
+const CSV_FIELDS = ['id', 'underlying', 'type', 'strike', 'expiry', 'quantity', 'entryPrice', 'multiplier']
+
+/**
+ * Parse positions from CSV text
+ */
+export function parsePositionsCsv(content: string): Position[] {
+  const lines = content.split(/\r?\n/)
+  const headerIndex = lines.findIndex((l) => l.trim() !== '' && !l.trim().startsWith('#'))
+  if (headerIndex === -1) return []
+
+  // Map header names onto Position fields
+  const header = splitCsvLine(lines[headerIndex]!).map((h) => {
+    const key = h.toLowerCase().replace(/[\s_]/g, '')
+    return CSV_FIELDS.find((f) => f.toLowerCase() === key) ?? h
+  })
+
+  const positions: Position[] = []
+  for (let i = headerIndex + 1; i < lines.length; i++) {
+    const line = lines[i]!
+    if (line.trim() === '' || line.trim().startsWith('#')) continue
+
+    const fields = splitCsvLine(line)
+    const record: Record<string, string> = {}
+    header.forEach((name, j) => {
+      record[name] = fields[j] ?? ''
+    })
+
+    positions.push(toPosition(record, `line ${i + 1}`))
+  }
+
+  return positions
+}
+
+/**
+ * Parse positions from an already-decoded JSON/YAML document
+ */
+export function parsePositionsDocument(doc: unknown): Position[] {
+  const list = Array.isArray(doc)
+    ? doc
+    : doc && typeof doc === 'object' && Array.isArray((doc as { positions?: unknown }).positions)
+      ? (doc as { positions: unknown[] }).positions
+      : null
+
+  if (!list) {
+    throw new Error('Portfolio must be an array of positions or an object with a positions array')
+  }
+
+  return list.map((raw, i) => toPosition(raw, `positions[${i}]`))
+}
+
+/**
+ * Parse positions from text in the given format
+ */
+export function parsePortfolio(content: string, format: PortfolioFormat): Position[] {
+  if (format === 'csv') {
+    return parsePositionsCsv(content)
+  }
+
+  let doc: unknown
+  try {
+    doc = format === 'json' ? JSON.parse(content) : parseYaml(content)
+  } catch (e) {
+    throw new Error(`Failed to parse ${format.toUpperCase()}: ${(e as Error).message}`)
+  }
+
+  return parsePositionsDocument(doc)
+}
+
+/**
+ * Load positions from file
+ * Format is taken from the extension (.csv, .json, .yaml, .yml)
+ */
+export async function loadPortfolio(path: string): Promise<Position[]> {
+  if (!existsSync(path)) {
+    throw new Error(`Portfolio file not found: ${path}`)
+  }
+
+  const content = readFileSync(path, 'utf-8')
+  const ext = path.toLowerCase().split('.').pop()
+
+  if (ext === 'csv') return parsePortfolio(content, 'csv')
+  if (ext === 'json') return parsePortfolio(content, 'json')
+  if (ext === 'yaml' || ext === 'yml') return parsePortfolio(content, 'yaml')
+
+  throw new Error(`Unsupported portfolio format: .${ext}`)
+}
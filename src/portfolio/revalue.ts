@@ -0,0 +1,219 @@
+/**
+ * Portfolio Revaluation
+ * Marks option positions against the current volatility surface
+ *
+ * Each position's volatility is interpolated from the surface at
+ * (expiry, strike), clamped to the surface domain so positions outside
+ * the grid use the nearest edge instead of extrapolating.
+ */
+
+import type { Surface } from '../data/surface.ts'
+import { clamp, type Vec64 } from '../data/vec.ts'
+import { interpolate, type InterpolationMethod } from '../surface/interpolate.ts'
+import { optionGreeks, type Greeks } from '../pricing/blackscholes.ts'
+import {
+  addGreeks,
+  defaultPricingMarket,
+  emptyGreeks,
+  surfaceTimeScale,
+  type PricingMarket,
+} from '../pricing/surface.ts'
+import type { Position } from './position.ts'
+
+const MS_PER_YEAR = 365 * 24 * 60 * 60 * 1000
+
+/**
+ * Expiry buckets (upper bound in years)
+ */
+export const EXPIRY_BUCKETS: { label: string; maxYears: number }[] = [
+  { label: '1W', maxYears: 7 / 365 },
+  { label: '1M', maxYears: 1 / 12 },
+  { label: '3M', maxYears: 0.25 },
+  { label: '6M', maxYears: 0.5 },
+  { label: '1Y', maxYears: 1 },
+  { label: '>1Y', maxYears: Infinity },
+]
+
+export interface RevalueOptions {
+  method?: InterpolationMethod
+  asOf?: number // Valuation time (ms) for date expiries, default now
+  spots?: Record<string, number> // Per-underlying prices, overriding market.underlying
+}
+
+/**
+ * Position mark and position-scaled Greeks
+ */
+export interface PositionValuation {
+  position: Position
+  T: number // Years to expiry
+  vol: number // Interpolated implied volatility
+  unitPrice: number // Model price per unit
+  value: number // unitPrice * quantity * multiplier
+  pnl: number // Versus entry price (0 when unknown)
+  greeks: Greeks // Scaled by quantity * multiplier
+  bucket: string
+}
+
+/**
+ * Aggregated exposures for one expiry bucket
+ */
+export interface BucketExposure {
+  bucket: string
+  count: number
+  value: number
+  pnl: number
+  delta: number
+  gamma: number
+  vega: number
+  theta: number
+}
+
+export interface PortfolioValuation {
+  positions: PositionValuation[]
+  totals: Greeks // Aggregate Greeks; price is the book value
+  value: number
+  pnl: number
+  buckets: BucketExposure[] // Non-empty buckets, shortest first
+  timestamp: number
+}
+
+/**
+ * Label of the expiry bucket containing T
+ */
+export function expiryBucket(T: number): string {
+  return EXPIRY_BUCKETS.find((b) => T <= b.maxYears)!.label
+}
+
+/**
+ * Resolve a position expiry to surface x and years
+ */
+function resolveExpiry(
+  expiry: number | string,
+  timeScale: number,
+  asOf: number
+): { x: number; T: number } {
+  if (typeof expiry === 'number') {
+    return { x: expiry, T: expiry * timeScale }
+  }
+  const T = (Date.parse(expiry) - asOf) / MS_PER_YEAR
+  return { x: T / timeScale, T }
+}
+
+/**
+ * Revalue positions against a surface
+ * @param positions - Position book
+ * @param surface - Volatility surface (x = expiry, y = strike, z = IV)
+ * @param market - Underlying, rates and model
+ */
+export function revaluePortfolio(
+  positions: Position[],
+  surface: Surface<Vec64>,
+  market: PricingMarket = defaultPricingMarket(surface),
+  options: RevalueOptions = {}
+): PortfolioValuation {
+  const { method = 'bilinear', asOf = Date.now(), spots = {} } = options
+  const model = market.model ?? 'black-scholes'
+  const rate = market.rate ?? 0
+  const dividendYield = model === 'black-76' ? rate : market.dividendYield ?? 0
+  const timeScale = market.timeScale ?? surfaceTimeScale(surface)
+  const { xDomain, yDomain } = surface.meta
+
+  const valuations: PositionValuation[] = []
+  const totals = emptyGreeks()
+  const bucketMap = new Map<string, BucketExposure>()
+  let pnl = 0
+
+  for (const position of positions) {
+    const expiry = resolveExpiry(position.expiry, timeScale, asOf)
+    const T = Math.max(0, expiry.T)
+    const vol = Math.max(
+      0,
+      interpolate(
+        surface,
+        clamp(expiry.x, xDomain[0], xDomain[1]),
+        clamp(position.strike, yDomain[0], yDomain[1]),
+        method
+      )
+    )
+
+    const unit = optionGreeks(model, {
+      type: position.type,
+      spot: spots[position.underlying] ?? market.underlying,
+      strike: position.strike,
+      T,
+      vol,
+      rate,
+      dividendYield,
+    })
+
+    const size = position.quantity * (position.multiplier ?? 1)
+    const greeks = addGreeks(emptyGreeks(), unit, size)
+    const positionPnl =
+      position.entryPrice !== undefined ? (unit.price - position.entryPrice) * size : 0
+    const bucket = expiryBucket(T)
+
+    valuations.push({
+      position,
+      T,
+      vol,
+      unitPrice: unit.price,
+      value: greeks.price,
+      pnl: positionPnl,
+      greeks,
+      bucket,
+    })
+
+    addGreeks(totals, greeks)
+    pnl += positionPnl
+
+    let exposure = bucketMap.get(bucket)
+    if (!exposure) {
+      exposure = { bucket, count: 0, value: 0, pnl: 0, delta: 0, gamma: 0, vega: 0, theta: 0 }
+      bucketMap.set(bucket, exposure)
+    }
+    exposure.count++
+    exposure.value += greeks.price
+    exposure.pnl += positionPnl
+    exposure.delta += greeks.delta
+    exposure.gamma += greeks.gamma
+    exposure.vega += greeks.vega
+    exposure.theta += greeks.theta
+  }
+
+  const buckets = EXPIRY_BUCKETS.map((b) => bucketMap.get(b.label)).filter(
+    (b): b is BucketExposure => b !== undefined
+  )
+
+  return {
+    positions: valuations,
+    totals,
+    value: totals.price,
+    pnl,
+    buckets,
+    timestamp: Date.now(),
+  }
+}
+
+/**
+ * Flatten a valuation into table rows (one per position)
+ * Vega is per vol point and theta per day, matching the risk panels
+ */
+export function portfolioTableRows(valuation: PortfolioValuation): Record<string, unknown>[] {
+  return valuation.positions.map((v) => ({
+    id: v.position.id,
+    underlying: v.position.underlying,
+    type: v.position.type,
+    strike: v.position.strike,
+    expiry: v.position.expiry,
+    quantity: v.position.quantity,
+    bucket: v.bucket,
+    vol: v.vol,
+    price: v.unitPrice,
+    value: v.value,
+    pnl: v.pnl,
+    delta: v.greeks.delta,
+    gamma: v.greeks.gamma,
+    vega: v.greeks.vega / 100,
+    theta: v.greeks.theta / 365,
+  }))
+}
@@ -0,0 +1,237 @@
+/**
+ * Black-Scholes / Black-76 Option Pricing
+ * Closed-form prices and Greeks with continuous rates and dividend yield
+ *
+ * Black-Scholes (spot S, dividend yield q):
+ *   d1 = (ln(S/K) + (r - q + sigma^2/2) * T) / (sigma * sqrt(T))
+ *   d2 = d1 - sigma * sqrt(T)
+ *   C = S*e^(-qT)*N(d1) - K*e^(-rT)*N(d2)
+ *
+ * Black-76 prices options on a forward F and is Black-Scholes with S = F, q = r.
+ *
+ * Greeks are raw partial derivatives: vega per unit of volatility,
+ * theta per year of calendar time, rho per unit of rate.
+ */
+
+export type OptionType = 'call' | 'put'
+
+export type PricingModel = 'black-scholes' | 'black-76'
+
+/**
+ * Black-Scholes inputs
+ */
+export interface OptionInput {
+  type: OptionType
+  spot: number
+  strike: number
+  T: number // Time to expiry in years
+  vol: number // Annualized volatility
+  rate?: number // Continuously compounded risk-free rate
+  dividendYield?: number // Continuous dividend yield
+}
+
+/**
+ * Black-76 inputs
+ */
+export interface Black76Input {
+  type: OptionType
+  forward: number
+  strike: number
+  T: number
+  vol: number
+  rate?: number // Discount rate
+}
+
+export interface Greeks {
+  price: number
+  delta: number
+  gamma: number
+  vega: number
+  theta: number
+  rho: number
+}
+
+const SQRT_2PI = Math.sqrt(2 * Math.PI)
+
+/**
+ * Standard normal density
+ */
+export function normPdf(x: number): number {
+  return Math.exp(-0.5 * x * x) / SQRT_2PI
+}
+
+/**
+ * Standard normal cumulative distribution
+ * Hart (1968) rational approximation as given by West, accurate to double precision
+ */
+export function normCdf(x: number): number {
+  const z = Math.abs(x)
+  let c: number
+
+  if (z > 37) {
+    c = 0
+  } else {
+    const e = Math.exp(-0.5 * z * z)
+    if (z < 7.07106781186547) {
+      let n = 3.52624965998911e-2 * z + 0.700383064443688
+      n = n * z + 6.37396220353165
+      n = n * z + 33.912866078383
+      n = n * z + 112.079291497871
+      n = n * z + 221.213596169931
+      n = n * z + 220.206867912376
+      let d = 8.83883476483184e-2 * z + 1.75566716318264
+      d = d * z + 16.064177579207
+      d = d * z + 86.7807322029461
+      d = d * z + 296.564248779674
+      d = d * z + 637.333633378831
+      d = d * z + 793.826512519948
+      d = d * z + 440.413735824752
+      c = (e * n) / d
+    } else {
+      let d = z + 0.65
+      d = z + 4 / d
+      d = z + 3 / d
+      d = z + 2 / d
+      d = z + 1 / d
+      c = e / d / 2.506628274631
+    }
+  }
+
+  return x <= 0 ? c : 1 - c
+}
+
+/**
+ * Forward price of the underlying
+ */
+export function forwardPrice(
+  spot: number,
+  T: number,
+  rate = 0,
+  dividendYield = 0
+): number {
+  return spot * Math.exp((rate - dividendYield) * T)
+}
+
+/**
+ * Payoff at expiry
+ */
+export function intrinsicValue(type: OptionType, underlying: number, strike: number): number {
+  return type === 'call'
+    ? Math.max(0, underlying - strike)
+    : Math.max(0, strike - underlying)
+}
+
+/**
+ * Black-Scholes price
+ */
+export function blackScholesPrice(input: OptionInput): number {
+  return blackScholesGreeks(input).price
+}
+
+/**
+ * Black-Scholes price and Greeks
+ */
+export function blackScholesGreeks(input: OptionInput): Greeks {
+  const { type, spot: S, strike: K, T, vol } = input
+  const r = input.rate ?? 0
+  const q = input.dividendYield ?? 0
+
+  // Expired or zero-vol: discounted intrinsic on the forward
+  if (T <= 0 || vol <= 0) {
+    const tau = Math.max(0, T)
+    const F = forwardPrice(S, tau, r, q)
+    const df = Math.exp(-r * tau)
+    const itm = type === 'call' ? F > K : F < K
+    const sign = type === 'call' ? 1 : -1
+    return {
+      price: df * intrinsicValue(type, F, K),
+      delta: itm ? sign * Math.exp(-q * tau) : 0,
+      gamma: 0,
+      vega: 0,
+      theta: 0,
+      rho: itm ? sign * K * tau * df : 0,
+    }
+  }
+
+  const sqrtT = Math.sqrt(T)
+  const d1 = (Math.log(S / K) + (r - q + 0.5 * vol * vol) * T) / (vol * sqrtT)
+  const d2 = d1 - vol * sqrtT
+  const dq = Math.exp(-q * T)
+  const dr = Math.exp(-r * T)
+  const pdf = normPdf(d1)
+
+  const gamma = (dq * pdf) / (S * vol * sqrtT)
+  const vega = S * dq * pdf * sqrtT
+  const decay = (-S * dq * pdf * vol) / (2 * sqrtT)
+
+  if (type === 'call') {
+    const Nd1 = normCdf(d1)
+    const Nd2 = normCdf(d2)
+    return {
+      price: S * dq * Nd1 - K * dr * Nd2,
+      delta: dq * Nd1,
+      gamma,
+      vega,
+      theta: decay - r * K * dr * Nd2 + q * S * dq * Nd1,
+      rho: K * T * dr * Nd2,
+    }
+  }
+
+  const Nmd1 = normCdf(-d1)
+  const Nmd2 = normCdf(-d2)
+  return {
+    price: K * dr * Nmd2 - S * dq * Nmd1,
+    delta: -dq * Nmd1,
+    gamma,
+    vega,
+    theta: decay + r * K * dr * Nmd2 - q * S * dq * Nmd1,
+    rho: -K * T * dr * Nmd2,
+  }
+}
+
+/**
+ * Black-76 price
+ */
+export function black76Price(input: Black76Input): number {
+  return black76Greeks(input).price
+}
+
+/**
+ * Black-76 price and Greeks (delta and gamma with respect to the forward)
+ */
+export function black76Greeks(input: Black76Input): Greeks {
+  const r = input.rate ?? 0
+  const greeks = blackScholesGreeks({
+    type: input.type,
+    spot: input.forward,
+    strike: input.strike,
+    T: input.T,
+    vol: input.vol,
+    rate: r,
+    dividendYield: r,
+  })
+
+  // With F fixed, the only rate dependence is the discount factor
+  return { ...greeks, rho: -Math.max(0, input.T) * greeks.price }
+}
+
+/**
+ * Price and Greeks under the chosen model
+ * For Black-76 the underlying is the forward/futures price
+ */
+export function optionGreeks(
+  model: PricingModel,
+  input: OptionInput
+): Greeks {
+  if (model === 'black-76') {
+    return black76Greeks({
+      type: input.type,
+      forward: input.spot,
+      strike: input.strike,
+      T: input.T,
+      vol: input.vol,
+      rate: input.rate,
+    })
+  }
+  return blackScholesGreeks(input)
+}
@@ -0,0 +1,154 @@
+/**
+ * Implied Volatility
+ * Inverts Black-76 prices with a safeguarded Newton iteration
+ *
+ * Prices are first made undiscounted and converted to the out-of-the-money
+ * option via put-call parity, which removes the intrinsic value that would
+ * otherwise swamp the time value. Newton steps on sigma start from the
+ * inflection point sqrt(2|ln(F/K)|/T), where the price is convex on one side
+ * and concave on the other, and fall back to bisection whenever a step
+ * leaves the current bracket, so the iteration always converges.
+ */
+
+import { forwardPrice, normCdf, normPdf, type OptionInput, type OptionType } from './blackscholes.ts'
+
+/**
+ * Inputs for inverting a Black-76 price
+ */
+export interface ImpliedVolInput {
+  type: OptionType
+  forward: number
+  strike: number
+  T: number // Years to expiry
+  discount?: number // Discount factor applied to the price (default 1)
+}
+
+export interface ImpliedVolOptions {
+  tolerance?: number // Relative tolerance on the out-of-the-money value
+  maxIter?: number
+}
+
+export interface ImpliedVolResult {
+  vol: number // NaN when the price is outside the no-arbitrage bounds
+  iterations: number
+  converged: boolean
+}
+
+const MAX_VOL = 20
+
+/**
+ * Undiscounted Black price and vega
+ */
+function blackValue(
+  type: OptionType,
+  F: number,
+  K: number,
+  T: number,
+  vol: number
+): { price: number; vega: number } {
+  const sqrtT = Math.sqrt(T)
+  const s = vol * sqrtT
+  const d1 = Math.log(F / K) / s + 0.5 * s
+  const d2 = d1 - s
+  const price =
+    type === 'call'
+      ? F * normCdf(d1) - K * normCdf(d2)
+      : K * normCdf(-d2) - F * normCdf(-d1)
+  return { price, vega: F * normPdf(d1) * sqrtT }
+}
+
+/**
+ * Implied volatility from a Black-76 option price
+ * @param price - Option premium (discounted by input.discount)
+ * @param input - Forward, strike, expiry and option type
+ */
+export function impliedVolatility(
+  price: number,
+  input: ImpliedVolInput,
+  options: ImpliedVolOptions = {}
+): ImpliedVolResult {
+  const { tolerance = 1e-12, maxIter = 100 } = options
+  const { forward: F, strike: K, T } = input
+  const discount = input.discount ?? 1
+
+  if (!(price >= 0) || !(T > 0) || !(F > 0) || !(K > 0) || !(discount > 0)) {
+    return { vol: NaN, iterations: 0, converged: false }
+  }
+
+  // Undiscounted out-of-the-money value
+  let value = price / discount
+  let type = input.type
+  if (type === 'call' && K < F) {
+    value -= F - K
+    type = 'put'
+  } else if (type === 'put' && K > F) {
+    value -= K - F
+    type = 'call'
+  }
+
+  const tol = tolerance * F
+  const upper = type === 'call' ? F : K
+  if (value < -tol || value >= upper) {
+    return { vol: NaN, iterations: 0, converged: false }
+  }
+  if (value <= tol) {
+    return { vol: 0, iterations: 0, converged: true }
+  }
+
+  const logMoneyness = Math.abs(Math.log(F / K))
+  let lo = 0
+  let hi = MAX_VOL
+  let vol =
+    logMoneyness > 1e-8
+      ? Math.sqrt((2 * logMoneyness) / T)
+      : (value / F) * Math.sqrt((2 * Math.PI) / T) // ATM approximation
+  vol = Math.min(Math.max(vol, 1e-4), MAX_VOL / 2)
+
+  for (let iter = 1; iter <= maxIter; iter++) {
+    const { price: model, vega } = blackValue(type, F, K, T, vol)
+    const diff = model - value
+
+    if (Math.abs(diff) <= tolerance * value) {
+      return { vol, iterations: iter, converged: true }
+    }
+
+    // Price is increasing in vol: shrink the bracket
+    if (diff > 0) hi = vol
+    else lo = vol
+
+    let next = vega > 0 ? vol - diff / vega : NaN
+    if (!(next > lo && next < hi)) {
+      next = 0.5 * (lo + hi)
+    }
+
+    if (hi - lo <= 1e-15 * Math.max(1, hi)) {
+      return { vol: next, iterations: iter, converged: true }
+    }
+    vol = next
+  }
+
+  return { vol, iterations: maxIter, converged: false }
+}
+
+/**
+ * Implied volatility from a Black-Scholes price on spot
+ */
+export function blackScholesImpliedVol(
+  price: number,
+  input: Omit<OptionInput, 'vol'>,
+  options: ImpliedVolOptions = {}
+): ImpliedVolResult {
+  const r = input.rate ?? 0
+  const q = input.dividendYield ?? 0
+  return impliedVolatility(
+    price,
+    {
+      type: input.type,
+      forward: forwardPrice(input.spot, input.T, r, q),
+      strike: input.strike,
+      T: input.T,
+      discount: Math.exp(-r * input.T),
+    },
+    options
+  )
+}
@@ -0,0 +1,41 @@
+/**
+ * Pricing module exports
+ */
+
+export {
+  normPdf,
+  normCdf,
+  forwardPrice,
+  intrinsicValue,
+  blackScholesPrice,
+  blackScholesGreeks,
+  black76Price,
+  black76Greeks,
+  optionGreeks,
+} from './blackscholes.ts'
+export type {
+  OptionType,
+  PricingModel,
+  OptionInput,
+  Black76Input,
+  Greeks,
+} from './blackscholes.ts'
+
+export { impliedVolatility, blackScholesImpliedVol } from './implied.ts'
+export type { ImpliedVolInput, ImpliedVolOptions, ImpliedVolResult } from './implied.ts'
+
+export {
+  emptyGreeks,
+  addGreeks,
+  otmOptionType,
+  defaultPricingMarket,
+  surfaceTimeScale,
+  priceSurface,
+} from './surface.ts'
+export type {
+  PricingMarket,
+  PricingShock,
+  NodeGreeks,
+  SurfacePricing,
+  PriceSurfaceOptions,
+} from './surface.ts'
@@ -0,0 +1,198 @@
+/**
+ * Tests for option pricing and surface Greeks
+ */
+
+import { describe, it, expect } from 'bun:test'
+import {
+  normCdf,
+  blackScholesPrice,
+  blackScholesGreeks,
+  black76Greeks,
+  forwardPrice,
+  intrinsicValue,
+  type OptionInput,
+} from './blackscholes.ts'
+import { defaultPricingMarket, priceSurface, otmOptionType, surfaceTimeScale } from './surface.ts'
+import { impliedVolatility, blackScholesImpliedVol } from './implied.ts'
+import { computeGreeksRisk } from '../oracle/risk.ts'
+import { createSurface } from '../data/surface.ts'
+import { linspace } from '../data/vec.ts'
+
+const BASE: OptionInput = {
+  type: 'call',
+  spot: 100,
+  strike: 105,
+  T: 0.5,
+  vol: 0.25,
+  rate: 0.03,
+  dividendYield: 0.01,
+}
+
+function bump(input: OptionInput, field: 'spot' | 'vol' | 'T' | 'rate', h: number): number {
+  const up = blackScholesPrice({ ...input, [field]: (input[field] ?? 0) + h })
+  const down = blackScholesPrice({ ...input, [field]: (input[field] ?? 0) - h })
+  return (up - down) / (2 * h)
+}
+
+describe('Black-Scholes', () => {
+  it('should compute the normal CDF', () => {
+    expect(normCdf(0)).toBeCloseTo(0.5, 12)
+    expect(normCdf(1.96)).toBeCloseTo(0.9750021, 6)
+    expect(normCdf(-1.96)).toBeCloseTo(0.0249979, 6)
+  })
+
+  it('should match a reference price', () => {
+    // Hull: S=42, K=40, r=10%, sigma=20%, T=0.5
+    const call = blackScholesPrice({ type: 'call', spot: 42, strike: 40, T: 0.5, vol: 0.2, rate: 0.1 })
+    const put = blackScholesPrice({ type: 'put', spot: 42, strike: 40, T: 0.5, vol: 0.2, rate: 0.1 })
+    expect(call).toBeCloseTo(4.76, 2)
+    expect(put).toBeCloseTo(0.81, 2)
+  })
+
+  it('should satisfy put-call parity', () => {
+    const call = blackScholesPrice(BASE)
+    const put = blackScholesPrice({ ...BASE, type: 'put' })
+    const parity =
+      BASE.spot * Math.exp(-BASE.dividendYield! * BASE.T) -
+      BASE.strike * Math.exp(-BASE.rate! * BASE.T)
+    expect(call - put).toBeCloseTo(parity, 10)
+  })
+
+  it('should match finite-difference Greeks', () => {
+    for (const type of ['call', 'put'] as const) {
+      const input = { ...BASE, type }
+      const g = blackScholesGreeks(input)
+
+      expect(g.delta).toBeCloseTo(bump(input, 'spot', 1e-3), 6)
+      expect(g.vega).toBeCloseTo(bump(input, 'vol', 1e-5), 4)
+      expect(g.rho).toBeCloseTo(bump(input, 'rate', 1e-5), 4)
+      expect(g.theta).toBeCloseTo(-bump(input, 'T', 1e-5), 4)
+
+      const up = blackScholesGreeks({ ...input, spot: input.spot + 1e-2 }).delta
+      const down = blackScholesGreeks({ ...input, spot: input.spot - 1e-2 }).delta
+      expect(g.gamma).toBeCloseTo((up - down) / 2e-2, 6)
+    }
+  })
+
+  it('should return intrinsic value at expiry', () => {
+    const g = blackScholesGreeks({ ...BASE, spot: 110, T: 0 })
+    expect(g.price).toBeCloseTo(5, 12)
+    expect(g.delta).toBe(1)
+    expect(g.gamma).toBe(0)
+  })
+
+  it('should price Black-76 as Black-Scholes on the forward', () => {
+    const forward = forwardPrice(BASE.spot, BASE.T, BASE.rate!, BASE.dividendYield!)
+    const b76 = black76Greeks({
+      type: 'call',
+      forward,
+      strike: BASE.strike,
+      T: BASE.T,
+      vol: BASE.vol,
+      rate: BASE.rate,
+    })
+    expect(b76.price).toBeCloseTo(blackScholesPrice(BASE), 10)
+  })
+})
+
+describe('Surface pricing', () => {
+  const strikes = linspace(80, 120, 9)
+  const expiries = new Float64Array([0.1, 0.25, 0.5, 1])
+  const flat = createSurface(expiries, strikes, new Float64Array(36).fill(0.2))
+
+  it('should price out-of-the-money options', () => {
+    expect(otmOptionType(90, 100)).toBe('put')
+    expect(otmOptionType(110, 100)).toBe('call')
+
+    const pricing = priceSurface(flat, { underlying: 100 })
+    expect(pricing.nodes.length).toBe(36)
+    for (const node of pricing.nodes) {
+      expect(node.price).toBeGreaterThan(0)
+      expect(node.type).toBe(node.strike < 100 ? 'put' : 'call')
+    }
+  })
+
+  it('should weight totals by quantity', () => {
+    const long = priceSurface(flat, { underlying: 100 })
+    const short = priceSurface(flat, { underlying: 100 }, { quantity: () => -2 })
+    expect(short.totals.vega).toBeCloseTo(-2 * long.totals.vega, 8)
+    expect(short.totals.price).toBeCloseTo(-2 * long.totals.price, 8)
+  })
+
+  it('should compute Greeks risk with stress scenarios', () => {
+    const risk = computeGreeksRisk(flat, { underlying: 100 })
+
+    // Long strangles: long gamma and vega, paying theta
+    expect(risk.gammaExposure).toBe('long')
+    expect(risk.vegaExposure).toBe('long')
+    expect(risk.thetaBleed).toBeLessThan(0)
+    expect(risk.thetaBleed).toBeCloseTo(risk.totalTheta / 365, 12)
+
+    // Convex book gains on large moves either way
+    expect(risk.spotUp10Pct).toBeGreaterThan(0)
+    expect(risk.spotDown10Pct).toBeGreaterThan(0)
+    expect(risk.volUp5Pts).toBeGreaterThan(0)
+    expect(risk.volDown5Pts).toBeLessThan(0)
+
+    const short = computeGreeksRisk(flat, { underlying: 100 }, { quantity: () => -1 })
+    expect(short.vegaExposure).toBe('short')
+    expect(short.volUp5Pts).toBeCloseTo(-risk.volUp5Pts, 8)
+  })
+
+  it('should read DTE surfaces in days by default', () => {
+    const dte = createSurface(new Float64Array([30, 60]), linspace(90, 110, 3), new Float64Array(6).fill(0.2), {
+      x: 'DTE',
+      y: 'Strike',
+      z: 'IV',
+    })
+    expect(surfaceTimeScale(dte)).toBe(1 / 365)
+    expect(surfaceTimeScale(flat)).toBe(1)
+    expect(defaultPricingMarket(dte)).toMatchObject({ underlying: 100, timeScale: 1 / 365 })
+
+    // 30-day ATM call at 20% vol: about 0.4 * S * vol * sqrt(T)
+    const atm = priceSurface(dte).nodes[1]!
+    expect(atm).toMatchObject({ strike: 100, type: 'call' })
+    expect(atm.T).toBeCloseTo(30 / 365, 12)
+    expect(atm.price).toBeCloseTo(2.28715, 4)
+    expect(atm.price).toBeCloseTo(blackScholesPrice({ type: 'call', spot: 100, strike: 100, T: 30 / 365, vol: 0.2 }), 12)
+  })
+})
+
+describe('Implied volatility', () => {
+  it('should round-trip Black-76 prices across moneyness and expiry', () => {
+    for (const T of [0.01, 0.25, 2]) {
+      for (const strike of [50, 80, 100, 125, 200]) {
+        for (const vol of [0.05, 0.3, 1.5]) {
+          for (const type of ['call', 'put'] as const) {
+            const price = black76Greeks({ type, forward: 100, strike, T, vol, rate: 0.02 }).price
+            // Skip time values below double-precision resolution
+            const intrinsic = Math.exp(-0.02 * T) * intrinsicValue(type, 100, strike)
+            if (price - intrinsic < 1e-8) continue
+            const result = impliedVolatility(price, {
+              type,
+              forward: 100,
+              strike,
+              T,
+              discount: Math.exp(-0.02 * T),
+            })
+            expect(result.converged).toBe(true)
+            expect(result.vol).toBeCloseTo(vol, 6)
+          }
+        }
+      }
+    }
+  })
+
+  it('should invert Black-Scholes spot prices', () => {
+    const price = blackScholesPrice(BASE)
+    const { vol } = blackScholesImpliedVol(price, BASE)
+    expect(vol).toBeCloseTo(BASE.vol, 10)
+  })
+
+  it('should reject prices outside no-arbitrage bounds', () => {
+    const input = { type: 'call' as const, forward: 100, strike: 90, T: 0.5 }
+    expect(impliedVolatility(5, input).vol).toBeNaN() // Below intrinsic
+    expect(impliedVolatility(100, input).vol).toBeNaN() // Above forward
+    expect(impliedVolatility(10, input).vol).toBe(0) // Exactly intrinsic
+  })
+})
@@ -0,0 +1,157 @@
+/**
+ * Surface Pricing
+ * Prices every grid node of a volatility surface and aggregates Greeks
+ *
+ * Surface convention follows the arbitrage checks: x = time to expiry,
+ * y = strike, z = implied volatility. Each node is priced as the
+ * out-of-the-money option (put below the forward, call above).
+ */
+
+import type { Surface } from '../data/surface.ts'
+import type { Vec64 } from '../data/vec.ts'
+import {
+  forwardPrice,
+  optionGreeks,
+  type Greeks,
+  type OptionType,
+  type PricingModel,
+} from './blackscholes.ts'
+
+/**
+ * Market inputs shared by every node
+ */
+export interface PricingMarket {
+  underlying: number // Spot (Black-Scholes) or forward (Black-76)
+  rate?: number
+  dividendYield?: number
+  timeScale?: number // Multiplier from surface x to years (e.g. 1/365 for days)
+  model?: PricingModel
+}
+
+/**
+ * Scenario applied before pricing
+ */
+export interface PricingShock {
+  spot?: number // Multiplicative underlying factor (1.1 = +10%)
+  vol?: number // Additive volatility shift (0.05 = +5 vol points)
+}
+
+export interface NodeGreeks extends Greeks {
+  xi: number
+  yi: number
+  T: number
+  strike: number
+  vol: number
+  type: OptionType
+  quantity: number
+}
+
+export interface SurfacePricing {
+  nodes: NodeGreeks[] // Row-major, matching surface.z
+  totals: Greeks // Quantity-weighted sums
+  nx: number
+  ny: number
+}
+
+export interface PriceSurfaceOptions {
+  /** Position size per node (default: one unit long) */
+  quantity?: (node: { xi: number; yi: number; T: number; strike: number; type: OptionType }) => number
+  shock?: PricingShock
+}
+
+/**
+ * Zero Greeks
+ */
+export function emptyGreeks(): Greeks {
+  return { price: 0, delta: 0, gamma: 0, vega: 0, theta: 0, rho: 0 }
+}
+
+/**
+ * Accumulate quantity * greeks into a running total
+ */
+export function addGreeks(total: Greeks, greeks: Greeks, quantity = 1): Greeks {
+  total.price += quantity * greeks.price
+  total.delta += quantity * greeks.delta
+  total.gamma += quantity * greeks.gamma
+  total.vega += quantity * greeks.vega
+  total.theta += quantity * greeks.theta
+  total.rho += quantity * greeks.rho
+  return total
+}
+
+/**
+ * Out-of-the-money option type for a strike
+ */
+export function otmOptionType(strike: number, forward: number): OptionType {
+  return strike < forward ? 'put' : 'call'
+}
+
+/**
+ * Years per unit of the surface's x axis: 1/365 when it counts days (an x
+ * label of DTE or one naming days), else 1
+ */
+export function surfaceTimeScale(surface: Surface<Vec64>): number {
+  return /\bDTE\b|\bdays?\b/i.test(surface.meta.xLabel) ? 1 / 365 : 1
+}
+
+/**
+ * Default market: underlying at the middle of the strike domain, zero rates,
+ * expiries in the surface's own time unit
+ */
+export function defaultPricingMarket(surface: Surface<Vec64>): PricingMarket {
+  return {
+    underlying: (surface.meta.yDomain[0] + surface.meta.yDomain[1]) / 2,
+    rate: 0,
+    dividendYield: 0,
+    timeScale: surfaceTimeScale(surface),
+    model: 'black-scholes',
+  }
+}
+
+/**
+ * Price every node of the surface and aggregate Greeks
+ */
+export function priceSurface(
+  surface: Surface<Vec64>,
+  market: PricingMarket = defaultPricingMarket(surface),
+  options: PriceSurfaceOptions = {}
+): SurfacePricing {
+  const { nx, ny, x, y, z } = surface
+  const model = market.model ?? 'black-scholes'
+  const rate = market.rate ?? 0
+  const dividendYield = model === 'black-76' ? rate : market.dividendYield ?? 0
+  const timeScale = market.timeScale ?? surfaceTimeScale(surface)
+  const spot = market.underlying * (options.shock?.spot ?? 1)
+  const volShift = options.shock?.vol ?? 0
+
+  const nodes: NodeGreeks[] = []
+  const totals = emptyGreeks()
+
+  for (let i = 0; i < nx; i++) {
+    const T = x[i]! * timeScale
+    // Moneyness is fixed by the unshocked forward so scenarios reprice the same book
+    const forward = forwardPrice(market.underlying, Math.max(0, T), rate, dividendYield)
+
+    for (let j = 0; j < ny; j++) {
+      const strike = y[j]!
+      const vol = Math.max(0, z[i * ny + j]! + volShift)
+      const type = otmOptionType(strike, forward)
+      const quantity = options.quantity ? options.quantity({ xi: i, yi: j, T, strike, type }) : 1
+
+      const greeks = optionGreeks(model, {
+        type,
+        spot,
+        strike,
+        T,
+        vol,
+        rate,
+        dividendYield,
+      })
+
+      nodes.push({ ...greeks, xi: i, yi: j, T, strike, vol, type, quantity })
+      addGreeks(totals, greeks, quantity)
+    }
+  }
+
+  return { nodes, totals, nx, ny }
+}
@@ -0,0 +1,104 @@
+/**
+ * ANSI Text Helpers
+ * Colors, visible width and fitting of pre-rendered terminal lines
+ */
+
+export const ANSI_RESET = '\x1b[0m'
+
+// 16-color foregrounds, named like the rasterizer's cell colors
+export const ANSI_FG: Record<string, string> = {
+  black: '\x1b[30m',
+  red: '\x1b[31m',
+  green: '\x1b[32m',
+  yellow: '\x1b[33m',
+  blue: '\x1b[34m',
+  magenta: '\x1b[35m',
+  cyan: '\x1b[36m',
+  white: '\x1b[37m',
+  gray: '\x1b[90m',
+}
+
+export interface TextStyle {
+  color?: string // Key of ANSI_FG
+  bold?: boolean
+  dim?: boolean
+  inverse?: boolean
+}
+
+// SGR sequences (CSI ... m); the only escapes the renderers emit
+const SGR_PATTERN = /\x1b\[[0-9;]*m/g
+
+/**
+ * Wrap text in SGR codes for a style (unstyled text is returned as is)
+ */
+export function styled(text: string, style: TextStyle = {}): string {
+  let prefix = ''
+  if (style.bold) prefix += '\x1b[1m'
+  if (style.dim) prefix += '\x1b[2m'
+  if (style.inverse) prefix += '\x1b[7m'
+  if (style.color && ANSI_FG[style.color]) prefix += ANSI_FG[style.color]
+  return prefix && text ? prefix + text + ANSI_RESET : text
+}
+
+export function stripAnsi(text: string): string {
+  return text.replace(SGR_PATTERN, '')
+}
+
+/**
+ * Terminal cells a line occupies
+ * Every code point counts as one cell: the renderers only use narrow glyphs
+ * (box drawing, blocks, braille)
+ */
+export function visibleWidth(text: string): number {
+  let width = 0
+  for (const _ of stripAnsi(text)) width++
+  return width
+}
+
+/**
+ * Cut or pad a line to exactly width cells, keeping its escapes
+ * A line cut inside a styled run is closed with a reset so the style does
+ * not bleed into whatever is drawn next to it
+ */
+export function fitLine(line: string, width: number): string {
+  if (width <= 0) return ''
+
+  let out = ''
+  let cells = 0
+  let styledRun = false
+  let i = 0
+  while (i < line.length && cells < width) {
+    SGR_PATTERN.lastIndex = i
+    const escape = line[i] === '\x1b' ? SGR_PATTERN.exec(line) : null
+    if (escape && escape.index === i) {
+      out += escape[0]
+      styledRun = escape[0] !== ANSI_RESET
+      i += escape[0].length
+      continue
+    }
+    const char = String.fromCodePoint(line.codePointAt(i)!)
+    out += char
+    i += char.length
+    cells++
+  }
+
+  // Trailing escapes (usually the closing reset) belong to the kept text
+  const rest = line.slice(i).match(/^(?:\x1b\[[0-9;]*m)+/)
+  if (rest) {
+    out += rest[0]
+    styledRun = !rest[0].endsWith(ANSI_RESET)
+  }
+  if (styledRun) out += ANSI_RESET
+  return out + ' '.repeat(width - cells)
+}
+
+/**
+ * Fit a block of lines to exactly width x height cells
+ */
+export function fitLines(lines: string[], width: number, height: number): string[] {
+  const out: string[] = []
+  for (let i = 0; i < height; i++) {
+    out.push(fitLine(lines[i] ?? '', width))
+  }
+  return out
+}
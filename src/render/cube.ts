@@ -17,7 +17,7 @@ export interface RenderLine {
   x2: number
   y2: number
   depth: number // average depth for z-ordering
-  style: 'wireframe' | 'axis' | 'grid' | 'surface'
+  style: 'wireframe' | 'axis' | 'grid' | 'surface' | 'cursor'
   zValue?: number // normalized z-value for height-based coloring (-1 to 1)
   normal?: { x: number; y: number; z: number } // surface normal for lighting
   lighting?: number // computed lighting intensity 0-1
@@ -39,6 +39,14 @@ export interface RenderLabel {
   depth: number
 }
 
+/**
+ * Surface node by grid index (row xi along x, column yi along y)
+ */
+export interface GridNode {
+  xi: number
+  yi: number
+}
+
 export interface CubeFrame {
   lines: RenderLine[]
   labels: RenderLabel[]
@@ -290,6 +298,64 @@ export function renderSurfaceMesh(
   return lines
 }
 
+// Depth added to the crosshair so it stays visible through the mesh
+const CURSOR_LIFT = 10
+
+/**
+ * Render a crosshair through a surface node: the mesh row and column
+ * through it, drawn over the surface, and a marker on the node
+ */
+export function renderCursor(
+  points: Point3D[][],
+  proj: Projection,
+  cursor: GridNode
+): { lines: RenderLine[]; label: RenderLabel } {
+  const lines: RenderLine[] = []
+  const row = points[cursor.xi]!
+  const column = points.map((r) => r[cursor.yi]!)
+
+  for (const path of [row, column]) {
+    for (let k = 0; k < path.length - 1; k++) {
+      const s1 = project3D(path[k]!, proj)
+      const s2 = project3D(path[k + 1]!, proj)
+      lines.push({
+        x1: s1.x,
+        y1: s1.y,
+        x2: s2.x,
+        y2: s2.y,
+        depth: (s1.depth + s2.depth) / 2 + CURSOR_LIFT,
+        style: 'cursor',
+      })
+    }
+  }
+
+  const node = project3D(row[cursor.yi]!, proj)
+  return { lines, label: { x: node.x, y: node.y, text: '◆', depth: node.depth + CURSOR_LIFT } }
+}
+
+/**
+ * Surface node whose projection lies nearest a frame position (e.g. a mouse
+ * click mapped back through rasterTransform)
+ */
+export function pickNode(points: Point3D[][], proj: Projection, x: number, y: number): GridNode | null {
+  let nearest: GridNode | null = null
+  let nearestDistance = Infinity
+
+  points.forEach((row, xi) => {
+    row.forEach((p, yi) => {
+      const s = project3D(p, proj)
+      // Cells are about twice as tall as wide
+      const distance = (s.x - x) ** 2 + ((s.y - y) * 2) ** 2
+      if (distance < nearestDistance) {
+        nearest = { xi, yi }
+        nearestDistance = distance
+      }
+    })
+  })
+
+  return nearest
+}
+
 /**
  * Sort lines by depth for proper z-ordering (back to front)
  */
@@ -309,6 +375,7 @@ export function renderCubeFrame(
     showAxes?: boolean
     gridDivisions?: number
     axisLabels?: { x: string; y: string; z: string }
+    cursor?: GridNode | null // Crosshair through this node
   } = {}
 ): CubeFrame {
   const {
@@ -317,6 +384,7 @@ export function renderCubeFrame(
     showAxes = true,
     gridDivisions = 4,
     axisLabels = { x: 'DTE', y: 'Strike', z: 'IV' },
+    cursor = null,
   } = options
 
   let allLines: RenderLine[] = []
@@ -342,6 +410,11 @@ export function renderCubeFrame(
   // Add surface mesh
   if (surfacePoints && surfacePoints.length > 0) {
     allLines.push(...renderSurfaceMesh(surfacePoints, proj))
+    if (cursor) {
+      const { lines, label } = renderCursor(surfacePoints, proj, cursor)
+      allLines.push(...lines)
+      allLabels.push(label)
+    }
   }
 
   // Sort by depth
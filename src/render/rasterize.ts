@@ -192,6 +192,8 @@ export function getLineChar(style: string): string {
       return '·'
     case 'surface':
       return '░'
+    case 'cursor':
+      return '•'
     default:
       return '─'
   }
@@ -210,6 +212,8 @@ export function getStyleColor(style: string): string {
       return 'blue'
     case 'surface':
       return 'cyan'
+    case 'cursor':
+      return 'yellow'
     default:
       return ''
   }
@@ -362,6 +366,30 @@ export function getDepthChar(depth: number, minDepth: number, maxDepth: number,
   return '─'
 }
 
+/**
+ * Scale and offset that fit a frame into a buffer: buffer = frame * scale + offset
+ */
+export interface RasterTransform {
+  scale: number
+  offsetX: number
+  offsetY: number
+}
+
+export function rasterTransform(
+  frame: Pick<CubeFrame, 'width' | 'height'>,
+  width: number,
+  height: number
+): RasterTransform {
+  const scaleX = (width - 4) / frame.width
+  const scaleY = (height - 2) / frame.height
+  const scale = Math.min(scaleX, scaleY)
+  return {
+    scale,
+    offsetX: (width - frame.width * scale) / 2,
+    offsetY: (height - frame.height * scale) / 2,
+  }
+}
+
 /**
  * Rasterize a complete cube frame to a character buffer
  */
@@ -375,11 +403,7 @@ export function rasterizeCubeFrame(
   const buf = createBuffer(width, height)
 
   // Scale factor to fit frame into buffer
-  const scaleX = (width - 4) / frame.width
-  const scaleY = (height - 2) / frame.height
-  const scale = Math.min(scaleX, scaleY)
-  const offsetX = (width - frame.width * scale) / 2
-  const offsetY = (height - frame.height * scale) / 2
+  const { scale, offsetX, offsetY } = rasterTransform(frame, width, height)
 
   // Draw lines (already sorted by depth)
   for (const line of frame.lines) {
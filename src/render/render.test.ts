@@ -19,6 +19,8 @@ import {
   renderGrid,
   renderSurfaceMesh,
   renderCubeFrame,
+  renderCursor,
+  pickNode,
   surfaceToPoints,
   sortByDepth,
 } from './cube.ts'
@@ -28,6 +30,7 @@ import {
   drawLine,
   drawText,
   rasterizeCubeFrame,
+  rasterTransform,
   bufferToString,
   intensityChar,
 } from './rasterize.ts'
@@ -41,6 +44,7 @@ import {
   slopeToColorGrid,
   GRADIENT_PRESETS,
 } from './gradient.ts'
+import { ANSI_RESET, fitLine, fitLines, stripAnsi, styled, visibleWidth } from './ansi.ts'
 
 describe('3D Projection', () => {
   it('should create default projection', () => {
@@ -162,6 +166,31 @@ describe('Cube Rendering', () => {
     expect(frame.labels.length).toBe(3)
   })
 
+  it('should render a crosshair through the cursor node', () => {
+    const proj = createProjection(100, 100)
+    const points = surfaceToPoints(new Float64Array([0, 1, 2]), new Float64Array([0, 1, 2, 3]), new Float64Array(12), 3, 4)
+    const { lines, label } = renderCursor(points, proj, { xi: 1, yi: 2 })
+    expect(lines.length).toBe(3 + 2) // Along the row, then the column
+    expect(lines.every((line) => line.style === 'cursor')).toBe(true)
+
+    const node = project3D(points[1]![2]!, proj)
+    expect(label).toMatchObject({ x: node.x, y: node.y, text: '◆' })
+
+    const frame = renderCubeFrame(points, proj, { cursor: { xi: 1, yi: 2 } })
+    expect(frame.labels.map((l) => l.text)).toContain('◆')
+    expect(frame.lines.at(-1)!.style).toBe('cursor') // Lifted over the mesh
+  })
+
+  it('should pick the node nearest a frame position', () => {
+    const proj = createProjection(100, 100, { azimuth: 30 })
+    const points = surfaceToPoints(new Float64Array([0, 1, 2]), new Float64Array([0, 1, 2]), new Float64Array(9), 3, 3)
+    for (const [xi, yi] of [[0, 0], [1, 2], [2, 1]] as const) {
+      const s = project3D(points[xi]![yi]!, proj)
+      expect(pickNode(points, proj, s.x + 0.5, s.y)).toEqual({ xi, yi })
+    }
+    expect(pickNode([], proj, 0, 0)).toBeNull()
+  })
+
   it('should convert surface data to points', () => {
     const x = new Float64Array([0, 1, 2])
     const y = new Float64Array([0, 10, 20])
@@ -223,6 +252,14 @@ describe('Rasterizer', () => {
     expect(str.length).toBeGreaterThan(0)
   })
 
+  it('should fit frames into the buffer with one transform', () => {
+    const frame = renderCubeFrame(null, createProjection(40, 20))
+    const { scale, offsetX, offsetY } = rasterTransform(frame, 80, 20)
+    expect(scale).toBeCloseTo(18 / 20)
+    expect(offsetX).toBeCloseTo((80 - 40 * scale) / 2)
+    expect(offsetY).toBeCloseTo((20 - 20 * scale) / 2)
+  })
+
   it('should create intensity character', () => {
     expect(intensityChar(0)).toBe(' ')
     expect(intensityChar(1)).toBe('█')
@@ -298,3 +335,31 @@ describe('Gradient and Color', () => {
     expect(grid[0]![0]).toHaveProperty('b')
   })
 })
+
+describe('ANSI Text', () => {
+  it('should measure styled text by its visible cells', () => {
+    const text = styled('▁▂▃', { color: 'cyan', bold: true })
+    expect(text).toBe('\x1b[1m\x1b[36m▁▂▃' + ANSI_RESET)
+    expect(stripAnsi(text)).toBe('▁▂▃')
+    expect(visibleWidth(text)).toBe(3)
+    expect(styled('plain')).toBe('plain')
+  })
+
+  it('should pad and cut lines to a width', () => {
+    expect(fitLine('ab', 4)).toBe('ab  ')
+    expect(fitLine('abcdef', 3)).toBe('abc')
+    expect(fitLine('abc', 0)).toBe('')
+
+    // Cutting inside a styled run closes it
+    const cut = fitLine('x' + styled('yyyy', { color: 'red' }), 3)
+    expect(cut).toBe('x\x1b[31myy' + ANSI_RESET)
+    expect(visibleWidth(cut)).toBe(3)
+
+    // The closing reset of a kept run is not doubled
+    expect(fitLine(styled('ab', { color: 'red' }), 4)).toBe('\x1b[31mab' + ANSI_RESET + '  ')
+  })
+
+  it('should fit blocks of lines', () => {
+    expect(fitLines(['a', 'bcd'], 2, 3)).toEqual(['a ', 'bc', '  '])
+  })
+})
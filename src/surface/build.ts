@@ -0,0 +1,312 @@
+/**
+ * Surface Builder
+ * Turns a list of option quotes into a regular IV grid
+ *
+ * Quotes are inverted to implied vols, grouped into expiry slices and fitted
+ * per slice, either with SVI or by linear interpolation of total variance in
+ * log-moneyness. Grid expiries between slices interpolate total variance
+ * linearly in T at constant log-forward-moneyness, which keeps the surface
+ * calendar-consistent whenever the slices are. Every quote keeps its fit
+ * error so mispriced quotes can be surfaced next to the arbitrage checks.
+ */
+
+import { createSurface, type Surface } from '../data/surface.ts'
+import { linspace, type Vec64 } from '../data/vec.ts'
+import { impliedVolatility } from '../pricing/implied.ts'
+import type { OptionType } from '../pricing/blackscholes.ts'
+import { calibrateSVI, sviTotalVariance, type SVIParams } from './svi.ts'
+
+/**
+ * Market quote for one option
+ */
+export interface OptionQuote {
+  type: OptionType
+  strike: number
+  expiry: number // Years to expiry
+  forward: number
+  bid?: number
+  ask?: number
+  mid?: number // Defaults to (bid + ask) / 2, or whichever side is present
+  rate?: number // Discount rate (default 0)
+}
+
+/**
+ * Per-quote inversion and fit error
+ */
+export interface QuoteFit {
+  quote: OptionQuote
+  k: number // Log-moneyness ln(K/F)
+  iv: number // Implied vol of the mid
+  bidIv: number | null
+  askIv: number | null
+  modelIv: number // Fitted slice vol at the quote
+  error: number // modelIv - iv
+  withinSpread: boolean // Fitted vol lies between bid and ask vols
+}
+
+export interface RejectedQuote {
+  quote: OptionQuote
+  reason: string
+}
+
+export type SliceFitMethod = 'svi' | 'interpolate'
+
+/**
+ * Fitted expiry slice
+ */
+export interface SliceFit {
+  T: number
+  forward: number
+  method: SliceFitMethod
+  params: SVIParams | null // Set for SVI slices
+  rmse: number // Vol RMSE over the slice's quotes
+  quotes: number
+}
+
+export interface BuildSurfaceOptions {
+  method?: SliceFitMethod // Default 'svi'; slices with fewer than 5 quotes interpolate
+  nx?: number // Expiry grid points
+  ny?: number // Strike grid points
+  expiryRange?: [number, number] // Default: quoted expiries
+  strikeRange?: [number, number] // Default: quoted strikes
+  labels?: { x?: string; y?: string; z?: string }
+}
+
+export interface SurfaceBuildResult {
+  surface: Surface<Vec64>
+  slices: SliceFit[]
+  fits: QuoteFit[]
+  rejected: RejectedQuote[]
+}
+
+const MIN_SVI_QUOTES = 5
+const EXPIRY_EPSILON = 1e-9
+
+/**
+ * Mid price used for inversion
+ */
+export function quoteMid(quote: OptionQuote): number | null {
+  if (quote.mid !== undefined) return quote.mid
+  if (quote.bid !== undefined && quote.ask !== undefined) return (quote.bid + quote.ask) / 2
+  return quote.bid ?? quote.ask ?? null
+}
+
+/**
+ * Implied vol of a quote price (null when not invertible)
+ */
+function quoteVol(quote: OptionQuote, price: number | undefined): number | null {
+  if (price === undefined) return null
+  const { vol } = impliedVolatility(price, {
+    type: quote.type,
+    forward: quote.forward,
+    strike: quote.strike,
+    T: quote.expiry,
+    discount: Math.exp(-(quote.rate ?? 0) * quote.expiry),
+  })
+  return Number.isFinite(vol) ? vol : null
+}
+
+/**
+ * Piecewise-linear total variance in k with flat vol extrapolation
+ */
+function linearVariance(points: { k: number; w: number }[]): (k: number) => number {
+  const sorted = [...points].sort((a, b) => a.k - b.k)
+  return (k: number) => {
+    const first = sorted[0]!
+    const last = sorted[sorted.length - 1]!
+    if (k <= first.k) return first.w
+    if (k >= last.k) return last.w
+    let i = 0
+    while (sorted[i + 1]!.k < k) i++
+    const p0 = sorted[i]!
+    const p1 = sorted[i + 1]!
+    const t = p1.k === p0.k ? 0 : (k - p0.k) / (p1.k - p0.k)
+    return p0.w + (p1.w - p0.w) * t
+  }
+}
+
+interface FittedSlice extends SliceFit {
+  variance: (k: number) => number
+}
+
+/**
+ * Build a volatility surface from option quotes
+ * @param quotes - Option quotes across strikes and expiries
+ * @param options - Fit method and output grid
+ */
+export function buildSurfaceFromQuotes(
+  quotes: OptionQuote[],
+  options: BuildSurfaceOptions = {}
+): SurfaceBuildResult {
+  const { method = 'svi', nx = 20, ny = 20, labels = {} } = options
+
+  // Invert quotes
+  const rejected: RejectedQuote[] = []
+  const inverted: { quote: OptionQuote; k: number; iv: number; bidIv: number | null; askIv: number | null }[] = []
+
+  for (const quote of quotes) {
+    if (!(quote.expiry > 0) || !(quote.forward > 0) || !(quote.strike > 0)) {
+      rejected.push({ quote, reason: 'invalid strike, forward or expiry' })
+      continue
+    }
+    const mid = quoteMid(quote)
+    if (mid === null) {
+      rejected.push({ quote, reason: 'no price' })
+      continue
+    }
+    const iv = quoteVol(quote, mid)
+    if (iv === null || iv <= 0) {
+      rejected.push({ quote, reason: 'price outside no-arbitrage bounds' })
+      continue
+    }
+    inverted.push({
+      quote,
+      k: Math.log(quote.strike / quote.forward),
+      iv,
+      bidIv: quoteVol(quote, quote.bid),
+      askIv: quoteVol(quote, quote.ask),
+    })
+  }
+
+  if (inverted.length === 0) {
+    throw new Error('No usable quotes to build a surface')
+  }
+
+  // Group into expiry slices
+  const groups: (typeof inverted)[] = []
+  for (const q of [...inverted].sort((a, b) => a.quote.expiry - b.quote.expiry)) {
+    const last = groups[groups.length - 1]
+    if (last && Math.abs(last[0]!.quote.expiry - q.quote.expiry) < EXPIRY_EPSILON) {
+      last.push(q)
+    } else {
+      groups.push([q])
+    }
+  }
+
+  // Fit each slice
+  const slices: FittedSlice[] = groups.map((group) => {
+    const T = group[0]!.quote.expiry
+    const forward = group.reduce((sum, q) => sum + q.quote.forward, 0) / group.length
+    const sliceMethod: SliceFitMethod =
+      method === 'svi' && new Set(group.map((q) => q.quote.strike)).size >= MIN_SVI_QUOTES
+        ? 'svi'
+        : 'interpolate'
+
+    let params: SVIParams | null = null
+    let variance: (k: number) => number
+    if (sliceMethod === 'svi') {
+      params = calibrateSVI(group.map((q) => ({ k: q.k, iv: q.iv })), T).params
+      const fitted = params
+      variance = (k) => Math.max(0, sviTotalVariance(k, fitted))
+    } else {
+      variance = linearVariance(group.map((q) => ({ k: q.k, w: q.iv * q.iv * T })))
+    }
+
+    let sumSq = 0
+    for (const q of group) {
+      const err = Math.sqrt(variance(q.k) / T) - q.iv
+      sumSq += err * err
+    }
+
+    return {
+      T,
+      forward,
+      method: sliceMethod,
+      params,
+      rmse: Math.sqrt(sumSq / group.length),
+      quotes: group.length,
+      variance,
+    }
+  })
+
+  // Per-quote fit errors against their own slice
+  const fits: QuoteFit[] = []
+  groups.forEach((group, s) => {
+    const slice = slices[s]!
+    for (const q of group) {
+      const modelIv = Math.sqrt(slice.variance(q.k) / slice.T)
+      const lo = q.bidIv ?? q.iv
+      const hi = q.askIv ?? q.iv
+      fits.push({
+        quote: q.quote,
+        k: q.k,
+        iv: q.iv,
+        bidIv: q.bidIv,
+        askIv: q.askIv,
+        modelIv,
+        error: modelIv - q.iv,
+        withinSpread: modelIv >= Math.min(lo, hi) - 1e-12 && modelIv <= Math.max(lo, hi) + 1e-12,
+      })
+    }
+  })
+
+  // Regular grid
+  const expiries = slices.map((s) => s.T)
+  const strikes = inverted.map((q) => q.quote.strike)
+  const [tMin, tMax] = options.expiryRange ?? [expiries[0]!, expiries[expiries.length - 1]!]
+  const [kMin, kMax] = options.strikeRange ?? [Math.min(...strikes), Math.max(...strikes)]
+  const x = linspace(tMin, tMax, nx)
+  const y = linspace(kMin, kMax, ny)
+  const z = new Float64Array(nx * ny)
+
+  for (let i = 0; i < nx; i++) {
+    const T = x[i]!
+    const vol = surfaceVolAt(slices, T)
+    for (let j = 0; j < ny; j++) {
+      z[i * ny + j] = vol(y[j]!)
+    }
+  }
+
+  const surface = createSurface(x, y, z, {
+    x: labels.x ?? 'T',
+    y: labels.y ?? 'Strike',
+    z: labels.z ?? 'IV',
+  })
+
+  return {
+    surface,
+    slices: slices.map(({ variance: _variance, ...slice }) => slice),
+    fits,
+    rejected,
+  }
+}
+
+/**
+ * Vol as a function of strike at expiry T
+ * Total variance is linear in T between slices at constant ln(K/F(T)),
+ * with flat vol outside the quoted expiries
+ */
+function surfaceVolAt(slices: FittedSlice[], T: number): (strike: number) => number {
+  const first = slices[0]!
+  const last = slices[slices.length - 1]!
+
+  if (slices.length === 1 || T <= first.T) {
+    return (strike) => Math.sqrt(first.variance(Math.log(strike / first.forward)) / first.T)
+  }
+  if (T >= last.T) {
+    return (strike) => Math.sqrt(last.variance(Math.log(strike / last.forward)) / last.T)
+  }
+
+  let s = 0
+  while (slices[s + 1]!.T < T) s++
+  const s0 = slices[s]!
+  const s1 = slices[s + 1]!
+  const t = (T - s0.T) / (s1.T - s0.T)
+  const forward = s0.forward + (s1.forward - s0.forward) * t
+
+  return (strike) => {
+    const k = Math.log(strike / forward)
+    const w = s0.variance(k) + (s1.variance(k) - s0.variance(k)) * t
+    return Math.sqrt(Math.max(0, w) / T)
+  }
+}
+
+/**
+ * Quotes whose fitted vol falls outside their bid/ask vols, worst first
+ */
+export function quoteOutliers(fits: QuoteFit[], limit = Infinity): QuoteFit[] {
+  return fits
+    .filter((f) => !f.withinSpread)
+    .sort((a, b) => Math.abs(b.error) - Math.abs(a.error))
+    .slice(0, limit)
+}
@@ -22,6 +22,9 @@ export {
   sviVolAtStrike,
   sviDerivative,
   sviSecondDerivative,
+  sviJacobian,
+  sviButterflyDensity,
+  projectSVIParams,
   logMoneyness,
   checkCalendarArbitrage as sviCheckCalendar,
   checkButterflyArbitrage as sviCheckButterfly,
@@ -31,7 +34,57 @@ export {
   generateSVISurface,
   DEFAULT_SVI,
 } from './svi.ts'
-export type { SVIParams, SVIJumpWing, SVICalibrationInput } from './svi.ts'
+export type {
+  SVIParams,
+  SVIJumpWing,
+  SVICalibrationInput,
+  SVICalibrationResult,
+  SVIResidual,
+} from './svi.ts'
+
+export {
+  calibrateSSVI,
+  ssviTotalVariance,
+  ssviPowerLawPhi,
+  ssviMaxPsi,
+  ssviSliceAt,
+  ssviImpliedVol,
+  ssviToSurface,
+  ssviTermStructure,
+  projectESSVISlices,
+  projectSSVIParams,
+} from './ssvi.ts'
+export type {
+  SSVIParams,
+  SSVISlice,
+  SSVIModel,
+  SSVICalibrationOptions,
+  SSVICalibrationResult,
+  SSVICurves,
+} from './ssvi.ts'
+
+export {
+  levenbergMarquardt,
+  leastSquaresCost,
+  solveLinearSystem,
+} from './optimize.ts'
+export type {
+  LeastSquaresProblem,
+  LevenbergMarquardtOptions,
+  LevenbergMarquardtResult,
+} from './optimize.ts'
+
+export { buildSurfaceFromQuotes, quoteMid, quoteOutliers } from './build.ts'
+export type {
+  OptionQuote,
+  QuoteFit,
+  RejectedQuote,
+  SliceFitMethod,
+  SliceFit,
+  BuildSurfaceOptions,
+  SurfaceBuildResult,
+} from './build.ts'
+
 
 export {
   checkCalendarArbitrage,
@@ -239,17 +239,18 @@ export function interpolateLine(
 
 /**
  * Resample surface to new grid resolution
+ * @param range - Axis bounds of the new grid (default: the surface's own);
+ *   nodes outside the surface are extrapolated from its edge cells
  */
 export function resampleSurface(
   surface: Surface<Vec64>,
   newNx: number,
   newNy: number,
-  method: InterpolationMethod = 'bilinear'
+  method: InterpolationMethod = 'bilinear',
+  range: { x?: [number, number]; y?: [number, number] } = {}
 ): Surface<Vec64> {
-  const xMin = surface.x[0]!
-  const xMax = surface.x[surface.nx - 1]!
-  const yMin = surface.y[0]!
-  const yMax = surface.y[surface.ny - 1]!
+  const [xMin, xMax] = range.x ?? [surface.x[0]!, surface.x[surface.nx - 1]!]
+  const [yMin, yMax] = range.y ?? [surface.y[0]!, surface.y[surface.ny - 1]!]
 
   const newX = new Float64Array(newNx)
   const newY = new Float64Array(newNy)
@@ -257,10 +258,10 @@ export function resampleSurface(
 
   // Generate new grid
   for (let i = 0; i < newNx; i++) {
-    newX[i] = lerp(xMin, xMax, i / (newNx - 1))
+    newX[i] = newNx === 1 ? xMin : lerp(xMin, xMax, i / (newNx - 1))
   }
   for (let j = 0; j < newNy; j++) {
-    newY[j] = lerp(yMin, yMax, j / (newNy - 1))
+    newY[j] = newNy === 1 ? yMin : lerp(yMin, yMax, j / (newNy - 1))
   }
 
   // Interpolate values
@@ -276,7 +277,7 @@ export function resampleSurface(
     z: newZ,
     nx: newNx,
     ny: newNy,
-    meta: { ...surface.meta },
+    meta: { ...surface.meta, xDomain: [xMin, xMax], yDomain: [yMin, yMax] },
   }
 }
 
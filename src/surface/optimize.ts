@@ -0,0 +1,246 @@
+/**
+ * Nonlinear Least Squares
+ * Levenberg-Marquardt solver shared by the smile and surface calibrators
+ *
+ * Minimizes 0.5 * sum(r_i(x)^2) given residuals r(x) and their Jacobian J(x).
+ * Each step solves (J'J + lambda * diag(J'J)) dx = -J'r and adapts lambda:
+ * small lambda behaves like Gauss-Newton, large lambda like gradient descent.
+ */
+
+/**
+ * Least squares problem definition
+ */
+export interface LeastSquaresProblem {
+  /** Residual vector at x */
+  residuals: (x: number[]) => number[]
+  /** Jacobian rows (one per residual) at x */
+  jacobian: (x: number[], residuals: number[]) => number[][]
+  /** Optional projection onto the feasible set, applied after every step */
+  project?: (x: number[]) => number[]
+}
+
+export interface LevenbergMarquardtOptions {
+  maxIter?: number // Maximum accepted + rejected steps
+  tolerance?: number // Relative cost change for convergence
+  gradientTolerance?: number // Infinity-norm of J'r for convergence
+  initialDamping?: number // Starting lambda
+}
+
+/**
+ * Why the solver stopped: a converged fit ('gradient', 'tolerance'), or one
+ * that is not ('stalled' when damping grew past MAX_DAMPING without finding
+ * a descent step, 'maxIter' when it ran out of steps)
+ */
+export type LevenbergMarquardtStop = 'gradient' | 'tolerance' | 'stalled' | 'maxIter'
+
+export interface LevenbergMarquardtResult {
+  x: number[]
+  cost: number // 0.5 * sum of squared residuals
+  residuals: number[]
+  iterations: number
+  converged: boolean
+  reason: LevenbergMarquardtStop
+  gradientNorm: number // Euclidean norm of J'r at the solution
+  damping: number // Final lambda
+}
+
+const MAX_DAMPING = 1e12
+const MIN_DAMPING = 1e-12
+
+/**
+ * Half sum of squares
+ */
+export function leastSquaresCost(residuals: number[]): number {
+  let sum = 0
+  for (const r of residuals) sum += r * r
+  return 0.5 * sum
+}
+
+/**
+ * Solve a dense linear system A x = b with partial pivoting
+ * Returns null when the matrix is singular
+ */
+export function solveLinearSystem(A: number[][], b: number[]): number[] | null {
+  const n = b.length
+  const m = A.map((row, i) => [...row, b[i]!])
+
+  for (let col = 0; col < n; col++) {
+    // Pivot on largest magnitude
+    let pivot = col
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[row]![col]!) > Math.abs(m[pivot]![col]!)) pivot = row
+    }
+    if (Math.abs(m[pivot]![col]!) < 1e-300) return null
+    if (pivot !== col) {
+      const tmp = m[col]!
+      m[col] = m[pivot]!
+      m[pivot] = tmp
+    }
+
+    // Eliminate below
+    const pivotRow = m[col]!
+    for (let row = col + 1; row < n; row++) {
+      const r = m[row]!
+      const factor = r[col]! / pivotRow[col]!
+      if (factor === 0) continue
+      for (let k = col; k <= n; k++) {
+        r[k] = r[k]! - factor * pivotRow[k]!
+      }
+    }
+  }
+
+  // Back substitution
+  const x = new Array<number>(n).fill(0)
+  for (let row = n - 1; row >= 0; row--) {
+    const r = m[row]!
+    let sum = r[n]!
+    for (let k = row + 1; k < n; k++) {
+      sum -= r[k]! * x[k]!
+    }
+    x[row] = sum / r[row]!
+  }
+
+  return x
+}
+
+/**
+ * Compute J'J and J'r
+ */
+function normalEquations(
+  J: number[][],
+  r: number[],
+  n: number
+): { JtJ: number[][]; Jtr: number[] } {
+  const JtJ: number[][] = Array.from({ length: n }, () => new Array<number>(n).fill(0))
+  const Jtr = new Array<number>(n).fill(0)
+
+  for (let i = 0; i < r.length; i++) {
+    const row = J[i]!
+    const ri = r[i]!
+    for (let p = 0; p < n; p++) {
+      const jp = row[p]!
+      if (jp === 0) continue
+      Jtr[p] = Jtr[p]! + jp * ri
+      const JtJp = JtJ[p]!
+      for (let q = p; q < n; q++) {
+        JtJp[q] = JtJp[q]! + jp * row[q]!
+      }
+    }
+  }
+
+  // Mirror upper triangle
+  for (let p = 0; p < n; p++) {
+    for (let q = 0; q < p; q++) {
+      JtJ[p]![q] = JtJ[q]![p]!
+    }
+  }
+
+  return { JtJ, Jtr }
+}
+
+function norm2(v: number[]): number {
+  let sum = 0
+  for (const x of v) sum += x * x
+  return Math.sqrt(sum)
+}
+
+function normInf(v: number[]): number {
+  let m = 0
+  for (const x of v) m = Math.max(m, Math.abs(x))
+  return m
+}
+
+/**
+ * Levenberg-Marquardt minimization
+ * @param problem - Residuals, Jacobian and optional feasibility projection
+ * @param x0 - Starting point
+ * @param options - Iteration limits and tolerances
+ */
+export function levenbergMarquardt(
+  problem: LeastSquaresProblem,
+  x0: number[],
+  options: LevenbergMarquardtOptions = {}
+): LevenbergMarquardtResult {
+  const {
+    maxIter = 100,
+    tolerance = 1e-10,
+    gradientTolerance = 1e-12,
+    initialDamping = 1e-3,
+  } = options
+
+  const project = problem.project ?? ((x: number[]) => x)
+  const n = x0.length
+
+  let x = project([...x0])
+  let r = problem.residuals(x)
+  let cost = leastSquaresCost(r)
+  let J = problem.jacobian(x, r)
+  let { JtJ, Jtr } = normalEquations(J, r, n)
+  let lambda = initialDamping
+  let reason: LevenbergMarquardtStop = 'maxIter'
+  let iterations = 0
+
+  for (; iterations < maxIter; iterations++) {
+    if (normInf(Jtr) < gradientTolerance) {
+      reason = 'gradient'
+      break
+    }
+
+    // Damped normal equations (Marquardt scaling with a floor for flat directions)
+    const A = JtJ.map((row, p) =>
+      row.map((v, q) => (p === q ? v + lambda * Math.max(v, 1e-12) : v))
+    )
+    const step = solveLinearSystem(
+      A,
+      Jtr.map((g) => -g)
+    )
+
+    if (!step) {
+      lambda *= 10
+      if (lambda > MAX_DAMPING) {
+        reason = 'stalled'
+        break
+      }
+      continue
+    }
+
+    const xNew = project(x.map((v, i) => v + step[i]!))
+    const rNew = problem.residuals(xNew)
+    const costNew = leastSquaresCost(rNew)
+
+    if (Number.isFinite(costNew) && costNew < cost) {
+      const improvement = cost - costNew
+      x = xNew
+      r = rNew
+      cost = costNew
+      J = problem.jacobian(x, r)
+      ;({ JtJ, Jtr } = normalEquations(J, r, n))
+      lambda = Math.max(MIN_DAMPING, lambda / 10)
+
+      if (improvement <= tolerance * (cost + tolerance)) {
+        reason = 'tolerance'
+        iterations++
+        break
+      }
+    } else {
+      lambda *= 10
+      if (lambda > MAX_DAMPING) {
+        // No descent step even with tiny steps: the fit stalled, which may or
+        // may not be a (constrained) minimum
+        reason = 'stalled'
+        break
+      }
+    }
+  }
+
+  return {
+    x,
+    cost,
+    residuals: r,
+    iterations,
+    converged: reason === 'gradient' || reason === 'tolerance',
+    reason,
+    gradientNorm: norm2(Jtr),
+    damping: lambda,
+  }
+}
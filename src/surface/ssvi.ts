@@ -0,0 +1,556 @@
+/**
+ * SSVI / eSSVI Surface Model
+ * Joint calibration of all expiries with no calendar arbitrage by construction
+ *
+ * Surface SVI (Gatheral & Jacquier) writes total variance as:
+ * w(k, theta) = theta/2 * (1 + rho*phi*k + sqrt((phi*k + rho)^2 + 1 - rho^2))
+ *
+ * Where:
+ *   theta = ATM total variance, non-decreasing in T
+ *   rho = global skew (SSVI) or per-expiry skew (eSSVI)
+ *   phi = curvature; SSVI uses the power law eta / (theta^gamma * (1+theta)^(1-gamma))
+ *
+ * In terms of psi = theta * phi the slice is
+ * w(k) = (theta + rho*psi*k + sqrt((psi*k + rho*theta)^2 + theta^2*(1 - rho^2))) / 2
+ *
+ * Arbitrage conditions enforced during calibration:
+ *   butterfly: psi*(1 + |rho|) <= 4 and psi^2*(1 + |rho|) <= 4*theta
+ *   calendar (Hendriks & Martini): theta and psi non-decreasing and
+ *     |rho2*psi2 - rho1*psi1| <= psi2 - psi1 between consecutive slices
+ */
+
+import { createSurface, type Surface } from '../data/surface.ts'
+import { vec64, type Vec64 } from '../data/vec.ts'
+import { surfaceTimeScale } from '../pricing/surface.ts'
+import {
+  levenbergMarquardt,
+  type LeastSquaresProblem,
+  type LevenbergMarquardtResult,
+  type LevenbergMarquardtStop,
+} from './optimize.ts'
+
+/**
+ * Global SSVI parameters (power-law phi)
+ */
+export interface SSVIParams {
+  rho: number // Skew (-1 to 1)
+  eta: number // Curvature level
+  gamma: number // Curvature decay (0 to 0.5)
+}
+
+/**
+ * Fitted expiry slice in theta/rho/psi form
+ */
+export interface SSVISlice {
+  T: number // Time to expiry in years
+  theta: number // ATM total variance
+  rho: number
+  psi: number // theta * phi(theta)
+}
+
+export type SSVIModel = 'ssvi' | 'essvi'
+
+export interface SSVICalibrationOptions {
+  model?: SSVIModel
+  forward?: number // Forward for log-moneyness (default: middle of strike domain)
+  timeScale?: number // Multiplier from surface x to years (default: surfaceTimeScale, 1/365 for DTE)
+  maxIter?: number
+  tolerance?: number
+}
+
+/**
+ * Term structure curves for plotting
+ */
+export interface SSVICurves {
+  T: number[]
+  theta: number[]
+  rho: number[]
+  phi: number[]
+}
+
+export interface SSVICalibrationResult {
+  model: SSVIModel
+  slices: SSVISlice[]
+  params: SSVIParams | null // Set for the power-law SSVI model
+  forward: number
+  timeScale: number
+  rmse: number // RMSE in implied volatility
+  iterations: number
+  converged: boolean
+  reason: LevenbergMarquardtStop // Why the winning start stopped
+  gradientNorm: number
+  curves: SSVICurves
+}
+
+const SSVI_RHO_MAX = 0.999
+const SSVI_MIN_THETA = 1e-8
+const SSVI_GAMMA_MIN = 0.01
+const SSVI_GAMMA_MAX = 0.5
+
+/**
+ * Total variance of a slice in theta/rho/psi form
+ */
+export function ssviTotalVariance(
+  k: number,
+  theta: number,
+  rho: number,
+  psi: number
+): number {
+  const q = psi * k + rho * theta
+  return 0.5 * (theta + rho * psi * k + Math.sqrt(q * q + theta * theta * (1 - rho * rho)))
+}
+
+/**
+ * Power-law curvature function
+ */
+export function ssviPowerLawPhi(theta: number, eta: number, gamma: number): number {
+  return eta / (Math.pow(theta, gamma) * Math.pow(1 + theta, 1 - gamma))
+}
+
+/**
+ * Largest psi allowed by the butterfly conditions
+ */
+export function ssviMaxPsi(theta: number, rho: number): number {
+  const r = 1 + Math.abs(rho)
+  return Math.min(4 / r, Math.sqrt((4 * theta) / r))
+}
+
+/**
+ * Gradient of slice total variance
+ * @returns [dw/dtheta, dw/drho, dw/dpsi]
+ */
+function ssviSliceJacobian(
+  k: number,
+  theta: number,
+  rho: number,
+  psi: number
+): [number, number, number] {
+  const q = psi * k + rho * theta
+  const s = Math.sqrt(q * q + theta * theta * (1 - rho * rho))
+  if (s === 0) return [0.5, 0, 0.5 * rho * k]
+  return [
+    0.5 * (1 + (q * rho + theta * (1 - rho * rho)) / s),
+    0.5 * (psi * k + (theta * psi * k) / s),
+    0.5 * (rho * k + (q * k) / s),
+  ]
+}
+
+/**
+ * Market observations for one expiry
+ */
+interface SlicePoints {
+  T: number
+  k: number[]
+  iv: number[]
+  w: number[]
+}
+
+function extractSlices(
+  surface: Surface<Vec64>,
+  forward: number,
+  timeScale: number
+): SlicePoints[] {
+  const { nx, ny, x, y, z } = surface
+  const slices: SlicePoints[] = []
+
+  for (let i = 0; i < nx; i++) {
+    const T = x[i]! * timeScale
+    if (!(T > 0)) continue
+
+    const slice: SlicePoints = { T, k: [], iv: [], w: [] }
+    for (let j = 0; j < ny; j++) {
+      const iv = z[i * ny + j]!
+      const strike = y[j]!
+      if (!(iv > 0) || !(strike > 0)) continue
+      slice.k.push(Math.log(strike / forward))
+      slice.iv.push(iv)
+      slice.w.push(iv * iv * T)
+    }
+
+    if (slice.k.length > 0) slices.push(slice)
+  }
+
+  return slices
+}
+
+/**
+ * ATM total variance by linear interpolation in log-moneyness
+ */
+function atmTotalVariance(slice: SlicePoints): number {
+  const { k, w } = slice
+  let best = 0
+  for (let j = 1; j < k.length; j++) {
+    if (Math.abs(k[j]!) < Math.abs(k[best]!)) best = j
+  }
+  for (let j = 0; j < k.length - 1; j++) {
+    const k0 = k[j]!
+    const k1 = k[j + 1]!
+    if ((k0 <= 0 && k1 >= 0) || (k0 >= 0 && k1 <= 0)) {
+      const t = k1 === k0 ? 0 : (0 - k0) / (k1 - k0)
+      return w[j]! + (w[j + 1]! - w[j]!) * t
+    }
+  }
+  return w[best]!
+}
+
+/**
+ * Make theta non-decreasing across expiries
+ */
+function monotoneThetas(thetas: number[]): number[] {
+  const result: number[] = []
+  let floor = SSVI_MIN_THETA
+  for (const theta of thetas) {
+    floor = Math.max(floor, theta)
+    result.push(floor)
+  }
+  return result
+}
+
+function clampRho(rho: number): number {
+  return Math.max(-SSVI_RHO_MAX, Math.min(SSVI_RHO_MAX, rho))
+}
+
+/**
+ * Project eSSVI slices onto the arbitrage-free region
+ * Walks expiries in order; when the calendar lower bound on psi exceeds the
+ * butterfly upper bound, rho is pulled back to the previous slice's value,
+ * which is always feasible
+ */
+export function projectESSVISlices(slices: SSVISlice[]): SSVISlice[] {
+  const result: SSVISlice[] = []
+  let prev: SSVISlice | null = null
+
+  for (const slice of slices) {
+    const theta = Math.max(prev ? prev.theta : SSVI_MIN_THETA, slice.theta)
+    let rho = clampRho(slice.rho)
+
+    const lowerBound = (r: number): number =>
+      prev
+        ? Math.max(
+            (prev.psi * (1 - prev.rho)) / (1 - r),
+            (prev.psi * (1 + prev.rho)) / (1 + r)
+          )
+        : 0
+
+    if (prev && lowerBound(rho) > ssviMaxPsi(theta, rho)) {
+      rho = prev.rho
+    }
+
+    const psi = Math.max(lowerBound(rho), Math.min(ssviMaxPsi(theta, rho), Math.max(0, slice.psi)))
+    const projected = { T: slice.T, theta, rho, psi }
+    result.push(projected)
+    prev = projected
+  }
+
+  return result
+}
+
+/**
+ * Project global SSVI parameters onto the power-law no-arbitrage region
+ * eta * (1 + |rho|) <= 2 and 0 < gamma <= 1/2
+ */
+export function projectSSVIParams(params: SSVIParams): SSVIParams {
+  const rho = clampRho(params.rho)
+  const gamma = Math.max(SSVI_GAMMA_MIN, Math.min(SSVI_GAMMA_MAX, params.gamma))
+  const eta = Math.max(1e-6, Math.min(2 / (1 + Math.abs(rho)), params.eta))
+  return { rho, eta, gamma }
+}
+
+function buildCurves(slices: SSVISlice[]): SSVICurves {
+  return {
+    T: slices.map((s) => s.T),
+    theta: slices.map((s) => s.theta),
+    rho: slices.map((s) => s.rho),
+    phi: slices.map((s) => (s.theta > 0 ? s.psi / s.theta : 0)),
+  }
+}
+
+/**
+ * Residuals in total variance across all slices
+ */
+function sliceResiduals(points: SlicePoints[], slices: SSVISlice[]): number[] {
+  const r: number[] = []
+  points.forEach((p, s) => {
+    const { theta, rho, psi } = slices[s]!
+    for (let j = 0; j < p.k.length; j++) {
+      r.push(ssviTotalVariance(p.k[j]!, theta, rho, psi) - p.w[j]!)
+    }
+  })
+  return r
+}
+
+/**
+ * eSSVI problem: x = [theta_0, rho_0, psi_0, theta_1, ...]
+ */
+function essviProblem(points: SlicePoints[]): LeastSquaresProblem {
+  const toSlices = (x: number[]): SSVISlice[] =>
+    points.map((p, s) => ({
+      T: p.T,
+      theta: x[3 * s]!,
+      rho: x[3 * s + 1]!,
+      psi: x[3 * s + 2]!,
+    }))
+
+  return {
+    residuals: (x) => sliceResiduals(points, toSlices(x)),
+    jacobian: (x) => {
+      const rows: number[][] = []
+      points.forEach((p, s) => {
+        const theta = x[3 * s]!
+        const rho = x[3 * s + 1]!
+        const psi = x[3 * s + 2]!
+        for (const k of p.k) {
+          const row = new Array<number>(x.length).fill(0)
+          const [dTheta, dRho, dPsi] = ssviSliceJacobian(k, theta, rho, psi)
+          row[3 * s] = dTheta
+          row[3 * s + 1] = dRho
+          row[3 * s + 2] = dPsi
+          rows.push(row)
+        }
+      })
+      return rows
+    },
+    project: (x) =>
+      projectESSVISlices(toSlices(x)).flatMap((s) => [s.theta, s.rho, s.psi]),
+  }
+}
+
+/**
+ * Power-law SSVI problem: x = [theta_0 .. theta_n-1, rho, eta, gamma]
+ */
+function ssviProblem(points: SlicePoints[]): LeastSquaresProblem {
+  const n = points.length
+
+  const toSlices = (x: number[]): SSVISlice[] => {
+    const rho = x[n]!
+    const eta = x[n + 1]!
+    const gamma = x[n + 2]!
+    return points.map((p, s) => {
+      const theta = x[s]!
+      return { T: p.T, theta, rho, psi: theta * ssviPowerLawPhi(theta, eta, gamma) }
+    })
+  }
+
+  return {
+    residuals: (x) => sliceResiduals(points, toSlices(x)),
+    jacobian: (x) => {
+      const rho = x[n]!
+      const eta = x[n + 1]!
+      const gamma = x[n + 2]!
+      const rows: number[][] = []
+
+      points.forEach((p, s) => {
+        const theta = x[s]!
+        const phi = ssviPowerLawPhi(theta, eta, gamma)
+        const psi = theta * phi
+        // Chain rule through psi = theta * phi(theta; eta, gamma)
+        const dPhiDTheta = phi * (-gamma / theta + (gamma - 1) / (1 + theta))
+        const dPsiDTheta = phi + theta * dPhiDTheta
+        const dPsiDEta = psi / eta
+        const dPsiDGamma = psi * (Math.log(1 + theta) - Math.log(theta))
+
+        for (const k of p.k) {
+          const row = new Array<number>(x.length).fill(0)
+          const [dTheta, dRho, dPsi] = ssviSliceJacobian(k, theta, rho, psi)
+          row[s] = dTheta + dPsi * dPsiDTheta
+          row[n] = dRho
+          row[n + 1] = dPsi * dPsiDEta
+          row[n + 2] = dPsi * dPsiDGamma
+          rows.push(row)
+        }
+      })
+      return rows
+    },
+    project: (x) => {
+      const thetas = monotoneThetas(x.slice(0, n))
+      const { rho, eta, gamma } = projectSSVIParams({
+        rho: x[n]!,
+        eta: x[n + 1]!,
+        gamma: x[n + 2]!,
+      })
+      return [...thetas, rho, eta, gamma]
+    },
+  }
+}
+
+/**
+ * Calibrate SSVI or eSSVI jointly to every expiry of a surface
+ * Surface convention follows the arbitrage checks: x = time to expiry,
+ * y = strike, z = implied volatility
+ */
+export function calibrateSSVI(
+  surface: Surface<Vec64>,
+  options: SSVICalibrationOptions = {}
+): SSVICalibrationResult {
+  const {
+    model = 'essvi',
+    forward = (surface.meta.yDomain[0] + surface.meta.yDomain[1]) / 2,
+    timeScale = surfaceTimeScale(surface),
+    maxIter = 200,
+    tolerance = 1e-12,
+  } = options
+
+  const points = extractSlices(surface, forward, timeScale)
+  if (points.length === 0) {
+    throw new Error('Surface has no slices with positive expiry and implied volatility')
+  }
+
+  const thetas0 = monotoneThetas(points.map(atmTotalVariance))
+  let best: LevenbergMarquardtResult | null = null
+  let toSlices: (x: number[]) => SSVISlice[]
+
+  if (model === 'essvi') {
+    const problem = essviProblem(points)
+    toSlices = (x) =>
+      points.map((p, s) => ({ T: p.T, theta: x[3 * s]!, rho: x[3 * s + 1]!, psi: x[3 * s + 2]! }))
+
+    for (const rho0 of [-0.5, 0, 0.3]) {
+      const x0 = thetas0.flatMap((theta) => [theta, rho0, 0.5 * ssviMaxPsi(theta, rho0)])
+      const result = levenbergMarquardt(problem, x0, { maxIter, tolerance })
+      if (!best || result.cost < best.cost) best = result
+    }
+  } else {
+    const problem = ssviProblem(points)
+    const n = points.length
+    toSlices = (x) =>
+      points.map((p, s) => ({
+        T: p.T,
+        theta: x[s]!,
+        rho: x[n]!,
+        psi: x[s]! * ssviPowerLawPhi(x[s]!, x[n + 1]!, x[n + 2]!),
+      }))
+
+    for (const rho0 of [-0.5, 0, 0.3]) {
+      for (const gamma0 of [0.25, 0.45]) {
+        const x0 = [...thetas0, rho0, 0.5, gamma0]
+        const result = levenbergMarquardt(problem, x0, { maxIter, tolerance })
+        if (!best || result.cost < best.cost) best = result
+      }
+    }
+  }
+
+  const slices = toSlices(best!.x)
+  const n = points.length
+  const params =
+    model === 'ssvi'
+      ? { rho: best!.x[n]!, eta: best!.x[n + 1]!, gamma: best!.x[n + 2]! }
+      : null
+
+  // RMSE in implied volatility
+  let sumSq = 0
+  let count = 0
+  points.forEach((p, s) => {
+    const { theta, rho, psi } = slices[s]!
+    for (let j = 0; j < p.k.length; j++) {
+      const w = ssviTotalVariance(p.k[j]!, theta, rho, psi)
+      const err = Math.sqrt(Math.max(0, w) / p.T) - p.iv[j]!
+      sumSq += err * err
+      count++
+    }
+  })
+
+  return {
+    model,
+    slices,
+    params,
+    forward,
+    timeScale,
+    rmse: Math.sqrt(sumSq / count),
+    iterations: best!.iterations,
+    converged: best!.converged,
+    reason: best!.reason,
+    gradientNorm: best!.gradientNorm,
+    curves: buildCurves(slices),
+  }
+}
+
+/**
+ * Interpolate theta, psi and rho*psi linearly between fitted slices
+ * This preserves the calendar conditions between expiries. Before the first
+ * slice everything scales with T; after the last, theta keeps its final slope.
+ */
+export function ssviSliceAt(result: SSVICalibrationResult, T: number): SSVISlice {
+  const { slices } = result
+  const first = slices[0]!
+  const last = slices[slices.length - 1]!
+
+  if (T <= first.T) {
+    const t = Math.max(0, T / first.T)
+    return { T, theta: first.theta * t, rho: first.rho, psi: first.psi * t }
+  }
+
+  if (T >= last.T) {
+    const prev = slices.length > 1 ? slices[slices.length - 2]! : null
+    const slope = prev && last.T > prev.T ? (last.theta - prev.theta) / (last.T - prev.T) : last.theta / last.T
+    return { T, theta: last.theta + slope * (T - last.T), rho: last.rho, psi: last.psi }
+  }
+
+  let i = 0
+  while (i < slices.length - 2 && slices[i + 1]!.T < T) i++
+  const s0 = slices[i]!
+  const s1 = slices[i + 1]!
+  const t = (T - s0.T) / (s1.T - s0.T)
+  const theta = s0.theta + (s1.theta - s0.theta) * t
+  const psi = s0.psi + (s1.psi - s0.psi) * t
+  const rhoPsi = s0.rho * s0.psi + (s1.rho * s1.psi - s0.rho * s0.psi) * t
+
+  return { T, theta, rho: psi > 0 ? rhoPsi / psi : s0.rho, psi }
+}
+
+/**
+ * Implied volatility from a fitted (e)SSVI surface
+ * @param strike - Strike price
+ * @param x - Time coordinate in the surface's units
+ */
+export function ssviImpliedVol(
+  result: SSVICalibrationResult,
+  strike: number,
+  x: number
+): number {
+  const T = x * result.timeScale
+  if (T <= 0) return 0
+  const { theta, rho, psi } = ssviSliceAt(result, T)
+  const w = ssviTotalVariance(Math.log(strike / result.forward), theta, rho, psi)
+  return w > 0 ? Math.sqrt(w / T) : 0
+}
+
+/**
+ * Evaluate a fitted (e)SSVI surface on the grid of a template surface
+ */
+export function ssviToSurface(
+  result: SSVICalibrationResult,
+  template: Surface<Vec64>
+): Surface<Vec64> {
+  const { nx, ny, x, y } = template
+  const z = vec64(nx * ny)
+
+  for (let i = 0; i < nx; i++) {
+    for (let j = 0; j < ny; j++) {
+      z[i * ny + j] = ssviImpliedVol(result, y[j]!, x[i]!)
+    }
+  }
+
+  return createSurface(new Float64Array(x), new Float64Array(y), z, {
+    x: template.meta.xLabel,
+    y: template.meta.yLabel,
+    z: template.meta.zLabel,
+  })
+}
+
+/**
+ * Sample theta(T), rho(T) and phi(T) on a regular grid for plotting
+ */
+export function ssviTermStructure(
+  result: SSVICalibrationResult,
+  numPoints = 50
+): SSVICurves {
+  const { slices } = result
+  const tMax = slices[slices.length - 1]!.T
+  const sampled: SSVISlice[] = []
+
+  for (let i = 1; i <= numPoints; i++) {
+    sampled.push(ssviSliceAt(result, (tMax * i) / numPoints))
+  }
+
+  return buildCurves(sampled)
+}
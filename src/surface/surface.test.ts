@@ -0,0 +1,301 @@
+/**
+ * Tests for volatility surface models
+ */
+
+import { describe, it, expect } from 'bun:test'
+import {
+  sviTotalVariance,
+  sviImpliedVol,
+  sviJacobian,
+  sviButterflyDensity,
+  projectSVIParams,
+  checkButterflyArbitrage,
+  calibrateSVI,
+  type SVIParams,
+} from './svi.ts'
+import { levenbergMarquardt, solveLinearSystem } from './optimize.ts'
+import {
+  calibrateSSVI,
+  ssviToSurface,
+  ssviTotalVariance,
+  ssviPowerLawPhi,
+  ssviTermStructure,
+  projectESSVISlices,
+} from './ssvi.ts'
+import { checkCalendarArbitrage } from './arbitrage.ts'
+import { buildSurfaceFromQuotes, quoteOutliers, type OptionQuote } from './build.ts'
+import { black76Price } from '../pricing/blackscholes.ts'
+import { createSurface } from '../data/surface.ts'
+import { linspace, vec64 } from '../data/vec.ts'
+
+const TRUE_PARAMS: SVIParams = { a: 0.02, b: 0.12, rho: -0.35, m: 0.05, sigma: 0.15 }
+const STRIKES_K = [-0.8, -0.6, -0.4, -0.25, -0.1, 0, 0.1, 0.25, 0.4, 0.6, 0.8]
+
+describe('Levenberg-Marquardt', () => {
+  it('should solve a linear system', () => {
+    const x = solveLinearSystem(
+      [
+        [2, 1],
+        [1, 3],
+      ],
+      [3, 5]
+    )
+    expect(x![0]).toBeCloseTo(0.8, 10)
+    expect(x![1]).toBeCloseTo(1.4, 10)
+  })
+
+  it('should return null for singular systems', () => {
+    expect(
+      solveLinearSystem(
+        [
+          [1, 2],
+          [2, 4],
+        ],
+        [1, 2]
+      )
+    ).toBeNull()
+  })
+
+  it('should fit an exponential decay', () => {
+    const ts = [0, 1, 2, 3, 4, 5]
+    const ys = ts.map((t) => 3 * Math.exp(-0.7 * t))
+
+    const result = levenbergMarquardt(
+      {
+        residuals: ([A, k]) => ts.map((t, i) => A! * Math.exp(-k! * t) - ys[i]!),
+        jacobian: ([A, k]) =>
+          ts.map((t) => [Math.exp(-k! * t), -A! * t * Math.exp(-k! * t)]),
+      },
+      [1, 0.1]
+    )
+
+    expect(result.converged).toBe(true)
+    expect(result.x[0]).toBeCloseTo(3, 5)
+    expect(result.x[1]).toBeCloseTo(0.7, 5)
+  })
+
+  it('should not report a stalled fit as converged', () => {
+    // A residual no step can reduce: every trial step is rejected until damping runs out
+    const result = levenbergMarquardt(
+      {
+        residuals: ([a]) => [a! === 1 ? 1 : 2],
+        jacobian: () => [[1]],
+      },
+      [1],
+      { maxIter: 1000 }
+    )
+
+    expect(result.converged).toBe(false)
+    expect(result.reason).toBe('stalled')
+    expect(result.x).toEqual([1])
+  })
+})
+
+describe('SVI calibration', () => {
+  it('should match analytic Jacobian to finite differences', () => {
+    const names: (keyof SVIParams)[] = ['a', 'b', 'rho', 'm', 'sigma']
+    for (const k of [-0.5, 0, 0.3]) {
+      const jac = sviJacobian(k, TRUE_PARAMS)
+      names.forEach((name, j) => {
+        const h = 1e-6
+        const up = { ...TRUE_PARAMS, [name]: TRUE_PARAMS[name] + h }
+        const dn = { ...TRUE_PARAMS, [name]: TRUE_PARAMS[name] - h }
+        const fd = (sviTotalVariance(k, up) - sviTotalVariance(k, dn)) / (2 * h)
+        expect(jac[j]).toBeCloseTo(fd, 6)
+      })
+    }
+  })
+
+  it('should recover known parameters from exact quotes', () => {
+    const T = 0.5
+    const data = STRIKES_K.map((k) => ({ k, iv: sviImpliedVol(k, T, TRUE_PARAMS) }))
+
+    const result = calibrateSVI(data, T)
+
+    expect(result.rmse).toBeLessThan(1e-6)
+    expect(result.starts).toBeGreaterThan(1)
+    expect(result.residuals.length).toBe(data.length)
+    for (const r of result.residuals) {
+      expect(Math.abs(r.modelIV - r.marketIV)).toBeLessThan(1e-4)
+    }
+    expect(result.arbitrageFree).toBe(true)
+  })
+
+  it('should produce butterfly-free slices from noisy quotes', () => {
+    const T = 0.25
+    // Deliberately concave wings that raw least squares would chase
+    const data = STRIKES_K.map((k, i) => ({
+      k,
+      iv: 0.3 + 0.05 * Math.abs(k) - (i % 2 === 0 ? 0.02 : -0.02),
+    }))
+
+    const result = calibrateSVI(data, T)
+
+    expect(result.arbitrageFree).toBe(true)
+    expect(checkButterflyArbitrage(result.params, T).arbitrageFree).toBe(true)
+    expect(checkButterflyArbitrage(result.params, T, STRIKES_K).arbitrageFree).toBe(true)
+    expect(Number.isFinite(result.gradientNorm)).toBe(true)
+  })
+
+  it('should project parameters onto admissible region', () => {
+    const p = projectSVIParams({ a: -1, b: 5, rho: 1.5, m: 0, sigma: -0.1 })
+    expect(p.rho).toBeLessThan(1)
+    expect(p.sigma).toBeGreaterThan(0)
+    expect(p.b * (1 + Math.abs(p.rho))).toBeLessThanOrEqual(2 + 1e-12)
+    // Minimum variance stays positive
+    expect(p.a + p.b * p.sigma * Math.sqrt(1 - p.rho * p.rho)).toBeGreaterThan(0)
+  })
+
+  it('should report positive density for flat smile', () => {
+    const flat: SVIParams = { a: 0.04, b: 0, rho: 0, m: 0, sigma: 0.1 }
+    expect(sviButterflyDensity(0.5, flat)).toBeCloseTo(1, 10)
+  })
+})
+
+describe('SSVI surface calibration', () => {
+  // Power-law SSVI surface: x = T in years, y = strike, forward 100
+  const buildSurface = (perturb: (i: number, j: number) => number = () => 0) => {
+    const x = linspace(0.1, 1.5, 8)
+    const y = linspace(70, 130, 13)
+    const z = vec64(x.length * y.length)
+    for (let i = 0; i < x.length; i++) {
+      const T = x[i]!
+      const theta = 0.04 * T
+      const psi = theta * ssviPowerLawPhi(theta, 1.2, 0.4)
+      for (let j = 0; j < y.length; j++) {
+        const k = Math.log(y[j]! / 100)
+        const w = ssviTotalVariance(k, theta, -0.4, psi)
+        z[i * y.length + j] = Math.sqrt(w / T) + perturb(i, j)
+      }
+    }
+    return createSurface(x, y, z, { x: 'T', y: 'Strike', z: 'IV' })
+  }
+
+  it('should recover power-law SSVI parameters', () => {
+    const surface = buildSurface()
+    const result = calibrateSSVI(surface, { model: 'ssvi', forward: 100 })
+
+    expect(result.rmse).toBeLessThan(1e-4)
+    expect(result.params!.rho).toBeCloseTo(-0.4, 2)
+    expect(result.curves.theta.length).toBe(surface.nx)
+  })
+
+  it('should read DTE surfaces in days by default', () => {
+    const years = buildSurface()
+    const days = createSurface(
+      Float64Array.from(years.x, (T) => T * 365),
+      years.y,
+      years.z,
+      { x: 'DTE', y: 'Strike', z: 'IV' }
+    )
+    const result = calibrateSSVI(days, { model: 'ssvi', forward: 100 })
+
+    expect(result.timeScale).toBeCloseTo(1 / 365, 12)
+    expect(result.params!.rho).toBeCloseTo(calibrateSSVI(years, { model: 'ssvi', forward: 100 }).params!.rho, 6)
+  })
+
+  it('should remove calendar arbitrage present in market data', () => {
+    // Crush a middle expiry so total variance decreases in T
+    const surface = buildSurface((i) => (i === 4 ? -0.08 : 0))
+    expect(checkCalendarArbitrage(surface).length).toBeGreaterThan(0)
+
+    for (const model of ['ssvi', 'essvi'] as const) {
+      const result = calibrateSSVI(surface, { model, forward: 100 })
+      const fitted = ssviToSurface(result, surface)
+      expect(checkCalendarArbitrage(fitted)).toEqual([])
+
+      // Theta curve is non-decreasing
+      const { theta } = result.curves
+      for (let i = 1; i < theta.length; i++) {
+        expect(theta[i]!).toBeGreaterThanOrEqual(theta[i - 1]!)
+      }
+    }
+  })
+
+  it('should keep eSSVI slices inside the arbitrage-free region', () => {
+    const slices = projectESSVISlices([
+      { T: 0.1, theta: 0.01, rho: -0.5, psi: 0.2 },
+      { T: 0.5, theta: 0.005, rho: 0.9, psi: 0.05 },
+    ])
+
+    const [s0, s1] = slices
+    expect(s1!.theta).toBeGreaterThanOrEqual(s0!.theta)
+    expect(s1!.psi - s0!.psi).toBeGreaterThanOrEqual(
+      Math.abs(s1!.rho * s1!.psi - s0!.rho * s0!.psi) - 1e-12
+    )
+  })
+
+  it('should sample term structure curves for plotting', () => {
+    const result = calibrateSSVI(buildSurface(), { forward: 100 })
+    const curves = ssviTermStructure(result, 20)
+    expect(curves.T.length).toBe(20)
+    expect(curves.phi.every((p) => p > 0)).toBe(true)
+  })
+})
+
+describe('Surface builder', () => {
+  const FORWARD = 100
+  const EXPIRIES = [0.25, 0.5, 1]
+  const STRIKES = [70, 80, 90, 95, 100, 105, 110, 120, 130]
+
+  // Quotes generated from a known SVI smile per expiry
+  function sviQuotes(spread = 0): OptionQuote[] {
+    const quotes: OptionQuote[] = []
+    for (const T of EXPIRIES) {
+      const params = { ...TRUE_PARAMS, a: TRUE_PARAMS.a * T * 4, b: TRUE_PARAMS.b * T * 4 }
+      for (const strike of STRIKES) {
+        const vol = sviImpliedVol(Math.log(strike / FORWARD), T, params)
+        const type = strike < FORWARD ? 'put' : 'call'
+        const mid = black76Price({ type, forward: FORWARD, strike, T, vol })
+        quotes.push({ type, strike, expiry: T, forward: FORWARD, bid: mid - spread, ask: mid + spread })
+      }
+    }
+    return quotes
+  }
+
+  it('should recover the generating smile with SVI', () => {
+    const result = buildSurfaceFromQuotes(sviQuotes(0.01), { nx: 5, ny: 9 })
+
+    expect(result.rejected).toEqual([])
+    expect(result.slices.map((s) => s.method)).toEqual(['svi', 'svi', 'svi'])
+    for (const fit of result.fits) {
+      expect(Math.abs(fit.error)).toBeLessThan(1e-3)
+      expect(fit.withinSpread).toBe(true)
+    }
+
+    // Grid nodes at quoted expiries and strikes reproduce the quotes
+    const { surface } = result
+    expect(surface.x[0]).toBeCloseTo(0.25, 12)
+    expect(surface.z[4]!).toBeCloseTo(result.fits[4]!.iv, 3)
+  })
+
+  it('should interpolate sparse slices and keep the surface calendar-free', () => {
+    const quotes = sviQuotes().filter((q) => [80, 100, 120].includes(q.strike))
+    const result = buildSurfaceFromQuotes(quotes, { nx: 7, ny: 5 })
+
+    expect(result.slices.every((s) => s.method === 'interpolate')).toBe(true)
+    for (const fit of result.fits) {
+      expect(Math.abs(fit.error)).toBeLessThan(1e-9)
+    }
+    expect(checkCalendarArbitrage(result.surface)).toEqual([])
+  })
+
+  it('should reject unusable quotes and flag outliers', () => {
+    const quotes = sviQuotes(0.005)
+    quotes.push({ type: 'call', strike: 90, expiry: 0.5, forward: 100, mid: 5 }) // Below intrinsic
+    quotes.push({ type: 'put', strike: 90, expiry: 0.5, forward: 100 })
+    const bumped = quotes[13]!
+    bumped.bid = bumped.bid! + 1
+    bumped.ask = bumped.ask! + 1
+
+    const result = buildSurfaceFromQuotes(quotes)
+    expect(result.rejected.map((r) => r.reason)).toEqual([
+      'price outside no-arbitrage bounds',
+      'no price',
+    ])
+
+    const outliers = quoteOutliers(result.fits)
+    expect(outliers[0]!.quote).toBe(bumped)
+    expect(outliers[0]!.error).toBeLessThan(0)
+  })
+})
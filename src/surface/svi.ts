@@ -15,6 +15,13 @@
  *   sigma = smoothness of ATM region
  */
 
+import {
+  levenbergMarquardt,
+  type LeastSquaresProblem,
+  type LevenbergMarquardtResult,
+  type LevenbergMarquardtStop,
+} from './optimize.ts'
+
 /**
  * SVI raw parameters
  */
@@ -118,6 +125,34 @@ export function sviSecondDerivative(k: number, params: SVIParams): number {
   return (b * sigma * sigma) / denom
 }
 
+/**
+ * Analytic gradient of total variance with respect to the raw parameters
+ * @returns [dw/da, dw/db, dw/drho, dw/dm, dw/dsigma]
+ */
+export function sviJacobian(k: number, params: SVIParams): number[] {
+  const { b, rho, m, sigma } = params
+  const km = k - m
+  const s = Math.sqrt(km * km + sigma * sigma)
+  return [1, rho * km + s, b * km, -b * (rho + km / s), (b * sigma) / s]
+}
+
+/**
+ * Gatheral's risk-neutral density factor g(k)
+ * g(k) = (1 - k*w'/2w)^2 - w'^2/4 * (1/w + 1/4) + w''/2
+ * The slice is free of butterfly arbitrage iff g(k) >= 0 everywhere
+ */
+export function sviButterflyDensity(k: number, params: SVIParams): number {
+  const w = sviTotalVariance(k, params)
+  const dw = sviDerivative(k, params)
+  const d2w = sviSecondDerivative(k, params)
+
+  return (
+    Math.pow(1 - (k * dw) / (2 * w), 2) -
+    (dw * dw) / 4 * (1 / w + 0.25) +
+    d2w / 2
+  )
+}
+
 /**
  * Check for calendar arbitrage (variance must increase with time)
  * Returns true if arbitrage-free
@@ -163,18 +198,8 @@ export function checkButterflyArbitrage(
   const violations: number[] = []
 
   for (const k of kRange) {
-    const w = sviTotalVariance(k, params)
-    const dw = sviDerivative(k, params)
-    const d2w = sviSecondDerivative(k, params)
-
-    // g(k) = (1 - k*w'/2w)^2 - w'^2/4 * (1/w + 1/4) + w''/2
     // Must have g(k) >= 0 for no butterfly arbitrage
-    const g =
-      Math.pow(1 - (k * dw) / (2 * w), 2) -
-      (dw * dw) / 4 * (1 / w + 0.25) +
-      d2w / 2
-
-    if (g < 0) {
+    if (sviButterflyDensity(k, params) < 0) {
       violations.push(k)
     }
   }
@@ -208,8 +233,7 @@ export function sviRawToJumpWing(params: SVIParams, T: number): SVIJumpWing {
 }
 
 /**
- * Simple SVI calibration using least squares
- * Fits SVI parameters to market implied volatilities
+ * SVI calibration input point
  */
 export interface SVICalibrationInput {
   k: number // Log-moneyness
@@ -217,95 +241,282 @@ export interface SVICalibrationInput {
   weight?: number // Optional weight
 }
 
+/**
+ * Per-strike fit diagnostics
+ */
+export interface SVIResidual {
+  k: number
+  marketIV: number
+  modelIV: number
+  residual: number // Model minus market total variance
+  weight: number
+}
+
+/**
+ * Calibration result with convergence diagnostics
+ */
+export interface SVICalibrationResult {
+  params: SVIParams
+  rmse: number // Weighted RMSE in total variance
+  iterations: number // LM iterations of the winning start
+  converged: boolean
+  reason: LevenbergMarquardtStop // Why the winning start stopped
+  gradientNorm: number // |J'r| of the data objective at the returned params
+  residuals: SVIResidual[]
+  starts: number // Number of starting points tried
+  arbitrageFree: boolean // g(k) >= 0 on the calibration grid
+}
+
+// Parameter bounds for the raw parameterization
+const SVI_RHO_MAX = 0.999
+const SVI_SIGMA_MIN = 1e-4
+const SVI_MIN_VARIANCE = 1e-8
+// Roger Lee moment bound on wing slopes: b * (1 + |rho|) <= 2
+const SVI_WING_BOUND = 2
+// Weight of butterfly penalty residuals relative to data residuals
+const SVI_BUTTERFLY_PENALTY = 10
+
+const toVector = (p: SVIParams): number[] => [p.a, p.b, p.rho, p.m, p.sigma]
+const fromVector = (x: number[]): SVIParams => ({
+  a: x[0]!,
+  b: x[1]!,
+  rho: x[2]!,
+  m: x[3]!,
+  sigma: x[4]!,
+})
+
+/**
+ * Project raw parameters onto the region satisfying the Gatheral
+ * necessary conditions: b >= 0, |rho| < 1, sigma > 0, wing slopes within
+ * the moment bound and non-negative minimum variance
+ */
+export function projectSVIParams(params: SVIParams): SVIParams {
+  const rho = Math.max(-SVI_RHO_MAX, Math.min(SVI_RHO_MAX, params.rho))
+  const sigma = Math.max(SVI_SIGMA_MIN, params.sigma)
+  const b = Math.max(0, Math.min(SVI_WING_BOUND / (1 + Math.abs(rho)), params.b))
+  const minA = -b * sigma * Math.sqrt(1 - rho * rho) + SVI_MIN_VARIANCE
+  const a = Math.max(minA, params.a)
+  return { a, b, rho, m: params.m, sigma }
+}
+
+/**
+ * Log-moneyness grid on which the butterfly condition is enforced
+ */
+function butterflyGrid(ks: number[]): number[] {
+  const lo = Math.min(-1.5, ...ks) - 0.5
+  const hi = Math.max(1.5, ...ks) + 0.5
+  const n = 61
+  const grid = [...ks, -1, -0.5, 0, 0.5, 1]
+  for (let i = 0; i < n; i++) {
+    grid.push(lo + ((hi - lo) * i) / (n - 1))
+  }
+  return [...new Set(grid)].sort((x, y) => x - y)
+}
+
+function isButterflyFree(params: SVIParams, grid: number[]): boolean {
+  return grid.every((k) => sviButterflyDensity(k, params) >= 0)
+}
+
+/**
+ * Heuristic starting points from the shape of the market smile
+ */
+function sviStartingPoints(
+  targets: { k: number; w: number }[],
+  initialParams: SVIParams
+): SVIParams[] {
+  const starts: SVIParams[] = [initialParams]
+  if (targets.length === 0) return starts
+
+  const sorted = [...targets].sort((x, y) => x.k - y.k)
+  const minPoint = sorted.reduce((lo, t) => (t.w < lo.w ? t : lo))
+  const first = sorted[0]!
+  const last = sorted[sorted.length - 1]!
+
+  // Wing slopes from the outermost quotes relative to the minimum
+  const slopeLeft =
+    minPoint.k > first.k ? Math.max(0, (first.w - minPoint.w) / (minPoint.k - first.k)) : 0
+  const slopeRight =
+    last.k > minPoint.k ? Math.max(0, (last.w - minPoint.w) / (last.k - minPoint.k)) : 0
+  const slopeSum = slopeLeft + slopeRight
+
+  const b0 = Math.max(0.01, slopeSum / 2)
+  const rho0 = slopeSum > 0 ? (slopeRight - slopeLeft) / slopeSum : 0
+
+  for (const sigma of [0.05, 0.2, 0.5]) {
+    starts.push({
+      a: minPoint.w - b0 * sigma * Math.sqrt(1 - rho0 * rho0),
+      b: b0,
+      rho: rho0,
+      m: minPoint.k,
+      sigma,
+    })
+  }
+
+  for (const rho of [-0.6, 0, 0.6]) {
+    starts.push({ a: minPoint.w * 0.5, b: b0, rho, m: 0, sigma: 0.2 })
+  }
+
+  return starts.map(projectSVIParams)
+}
+
+/**
+ * Pull parameters toward a flat smile until g(k) >= 0 on the grid
+ * A flat smile (b = 0, a > 0) has g = 1 and is always admissible
+ */
+function repairButterfly(params: SVIParams, grid: number[]): SVIParams {
+  if (isButterflyFree(params, grid)) return params
+
+  const flat: SVIParams = {
+    a: Math.max(SVI_MIN_VARIANCE, sviTotalVariance(params.m, params)),
+    b: 0,
+    rho: params.rho,
+    m: params.m,
+    sigma: params.sigma,
+  }
+  const blend = (t: number): SVIParams =>
+    projectSVIParams({
+      a: params.a + t * (flat.a - params.a),
+      b: params.b * (1 - t),
+      rho: params.rho,
+      m: params.m,
+      sigma: params.sigma,
+    })
+
+  // Coarse scan for the first admissible blend, then bisect
+  let lo = 0
+  let hi = 1
+  for (let i = 1; i <= 20; i++) {
+    const t = i / 20
+    if (isButterflyFree(blend(t), grid)) {
+      hi = t
+      break
+    }
+    lo = t
+  }
+  for (let i = 0; i < 30; i++) {
+    const mid = (lo + hi) / 2
+    if (isButterflyFree(blend(mid), grid)) hi = mid
+    else lo = mid
+  }
+
+  return blend(hi)
+}
+
+/**
+ * Calibrate raw SVI to market implied volatilities
+ * Levenberg-Marquardt on total variance with analytic Jacobians, run from
+ * several starting points. Parameters are projected onto the Gatheral
+ * necessary conditions after every step, negative g(k) is penalized during
+ * the fit, and the final slice is guaranteed butterfly-free on the grid.
+ */
 export function calibrateSVI(
   data: SVICalibrationInput[],
   T: number,
   initialParams: SVIParams = DEFAULT_SVI,
   maxIter = 100,
   tolerance = 1e-6
-): { params: SVIParams; rmse: number; iterations: number } {
+): SVICalibrationResult {
   // Convert IVs to total variance
   const targets = data.map((d) => ({
     k: d.k,
     w: d.iv * d.iv * T,
     weight: d.weight ?? 1,
   }))
-
-  // Simple gradient descent (in production, use Levenberg-Marquardt)
-  let params = { ...initialParams }
-  let prevRmse = Infinity
-
-  const learningRate = 0.01
-  const paramNames: (keyof SVIParams)[] = ['a', 'b', 'rho', 'm', 'sigma']
-
-  for (let iter = 0; iter < maxIter; iter++) {
-    // Compute RMSE
-    let sumSqError = 0
-    let sumWeight = 0
-
-    for (const t of targets) {
-      const wModel = sviTotalVariance(t.k, params)
-      const error = wModel - t.w
-      sumSqError += t.weight * error * error
-      sumWeight += t.weight
-    }
-
-    const rmse = Math.sqrt(sumSqError / sumWeight)
-
-    if (Math.abs(prevRmse - rmse) < tolerance) {
-      return { params, rmse, iterations: iter }
-    }
-    prevRmse = rmse
-
-    // Compute numerical gradients and update
-    const eps = 1e-6
-    for (const name of paramNames) {
-      const original = params[name]
-
-      // Forward difference
-      params[name] = original + eps
-      let fwdError = 0
-      for (const t of targets) {
-        const wModel = sviTotalVariance(t.k, params)
-        fwdError += t.weight * Math.pow(wModel - t.w, 2)
+  const sqrtWeights = targets.map((t) => Math.sqrt(t.weight))
+  const grid = butterflyGrid(targets.map((t) => t.k))
+
+  const dataResiduals = (p: SVIParams): number[] =>
+    targets.map((t, i) => sqrtWeights[i]! * (sviTotalVariance(t.k, p) - t.w))
+
+  const penaltyResiduals = (p: SVIParams): number[] =>
+    grid.map((k) => SVI_BUTTERFLY_PENALTY * Math.max(0, -sviButterflyDensity(k, p)))
+
+  const problem: LeastSquaresProblem = {
+    residuals: (x) => {
+      const p = fromVector(x)
+      return [...dataResiduals(p), ...penaltyResiduals(p)]
+    },
+    jacobian: (x, r) => {
+      const p = fromVector(x)
+      const rows = targets.map((t, i) =>
+        sviJacobian(t.k, p).map((d) => sqrtWeights[i]! * d)
+      )
+
+      // Penalty rows by central differences, only where active
+      const offset = targets.length
+      for (let g = 0; g < grid.length; g++) {
+        if (r[offset + g]! === 0) {
+          rows.push([0, 0, 0, 0, 0])
+          continue
+        }
+        const k = grid[g]!
+        rows.push(
+          x.map((_, j) => {
+            const h = 1e-6 * Math.max(1, Math.abs(x[j]!))
+            const up = [...x]
+            const dn = [...x]
+            up[j] = up[j]! + h
+            dn[j] = dn[j]! - h
+            const gUp = -sviButterflyDensity(k, fromVector(up))
+            const gDn = -sviButterflyDensity(k, fromVector(dn))
+            return (SVI_BUTTERFLY_PENALTY * (gUp - gDn)) / (2 * h)
+          })
+        )
       }
+      return rows
+    },
+    project: (x) => toVector(projectSVIParams(fromVector(x))),
+  }
 
-      // Backward difference
-      params[name] = original - eps
-      let bwdError = 0
-      for (const t of targets) {
-        const wModel = sviTotalVariance(t.k, params)
-        bwdError += t.weight * Math.pow(wModel - t.w, 2)
-      }
+  const starts = sviStartingPoints(targets, projectSVIParams(initialParams))
+  let best: LevenbergMarquardtResult | null = null
 
-      // Gradient
-      const gradient = (fwdError - bwdError) / (2 * eps)
+  for (const start of starts) {
+    const result = levenbergMarquardt(problem, toVector(start), {
+      maxIter,
+      tolerance,
+    })
+    if (!best || result.cost < best.cost) {
+      best = result
+    }
+  }
 
-      // Update with constraints
-      params[name] = original - learningRate * gradient
+  const params = repairButterfly(fromVector(best!.x), grid)
 
-      // Apply constraints
-      if (name === 'rho') {
-        params.rho = Math.max(-0.99, Math.min(0.99, params.rho))
-      } else if (name === 'b' || name === 'sigma') {
-        params[name] = Math.max(0.001, params[name])
-      }
+  // Diagnostics on the data objective at the returned parameters
+  const residuals: SVIResidual[] = targets.map((t) => {
+    const wModel = sviTotalVariance(t.k, params)
+    return {
+      k: t.k,
+      marketIV: Math.sqrt(t.w / T),
+      modelIV: sviImpliedVol(t.k, T, params),
+      residual: wModel - t.w,
+      weight: t.weight,
     }
-  }
+  })
 
-  // Final RMSE
   let sumSqError = 0
   let sumWeight = 0
-  for (const t of targets) {
-    const wModel = sviTotalVariance(t.k, params)
-    sumSqError += t.weight * Math.pow(wModel - t.w, 2)
-    sumWeight += t.weight
+  const gradient = [0, 0, 0, 0, 0]
+  for (const res of residuals) {
+    sumSqError += res.weight * res.residual * res.residual
+    sumWeight += res.weight
+    const jac = sviJacobian(res.k, params)
+    for (let j = 0; j < 5; j++) {
+      gradient[j] = gradient[j]! + res.weight * jac[j]! * res.residual
+    }
   }
 
   return {
     params,
-    rmse: Math.sqrt(sumSqError / sumWeight),
-    iterations: maxIter,
+    rmse: sumWeight > 0 ? Math.sqrt(sumSqError / sumWeight) : 0,
+    iterations: best!.iterations,
+    converged: best!.converged,
+    reason: best!.reason,
+    gradientNorm: Math.sqrt(gradient.reduce((s, g) => s + g * g, 0)),
+    residuals,
+    starts: starts.length,
+    arbitrageFree: isButterflyFree(params, grid),
   }
 }
 
@@ -3,25 +3,34 @@
  * Renders the 7-column risk oracle layout with Ink
  */
 
-import React, { useState, useEffect, useCallback } from 'react'
+import React, { useState, useEffect, useCallback, useMemo } from 'react'
 import { Box, Text, useApp, useInput, useStdout } from 'ink'
-import { useMouse } from './useMouseScroll.ts'
-import { createSurface } from '../data/surface.ts'
+import { useMouse, type ClickEvent } from './useMouseScroll.ts'
+import { createSurface, getZ } from '../data/surface.ts'
 import { linspace } from '../data/vec.ts'
 import { computeSlope } from '../data/surface.ts'
 import { computeRiskMetrics, formatRiskScore } from '../render/gradient.ts'
 import type { RiskMetrics } from '../render/gradient.ts'
 import { createProjection, rotateProjection, zoomProjection } from '../render/project.ts'
 import type { Projection } from '../render/project.ts'
-import { renderCubeFrame, surfaceToPoints } from '../render/cube.ts'
-import { rasterizeCubeFrame, type RasterBuffer } from '../render/rasterize.ts'
+import { pickNode, renderCubeFrame, surfaceToPoints } from '../render/cube.ts'
+import { rasterizeCubeFrame, rasterTransform, type RasterBuffer } from '../render/rasterize.ts'
 import {
   analyzeTermStructure,
   analyzeSmile,
   detectArbitrage,
   type ArbitrageOpportunity,
 } from '../oracle/risk.ts'
-import { sparkline } from '../column/widgets/Chart.tsx'
+import { renderHeatmapText, renderLineChartText } from '../column/widgets/text.ts'
+import {
+  cellReadout,
+  clampCursor,
+  cursorInput,
+  formatTick,
+  heatmapCell,
+  slopeAt,
+  type GridCursor,
+} from '../column/widgets/heatmap.ts'
 import { Timeline, EventList } from './Timeline.tsx'
 import {
   createPlaylist,
@@ -31,7 +40,9 @@ import {
   type VolatilityPlaylist,
   type VolatilitySnapshot,
 } from '../chain/volatility.ts'
+import { compareSnapshots, formatBucketMove, type SurfaceComparison } from '../chain/compare.ts'
 import { VOLATILITY_EVENTS } from '../chain/config.ts'
+import type { ColumnHealth, ColumnHealthState } from '../column/supervisor.ts'
 
 // Ink color type
 type InkColor = 'black' | 'red' | 'green' | 'yellow' | 'blue' | 'magenta' | 'cyan' | 'white' | 'gray'
@@ -113,9 +124,9 @@ function generateDemoSurface() {
   }
 
   return createSurface(x, y, z, {
-    xLabel: 'DTE',
-    yLabel: 'Strike',
-    zLabel: 'IV',
+    x: 'DTE',
+    y: 'Strike',
+    z: 'IV',
   })
 }
 
@@ -131,45 +142,67 @@ const SYNTH = {
   blue: '#8be9fd',
 }
 
-// Term Structure Panel
-function TermStructurePanel({ surface, width, height }: { surface: any; width: number; height: number }) {
+// Term Structure Panel: curves through the outer strikes and the selected one (default: the middle one)
+function TermStructurePanel({ surface, selected, width, height }: { surface: any; selected: GridCursor | null; width: number; height: number }) {
   if (!surface) return <Box borderStyle="round" borderColor="magenta" width={width} height={height}><Text color="magenta">Loading...</Text></Box>
 
-  const analysis = analyzeTermStructure(surface, [0, Math.floor(surface.ny / 2), surface.ny - 1])
-  const midCurve = analysis.curves.get(analysis.strikes[1]!)
+  const strikeIndex = selected ? clampCursor(selected, surface).yi : Math.floor(surface.ny / 2)
+  const analysis = analyzeTermStructure(surface, [0, strikeIndex, surface.ny - 1])
 
   return (
     <Box flexDirection="column" borderStyle="round" borderColor="magenta" width={width} height={height} paddingX={1}>
-      <Text bold color="magenta">Term Structure</Text>
-      <Text color={analysis.contango ? 'green' : analysis.backwardation ? 'red' : 'yellow'}>
-        {analysis.contango ? '↗ Contango' : analysis.backwardation ? '↘ Backwardation' : '→ Flat'}
+      <Text bold color="magenta">Term Structure <Text dimColor>{surface.meta.yLabel} {formatTick(surface.y[strikeIndex])}</Text></Text>
+      <Text wrap="truncate">
+        <Text color={analysis.contango ? 'green' : analysis.backwardation ? 'red' : 'yellow'}>
+          {analysis.contango ? '↗ Contango' : analysis.backwardation ? '↘ Backwardation' : '→ Flat'}
+        </Text>
+        <Text color="magenta"> Flat: {(analysis.flatness * 100).toFixed(0)}%</Text>
       </Text>
-      {midCurve && (
-        <Text color="cyan">{sparkline(midCurve.iv.map(v => v * 100))}</Text>
-      )}
-      <Text color="magenta">Flat: {(analysis.flatness * 100).toFixed(0)}%</Text>
+      {renderLineChartText(
+        {
+          series: [...new Set(analysis.strikes)].map((strike) => ({
+            label: `K ${formatTick(strike)}`,
+            x: analysis.curves.get(strike)!.dte,
+            y: analysis.curves.get(strike)!.iv.map(v => v * 100),
+          })),
+        },
+        { width: width - 4, height: height - 4 }
+      ).map((line, i) => (
+        <Text key={i}>{line}</Text>
+      ))}
     </Box>
   )
 }
 
-// Smile Panel
-function SmilePanel({ surface, width, height }: { surface: any; width: number; height: number }) {
+// Smile Panel: smiles at the front and the selected expiry (default: the middle one)
+function SmilePanel({ surface, selected, width, height }: { surface: any; selected: GridCursor | null; width: number; height: number }) {
   if (!surface) return <Box borderStyle="round" borderColor="cyan" width={width} height={height}><Text color="cyan">Loading...</Text></Box>
 
-  const analysis = analyzeSmile(surface, [0, Math.floor(surface.nx / 2)], Math.floor(surface.ny / 2))
-  const midSmile = analysis.smiles.get(analysis.dtes[1]!)
+  const expiryIndex = selected ? clampCursor(selected, surface).xi : Math.floor(surface.nx / 2)
+  const analysis = analyzeSmile(surface, [0, expiryIndex], Math.floor(surface.ny / 2))
 
   return (
     <Box flexDirection="column" borderStyle="round" borderColor="cyan" width={width} height={height} paddingX={1}>
-      <Text bold color="cyan">Smile / Skew</Text>
-      <Text color={analysis.skewDirection === 'put' ? 'red' : analysis.skewDirection === 'call' ? 'green' : 'yellow'}>
-        ◈ {analysis.skewDirection.toUpperCase()}
+      <Text bold color="cyan">Smile / Skew <Text dimColor>{surface.meta.xLabel} {formatTick(surface.x[expiryIndex])}</Text></Text>
+      <Text wrap="truncate">
+        <Text color={analysis.skewDirection === 'put' ? 'red' : analysis.skewDirection === 'call' ? 'green' : 'yellow'}>
+          ◈ {analysis.skewDirection.toUpperCase()}
+        </Text>
+        <Text color="cyan"> ATM: {(analysis.atmIV * 100).toFixed(1)}%</Text>
+        <Text color="blue"> Bfly: {(analysis.butterflySpread * 100).toFixed(2)}%</Text>
       </Text>
-      {midSmile && (
-        <Text color="magenta">{sparkline(midSmile.iv.map(v => v * 100))}</Text>
-      )}
-      <Text color="cyan">ATM: {(analysis.atmIV * 100).toFixed(1)}%</Text>
-      <Text color="blue">Bfly: {(analysis.butterflySpread * 100).toFixed(2)}%</Text>
+      {renderLineChartText(
+        {
+          series: [...new Set(analysis.dtes)].map((dte) => ({
+            label: `${surface.meta.xLabel} ${formatTick(dte)}`,
+            x: analysis.smiles.get(dte)!.strike,
+            y: analysis.smiles.get(dte)!.iv.map(v => v * 100),
+          })),
+        },
+        { width: width - 4, height: height - 4 }
+      ).map((line, i) => (
+        <Text key={i}>{line}</Text>
+      ))}
     </Box>
   )
 }
@@ -178,12 +211,18 @@ function SmilePanel({ surface, width, height }: { surface: any; width: number; h
 function SurfacePanel({
   surface,
   projection,
+  cursor = null,
+  comparison = null,
+  comparisonError = null,
   width,
   height,
   paused = false
 }: {
   surface: any;
   projection: Projection;
+  cursor?: GridCursor | null;
+  comparison?: SurfaceComparison | null;
+  comparisonError?: string | null;
   width: number;
   height: number;
   paused?: boolean;
@@ -199,15 +238,20 @@ function SurfacePanel({
     )
   }
 
-  // Render the surface with colors
+  if (comparison) return <ComparisonView comparison={comparison} cursor={cursor} width={width} height={height} />
+
+  // Render the surface with colors, and the crosshair once moved
+  const at = cursor ? clampCursor(cursor, surface) : null
   const points = surfaceToPoints(surface.x, surface.y, surface.z, surface.nx, surface.ny)
   const frame = renderCubeFrame(points, projection, {
     showWireframe: true,
     showGrid: true,
     showAxes: true,
     axisLabels: { x: 'DTE', y: 'K', z: 'IV' },
+    cursor: at,
   })
-  const buffer = rasterizeCubeFrame(frame, width - 4, height - 4, { colorBySurface: true })
+  const buffer = rasterizeCubeFrame(frame, width - 4, height - 4 - (comparisonError ? 1 : 0), { colorBySurface: true })
+  const readout = at ? cellReadout(surface, heatmapCell(surface, at), slopeAt(surface, at)) : null
 
   return (
     <Box flexDirection="column" borderStyle="double" borderColor="magenta" width={width} height={height}>
@@ -224,6 +268,58 @@ function SurfacePanel({
           Az:{projection.azimuth.toFixed(0)}° El:{projection.elevation.toFixed(0)}° Z:{(projection.zoom / 10).toFixed(1)}x
         </Text>
         {paused && <Text color="yellow" bold> PAUSED</Text>}
+        {readout && <Text color="yellow">  {readout.map(([label, value]) => `${label} ${value}`).join(' · ')}</Text>}
+      </Box>
+      {comparisonError && (
+        <Box justifyContent="center">
+          <Text color="red" wrap="truncate">{comparisonError}</Text>
+        </Box>
+      )}
+    </Box>
+  )
+}
+
+// Comparison mode of the surface panel: the IV change between two snapshots
+// as a diverging heatmap (white = unchanged), next to the largest moves by bucket
+function ComparisonView({
+  comparison,
+  cursor,
+  width,
+  height
+}: {
+  comparison: SurfaceComparison;
+  cursor: GridCursor | null;
+  width: number;
+  height: number;
+}) {
+  const { before, after, diff, moves } = comparison
+  const movesWidth = Math.min(60, Math.floor((width - 4) / 2))
+  const mapWidth = width - 4 - movesWidth - 2
+  const lines = renderHeatmapText(diff, { width: mapWidth, height: height - 4 }, { gradient: 'divergent', center: 0 }, cursor)
+  const label = (snapshot: VolatilitySnapshot) => snapshot.eventName ?? `Block ${snapshot.blockNumber.toLocaleString()}`
+
+  return (
+    <Box flexDirection="column" borderStyle="double" borderColor="magenta" width={width} height={height}>
+      <Box justifyContent="center">
+        <Text bold color="magenta"> ◆ </Text>
+        <Text bold color="cyan">Surface Change</Text>
+        <Text dimColor> {label(before)} ({before.date}) → {label(after)} ({after.date})</Text>
+        <Text bold color="magenta"> ◆ </Text>
+      </Box>
+      <Box paddingX={1}>
+        <Box flexDirection="column" width={mapWidth}>
+          {lines.map((line, i) => (
+            <Text key={i}>{line || ' '}</Text>
+          ))}
+        </Box>
+        <Box flexDirection="column" width={movesWidth} marginLeft={2}>
+          <Text bold color="yellow">Largest moves (vol pts)</Text>
+          {moves.slice(0, height - 5).map((move, i) => (
+            <Text key={i} color={move.mean >= 0 ? 'red' : 'blue'} wrap="truncate">
+              {formatBucketMove(move, diff.meta)}
+            </Text>
+          ))}
+        </Box>
       </Box>
     </Box>
   )
@@ -345,22 +441,21 @@ function LiquidityPanel({ snapshot, width, height }: { snapshot: VolatilitySnaps
 function VolStatsPanel({ surface, width, height }: { surface: any; width: number; height: number }) {
   if (!surface) return <Box width={width} height={height}><Text dimColor>Loading...</Text></Box>
 
-  // Calculate key vol metrics
-  const z = surface.z as Float64Array
+  // Calculate key vol metrics (x = expiry, y = strike)
   const nx = surface.nx
   const ny = surface.ny
-  const atmIndex = Math.floor(nx / 2)
+  const atmIndex = Math.floor(ny / 2)
 
   // ATM IV across expiries
   const atmIVs: number[] = []
-  for (let j = 0; j < ny; j++) {
-    atmIVs.push(z[j * nx + atmIndex]! * 100)
+  for (let i = 0; i < nx; i++) {
+    atmIVs.push(getZ(surface, i, atmIndex) * 100)
   }
 
-  // Wing IVs (25-delta equivalent)
-  const wingOffset = Math.floor(nx * 0.25)
-  const putWing = z[wingOffset]! * 100
-  const callWing = z[nx - 1 - wingOffset]! * 100
+  // Front-expiry wing IVs (25-delta equivalent)
+  const wingOffset = Math.floor(ny * 0.25)
+  const putWing = getZ(surface, 0, wingOffset) * 100
+  const callWing = getZ(surface, 0, ny - 1 - wingOffset) * 100
 
   // Skew = put wing - call wing
   const skew25 = putWing - callWing
@@ -372,7 +467,7 @@ function VolStatsPanel({ surface, width, height }: { surface: any; width: number
         <Text color="cyan">ATM: </Text>
         <Text bold color="white">{atmIVs[0]?.toFixed(1)}%</Text>
         <Text dimColor> → </Text>
-        <Text color="white">{atmIVs[ny - 1]?.toFixed(1)}%</Text>
+        <Text color="white">{atmIVs[nx - 1]?.toFixed(1)}%</Text>
       </Box>
       <Box>
         <Text color="magenta">Put25: </Text>
@@ -395,19 +490,18 @@ function GreeksPanel({ surface, snapshot, width, height }: { surface: any; snaps
 
   // Estimate vega and gamma from surface shape
   const z = surface.z as Float64Array
-  const nx = surface.nx
   const avgIV = Array.from(z).reduce((a, b) => a + b, 0) / z.length
 
   // Vega estimate: higher IV = higher vega
   const vegaEst = avgIV * snapshot.ethPrice * 0.01 * Math.sqrt(30 / 365)
 
-  // Gamma estimate: curvature of surface
-  const atmIndex = Math.floor(nx / 2)
-  const gamma = Math.abs(z[atmIndex]! - z[atmIndex - 1]!) * 100
+  // Gamma estimate: curvature of the front smile at the money
+  const atmIndex = Math.floor(surface.ny / 2)
+  const gamma = Math.abs(getZ(surface, 0, atmIndex) - getZ(surface, 0, atmIndex - 1)) * 100
 
   // Theta estimate: term structure slope
-  const frontIV = z[atmIndex]!
-  const backIV = z[(surface.ny - 1) * nx + atmIndex]!
+  const frontIV = getZ(surface, 0, atmIndex)
+  const backIV = getZ(surface, surface.nx - 1, atmIndex)
   const theta = (frontIV - backIV) * snapshot.ethPrice * -0.1
 
   return (
@@ -455,11 +549,11 @@ function OracleDataPanel({
     )
   }
 
-  // Calculate the key on-chain metrics (matching IVolatilityOracle.sol)
+  // Calculate the key on-chain metrics (matching IVolatilityOracle.sol); x = expiry, y = strike
   const z = surface.z as Float64Array
   const nx = surface.nx
   const ny = surface.ny
-  const atmIndex = Math.floor(nx / 2)
+  const atmIndex = Math.floor(ny / 2)
 
   // Realized Vol (from surface variance)
   const allIVs = Array.from(z)
@@ -467,21 +561,21 @@ function OracleDataPanel({
   const variance = allIVs.reduce((a, b) => a + (b - avgIV) ** 2, 0) / allIVs.length
   const realizedVol = Math.sqrt(variance) * Math.sqrt(252) // Annualized
 
-  // Implied Vol (ATM)
-  const impliedVol = z[atmIndex]!
+  // Implied Vol (front-expiry ATM)
+  const impliedVol = getZ(surface, 0, atmIndex)
 
   // Vol Risk Premium (IV - RV)
   const volRiskPremium = impliedVol - realizedVol
 
   // 25-delta Skew
-  const wingOffset = Math.floor(nx * 0.25)
-  const putWing = z[wingOffset]!
-  const callWing = z[nx - 1 - wingOffset]!
+  const wingOffset = Math.floor(ny * 0.25)
+  const putWing = getZ(surface, 0, wingOffset)
+  const callWing = getZ(surface, 0, ny - 1 - wingOffset)
   const skew25Delta = putWing - callWing
 
   // Term Structure (back - front)
-  const frontIV = z[atmIndex]!
-  const backIV = z[(ny - 1) * nx + atmIndex]!
+  const frontIV = getZ(surface, 0, atmIndex)
+  const backIV = getZ(surface, nx - 1, atmIndex)
   const termStructure = backIV - frontIV
 
   // Risk Score from metrics
@@ -605,25 +699,63 @@ function MarketPanel({ snapshot, width, height }: { snapshot: VolatilitySnapshot
   )
 }
 
+const HEALTH_COLORS: Record<ColumnHealthState, InkColor> = {
+  starting: 'yellow',
+  healthy: 'green',
+  unresponsive: 'yellow',
+  restarting: 'yellow',
+  crashed: 'red',
+  stopped: 'gray',
+}
+
+// Column worker health: one dot per column, plus restart count
+function ColumnHealthIndicator({ health }: { health: ColumnHealth[] }) {
+  const up = health.filter((h) => h.state === 'healthy').length
+  const restarts = health.reduce((sum, h) => sum + h.restarts, 0)
+  const down = health.filter((h) => h.state === 'crashed' || h.state === 'restarting')
+
+  return (
+    <Box>
+      <Text color="gray">cols </Text>
+      {health.map((h) => (
+        <Text key={h.id} color={HEALTH_COLORS[h.state]}>●</Text>
+      ))}
+      <Text color={up === health.length ? 'green' : 'yellow'}> {up}/{health.length}</Text>
+      {restarts > 0 && <Text color="yellow"> ↻{restarts}</Text>}
+      {down.length > 0 && <Text color="red"> {down.map((h) => h.id).join(',')}</Text>}
+    </Box>
+  )
+}
+
 // Status Bar
-function StatusBar({ width }: { width: number }) {
+function StatusBar({ width, health }: { width: number; health?: ColumnHealth[] }) {
   const time = new Date().toLocaleTimeString()
   return (
     <Box width={width} justifyContent="space-between" paddingX={1} borderStyle="double" borderColor="magenta">
       <Text bold color="magenta">◆ UNISWAP v4 ◆</Text>
       <Text color="cyan">{time}</Text>
+      {health && health.length > 0 && <ColumnHealthIndicator health={health} />}
       <Text color="blue">scroll seek</Text>
       <Text color="yellow">drag rotate</Text>
       <Text color="green">z+scroll zoom</Text>
+      <Text color="yellow">hjkl/click pick</Text>
       <Text color="white">p play</Text>
+      <Text color="cyan">m pin c compare</Text>
       <Text color="magenta">1-5 events</Text>
       <Text color="red">q quit</Text>
     </Box>
   )
 }
 
+export interface AppProps {
+  /** Snapshots to replay (default: mock Uniswap playlist) */
+  playlist?: VolatilityPlaylist
+  /** Column worker health shown in the status bar */
+  health?: ColumnHealth[]
+}
+
 // Main App
-export function App() {
+export function App({ playlist: initialPlaylist, health }: AppProps) {
   const { exit } = useApp()
   const { stdout } = useStdout()
 
@@ -640,7 +772,7 @@ export function App() {
   const panelWidth = Math.floor(termWidth / 6) // 6 panels across bottom
 
   // State
-  const [playlist, setPlaylist] = useState<VolatilityPlaylist>(() => createPlaylist())
+  const [playlist, setPlaylist] = useState<VolatilityPlaylist>(() => initialPlaylist ?? createPlaylist())
   const [currentSnapshot, setCurrentSnapshot] = useState<VolatilitySnapshot | null>(() =>
     playlist.snapshots[0] || null
   )
@@ -654,7 +786,15 @@ export function App() {
   const [arbitrage, setArbitrage] = useState<ArbitrageOpportunity[]>([])
   const [alerts, setAlerts] = useState<string[]>(['◆ Uniswap v4 Volatility Surface'])
   const [paused, setPaused] = useState(false)
+  // Crosshair on the cube, and the node last picked (Enter or click) that the
+  // term structure and smile panels slice through
+  const [cursor, setCursor] = useState<GridCursor | null>(null)
+  const [selected, setSelected] = useState<GridCursor | null>(null)
   const [playlistPlaying, setPlaylistPlaying] = useState(false)
+  // Comparison mode diffs the current snapshot against the pinned one, or
+  // the previous one when none is pinned
+  const [pinned, setPinned] = useState<VolatilitySnapshot | null>(null)
+  const [comparing, setComparing] = useState(false)
 
   // Compute metrics when surface changes
   useEffect(() => {
@@ -716,6 +856,8 @@ export function App() {
     if (input === 'q') exit()
     if (input === ' ') setPaused(p => !p) // spacebar toggles rotation pause
     if (input === 'p') setPlaylistPlaying(p => !p) // p toggles playlist playback
+    if (input === 'm') setPinned(p => (p === currentSnapshot ? null : currentSnapshot)) // m pins/unpins the snapshot
+    if (input === 'c') setComparing(c => !c) // c toggles comparison mode
 
     // Playlist navigation with [ and ]
     if (input === '[' || input === ',') {
@@ -754,6 +896,13 @@ export function App() {
     if (input === '+' || input === '=') setProjection(p => zoomProjection(p, 1.1))
     if (input === '-') setProjection(p => zoomProjection(p, 0.9))
     if (input === 'r') setSurface(generateDemoSurface())
+
+    // Crosshair: h/j/k/l move it, Enter selects its node
+    if (surface && (['h', 'j', 'k', 'l'].includes(input) || key.return)) {
+      const result = cursorInput(cursor, { key: key.return ? 'return' : input }, surface)
+      setCursor(result.cursor)
+      if (result.selected) setSelected(result.cursor)
+    }
   })
 
   // Mouse controls: scroll for playlist, shift+scroll for zoom, drag for rotation
@@ -786,8 +935,41 @@ export function App() {
       const elDelta = -event.deltaY * 3 // Invert Y for natural feel
       setProjection(p => rotateProjection(p, azDelta, elDelta))
     }, []),
+    onClick: useCallback((event: ClickEvent) => {
+      // Click on the cube selects the nearest node: the raster buffer starts
+      // below the timeline, inside the panel's border, title row and padding
+      // (mouse positions are 1-based)
+      const bufferWidth = cubeWidth - 4
+      const bufferHeight = cubeHeight - 4
+      const bx = event.x - 1 - 2
+      const by = event.y - 1 - timelineHeight - 2
+      if (!surface || bx < 0 || by < 0 || bx >= bufferWidth || by >= bufferHeight) return
+
+      const frameSize = { width: projection.centerX * 2, height: projection.centerY * 2 }
+      const { scale, offsetX, offsetY } = rasterTransform(frameSize, bufferWidth, bufferHeight)
+      const points = surfaceToPoints(surface.x, surface.y, surface.z, surface.nx, surface.ny)
+      const node = pickNode(points, projection, (bx - offsetX) / scale, (by - offsetY) / scale)
+      if (node) {
+        setCursor(node)
+        setSelected(node)
+      }
+    }, [surface, projection, cubeWidth, cubeHeight]),
   })
 
+  // Difference against the baseline (nothing to compare on the first snapshot);
+  // surfaces that don't overlap show the surface itself, with the reason
+  const baseline = pinned ?? (playlist.currentIndex > 0 ? playlist.snapshots[playlist.currentIndex - 1] : null)
+  const { comparison, comparisonError } = useMemo(() => {
+    if (!comparing || !currentSnapshot || !baseline || baseline === currentSnapshot) {
+      return { comparison: null, comparisonError: null }
+    }
+    try {
+      return { comparison: compareSnapshots(baseline, currentSnapshot), comparisonError: null }
+    } catch (err) {
+      return { comparison: null, comparisonError: `Can't compare: ${(err as Error).message}` }
+    }
+  }, [comparing, baseline, currentSnapshot])
+
   // Update playlist state for display
   const displayPlaylist: VolatilityPlaylist = {
     ...playlist,
@@ -805,6 +987,9 @@ export function App() {
       <SurfacePanel
         surface={surface}
         projection={projection}
+        cursor={cursor}
+        comparison={comparison}
+        comparisonError={comparisonError}
         width={cubeWidth}
         height={cubeHeight}
         paused={paused}
@@ -825,12 +1010,12 @@ export function App() {
         <VolStatsPanel surface={surface} width={panelWidth} height={bottomPanelHeight} />
         <GreeksPanel surface={surface} snapshot={currentSnapshot} width={panelWidth} height={bottomPanelHeight} />
         <LiquidityPanel snapshot={currentSnapshot} width={panelWidth} height={bottomPanelHeight} />
-        <TermStructurePanel surface={surface} width={panelWidth} height={bottomPanelHeight} />
-        <SmilePanel surface={surface} width={panelWidth} height={bottomPanelHeight} />
+        <TermStructurePanel surface={surface} selected={selected} width={panelWidth} height={bottomPanelHeight} />
+        <SmilePanel surface={surface} selected={selected} width={panelWidth} height={bottomPanelHeight} />
       </Box>
 
       {/* Status bar at bottom */}
-      <StatusBar width={termWidth} />
+      <StatusBar width={termWidth} health={health} />
     </Box>
   )
 }
@@ -0,0 +1,97 @@
+/**
+ * Template Dashboard
+ * Shows each column's worker-rendered text in the template's grid layout
+ */
+
+import React, { useState, useEffect, useMemo } from 'react'
+import { Box, Text, useApp, useInput } from 'ink'
+import { layoutTemplate } from '../config/layout.ts'
+import type { SixcolTemplate } from '../config/types.ts'
+import type { Sixcol } from '../main.ts'
+import { inputFromInk } from '../column/widgets/input.ts'
+import { compositeFrames, panelViewport } from './composite.ts'
+import { TemplateLayout } from './TemplateLayout.tsx'
+import { useTerminalSize } from './useTerminalSize.ts'
+
+export interface DashboardProps {
+  /** Running instance whose columns render the panels */
+  sixcol: Pick<Sixcol, 'requestRender' | 'renderFrame' | 'onRender' | 'sendInput' | 'health' | 'onHealth' | 'onReload'>
+  /** Template the instance was started from (grid and titles; replaced on reload) */
+  template: SixcolTemplate
+}
+
+export function Dashboard({ sixcol, template: initialTemplate }: DashboardProps) {
+  const { exit } = useApp()
+  const size = useTerminalSize()
+
+  const [focus, setFocus] = useState(0)
+  const [, setFrames] = useState(0) // Bumped on every RENDER_RESULT
+  const [health, setHealth] = useState(() => sixcol.health())
+  const [template, setTemplate] = useState(initialTemplate)
+
+  useEffect(() => sixcol.onRender(() => setFrames((n) => n + 1)), [sixcol])
+  useEffect(() => sixcol.onHealth(() => setHealth(sixcol.health())), [sixcol])
+  useEffect(() => sixcol.onReload(setTemplate), [sixcol])
+
+  // Panels fill the terminal above the status line, reflowing on resize
+  const height = size.height - 1
+  const rects = useMemo(() => layoutTemplate(template, size.width, height), [template, size.width, height])
+  const ids = Array.from(rects.keys())
+  const focusedId = ids[focus % Math.max(1, ids.length)]
+
+  // Columns re-render into their panel whenever its size or focus changes
+  useEffect(() => {
+    for (const [id, rect] of rects) {
+      sixcol.requestRender(id, { ...panelViewport(rect), focused: id === focusedId })
+    }
+  }, [sixcol, rects, focusedId])
+
+  // Forms take typed text, so q only quits elsewhere (Ctrl+C always does)
+  const typing = template.columns.find((column) => column.id === focusedId)?.type === 'form'
+
+  // Tab moves focus between panels; other keys go to the focused column
+  useInput((input, key) => {
+    if (input === 'q' && !typing) exit()
+    if (key.tab && ids.length > 0) {
+      setFocus((f) => (f + (key.shift ? ids.length - 1 : 1)) % ids.length)
+      return
+    }
+    const message = inputFromInk(input, key)
+    if (message && focusedId) sixcol.sendInput(focusedId, message)
+  })
+
+  const healthy = health.filter((h) => h.state === 'healthy').length
+  const down = health.filter((h) => h.state === 'crashed' || h.state === 'restarting')
+
+  return (
+    <Box flexDirection="column">
+      <TemplateLayout
+        template={template}
+        width={size.width}
+        height={height}
+        renderPanel={(column, rect) => {
+          const frame = sixcol.renderFrame(column.id)
+          const panel = {
+            x: 0,
+            y: 0,
+            width: rect.width,
+            height: rect.height,
+            title: frame?.title ?? column.title ?? column.id,
+            lines: frame?.lines ?? null,
+            focused: column.id === focusedId,
+            border: template.options?.borderStyle,
+          }
+          return <Text>{compositeFrames(rect.width, rect.height, [panel]).join('\n')}</Text>
+        }}
+      />
+      <Box>
+        <Text bold color="cyan">{template.name}</Text>
+        <Text color={down.length > 0 ? 'red' : 'green'}>
+          {' '}{healthy}/{health.length} healthy
+          {down.length > 0 ? ` (down: ${down.map((h) => h.id).join(', ')})` : ''}
+        </Text>
+        <Text dimColor>  Tab: focus  {typing ? 'Ctrl+C' : 'q'}: quit</Text>
+      </Box>
+    </Box>
+  )
+}
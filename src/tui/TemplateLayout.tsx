@@ -0,0 +1,45 @@
+/**
+ * Template Layout
+ * Turns a template's grid (rows, cols, gap, positions, track sizes) into an
+ * Ink box tree, one absolutely placed box per column
+ */
+
+import React, { useMemo } from 'react'
+import { Box } from 'ink'
+import { layoutTemplate, type CellRect } from '../config/layout.ts'
+import type { ColumnConfig, SixcolTemplate } from '../config/types.ts'
+
+export interface TemplateLayoutProps {
+  /** Template whose columns are laid out */
+  template: SixcolTemplate
+  /** Screen area in terminal cells */
+  width: number
+  height: number
+  /** Content of a column's box, sized to rect */
+  renderPanel: (column: ColumnConfig, rect: CellRect) => React.ReactNode
+}
+
+export function TemplateLayout({ template, width, height, renderPanel }: TemplateLayoutProps): React.ReactElement {
+  const rects = useMemo(() => layoutTemplate(template, width, height), [template, width, height])
+
+  return (
+    <Box width={width} height={height}>
+      {template.columns.map((column) => {
+        const rect = rects.get(column.id)
+        if (!rect || rect.width <= 0 || rect.height <= 0) return null
+        return (
+          <Box
+            key={column.id}
+            position="absolute"
+            marginLeft={rect.x}
+            marginTop={rect.y}
+            width={rect.width}
+            height={rect.height}
+          >
+            {renderPanel(column, rect)}
+          </Box>
+        )
+      })}
+    </Box>
+  )
+}
@@ -0,0 +1,42 @@
+/**
+ * Tests for the panel compositor
+ */
+
+import { describe, it, expect } from 'bun:test'
+import { compositeFrames, panelViewport } from './composite.ts'
+import { stripAnsi, styled, visibleWidth } from '../render/ansi.ts'
+
+describe('Panel compositor', () => {
+  it('should give panels their border-less viewport', () => {
+    expect(panelViewport({ x: 0, y: 15, width: 100, height: 15 })).toEqual({ width: 98, height: 13 })
+    expect(panelViewport({ x: 0, y: 0, width: 1, height: 0 })).toEqual({ width: 0, height: 0 })
+  })
+
+  it('should draw bordered, titled panels around rendered lines', () => {
+    const lines = compositeFrames(20, 4, [
+      { x: 0, y: 0, width: 10, height: 4, title: 'Left', lines: ['ab', styled('cdefghijkl', { color: 'red' })] },
+      { x: 10, y: 0, width: 10, height: 4, title: 'A long title', lines: null, focused: true },
+    ])
+
+    expect(lines.map(stripAnsi)).toEqual([
+      '┌─ Left ─┐┌─ A l… ─┐',
+      '│ab      ││Waiting │',
+      '│cdefghij││        │',
+      '└────────┘└────────┘',
+    ])
+    expect(lines.every((line) => visibleWidth(line) === 20)).toBe(true)
+    // Focused panels are drawn in cyan; styled content never bleeds into the border
+    expect(lines[0]).toContain('\x1b[36m')
+    expect(lines[2]).toContain('cdefghij\x1b[0m')
+  })
+
+  it('should draw the template border styles', () => {
+    const panel = { x: 0, y: 0, width: 6, height: 3, title: '', lines: ['x'] }
+    expect(compositeFrames(6, 3, [{ ...panel, border: 'round' }]).map(stripAnsi)).toEqual([
+      '╭────╮',
+      '│x   │',
+      '╰────╯',
+    ])
+    expect(compositeFrames(6, 3, [{ ...panel, border: 'none' }]).map(stripAnsi)).toEqual(['      ', ' x    ', '      '])
+  })
+})
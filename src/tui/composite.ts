@@ -0,0 +1,108 @@
+/**
+ * Panel Compositor
+ * Draws columns' rendered text (RENDER_RESULT lines) into bordered, titled
+ * panels; config/layout.ts decides where the panels go
+ */
+
+import { ANSI_RESET, fitLine, styled } from '../render/ansi.ts'
+
+/**
+ * Panel area in terminal cells
+ */
+export interface PanelRect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export type BorderStyle = 'single' | 'double' | 'round' | 'bold' | 'none'
+
+export interface CompositePanel extends PanelRect {
+  title: string
+  lines: string[] | null // null until the column has rendered
+  focused?: boolean
+  border?: BorderStyle // Template options.borderStyle (default single)
+}
+
+// Corners (top-left, top-right, bottom-left, bottom-right), horizontal, vertical
+const BORDER_CHARS: Record<BorderStyle, string> = {
+  single: '┌┐└┘─│',
+  double: '╔╗╚╝═║',
+  round: '╭╮╰╯─│',
+  bold: '┏┓┗┛━┃',
+  none: '      ',
+}
+
+/**
+ * Area inside a panel's border: the viewport its column renders into
+ */
+export function panelViewport(rect: PanelRect): { width: number; height: number } {
+  return { width: Math.max(0, rect.width - 2), height: Math.max(0, rect.height - 2) }
+}
+
+// Split a styled line into one string per cell, escapes attached to the next character
+function toCells(text: string): string[] {
+  const cells: string[] = []
+  let pending = ''
+  for (const [token] of text.matchAll(/\x1b\[[0-9;]*m|[^\x1b]/gu)) {
+    if (token.startsWith('\x1b')) {
+      pending += token
+    } else {
+      cells.push(pending + token)
+      pending = ''
+    }
+  }
+  if (pending && cells.length > 0) cells[cells.length - 1] += pending
+  return cells
+}
+
+/**
+ * Draw panels into width x height cells
+ * Each panel gets a box border with its title; the focused one is drawn in
+ * cyan. Panels smaller than their border are skipped. With border 'none' the
+ * border cells stay blank, so viewports are the same for every style.
+ */
+export function compositeFrames(width: number, height: number, panels: CompositePanel[]): string[] {
+  const grid: string[][] = []
+  for (let y = 0; y < height; y++) {
+    grid.push(Array(width).fill(' '))
+  }
+
+  // Write text at (x, y), clipped to the screen; starts from a clean style
+  const put = (x: number, y: number, text: string) => {
+    const row = grid[y]
+    if (!row) return
+    const cells = toCells(text)
+    for (let i = 0; i < cells.length && x + i < width; i++) {
+      if (x + i >= 0) row[x + i] = (i === 0 ? ANSI_RESET : '') + cells[i]!
+    }
+  }
+
+  for (const panel of panels) {
+    const { x, y, width: w, height: h } = panel
+    if (w < 2 || h < 2) continue
+
+    const border = panel.focused ? { color: 'cyan', bold: true } : { color: 'gray' }
+    const [tl, tr, bl, br, horizontal, vertical] = [...BORDER_CHARS[panel.border ?? 'single']]
+    put(x, y, styled(tl + horizontal!.repeat(w - 2) + tr, border))
+    put(x, y + h - 1, styled(bl + horizontal!.repeat(w - 2) + br, border))
+
+    // Title over the top border, after the corner and one dash
+    const room = w - 4
+    if (panel.title && room >= 3) {
+      const title = panel.title.length + 2 > room ? ` ${panel.title.slice(0, room - 3)}… ` : ` ${panel.title} `
+      put(x + 2, y, styled(title, { ...border, bold: true }))
+    }
+
+    const inner = panelViewport(panel)
+    const lines = panel.lines ?? [styled('Waiting for column…', { dim: true })]
+    for (let row = 0; row < inner.height; row++) {
+      put(x, y + 1 + row, styled(vertical!, border))
+      put(x + 1, y + 1 + row, fitLine(lines[row] ?? '', inner.width))
+      put(x + w - 1, y + 1 + row, styled(vertical!, border))
+    }
+  }
+
+  return grid.map((row) => row.join(''))
+}
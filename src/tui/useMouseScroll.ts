@@ -20,9 +20,15 @@ export interface DragEvent {
   y: number
 }
 
+export interface ClickEvent {
+  x: number
+  y: number
+}
+
 export interface MouseCallbacks {
   onScroll?: (event: ScrollEvent) => void
   onDrag?: (event: DragEvent) => void
+  onClick?: (event: ClickEvent) => void // Left button released without dragging
 }
 
 // Global modifier state (shared across hook instances)
@@ -35,6 +41,7 @@ let modifierState = {
  * Hook to detect mouse events in the terminal
  * - Scroll wheel for navigation (or zoom with shift/z key)
  * - Click and drag for rotation
+ * - Click (press and release in place) for picking
  */
 export function useMouseScroll(
   onScroll: (event: ScrollEvent) => void,
@@ -54,6 +61,7 @@ export function useMouse(
   // Track mouse state for dragging
   const mouseState = useRef({
     isDown: false,
+    dragged: false,
     lastX: 0,
     lastY: 0,
   })
@@ -124,10 +132,14 @@ export function useMouse(
           if (!isRelease) {
             // Mouse down
             mouseState.current.isDown = true
+            mouseState.current.dragged = false
             mouseState.current.lastX = x
             mouseState.current.lastY = y
           } else {
             // Mouse up
+            if (mouseState.current.isDown && !mouseState.current.dragged) {
+              callbacksRef.current.onClick?.({ x, y })
+            }
             mouseState.current.isDown = false
           }
         }
@@ -138,6 +150,7 @@ export function useMouse(
 
           if (deltaX !== 0 || deltaY !== 0) {
             callbacksRef.current.onDrag?.({ deltaX, deltaY, x, y })
+            mouseState.current.dragged = true
             mouseState.current.lastX = x
             mouseState.current.lastY = y
           }
@@ -0,0 +1,32 @@
+/**
+ * Terminal Size Hook for Ink
+ * Tracks the terminal's columns and rows across resizes
+ */
+
+import { useEffect, useState } from 'react'
+import { useStdout } from 'ink'
+
+export interface TerminalSize {
+  width: number
+  height: number
+}
+
+/**
+ * Current terminal size; components re-render (and reflow) on resize
+ * Falls back to 120x40 when stdout is not a terminal
+ */
+export function useTerminalSize(): TerminalSize {
+  const { stdout } = useStdout()
+  const [size, setSize] = useState<TerminalSize>({ width: stdout?.columns ?? 120, height: stdout?.rows ?? 40 })
+
+  useEffect(() => {
+    if (!stdout) return
+    const onResize = () => setSize({ width: stdout.columns, height: stdout.rows })
+    stdout.on('resize', onResize)
+    return () => {
+      stdout.off('resize', onResize)
+    }
+  }, [stdout])
+
+  return size
+}